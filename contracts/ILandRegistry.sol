@@ -0,0 +1,528 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./ILandRegistryTypes.sol";
+
+/**
+ * @title ILandRegistry
+ * @dev Full interface of the LandRegistry proxy: its own functions plus every function it delegates to a module.
+ * Keep in step with contracts/modules; the test suite checks that each function here is routed
+ */
+interface ILandRegistry is ILandRegistryTypes {
+    // Errors and events from the OpenZeppelin base contracts
+    error OwnableUnauthorizedAccount(address account);
+    error OwnableInvalidOwner(address owner);
+    error InvalidInitialization();
+    error NotInitializing();
+    error ReentrancyGuardReentrantCall();
+    error UUPSUnauthorizedCallContext();
+    error UUPSUnsupportedProxiableUUID(bytes32 slot);
+    error ERC1967InvalidImplementation(address implementation);
+    error ERC1967NonPayable();
+    error AddressEmptyCode(address target);
+    error FailedInnerCall();
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event Initialized(uint64 version);
+    event Upgraded(address indexed implementation);
+
+    // LandRegistry
+    function owner() external view returns (address);
+    function transferOwnership(address newOwner) external;
+    function renounceOwnership() external;
+    function upgradeToAndCall(address newImplementation, bytes memory data) external payable;
+    function proxiableUUID() external view returns (bytes32);
+    function UPGRADE_INTERFACE_VERSION() external view returns (string memory);
+    function initialize() external;
+    function setModuleFunctions(address _module, bytes4[] calldata _selectors) external;
+    function getFunctionModule(bytes4 _selector) external view returns (address);
+
+    // Constants and public state variables of LandRegistryStorage
+    function VERIFICATION_FEE() external view returns (uint256);
+    function TRANSFER_FEE() external view returns (uint256);
+    function BASIS_POINTS() external view returns (uint256);
+    function officerIncentiveBps() external view returns (uint256);
+    function MAX_CO_OWNERS() external view returns (uint256);
+    function MAX_PARTITION_PARCELS() external view returns (uint256);
+    function MAX_MERGE_PARCELS() external view returns (uint256);
+    function SUCCESSION_OBJECTION_PERIOD() external view returns (uint256);
+    function WALLET_RECOVERY_WAITING_PERIOD() external view returns (uint256);
+    function MAX_PAGE_SIZE() external view returns (uint256);
+    function SUB_REGISTRAR_ROLE() external view returns (bytes32);
+    function REGISTRAR_ROLE() external view returns (bytes32);
+    function pendingPartitionOf(uint256) external view returns (uint256);
+    function pendingMergeOf(uint256) external view returns (uint256);
+    function activeEncumbranceCount(uint256) external view returns (uint256);
+    function pendingSuccessionOf(uint256) external view returns (uint256);
+    function transferConsents(uint256, address) external view returns (bool);
+    function activeOfficers(string memory) external view returns (bool);
+    function stateAdmins(string memory, address) external view returns (bool);
+    function auditors(address) external view returns (bool);
+    function courtAuthorities(address) external view returns (bool);
+    function stateTreasurers(string memory, address) external view returns (bool);
+    function officerIncentiveBalances(string memory) external view returns (uint256);
+    function migrationFinalized() external view returns (bool);
+    function pendingProfileChanges(address) external view returns (uint256);
+    function pendingWalletRecoveries(address) external view returns (uint256);
+    function recoveredFromAddress(address) external view returns (address);
+
+    // MigrationModule
+    function migrateOwner(Owner memory _owner) external;
+    function migrateGovernmentOfficer(
+        GovernmentOfficer memory _officer,
+        bytes32[] memory _roles
+    ) external;
+    function migrateProperty(Property memory _property) external;
+    function migrateVerificationRequest(VerificationRequest memory _request) external;
+    function migrateTransferRequest(TransferRequest memory _request) external;
+    function receiveMigrationEscrow() external payable;
+    function finalizeMigration() external;
+    function indexOpenRequests(uint256 _fromId, uint256 _toId) external;
+    function indexSurveyNumbers(uint256 _fromId, uint256 _toId) external;
+    function assignPropertyVillageCodes(
+        uint256[] memory _propertyIds,
+        uint256[] memory _villageCodes
+    ) external;
+    function migrateOwnerIdDocuments(
+        address[] memory _owners,
+        bytes32[] memory _idDocumentHashes
+    ) external;
+    function migrateOwnerPii(address[] memory _owners, bytes32[] memory _piiHashes) external;
+
+    // OwnersModule
+    function registerOwner(
+        bytes32 _idDocumentHash,
+        bytes32 _piiHash,
+        string memory _homeState,
+        string memory _homeDistrict
+    ) external;
+    function updateOwnerContactInfo(
+        bytes32 _piiHash,
+        string memory _homeState,
+        string memory _homeDistrict
+    ) external;
+    function requestProfileChange(
+        bytes32 _newPiiHash,
+        bytes32 _newIdDocumentHash,
+        string memory _supportingDocumentHash
+    ) external returns (uint256);
+    function processProfileChange(
+        uint256 _requestId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    ) external;
+    function grantPiiAccess(address _grantee, string memory _granteeLabel) external;
+    function revokePiiAccess(address _grantee) external;
+    function requestWalletRecovery(
+        address _lostAddress,
+        string memory _affidavitHash
+    ) external returns (uint256);
+    function processWalletRecovery(
+        uint256 _requestId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    ) external;
+    function cancelWalletRecovery(uint256 _requestId) external;
+    function executeWalletRecovery(uint256 _requestId) external;
+
+    // AdministrationModule
+    function registerGovernmentOfficer(
+        string memory _employeeId,
+        string memory _name,
+        string memory _department,
+        string memory _state,
+        string memory _district,
+        address _signerAddress,
+        bytes32[] memory _roles
+    ) external;
+    function setOfficerRole(string memory _employeeId, bytes32 _role, bool _isGranted) external;
+    function setStateAdmin(string memory _state, address _admin, bool _isAuthorized) external;
+    function registerAdminUnits(
+        AdminLevel _level,
+        uint256 _parentCode,
+        uint256[] memory _codes,
+        string[] memory _names
+    ) external;
+    function setAuditor(address _auditor, bool _isAuthorized) external;
+    function setOfficerSigner(string memory _employeeId, address _newSigner) external;
+    function setOfficerStatus(string memory _employeeId, bool _isActive) external;
+    function setCourtAuthority(address _authority, bool _isAuthorized) external;
+    function setFeeSchedule(
+        string memory _state,
+        string memory _propertyType,
+        uint256 _stampDutyBps,
+        uint256 _minStampDuty,
+        uint256 _maxStampDuty,
+        uint256 _registrationFee
+    ) external;
+    function removeFeeSchedule(string memory _state, string memory _propertyType) external;
+    function setStampDutyConcession(
+        string memory _state,
+        string memory _buyerCategory,
+        uint256 _concessionBps
+    ) external;
+    function setApprovalQuorum(
+        string memory _state,
+        uint256 _requiredApprovals,
+        uint256 _valueThreshold
+    ) external;
+    function setQuorumPropertyType(
+        string memory _state,
+        string memory _propertyType,
+        bool _requiresQuorum
+    ) external;
+    function setOfficerIncentiveShare(uint256 _incentiveBps) external;
+    function setStateTreasurer(
+        string memory _state,
+        address _treasurer,
+        bool _isAuthorized
+    ) external;
+    function setCircleRate(
+        string memory _state,
+        string memory _district,
+        string memory _propertyType,
+        string memory _employeeId,
+        uint256 _ratePerSqm
+    ) external;
+
+    // PropertiesModule
+    function registerProperty(
+        string memory _propertyAddress,
+        uint256 _villageCode,
+        uint256 _area,
+        string memory _propertyType,
+        string memory _surveyNumber,
+        string memory _subDivision,
+        string memory _documentHash
+    ) external returns (uint256);
+    function setPropertyCoOwners(
+        uint256 _propertyId,
+        address[] memory _coOwners,
+        uint256[] memory _sharePercentages
+    ) external;
+    function requestPropertyVerification(uint256 _propertyId) external payable returns (uint256);
+    function requestPropertyVerificationAsAttorney(
+        uint256 _poaId,
+        uint256 _propertyId
+    ) external payable returns (uint256);
+    function verifyProperty(
+        uint256 _verificationId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    ) external;
+    function updatePropertyDocument(uint256 _propertyId, string memory _newDocumentHash) external;
+    function updatePropertyDocumentAsAttorney(
+        uint256 _poaId,
+        uint256 _propertyId,
+        string memory _newDocumentHash
+    ) external;
+
+    // TransfersModule
+    function createTransferRequest(
+        uint256 _propertyId,
+        address _toOwner,
+        string memory _transferDocumentHash,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    ) external payable returns (uint256);
+    function createTransferRequestAsAttorney(
+        uint256 _poaId,
+        uint256 _propertyId,
+        address _toOwner,
+        string memory _transferDocumentHash,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    ) external payable returns (uint256);
+    function createShareTransferRequest(
+        uint256 _propertyId,
+        address _toOwner,
+        string memory _transferDocumentHash,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    ) external payable returns (uint256);
+    function consentToTransfer(uint256 _requestId) external;
+    function approveTransferRequest(uint256 _requestId, string memory _employeeId) external;
+    function rejectTransferRequest(
+        uint256 _requestId,
+        string memory _employeeId,
+        string memory _reason
+    ) external;
+    function cancelTransferRequest(uint256 _requestId) external;
+    function acceptTransferRequest(uint256 _requestId) external;
+    function declineTransferRequest(uint256 _requestId) external;
+    function completeTransfer(uint256 _requestId) external;
+
+    // ParcelsModule
+    function requestPartition(
+        uint256 _propertyId,
+        uint256[] memory _childAreas,
+        string[] memory _childSubDivisions,
+        string memory _documentHash
+    ) external returns (uint256);
+    function processPartitionRequest(
+        uint256 _partitionId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    ) external;
+    function requestMerge(
+        uint256[] memory _propertyIds,
+        string memory _surveyNumber,
+        string memory _documentHash
+    ) external returns (uint256);
+    function processMergeRequest(
+        uint256 _mergeId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    ) external;
+
+    // RightsModule
+    function fileSuccessionClaim(
+        uint256 _propertyId,
+        address _deceasedOwner,
+        string memory _deathCertificateHash,
+        address[] memory _heirs,
+        uint256[] memory _heirShares
+    ) external returns (uint256);
+    function objectToSuccession(uint256 _successionId, string memory _reason) external;
+    function processSuccessionRequest(
+        uint256 _successionId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    ) external;
+    function fileLease(
+        uint256 _propertyId,
+        address _lessee,
+        uint256 _startDate,
+        uint256 _endDate,
+        uint256 _monthlyRent,
+        string memory _deedHash
+    ) external returns (uint256);
+    function processLease(
+        uint256 _leaseId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    ) external;
+    function grantPowerOfAttorney(
+        address _attorney,
+        uint256[] memory _propertyIds,
+        bool _canRequestVerification,
+        bool _canCreateTransfer,
+        bool _canUpdateDocuments,
+        uint256 _expiryDate,
+        string memory _documentHash
+    ) external returns (uint256);
+    function countersignPowerOfAttorney(uint256 _poaId, string memory _employeeId) external;
+    function revokePowerOfAttorney(uint256 _poaId) external;
+    function registerEncumbrance(
+        uint256 _propertyId,
+        string memory _encumbranceType,
+        uint256 _amount,
+        string memory _documentHash
+    ) external returns (uint256);
+    function consentToEncumbrance(uint256 _encumbranceId) external;
+    function coSignEncumbrance(uint256 _encumbranceId, string memory _employeeId) external;
+    function releaseEncumbrance(uint256 _encumbranceId) external;
+    function consentToEncumberedTransfer(uint256 _encumbranceId, address _transferee) external;
+    function placeLegalHold(
+        uint256 _propertyId,
+        string memory _caseReference,
+        string memory _documentHash,
+        uint256 _expiryDate
+    ) external returns (uint256);
+    function liftLegalHold(uint256 _holdId) external;
+
+    // SearchModule
+    function getPropertyBySurveyNumber(
+        string memory _state,
+        string memory _district,
+        string memory _surveyNumber,
+        string memory _subDivision
+    ) external view returns (uint256);
+    function searchPropertiesByLocation(
+        string memory _state,
+        string memory _district
+    ) external view returns (uint256[] memory);
+    function searchPropertiesByLocationPaged(
+        string memory _state,
+        string memory _district,
+        PropertyStatusFilter _status,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total);
+    function searchPropertiesByAdminUnitPaged(
+        AdminLevel _level,
+        uint256 _lgdCode,
+        PropertyStatusFilter _status,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total);
+    function getAdminUnit(
+        AdminLevel _level,
+        uint256 _lgdCode
+    ) external view returns (AdminUnit memory);
+    function getAdminUnitChildren(
+        AdminLevel _level,
+        uint256 _lgdCode
+    ) external view returns (uint256[] memory);
+    function searchPropertiesByOwnerIdDocument(
+        bytes32 _idDocumentHash
+    ) external view returns (uint256[] memory ownerAddresses, uint256[][] memory properties);
+    function getPendingVerificationRequests() external view returns (uint256[] memory);
+    function getPendingVerificationRequestsPaged(
+        string memory _state,
+        string memory _district,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total);
+    function getPendingPartitionRequests() external view returns (uint256[] memory);
+    function getPendingSuccessionRequests() external view returns (uint256[] memory);
+    function getPendingMergeRequests() external view returns (uint256[] memory);
+    function getPendingTransferRequests() external view returns (uint256[] memory);
+    function getPendingTransferRequestsPaged(
+        string memory _state,
+        string memory _district,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total);
+
+    // RecordsModule
+    function getOwnerProperties(address _owner) external view returns (uint256[] memory);
+    function getPropertyCoOwners(uint256 _propertyId) external view returns (CoOwner[] memory);
+    function getPropertyTransferHistory(
+        uint256 _propertyId
+    ) external view returns (uint256[] memory);
+    function getPropertyDetails(uint256 _propertyId) external view returns (Property memory);
+    function getOwnerDetails(address _ownerAddress) external view returns (Owner memory);
+    function getOwnerProfileHistory(
+        address _ownerAddress
+    ) external view returns (OwnerProfileRecord[] memory);
+    function getProfileChangeRequestDetails(
+        uint256 _requestId
+    ) external view returns (ProfileChangeRequest memory);
+    function getPendingProfileChangeRequests() external view returns (uint256[] memory);
+    function getTotalProfileChangeRequests() external view returns (uint256);
+    function hasPiiAccess(address _ownerAddress, address _reader) external view returns (bool);
+    function getPiiAccessGrants(
+        address _ownerAddress
+    ) external view returns (PiiAccessGrant[] memory);
+    function getWalletRecoveryRequestDetails(
+        uint256 _requestId
+    ) external view returns (WalletRecoveryRequest memory);
+    function getPendingWalletRecoveryRequests() external view returns (uint256[] memory);
+    function getWalletRecoveryRequestsOf(address _wallet) external view returns (uint256[] memory);
+    function getTotalWalletRecoveryRequests() external view returns (uint256);
+    function getTransferRequestDetails(
+        uint256 _requestId
+    ) external view returns (TransferRequest memory);
+    function getVerificationRequestDetails(
+        uint256 _verificationId
+    ) external view returns (VerificationRequest memory);
+    function getPartitionRequestDetails(
+        uint256 _partitionId
+    ) external view returns (PartitionRequest memory);
+    function getMergeRequestDetails(uint256 _mergeId) external view returns (MergeRequest memory);
+    function getPropertyMergeHistory(uint256 _propertyId) external view returns (uint256[] memory);
+    function getEncumbranceDetails(
+        uint256 _encumbranceId
+    ) external view returns (Encumbrance memory);
+    function getPropertyEncumbrances(uint256 _propertyId) external view returns (uint256[] memory);
+    function getSuccessionRequestDetails(
+        uint256 _successionId
+    ) external view returns (SuccessionRequest memory);
+    function getSuccessionObjections(
+        uint256 _successionId
+    ) external view returns (SuccessionObjection[] memory);
+    function getLeaseDetails(uint256 _leaseId) external view returns (Lease memory);
+    function getPropertyLeases(uint256 _propertyId) external view returns (uint256[] memory);
+    function getLesseeLeases(address _lessee) external view returns (uint256[] memory);
+    function isLeaseActive(uint256 _leaseId) external view returns (bool);
+    function isLeaseExpired(uint256 _leaseId) external view returns (bool);
+    function getActivePropertyLeases(uint256 _propertyId) external view returns (uint256[] memory);
+    function getPowerOfAttorneyDetails(
+        uint256 _poaId
+    ) external view returns (PowerOfAttorney memory);
+    function getPrincipalPowersOfAttorney(
+        address _principal
+    ) external view returns (uint256[] memory);
+    function getAttorneyPowersOfAttorney(
+        address _attorney
+    ) external view returns (uint256[] memory);
+    function getPropertyAttorneyActions(
+        uint256 _propertyId
+    ) external view returns (AttorneyAction[] memory);
+    function getTotalLeases() external view returns (uint256);
+    function getTotalPowersOfAttorney() external view returns (uint256);
+    function getLegalHoldDetails(uint256 _holdId) external view returns (LegalHold memory);
+    function getPropertyLegalHolds(uint256 _propertyId) external view returns (uint256[] memory);
+    function isUnderLegalHold(uint256 _propertyId) external view returns (bool);
+    function getGovernmentOfficerDetails(
+        string memory _employeeId
+    ) external view returns (GovernmentOfficer memory);
+    function hasOfficerRole(string memory _employeeId, bytes32 _role) external view returns (bool);
+    function getStateOfficers(
+        string memory _state
+    ) external view returns (GovernmentOfficer[] memory);
+    function isPropertyWithinJurisdiction(
+        string memory _employeeId,
+        uint256 _propertyId
+    ) external view returns (bool);
+    function isPropertyTransferable(uint256 _propertyId) external view returns (bool);
+    function getTotalProperties() external view returns (uint256);
+    function getTotalTransferRequests() external view returns (uint256);
+    function getTotalVerificationRequests() external view returns (uint256);
+    function getTotalPendingVerificationRequests() external view returns (uint256);
+    function getTotalPendingTransferRequests() external view returns (uint256);
+    function getTotalPartitionRequests() external view returns (uint256);
+    function getTotalMergeRequests() external view returns (uint256);
+    function getTotalSuccessionRequests() external view returns (uint256);
+    function getTotalLegalHolds() external view returns (uint256);
+    function getTotalEncumbrances() external view returns (uint256);
+    function getApprovalQuorum(string memory _state) external view returns (ApprovalQuorum memory);
+    function isQuorumPropertyType(
+        string memory _state,
+        string memory _propertyType
+    ) external view returns (bool);
+    function getFeeSchedule(
+        string memory _state,
+        string memory _propertyType
+    ) external view returns (FeeSchedule memory);
+    function getStampDutyConcession(
+        string memory _state,
+        string memory _buyerCategory
+    ) external view returns (uint256);
+    function quoteTransferFee(
+        uint256 _propertyId,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    ) external view returns (uint256);
+    function getCircleRate(
+        string memory _state,
+        string memory _district,
+        string memory _propertyType
+    ) external view returns (CircleRate memory);
+    function getGuidanceValue(uint256 _propertyId) external view returns (uint256);
+    function isTransferUndervalued(uint256 _requestId) external view returns (bool);
+
+    // TreasuryModule
+    function withdrawFromStateTreasury(
+        string memory _state,
+        address _recipient,
+        uint256 _amount
+    ) external returns (uint256);
+    function withdrawOfficerIncentive(string memory _employeeId) external;
+    function getStateTreasury(string memory _state) external view returns (TreasuryAccount memory);
+    function getTreasuryWithdrawal(
+        uint256 _withdrawalId
+    ) external view returns (TreasuryWithdrawal memory);
+    function getStateTreasuryWithdrawals(
+        string memory _state
+    ) external view returns (uint256[] memory);
+    function getTotalTreasuryWithdrawals() external view returns (uint256);
+}
@@ -0,0 +1,850 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ILandRegistryTypes
+ * @dev Records and events shared by LandRegistry, its modules and ILandRegistry
+ */
+interface ILandRegistryTypes {
+    // Property structure with India-specific fields
+    struct Property {
+        uint256 propertyId;
+        string propertyAddress;
+        string district;
+        string state; // Indian state
+        uint256 area; // in square meters
+        string propertyType; // Residential, Commercial, Agricultural, Industrial
+        string surveyNumber; // Survey number as per revenue records
+        string subDivision; // Sub-division if any
+        address currentOwner;
+        string documentHash; // IPFS hash or document hash
+        bool isRegistered;
+        bool isVerified;
+        bool isTransferable; // Only verified properties can be transferred
+        uint256 registrationDate;
+        uint256 lastTransferDate;
+        uint256 verificationFee; // Fee paid for verification
+        bool isRetired; // Superseded by a partition or merge; kept for audit only
+        uint256[] parentPropertyIds; // Lineage: records this parcel was created from
+        uint256[] childPropertyIds; // Lineage: records created from this parcel
+        string tehsil; // Tehsil/taluka, from the LGD registry
+        string village; // Village or urban ward, from the LGD registry
+        uint256 villageCode; // LGD village code; 0 for parcels registered before the hierarchy
+    }
+
+    // Owner structure
+    struct Owner {
+        address ownerAddress;
+        string name; // Deprecated: plaintext name from before the PII vault, cleared by migrateOwnerPii
+        string idDocument; // Deprecated: plaintext ID from before hashing, cleared by migrateOwnerIdDocuments
+        string contactInfo; // Deprecated: plaintext contact from before the PII vault, cleared by migrateOwnerPii
+        bool isVerified;
+        string homeState;
+        string homeDistrict;
+        bytes32 idDocumentHash; // Salted hash of the Aadhaar, PAN, or passport number, computed client-side
+        bytes32 piiHash; // Commitment to the owner's contact record held in the off-chain PII vault
+    }
+
+    // Government officer structure
+    struct GovernmentOfficer {
+        string employeeId;
+        address signerAddress; // Wallet authorized to act under this employee ID
+        string name;
+        string department;
+        string state;
+        string district;
+        bool isActive;
+        uint256 registrationDate;
+    }
+
+    // Transfer request structure
+    struct TransferRequest {
+        uint256 requestId;
+        uint256 propertyId;
+        address fromOwner;
+        address toOwner;
+        uint256 requestDate;
+        bool isApproved;
+        bool isCompleted;
+        string transferDocumentHash;
+        uint256 transferFee;
+        bool isRejected; // Rejected by an officer, fee refunded to the payer
+        bool isCancelled; // Withdrawn by the seller before approval, fee refunded to the payer
+        string rejectionReason;
+        bool isAcceptedByBuyer; // Buyer consent is required before completion
+        bool isDeclinedByBuyer;
+        uint256 buyerResponseDate;
+        bool isShareTransfer; // Moves only the seller's co-ownership share
+        uint256 sharePercentage; // 100 for whole-property transfers
+        bool isSuccession; // Recorded on approval of a succession claim, not created by the seller
+        uint256 declaredValue; // Sale consideration declared by the seller, in wei
+        string buyerCategory; // Concession category claimed for the buyer, empty for none
+        uint256 guidanceValue; // Circle-rate value of the transferred area when filed, 0 if no rate is set
+        uint256 requiredApprovals; // Distinct officers needed to approve, fixed when filed
+        string[] approverEmployeeIds; // Officers who have approved so far
+        address feePayer; // Wallet that paid transferFee and gets any refund; the seller unless an attorney filed it
+    }
+
+    // Maker-checker rule for a state's high-value or flagged transfers
+    struct ApprovalQuorum {
+        uint256 requiredApprovals; // 1 disables the quorum
+        uint256 valueThreshold; // declared value in wei at or above which the quorum applies, 0 for none
+    }
+
+    // Ledger account holding a state's share of registry fees
+    struct TreasuryAccount {
+        uint256 balance; // awaiting withdrawal by the state's treasurers
+        uint256 totalCredited;
+        uint256 totalWithdrawn;
+    }
+
+    // Withdrawal from a state treasury account
+    struct TreasuryWithdrawal {
+        uint256 withdrawalId;
+        string state;
+        address treasurer;
+        address recipient;
+        uint256 amount;
+        uint256 withdrawalDate;
+    }
+
+    // District circle rate (guidance value) for a property type, maintained by officers
+    struct CircleRate {
+        uint256 ratePerSqm; // in wei per square meter
+        string setByEmployeeId;
+        uint256 updatedDate;
+    }
+
+    // Stamp duty and registration fee charged on transfers of a property type in a state
+    struct FeeSchedule {
+        uint256 stampDutyBps; // basis points of the declared value, e.g. 500 = 5%
+        uint256 minStampDuty; // in wei
+        uint256 maxStampDuty; // in wei, 0 for no cap
+        uint256 registrationFee; // flat fee in wei added to the stamp duty
+        bool isActive;
+    }
+
+    // Partition (sub-division) request structure
+    struct PartitionRequest {
+        uint256 partitionId;
+        uint256 propertyId;
+        address requestedBy;
+        uint256[] childAreas; // in square meters, must sum to the parent's area
+        string[] childSubDivisions; // e.g. "123/1", "123/2"
+        string documentHash; // Survey sketch or partition deed
+        uint256 requestDate;
+        bool isPending;
+        bool isApproved;
+        string officerEmployeeId;
+        string notes;
+        uint256[] childPropertyIds; // Filled in on approval
+    }
+
+    // Amalgamation (merge) request structure
+    struct MergeRequest {
+        uint256 mergeId;
+        uint256[] propertyIds; // Source parcels, all owned by requestedBy in one district
+        address requestedBy;
+        string surveyNumber; // Survey number assigned to the merged parcel
+        string documentHash; // Amalgamation order or survey sketch
+        uint256 requestDate;
+        bool isPending;
+        bool isApproved;
+        string officerEmployeeId;
+        string notes;
+        uint256 mergedPropertyId; // Filled in on approval
+    }
+
+    // Encumbrance (mortgage, lien) registered by a lender against a property
+    struct Encumbrance {
+        uint256 encumbranceId;
+        uint256 propertyId;
+        address lender;
+        string encumbranceType; // Mortgage, Lien, Charge
+        uint256 amount; // Secured amount in INR
+        string documentHash; // Loan or charge deed
+        uint256 createdDate;
+        bool isActive;
+        uint256 releasedDate;
+        string coSigningOfficerId; // Empty unless an officer co-signed the entry
+        address approvedTransferee; // Buyer the lender has consented to, if any
+        bool isPending; // Awaiting the owner's consent or an officer's co-sign; blocks nothing until then
+    }
+
+    // Succession claim filed by a claimant after an owner's death
+    struct SuccessionRequest {
+        uint256 successionId;
+        uint256 propertyId;
+        address claimant;
+        address deceasedOwner;
+        string deathCertificateHash;
+        address[] heirs;
+        uint256[] heirShares; // Percent of the whole property; sums to the deceased's share
+        uint256 filedDate;
+        uint256 objectionDeadline; // Officers can approve only after this
+        bool isPending;
+        bool isApproved;
+        string officerEmployeeId;
+        string notes;
+    }
+
+    // Objection raised against a succession claim during the objection window
+    struct SuccessionObjection {
+        address objector;
+        string reason;
+        uint256 objectionDate;
+    }
+
+    // Lease or tenancy deed over a property, registered by an officer
+    struct Lease {
+        uint256 leaseId;
+        uint256 propertyId;
+        address lessor;
+        address lessee;
+        uint256 startDate;
+        uint256 endDate; // Lease is flagged expired once this passes
+        uint256 monthlyRent; // in INR
+        string deedHash;
+        uint256 filedDate;
+        bool isPending;
+        bool isApproved; // Registered by an officer
+        string officerEmployeeId;
+        string notes;
+    }
+
+    // Power of attorney letting an attorney act for a property owner (principal)
+    struct PowerOfAttorney {
+        uint256 poaId;
+        address principal;
+        address attorney;
+        uint256[] propertyIds; // Empty = all of the principal's properties
+        bool canRequestVerification;
+        bool canCreateTransfer;
+        bool canUpdateDocuments;
+        uint256 expiryDate;
+        string documentHash; // Registered POA deed
+        uint256 grantedDate;
+        string countersigningOfficerId; // Grant is inactive until an officer countersigns
+        bool isRevoked;
+    }
+
+    // Action taken by an attorney on a principal's behalf
+    struct AttorneyAction {
+        uint256 poaId;
+        address principal;
+        address attorney;
+        string action; // "Request Verification", "Create Transfer", "Update Documents"
+        uint256 referenceId; // Verification or transfer request ID, 0 for document updates
+        uint256 actionDate;
+    }
+
+    // Court-ordered legal hold freezing a property under litigation
+    struct LegalHold {
+        uint256 holdId;
+        uint256 propertyId;
+        address authority; // Court authority that placed the hold; only it can lift early
+        string caseReference; // e.g. "OS 123/2024, City Civil Court Mumbai"
+        string documentHash; // Court order
+        uint256 placedDate;
+        uint256 expiryDate; // 0 = until lifted
+        bool isActive;
+        uint256 liftedDate;
+    }
+
+    // Co-owner of a jointly held property
+    struct CoOwner {
+        address ownerAddress;
+        uint256 sharePercentage; // Whole percent; all shares of a property sum to 100
+    }
+
+    // Verification request structure
+    struct VerificationRequest {
+        uint256 verificationId;
+        uint256 propertyId;
+        address propertyOwner;
+        uint256 requestDate;
+        uint256 feePaid;
+        bool isPending;
+        bool isApproved;
+        string officerEmployeeId;
+        string verificationNotes;
+    }
+
+    // Owner profile values replaced by a profile change, kept for audit
+    struct OwnerProfileRecord {
+        bytes32 idDocumentHash;
+        bytes32 piiHash;
+        string homeState;
+        string homeDistrict;
+        uint256 changedDate;
+        string approvedByEmployeeId; // Empty for self-service contact updates
+    }
+
+    // Name or ID document change awaiting officer approval
+    struct ProfileChangeRequest {
+        uint256 requestId;
+        address ownerAddress;
+        bytes32 newPiiHash; // Vault record carrying the new name
+        bytes32 newIdDocumentHash;
+        string supportingDocumentHash; // Gazette notification, affidavit or re-issued ID
+        uint256 requestDate;
+        bool isPending;
+        bool isApproved;
+        string officerEmployeeId;
+        string notes;
+    }
+
+    // Read access to an owner's vault record, granted by the owner to an officer's or bank's wallet
+    struct PiiAccessGrant {
+        address grantee;
+        string granteeLabel; // e.g. "GVT001 - Rajesh Kumar" or "State Bank of India, Fort branch"
+        uint256 grantedDate;
+    }
+
+    // Officer-mediated move of an owner's record and properties from a lost wallet to a new one
+    struct WalletRecoveryRequest {
+        uint256 requestId;
+        address lostAddress;
+        address newAddress; // Files the request and executes it after the waiting period
+        string affidavitHash; // Sworn affidavit of key loss, reviewed by the officer with the claimant's ID document
+        uint256 requestDate;
+        bool isPending; // Awaiting officer review
+        bool isApproved;
+        bool isCancelled;
+        bool isExecuted;
+        string officerEmployeeId;
+        string notes;
+        uint256 executableAfter; // Set on approval; the lost wallet can still cancel until then
+    }
+
+    // Property status filter for paged location searches
+    enum PropertyStatusFilter {
+        Any,
+        Verified,
+        Unverified,
+        Transferable,
+        Retired
+    }
+
+    // Levels of the Local Government Directory (LGD) hierarchy
+    enum AdminLevel {
+        None,
+        State,
+        District,
+        Tehsil,
+        Village
+    }
+
+    // Administrative unit keyed by its LGD code; codes are only unique within a level
+    struct AdminUnit {
+        uint256 lgdCode;
+        string name;
+        AdminLevel level;
+        uint256 parentCode; // LGD code of the enclosing unit one level up; 0 for states
+    }
+
+    // Events
+    event PropertyRegistered(
+        uint256 indexed propertyId,
+        address indexed owner,
+        string propertyAddress,
+        string state,
+        string district,
+        uint256 registrationDate
+    );
+
+    event VerificationRequested(
+        uint256 indexed verificationId,
+        uint256 indexed propertyId,
+        address indexed owner,
+        uint256 feePaid,
+        uint256 requestDate
+    );
+
+    event PropertyVerified(
+        uint256 indexed propertyId,
+        uint256 indexed verificationId,
+        string officerEmployeeId,
+        uint256 verificationDate
+    );
+
+    event TransferRequestCreated(
+        uint256 indexed requestId,
+        uint256 indexed propertyId,
+        address indexed fromOwner,
+        address toOwner,
+        uint256 requestDate
+    );
+
+    event TransferRequestApproved(
+        uint256 indexed requestId,
+        string officerEmployeeId,
+        uint256 approvalDate
+    );
+
+    event TransferRequestRejected(
+        uint256 indexed requestId,
+        string officerEmployeeId,
+        string reason,
+        uint256 refundAmount,
+        uint256 rejectionDate
+    );
+
+    event TransferRequestCancelled(
+        uint256 indexed requestId,
+        address indexed fromOwner,
+        uint256 refundAmount,
+        uint256 cancellationDate
+    );
+
+    event TransferRequestAccepted(
+        uint256 indexed requestId,
+        address indexed toOwner,
+        uint256 acceptanceDate
+    );
+
+    event TransferRequestDeclined(
+        uint256 indexed requestId,
+        address indexed toOwner,
+        uint256 refundAmount,
+        uint256 declineDate
+    );
+
+    event PropertyTransferred(
+        uint256 indexed propertyId,
+        address indexed fromOwner,
+        address indexed toOwner,
+        uint256 transferDate
+    );
+
+    event ShareTransferred(
+        uint256 indexed propertyId,
+        address indexed fromOwner,
+        address indexed toOwner,
+        uint256 sharePercentage,
+        uint256 transferDate
+    );
+
+    event CoOwnersUpdated(
+        uint256 indexed propertyId,
+        address[] coOwners,
+        uint256[] sharePercentages,
+        uint256 updateDate
+    );
+
+    event TransferConsentGiven(
+        uint256 indexed requestId,
+        address indexed coOwner,
+        uint256 consentDate
+    );
+
+    event SuccessionFiled(
+        uint256 indexed successionId,
+        uint256 indexed propertyId,
+        address indexed claimant,
+        address deceasedOwner,
+        uint256 objectionDeadline,
+        uint256 filedDate
+    );
+
+    event SuccessionObjected(
+        uint256 indexed successionId,
+        address indexed objector,
+        string reason,
+        uint256 objectionDate
+    );
+
+    event SuccessionProcessed(
+        uint256 indexed successionId,
+        uint256 indexed propertyId,
+        string officerEmployeeId,
+        bool approved,
+        uint256 processDate
+    );
+
+    event LeaseFiled(
+        uint256 indexed leaseId,
+        uint256 indexed propertyId,
+        address indexed lessee,
+        uint256 startDate,
+        uint256 endDate,
+        uint256 filedDate
+    );
+
+    event LeaseProcessed(
+        uint256 indexed leaseId,
+        uint256 indexed propertyId,
+        string officerEmployeeId,
+        bool approved,
+        uint256 processDate
+    );
+
+    event PowerOfAttorneyGranted(
+        uint256 indexed poaId,
+        address indexed principal,
+        address indexed attorney,
+        uint256 expiryDate,
+        uint256 grantDate
+    );
+
+    event PowerOfAttorneyCountersigned(
+        uint256 indexed poaId,
+        string officerEmployeeId,
+        uint256 countersignDate
+    );
+
+    event PowerOfAttorneyRevoked(uint256 indexed poaId, uint256 revokeDate);
+
+    event ActedUnderPowerOfAttorney(
+        uint256 indexed poaId,
+        uint256 indexed propertyId,
+        address indexed attorney,
+        address principal,
+        string action,
+        uint256 referenceId,
+        uint256 actionDate
+    );
+
+    event PartitionRequested(
+        uint256 indexed partitionId,
+        uint256 indexed propertyId,
+        address indexed requestedBy,
+        uint256 requestDate
+    );
+
+    event PartitionProcessed(
+        uint256 indexed partitionId,
+        uint256 indexed propertyId,
+        string officerEmployeeId,
+        bool approved,
+        uint256 processDate
+    );
+
+    event PropertyPartitioned(
+        uint256 indexed parentPropertyId,
+        uint256[] childPropertyIds,
+        uint256 partitionDate
+    );
+
+    event MergeRequested(
+        uint256 indexed mergeId,
+        address indexed requestedBy,
+        uint256[] propertyIds,
+        uint256 requestDate
+    );
+
+    event MergeProcessed(
+        uint256 indexed mergeId,
+        string officerEmployeeId,
+        bool approved,
+        uint256 processDate
+    );
+
+    event PropertiesMerged(
+        uint256 indexed mergedPropertyId,
+        uint256[] sourcePropertyIds,
+        uint256 mergeDate
+    );
+
+    event EncumbranceRegistered(
+        uint256 indexed encumbranceId,
+        uint256 indexed propertyId,
+        address indexed lender,
+        string encumbranceType,
+        uint256 amount,
+        uint256 createdDate
+    );
+
+    event EncumbranceConsented(
+        uint256 indexed encumbranceId,
+        address indexed owner,
+        uint256 consentDate
+    );
+
+    event EncumbranceCoSigned(
+        uint256 indexed encumbranceId,
+        string officerEmployeeId,
+        uint256 coSignDate
+    );
+
+    event EncumbranceReleased(
+        uint256 indexed encumbranceId,
+        uint256 indexed propertyId,
+        address indexed lender,
+        uint256 releasedDate
+    );
+
+    event EncumbranceTransferConsent(
+        uint256 indexed encumbranceId,
+        address indexed transferee,
+        uint256 consentDate
+    );
+
+    event StateAdminUpdated(
+        string state,
+        address indexed admin,
+        bool isAuthorized,
+        uint256 changeDate
+    );
+
+    event AuditorUpdated(
+        address indexed auditor,
+        bool isAuthorized,
+        uint256 changeDate
+    );
+
+    event OfficerRoleUpdated(
+        string employeeId,
+        bytes32 indexed role,
+        bool isGranted,
+        address indexed updatedBy,
+        uint256 changeDate
+    );
+
+    event CourtAuthorityUpdated(
+        address indexed authority,
+        bool isAuthorized,
+        uint256 changeDate
+    );
+
+    event LegalHoldPlaced(
+        uint256 indexed holdId,
+        uint256 indexed propertyId,
+        address indexed authority,
+        string caseReference,
+        uint256 expiryDate,
+        uint256 placedDate
+    );
+
+    event LegalHoldLifted(
+        uint256 indexed holdId,
+        uint256 indexed propertyId,
+        address indexed liftedBy,
+        uint256 liftedDate
+    );
+
+    event FeeScheduleUpdated(
+        string state,
+        string propertyType,
+        uint256 stampDutyBps,
+        uint256 minStampDuty,
+        uint256 maxStampDuty,
+        uint256 registrationFee,
+        bool isActive,
+        uint256 updateDate
+    );
+
+    event StampDutyConcessionUpdated(
+        string state,
+        string buyerCategory,
+        uint256 concessionBps,
+        uint256 updateDate
+    );
+
+    event OfficerIncentiveShareUpdated(uint256 incentiveBps, uint256 updateDate);
+
+    event StateTreasurerUpdated(
+        string state,
+        address indexed treasurer,
+        bool isAuthorized,
+        uint256 updateDate
+    );
+
+    event TreasuryCredited(
+        string state,
+        string feeType,
+        uint256 indexed referenceId,
+        uint256 amount,
+        uint256 creditDate
+    );
+
+    event OfficerIncentiveCredited(
+        string employeeId,
+        string feeType,
+        uint256 indexed referenceId,
+        uint256 amount,
+        uint256 creditDate
+    );
+
+    event TreasuryWithdrawn(
+        uint256 indexed withdrawalId,
+        string state,
+        address indexed treasurer,
+        address indexed recipient,
+        uint256 amount,
+        uint256 withdrawalDate
+    );
+
+    event OfficerIncentiveWithdrawn(
+        string employeeId,
+        address indexed recipient,
+        uint256 amount,
+        uint256 withdrawalDate
+    );
+
+    event CircleRateUpdated(
+        string state,
+        string district,
+        string propertyType,
+        uint256 ratePerSqm,
+        string employeeId,
+        uint256 updateDate
+    );
+
+    event TransferUndervaluationFlagged(
+        uint256 indexed requestId,
+        uint256 indexed propertyId,
+        uint256 declaredValue,
+        uint256 guidanceValue
+    );
+
+    event ApprovalQuorumUpdated(
+        string state,
+        uint256 requiredApprovals,
+        uint256 valueThreshold,
+        uint256 updateDate
+    );
+
+    event QuorumPropertyTypeUpdated(
+        string state,
+        string propertyType,
+        bool requiresQuorum,
+        uint256 updateDate
+    );
+
+    event TransferApprovalRecorded(
+        uint256 indexed requestId,
+        string officerEmployeeId,
+        uint256 approvalCount,
+        uint256 requiredApprovals,
+        uint256 approvalDate
+    );
+
+    event RecordMigrated(
+        string recordType,
+        string recordKey,
+        uint256 migrationDate
+    );
+
+    event MigrationEscrowReceived(uint256 amount, uint256 receivedDate);
+
+    event MigrationFinalized(uint256 finalizedDate);
+
+    event OwnerRegistered(
+        address indexed ownerAddress,
+        string state,
+        string district,
+        uint256 registrationDate
+    );
+
+    event OwnerIdDocumentHashed(address indexed ownerAddress, uint256 migrationDate);
+
+    event OwnerPiiMoved(address indexed ownerAddress, bytes32 piiHash, uint256 migrationDate);
+
+    event PiiAccessGranted(
+        address indexed ownerAddress,
+        address indexed grantee,
+        string granteeLabel,
+        uint256 grantDate
+    );
+
+    event PiiAccessRevoked(
+        address indexed ownerAddress,
+        address indexed grantee,
+        uint256 revokeDate
+    );
+
+    event SurveyNumberConflict(
+        uint256 indexed propertyId,
+        uint256 indexed existingPropertyId,
+        uint256 detectionDate
+    );
+
+    event AdminUnitRegistered(
+        AdminLevel level,
+        uint256 indexed lgdCode,
+        uint256 indexed parentCode,
+        string name,
+        uint256 registrationDate
+    );
+
+    event WalletRecoveryRequested(
+        uint256 indexed requestId,
+        address indexed lostAddress,
+        address indexed newAddress,
+        string affidavitHash,
+        uint256 requestDate
+    );
+
+    event WalletRecoveryProcessed(
+        uint256 indexed requestId,
+        string officerEmployeeId,
+        bool approved,
+        uint256 executableAfter,
+        uint256 processDate
+    );
+
+    event WalletRecoveryCancelled(
+        uint256 indexed requestId,
+        address indexed cancelledBy,
+        uint256 cancelDate
+    );
+
+    event WalletRecovered(
+        uint256 indexed requestId,
+        address indexed lostAddress,
+        address indexed newAddress,
+        uint256 propertiesMoved,
+        uint256 recoveryDate
+    );
+
+    event OwnerProfileUpdated(
+        address indexed ownerAddress,
+        string changeType, // "Contact" or "Identity"
+        string approvedByEmployeeId,
+        uint256 updateDate
+    );
+
+    event ProfileChangeRequested(
+        uint256 indexed requestId,
+        address indexed ownerAddress,
+        string supportingDocumentHash,
+        uint256 requestDate
+    );
+
+    event ProfileChangeProcessed(
+        uint256 indexed requestId,
+        address indexed ownerAddress,
+        string officerEmployeeId,
+        bool approved,
+        uint256 processedDate
+    );
+
+    event GovernmentOfficerRegistered(
+        string indexed employeeId,
+        string name,
+        string department,
+        string state,
+        string district,
+        uint256 registrationDate
+    );
+
+    event GovernmentOfficerStatusChanged(
+        string indexed employeeId,
+        bool isActive,
+        uint256 changeDate
+    );
+
+    event GovernmentOfficerSignerChanged(
+        string indexed employeeId,
+        address indexed previousSigner,
+        address indexed newSigner,
+        uint256 changeDate
+    );
+
+    event ModuleFunctionsSet(
+        address indexed module,
+        bytes4[] selectors,
+        uint256 changeDate
+    );
+}
@@ -0,0 +1,1702 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./ILandRegistryTypes.sol";
+
+/**
+ * @title LandRegistryStorage
+ * @dev State, modifiers and internal helpers shared by LandRegistry and every module it delegates to
+ * @custom:storage Deployed behind a UUPS proxy: only append new state variables, never reorder or remove them
+ */
+abstract contract LandRegistryStorage is
+    Initializable,
+    OwnableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    ILandRegistryTypes
+{
+    // State variables
+    uint256 internal propertyCounter;
+    uint256 internal transferRequestCounter;
+    uint256 internal verificationRequestCounter;
+    uint256 internal partitionRequestCounter;
+    uint256 internal mergeRequestCounter;
+    uint256 internal encumbranceCounter;
+    uint256 internal legalHoldCounter;
+    uint256 internal successionRequestCounter;
+    uint256 internal powerOfAttorneyCounter;
+    uint256 internal leaseCounter;
+    uint256 internal treasuryWithdrawalCounter;
+
+    // Verification fee (in wei)
+    uint256 public constant VERIFICATION_FEE = 0.001 ether;
+    uint256 public constant TRANSFER_FEE = 0.002 ether; // Charged where a state has no fee schedule for the property type
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public officerIncentiveBps; // Share of each fee credited to the processing officer, rest to the state
+    uint256 public constant MAX_CO_OWNERS = 10;
+    uint256 public constant MAX_PARTITION_PARCELS = 20;
+    uint256 public constant MAX_MERGE_PARCELS = 10;
+    uint256 public constant SUCCESSION_OBJECTION_PERIOD = 30 days;
+    uint256 public constant WALLET_RECOVERY_WAITING_PERIOD = 7 days;
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    // Officer roles, granted per employee ID by the contract owner or a state admin
+    bytes32 public constant SUB_REGISTRAR_ROLE = keccak256("SUB_REGISTRAR_ROLE"); // verifies properties, partitions and merges; registers leases, powers of attorney and encumbrances
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR_ROLE"); // approves and rejects transfers and successions; sets circle rates
+
+    // Mappings
+    mapping(uint256 => Property) internal properties;
+    mapping(address => Owner) internal owners;
+    mapping(uint256 => TransferRequest) internal transferRequests;
+    mapping(uint256 => VerificationRequest) internal verificationRequests;
+    mapping(uint256 => PartitionRequest) internal partitionRequests;
+    mapping(uint256 => uint256) public pendingPartitionOf; // propertyId => open partitionId
+    mapping(uint256 => MergeRequest) internal mergeRequests;
+    mapping(uint256 => uint256) public pendingMergeOf; // propertyId => open mergeId
+    mapping(uint256 => uint256[]) internal propertyMergeHistory; // propertyId => approved mergeIds it took part in
+    mapping(uint256 => Encumbrance) internal encumbrances;
+    mapping(uint256 => uint256[]) internal propertyEncumbrances; // propertyId => encumbranceIds
+    mapping(uint256 => uint256) public activeEncumbranceCount; // propertyId => unreleased encumbrances
+    mapping(uint256 => SuccessionRequest) internal successionRequests;
+    mapping(uint256 => uint256) public pendingSuccessionOf; // propertyId => open successionId
+    mapping(uint256 => SuccessionObjection[]) internal successionObjections; // successionId => objections
+    mapping(uint256 => Lease) internal leases;
+    mapping(uint256 => uint256[]) internal propertyLeases; // propertyId => leaseIds
+    mapping(address => uint256[]) internal lesseeLeases; // lessee => leaseIds
+    mapping(uint256 => PowerOfAttorney) internal powersOfAttorney;
+    mapping(address => uint256[]) internal principalPowersOfAttorney; // principal => poaIds
+    mapping(address => uint256[]) internal attorneyPowersOfAttorney; // attorney => poaIds
+    mapping(uint256 => AttorneyAction[]) internal propertyAttorneyActions; // propertyId => actions taken by attorneys
+    mapping(address => uint256[]) internal ownerProperties;
+    mapping(uint256 => uint256[]) internal propertyTransferHistory;
+    mapping(string => uint256[]) internal stateProperties; // Properties by state
+    mapping(string => mapping(string => uint256[])) internal districtProperties; // Properties by district
+    mapping(uint256 => CoOwner[]) internal propertyCoOwners; // First entry is always the property's currentOwner
+    mapping(uint256 => mapping(address => bool)) public transferConsents; // requestId => co-owner => consented
+
+    // Government officers - mapped by employee ID instead of wallet address
+    mapping(string => GovernmentOfficer) internal governmentOfficers;
+    mapping(string => bool) public activeOfficers;
+    mapping(string => mapping(bytes32 => bool)) internal officerRoles; // employeeId => role => granted
+    mapping(string => string[]) internal stateOfficerIds; // state => employeeIds registered there
+
+    // Administrative roles held by wallets
+    mapping(string => mapping(address => bool)) public stateAdmins; // state => admin => authorized
+    mapping(address => bool) public auditors; // see the officer roster and treasury sections of the admin panel; no write access
+
+    // Court authorities allowed to place legal holds
+    mapping(address => bool) public courtAuthorities;
+    mapping(uint256 => LegalHold) internal legalHolds;
+    mapping(uint256 => uint256[]) internal propertyLegalHolds; // propertyId => holdIds
+
+    // Stamp duty schedule managed by the contract owner
+    mapping(string => mapping(string => FeeSchedule)) internal feeSchedules; // state => propertyType => schedule
+    mapping(string => mapping(string => uint256)) internal stampDutyConcessions; // state => buyer category => rate reduction in bps
+
+    // Fee ledger: state treasury accounts and officer incentives awaiting withdrawal
+    mapping(string => TreasuryAccount) internal stateTreasuries;
+    mapping(string => mapping(address => bool)) public stateTreasurers; // state => treasurer => authorized
+    mapping(string => uint256) public officerIncentiveBalances; // employeeId => unclaimed incentive
+    mapping(uint256 => TreasuryWithdrawal) internal treasuryWithdrawals;
+    mapping(string => uint256[]) internal stateTreasuryWithdrawals; // state => withdrawalIds
+
+    // Multi-officer approval rules for transfers
+    mapping(string => ApprovalQuorum) internal approvalQuorums; // state => quorum
+    mapping(string => mapping(string => bool)) internal quorumPropertyTypes; // state => propertyType => always needs quorum
+
+    // Circle rates maintained by officers for their districts
+    mapping(string => mapping(string => mapping(string => CircleRate))) internal circleRates; // state => district => propertyType => rate
+
+    // Search mappings for efficient querying
+    mapping(string => uint256[]) internal ownersByIdDocument; // Deprecated: plaintext-keyed, emptied by migrateOwnerIdDocuments
+
+    // Set once records from a non-upgradeable deployment have been replayed
+    bool public migrationFinalized;
+
+    // Open requests, indexed as they are created and closed so portal queries skip closed history
+    uint256[] internal openVerificationRequestIds;
+    mapping(uint256 => uint256) internal openVerificationRequestPositions; // verificationId => index + 1
+    uint256[] internal openTransferRequestIds;
+    mapping(uint256 => uint256) internal openTransferRequestPositions; // requestId => index + 1
+
+    // Owner profile changes and the values they replaced
+    uint256 internal profileChangeRequestCounter;
+    mapping(uint256 => ProfileChangeRequest) internal profileChangeRequests;
+    mapping(address => uint256) public pendingProfileChanges; // owner => open requestId
+    mapping(address => OwnerProfileRecord[]) internal ownerProfileHistory;
+    uint256[] internal openProfileChangeRequestIds;
+    mapping(uint256 => uint256) internal openProfileChangeRequestPositions; // requestId => index + 1
+
+    // Owners by salted ID document hash; the plaintext number never reaches the chain
+    mapping(bytes32 => uint256[]) internal ownersByIdDocumentHash;
+
+    // Wallets each owner has allowed to read their PII vault record
+    mapping(address => PiiAccessGrant[]) internal piiAccessGrants;
+    mapping(address => mapping(address => uint256)) internal piiAccessGrantPositions; // owner => grantee => index + 1
+
+    // Wallet recovery requests; the lost wallet can cancel until the new wallet executes
+    uint256 internal walletRecoveryRequestCounter;
+    mapping(uint256 => WalletRecoveryRequest) internal walletRecoveryRequests;
+    mapping(address => uint256) public pendingWalletRecoveries; // lost wallet => open requestId
+    mapping(address => uint256[]) internal walletRecoveryRequestsOf; // lost or new wallet => requestIds
+    mapping(address => address) public recoveredFromAddress; // new wallet => wallet it replaced
+    uint256[] internal openWalletRecoveryRequestIds;
+    mapping(uint256 => uint256) internal openWalletRecoveryRequestPositions; // requestId => index + 1
+
+    // Live (non-retired) parcel holding each state/district/survey number/sub-division
+    mapping(bytes32 => uint256) internal propertyBySurveyKey; // survey key => propertyId
+
+    // LGD administrative hierarchy: state > district > tehsil > village
+    mapping(AdminLevel => mapping(uint256 => AdminUnit)) internal adminUnits;
+    mapping(AdminLevel => mapping(uint256 => uint256[])) internal adminUnitChildren; // level => code => child codes; (None, 0) lists the states
+    mapping(AdminLevel => mapping(uint256 => uint256[])) internal adminUnitProperties; // level => code => propertyIds
+
+    // Approved transfers awaiting completion, by seller and buyer, so wallet recovery can repoint them
+    mapping(address => uint256[]) internal approvedTransferRequestIds;
+    mapping(address => mapping(uint256 => uint256)) internal approvedTransferRequestPositions; // owner => requestId => index + 1
+
+    // Transfers not yet completed or closed, by property, so partitions and merges wait for them
+    mapping(uint256 => uint256[]) internal unsettledTransferRequestIds;
+    mapping(uint256 => mapping(uint256 => uint256)) internal unsettledTransferRequestPositions; // propertyId => requestId => index + 1
+
+    // Pending succession claims, by claimant and heir, so wallet recovery can repoint them
+    mapping(address => uint256[]) internal pendingSuccessionIds;
+    mapping(address => mapping(uint256 => uint256)) internal pendingSuccessionPositions; // party => successionId => index + 1
+
+    // Open verification and transfer requests by the property's state and district, so the officer queues page without scanning
+    mapping(string => uint256[]) internal stateOpenVerificationRequestIds;
+    mapping(string => mapping(uint256 => uint256)) internal stateOpenVerificationRequestPositions; // state => verificationId => index + 1
+    mapping(string => mapping(string => uint256[])) internal districtOpenVerificationRequestIds;
+    mapping(string => mapping(string => mapping(uint256 => uint256))) internal districtOpenVerificationRequestPositions; // state => district => verificationId => index + 1
+    mapping(string => uint256[]) internal stateOpenTransferRequestIds;
+    mapping(string => mapping(uint256 => uint256)) internal stateOpenTransferRequestPositions; // state => requestId => index + 1
+    mapping(string => mapping(string => uint256[])) internal districtOpenTransferRequestIds;
+    mapping(string => mapping(string => mapping(uint256 => uint256))) internal districtOpenTransferRequestPositions; // state => district => requestId => index + 1
+
+    // Module each delegated function selector is routed to by LandRegistry
+    mapping(bytes4 => address) internal moduleOf;
+
+    // Modifiers
+    modifier onlyActiveOfficer(string memory _employeeId) {
+        require(
+            activeOfficers[_employeeId],
+            "Not an active government officer"
+        );
+        require(
+            governmentOfficers[_employeeId].signerAddress == msg.sender,
+            "Caller is not the officer's authorized signer"
+        );
+        _;
+    }
+
+    modifier onlyOfficerRole(string memory _employeeId, bytes32 _role) {
+        require(
+            officerRoles[_employeeId][_role],
+            "Officer does not hold the required role"
+        );
+        _;
+    }
+
+    modifier onlyStateAdmin(string memory _state) {
+        require(
+            msg.sender == owner() || stateAdmins[_state][msg.sender],
+            "Not an admin for this state"
+        );
+        _;
+    }
+
+    modifier onlyCourtAuthority() {
+        require(courtAuthorities[msg.sender], "Not a court authority");
+        _;
+    }
+
+    modifier onlyPropertyOwner(uint256 _propertyId) {
+        require(
+            properties[_propertyId].currentOwner == msg.sender,
+            "Not the property owner"
+        );
+        _;
+    }
+
+    modifier onlyCoOwner(uint256 _propertyId) {
+        (bool isCoOwner, ) = _findCoOwner(_propertyId, msg.sender);
+        require(isCoOwner, "Not a co-owner of the property");
+        _;
+    }
+
+    modifier propertyExists(uint256 _propertyId) {
+        require(
+            properties[_propertyId].isRegistered,
+            "Property does not exist"
+        );
+        _;
+    }
+
+    modifier onlyDuringMigration() {
+        require(!migrationFinalized, "Migration finalized");
+        _;
+    }
+
+    /**
+     * @dev Internal function to open a verification request for the property's owner
+     */
+    function _requestPropertyVerification(
+        uint256 _propertyId,
+        address _propertyOwner
+    ) internal returns (uint256) {
+        require(
+            !properties[_propertyId].isVerified,
+            "Property already verified"
+        );
+        require(msg.value >= VERIFICATION_FEE, "Insufficient verification fee");
+
+        verificationRequestCounter++;
+        uint256 newVerificationId = verificationRequestCounter;
+
+        verificationRequests[newVerificationId] = VerificationRequest({
+            verificationId: newVerificationId,
+            propertyId: _propertyId,
+            propertyOwner: _propertyOwner,
+            requestDate: block.timestamp,
+            feePaid: msg.value,
+            isPending: true,
+            isApproved: false,
+            officerEmployeeId: "",
+            verificationNotes: ""
+        });
+
+        properties[_propertyId].verificationFee = msg.value;
+        _addOpenVerification(newVerificationId);
+
+        emit VerificationRequested(
+            newVerificationId,
+            _propertyId,
+            _propertyOwner,
+            msg.value,
+            block.timestamp
+        );
+
+        return newVerificationId;
+    }
+
+    /**
+     * @dev Internal function to append a request to an open-request index (no-op if already indexed)
+     */
+    function _addOpenRequest(
+        uint256[] storage _ids,
+        mapping(uint256 => uint256) storage _positions,
+        uint256 _id
+    ) internal {
+        if (_positions[_id] != 0) {
+            return;
+        }
+        _ids.push(_id);
+        _positions[_id] = _ids.length;
+    }
+
+    /**
+     * @dev Internal function to drop a request from an open-request index by swapping in the last entry
+     */
+    function _removeOpenRequest(
+        uint256[] storage _ids,
+        mapping(uint256 => uint256) storage _positions,
+        uint256 _id
+    ) internal {
+        uint256 position = _positions[_id];
+        if (position == 0) {
+            return;
+        }
+
+        uint256 lastId = _ids[_ids.length - 1];
+        _ids[position - 1] = lastId;
+        _positions[lastId] = position;
+        _ids.pop();
+        delete _positions[_id];
+    }
+
+    /**
+     * @dev Internal function to index a pending verification request, overall and under its property's state and district
+     */
+    function _addOpenVerification(uint256 _verificationId) internal {
+        Property storage property = properties[
+            verificationRequests[_verificationId].propertyId
+        ];
+        _addOpenRequest(
+            openVerificationRequestIds,
+            openVerificationRequestPositions,
+            _verificationId
+        );
+        _addOpenRequest(
+            stateOpenVerificationRequestIds[property.state],
+            stateOpenVerificationRequestPositions[property.state],
+            _verificationId
+        );
+        _addOpenRequest(
+            districtOpenVerificationRequestIds[property.state][property.district],
+            districtOpenVerificationRequestPositions[property.state][property.district],
+            _verificationId
+        );
+    }
+
+    /**
+     * @dev Internal function to drop a decided verification request from every open-request index
+     */
+    function _removeOpenVerification(uint256 _verificationId) internal {
+        Property storage property = properties[
+            verificationRequests[_verificationId].propertyId
+        ];
+        _removeOpenRequest(
+            openVerificationRequestIds,
+            openVerificationRequestPositions,
+            _verificationId
+        );
+        _removeOpenRequest(
+            stateOpenVerificationRequestIds[property.state],
+            stateOpenVerificationRequestPositions[property.state],
+            _verificationId
+        );
+        _removeOpenRequest(
+            districtOpenVerificationRequestIds[property.state][property.district],
+            districtOpenVerificationRequestPositions[property.state][property.district],
+            _verificationId
+        );
+    }
+
+    /**
+     * @dev Internal function to index an undecided transfer request, overall and under its property's state and district
+     */
+    function _addOpenTransfer(uint256 _requestId) internal {
+        Property storage property = properties[
+            transferRequests[_requestId].propertyId
+        ];
+        _addOpenRequest(
+            openTransferRequestIds,
+            openTransferRequestPositions,
+            _requestId
+        );
+        _addOpenRequest(
+            stateOpenTransferRequestIds[property.state],
+            stateOpenTransferRequestPositions[property.state],
+            _requestId
+        );
+        _addOpenRequest(
+            districtOpenTransferRequestIds[property.state][property.district],
+            districtOpenTransferRequestPositions[property.state][property.district],
+            _requestId
+        );
+    }
+
+    /**
+     * @dev Internal function to drop a decided or withdrawn transfer request from every open-request index
+     */
+    function _removeOpenTransfer(uint256 _requestId) internal {
+        Property storage property = properties[
+            transferRequests[_requestId].propertyId
+        ];
+        _removeOpenRequest(
+            openTransferRequestIds,
+            openTransferRequestPositions,
+            _requestId
+        );
+        _removeOpenRequest(
+            stateOpenTransferRequestIds[property.state],
+            stateOpenTransferRequestPositions[property.state],
+            _requestId
+        );
+        _removeOpenRequest(
+            districtOpenTransferRequestIds[property.state][property.district],
+            districtOpenTransferRequestPositions[property.state][property.district],
+            _requestId
+        );
+    }
+
+    /**
+     * @dev Internal function to index a verification request if it is still pending
+     */
+    function _indexIfOpenVerification(uint256 _verificationId) internal {
+        if (verificationRequests[_verificationId].isPending) {
+            _addOpenVerification(_verificationId);
+        }
+    }
+
+    /**
+     * @dev Internal function to index a transfer request if no decision has closed it yet,
+     * or under its seller and buyer if it is approved but not yet completed
+     */
+    function _indexIfOpenTransfer(uint256 _requestId) internal {
+        TransferRequest storage request = transferRequests[_requestId];
+        if (
+            request.requestId == 0 ||
+            request.isCompleted ||
+            request.isRejected ||
+            request.isCancelled ||
+            request.isDeclinedByBuyer
+        ) {
+            return;
+        }
+
+        _addUnsettledTransfer(_requestId);
+        if (request.isApproved) {
+            _addApprovedTransfer(_requestId);
+        } else {
+            _addOpenTransfer(_requestId);
+        }
+    }
+
+    /**
+     * @dev Internal function to index a transfer under its property until it is completed or closed
+     */
+    function _addUnsettledTransfer(uint256 _requestId) internal {
+        uint256 propertyId = transferRequests[_requestId].propertyId;
+        _addOpenRequest(
+            unsettledTransferRequestIds[propertyId],
+            unsettledTransferRequestPositions[propertyId],
+            _requestId
+        );
+    }
+
+    /**
+     * @dev Internal function to drop a completed, rejected, cancelled or declined transfer from its property's index
+     */
+    function _removeUnsettledTransfer(uint256 _requestId) internal {
+        uint256 propertyId = transferRequests[_requestId].propertyId;
+        _removeOpenRequest(
+            unsettledTransferRequestIds[propertyId],
+            unsettledTransferRequestPositions[propertyId],
+            _requestId
+        );
+    }
+
+    /**
+     * @dev Internal function to check whether a registered or pending lease on a property has yet to end
+     */
+    function _hasLeaseInForce(uint256 _propertyId) internal view returns (bool) {
+        uint256[] storage ids = propertyLeases[_propertyId];
+        for (uint256 i = 0; i < ids.length; i++) {
+            Lease storage lease = leases[ids[i]];
+            if (
+                (lease.isPending || lease.isApproved) &&
+                block.timestamp < lease.endDate
+            ) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @dev Internal function to refuse parcel changes that would strand a transfer or lease on the property
+     */
+    function _requireNoTransfersOrLeases(uint256 _propertyId) internal view {
+        require(
+            unsettledTransferRequestIds[_propertyId].length == 0,
+            "Property has an unsettled transfer request"
+        );
+        require(!_hasLeaseInForce(_propertyId), "Property has a lease in force");
+    }
+
+    /**
+     * @dev Internal function to index an approved transfer under its seller and buyer until it completes
+     */
+    function _addApprovedTransfer(uint256 _requestId) internal {
+        TransferRequest storage request = transferRequests[_requestId];
+        _addOpenRequest(
+            approvedTransferRequestIds[request.fromOwner],
+            approvedTransferRequestPositions[request.fromOwner],
+            _requestId
+        );
+        _addOpenRequest(
+            approvedTransferRequestIds[request.toOwner],
+            approvedTransferRequestPositions[request.toOwner],
+            _requestId
+        );
+    }
+
+    /**
+     * @dev Internal function to drop a completed or declined transfer from its seller's and buyer's indexes
+     */
+    function _removeApprovedTransfer(uint256 _requestId) internal {
+        TransferRequest storage request = transferRequests[_requestId];
+        _removeOpenRequest(
+            approvedTransferRequestIds[request.fromOwner],
+            approvedTransferRequestPositions[request.fromOwner],
+            _requestId
+        );
+        _removeOpenRequest(
+            approvedTransferRequestIds[request.toOwner],
+            approvedTransferRequestPositions[request.toOwner],
+            _requestId
+        );
+    }
+
+    /**
+     * @dev Internal function to index a pending succession claim under its claimant and each heir
+     */
+    function _addPendingSuccession(uint256 _successionId) internal {
+        SuccessionRequest storage request = successionRequests[_successionId];
+        _addOpenRequest(
+            pendingSuccessionIds[request.claimant],
+            pendingSuccessionPositions[request.claimant],
+            _successionId
+        );
+        for (uint256 i = 0; i < request.heirs.length; i++) {
+            _addOpenRequest(
+                pendingSuccessionIds[request.heirs[i]],
+                pendingSuccessionPositions[request.heirs[i]],
+                _successionId
+            );
+        }
+    }
+
+    /**
+     * @dev Internal function to drop a decided succession claim from its claimant's and heirs' indexes
+     */
+    function _removePendingSuccession(uint256 _successionId) internal {
+        SuccessionRequest storage request = successionRequests[_successionId];
+        _removeOpenRequest(
+            pendingSuccessionIds[request.claimant],
+            pendingSuccessionPositions[request.claimant],
+            _successionId
+        );
+        for (uint256 i = 0; i < request.heirs.length; i++) {
+            _removeOpenRequest(
+                pendingSuccessionIds[request.heirs[i]],
+                pendingSuccessionPositions[request.heirs[i]],
+                _successionId
+            );
+        }
+    }
+
+    /**
+     * @dev Internal function to collect one page of IDs whose property matches the filters.
+     * Unfiltered pages are sliced directly; filtered ones read every ID in the given list,
+     * so callers pass the narrowest index they have and filter only what it cannot
+     */
+    function _pageIds(
+        uint256[] storage _ids,
+        function(uint256) view returns (uint256) _propertyIdOf,
+        string memory _state,
+        string memory _district,
+        PropertyStatusFilter _status,
+        uint256 _offset,
+        uint256 _limit
+    ) internal view returns (uint256[] memory page, uint256 total) {
+        require(_limit > 0 && _limit <= MAX_PAGE_SIZE, "Invalid page size");
+
+        uint256[] memory matches = new uint256[](_limit);
+        uint256 count = 0;
+
+        if (
+            bytes(_state).length == 0 &&
+            bytes(_district).length == 0 &&
+            _status == PropertyStatusFilter.Any
+        ) {
+            total = _ids.length;
+            for (uint256 i = _offset; i < total && count < _limit; i++) {
+                matches[count] = _ids[i];
+                count++;
+            }
+        } else {
+            for (uint256 i = 0; i < _ids.length; i++) {
+                if (
+                    !_propertyMatches(
+                        _propertyIdOf(_ids[i]),
+                        _state,
+                        _district,
+                        _status
+                    )
+                ) {
+                    continue;
+                }
+                if (total >= _offset && count < _limit) {
+                    matches[count] = _ids[i];
+                    count++;
+                }
+                total++;
+            }
+        }
+
+        // Resize array to actual count
+        page = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = matches[i];
+        }
+    }
+
+    /**
+     * @dev Internal function to check a property against location and status filters; empty filters match all
+     */
+    function _propertyMatches(
+        uint256 _propertyId,
+        string memory _state,
+        string memory _district,
+        PropertyStatusFilter _status
+    ) internal view returns (bool) {
+        Property storage property = properties[_propertyId];
+
+        if (
+            bytes(_state).length > 0 &&
+            keccak256(bytes(property.state)) != keccak256(bytes(_state))
+        ) {
+            return false;
+        }
+        if (
+            bytes(_district).length > 0 &&
+            keccak256(bytes(property.district)) != keccak256(bytes(_district))
+        ) {
+            return false;
+        }
+
+        if (_status == PropertyStatusFilter.Verified) {
+            return property.isVerified && !property.isRetired;
+        }
+        if (_status == PropertyStatusFilter.Unverified) {
+            return !property.isVerified && !property.isRetired;
+        }
+        if (_status == PropertyStatusFilter.Transferable) {
+            return property.isTransferable;
+        }
+        if (_status == PropertyStatusFilter.Retired) {
+            return property.isRetired;
+        }
+        return true;
+    }
+
+    /**
+     * @dev Internal ID mappers used by _pageIds
+     */
+    function _propertyIdOfProperty(
+        uint256 _propertyId
+    ) internal pure returns (uint256) {
+        return _propertyId;
+    }
+
+    function _propertyIdOfVerification(
+        uint256 _verificationId
+    ) internal view returns (uint256) {
+        return verificationRequests[_verificationId].propertyId;
+    }
+
+    function _propertyIdOfTransfer(
+        uint256 _requestId
+    ) internal view returns (uint256) {
+        return transferRequests[_requestId].propertyId;
+    }
+
+    /**
+     * @dev Internal function to check officer jurisdiction over a property.
+     * District officers cover their own district; officers registered without
+     * a district are state-level and cover every district in their state.
+     */
+    function _isWithinJurisdiction(
+        string memory _employeeId,
+        uint256 _propertyId
+    ) internal view returns (bool) {
+        Property storage property = properties[_propertyId];
+        return _coversLocation(_employeeId, property.state, property.district);
+    }
+
+    /**
+     * @dev Internal function to check whether an officer covers a state and district
+     */
+    function _coversLocation(
+        string memory _employeeId,
+        string memory _state,
+        string memory _district
+    ) internal view returns (bool) {
+        GovernmentOfficer storage officer = governmentOfficers[_employeeId];
+
+        if (keccak256(bytes(officer.state)) != keccak256(bytes(_state))) {
+            return false;
+        }
+
+        return
+            bytes(officer.district).length == 0 ||
+            keccak256(bytes(officer.district)) == keccak256(bytes(_district));
+    }
+
+    /**
+     * @dev Internal function to value a property's full area at its district circle rate
+     */
+    function _getGuidanceValue(
+        uint256 _propertyId
+    ) internal view returns (uint256) {
+        Property storage property = properties[_propertyId];
+        return
+            property.area *
+            circleRates[property.state][property.district][
+                property.propertyType
+            ].ratePerSqm;
+    }
+
+    /**
+     * @dev Internal function to check a transfer's declared value against its guidance value
+     */
+    function _isUndervalued(
+        TransferRequest storage _request
+    ) internal view returns (bool) {
+        return
+            _request.guidanceValue > 0 &&
+            _request.declaredValue < _request.guidanceValue;
+    }
+
+    /**
+     * @dev Internal function to work out how many officers must approve a new transfer
+     */
+    function _getRequiredApprovals(
+        TransferRequest storage _request
+    ) internal view returns (uint256) {
+        Property storage property = properties[_request.propertyId];
+        ApprovalQuorum storage quorum = approvalQuorums[property.state];
+        if (quorum.requiredApprovals <= 1) {
+            return 1;
+        }
+
+        bool isHighValue = quorum.valueThreshold > 0 &&
+            _request.declaredValue >= quorum.valueThreshold;
+        if (
+            isHighValue ||
+            quorumPropertyTypes[property.state][property.propertyType] ||
+            _isUndervalued(_request)
+        ) {
+            return quorum.requiredApprovals;
+        }
+        return 1;
+    }
+
+    /**
+     * @dev Internal function to check for an active, unexpired legal hold on a property
+     */
+    function _isUnderLegalHold(uint256 _propertyId) internal view returns (bool) {
+        uint256[] storage holdIds = propertyLegalHolds[_propertyId];
+        for (uint256 i = 0; i < holdIds.length; i++) {
+            LegalHold storage hold = legalHolds[holdIds[i]];
+            if (
+                hold.isActive &&
+                (hold.expiryDate == 0 || hold.expiryDate > block.timestamp)
+            ) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @dev Internal function to check every active encumbrance's lender has consented to the buyer
+     */
+    function _requireLenderConsent(
+        uint256 _propertyId,
+        address _toOwner
+    ) internal view {
+        if (activeEncumbranceCount[_propertyId] == 0) {
+            return;
+        }
+        uint256[] storage ids = propertyEncumbrances[_propertyId];
+        for (uint256 i = 0; i < ids.length; i++) {
+            Encumbrance storage encumbrance = encumbrances[ids[i]];
+            require(
+                !encumbrance.isActive ||
+                    encumbrance.approvedTransferee == _toOwner,
+                "Active encumbrance requires lender consent"
+            );
+        }
+    }
+
+    /**
+     * @dev Internal function to compute stamp duty plus registration fee from the state's schedule.
+     * The buyer's concession lowers the rate before the minimum and maximum caps apply.
+     */
+    function _quoteTransferFee(
+        uint256 _propertyId,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    ) internal view returns (uint256) {
+        Property storage property = properties[_propertyId];
+        FeeSchedule storage schedule = feeSchedules[property.state][
+            property.propertyType
+        ];
+        if (!schedule.isActive) {
+            return TRANSFER_FEE;
+        }
+
+        uint256 rate = schedule.stampDutyBps;
+        if (bytes(_buyerCategory).length > 0) {
+            uint256 concession = stampDutyConcessions[property.state][
+                _buyerCategory
+            ];
+            rate = concession >= rate ? 0 : rate - concession;
+        }
+
+        uint256 stampDuty = (_declaredValue * rate) / BASIS_POINTS;
+        if (stampDuty < schedule.minStampDuty) {
+            stampDuty = schedule.minStampDuty;
+        }
+        if (schedule.maxStampDuty > 0 && stampDuty > schedule.maxStampDuty) {
+            stampDuty = schedule.maxStampDuty;
+        }
+
+        return stampDuty + schedule.registrationFee;
+    }
+
+    /**
+     * @dev Internal function to validate and store a new transfer request from the caller
+     */
+    function _createTransferRequest(
+        uint256 _propertyId,
+        address _fromOwner,
+        address _toOwner,
+        string memory _transferDocumentHash,
+        bool _isShareTransfer,
+        uint256 _sharePercentage,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    ) internal returns (uint256) {
+        require(
+            properties[_propertyId].isVerified,
+            "Property must be verified first"
+        );
+        require(
+            properties[_propertyId].isTransferable,
+            "Property is not transferable"
+        );
+        // Note: Recipient doesn't need to be registered - they can accept transfer when they log in
+        require(_toOwner != _fromOwner, "Cannot transfer to yourself");
+        require(_toOwner != address(0), "Invalid recipient address");
+        require(_declaredValue > 0, "Declared value required");
+        uint256 fee = _quoteTransferFee(
+            _propertyId,
+            _declaredValue,
+            _buyerCategory
+        );
+        require(msg.value >= fee, "Insufficient transfer fee");
+        _requireLenderConsent(_propertyId, _toOwner);
+
+        transferRequestCounter++;
+        uint256 newRequestId = transferRequestCounter;
+
+        transferRequests[newRequestId] = TransferRequest({
+            requestId: newRequestId,
+            propertyId: _propertyId,
+            fromOwner: _fromOwner,
+            toOwner: _toOwner,
+            requestDate: block.timestamp,
+            isApproved: false,
+            isCompleted: false,
+            transferDocumentHash: _transferDocumentHash,
+            transferFee: fee,
+            isRejected: false,
+            isCancelled: false,
+            rejectionReason: "",
+            isAcceptedByBuyer: false,
+            isDeclinedByBuyer: false,
+            buyerResponseDate: 0,
+            isShareTransfer: _isShareTransfer,
+            sharePercentage: _sharePercentage,
+            isSuccession: false,
+            declaredValue: _declaredValue,
+            buyerCategory: _buyerCategory,
+            guidanceValue: (_getGuidanceValue(_propertyId) * _sharePercentage) /
+                100,
+            requiredApprovals: 1,
+            approverEmployeeIds: new string[](0),
+            feePayer: msg.sender
+        });
+
+        TransferRequest storage request = transferRequests[newRequestId];
+        request.requiredApprovals = _getRequiredApprovals(request);
+        _addOpenTransfer(newRequestId);
+        _addUnsettledTransfer(newRequestId);
+
+        emit TransferRequestCreated(
+            newRequestId,
+            _propertyId,
+            _fromOwner,
+            _toOwner,
+            block.timestamp
+        );
+
+        if (_isUndervalued(request)) {
+            emit TransferUndervaluationFlagged(
+                newRequestId,
+                _propertyId,
+                _declaredValue,
+                request.guidanceValue
+            );
+        }
+
+        // Only the quoted fee is held; anything paid over it goes straight back
+        if (msg.value > fee) {
+            (bool success, ) = payable(msg.sender).call{
+                value: msg.value - fee
+            }("");
+            require(success, "Excess fee refund failed");
+        }
+
+        return newRequestId;
+    }
+
+    /**
+     * @dev Internal function to load a countersigned, unexpired power of attorney
+     * that lets the caller act on the given property for a current co-owner
+     */
+    function _getValidPowerOfAttorney(
+        uint256 _poaId,
+        uint256 _propertyId
+    ) internal view returns (PowerOfAttorney storage poa) {
+        poa = powersOfAttorney[_poaId];
+        require(poa.attorney == msg.sender, "Not the attorney for this grant");
+        require(!poa.isRevoked, "Power of attorney revoked");
+        require(
+            bytes(poa.countersigningOfficerId).length > 0,
+            "Power of attorney not countersigned"
+        );
+        require(poa.expiryDate > block.timestamp, "Power of attorney expired");
+
+        if (poa.propertyIds.length > 0) {
+            bool inScope = false;
+            for (uint256 i = 0; i < poa.propertyIds.length; i++) {
+                if (poa.propertyIds[i] == _propertyId) {
+                    inScope = true;
+                    break;
+                }
+            }
+            require(inScope, "Property not covered by the power of attorney");
+        }
+
+        (bool isCoOwner, ) = _findCoOwner(_propertyId, poa.principal);
+        require(isCoOwner, "Principal is not a co-owner of the property");
+    }
+
+    /**
+     * @dev Internal function to log an attorney's action against the property
+     */
+    function _recordAttorneyAction(
+        PowerOfAttorney storage _poa,
+        uint256 _propertyId,
+        string memory _action,
+        uint256 _referenceId
+    ) internal {
+        propertyAttorneyActions[_propertyId].push(
+            AttorneyAction({
+                poaId: _poa.poaId,
+                principal: _poa.principal,
+                attorney: msg.sender,
+                action: _action,
+                referenceId: _referenceId,
+                actionDate: block.timestamp
+            })
+        );
+
+        emit ActedUnderPowerOfAttorney(
+            _poa.poaId,
+            _propertyId,
+            msg.sender,
+            _poa.principal,
+            _action,
+            _referenceId,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Internal function to add a completed succession entry to a property's transfer history
+     */
+    function _recordSuccessionTransfer(
+        uint256 _propertyId,
+        address _deceasedOwner,
+        address _heir,
+        uint256 _sharePercentage,
+        string memory _deathCertificateHash
+    ) internal {
+        transferRequestCounter++;
+        uint256 newRequestId = transferRequestCounter;
+
+        transferRequests[newRequestId] = TransferRequest({
+            requestId: newRequestId,
+            propertyId: _propertyId,
+            fromOwner: _deceasedOwner,
+            toOwner: _heir,
+            requestDate: block.timestamp,
+            isApproved: true,
+            isCompleted: true,
+            transferDocumentHash: _deathCertificateHash,
+            transferFee: 0,
+            isRejected: false,
+            isCancelled: false,
+            rejectionReason: "",
+            isAcceptedByBuyer: true,
+            isDeclinedByBuyer: false,
+            buyerResponseDate: block.timestamp,
+            isShareTransfer: _sharePercentage < 100,
+            sharePercentage: _sharePercentage,
+            isSuccession: true,
+            declaredValue: 0,
+            buyerCategory: "",
+            guidanceValue: 0,
+            requiredApprovals: 1,
+            approverEmployeeIds: new string[](0),
+            feePayer: address(0)
+        });
+
+        propertyTransferHistory[_propertyId].push(newRequestId);
+
+        emit PropertyTransferred(
+            _propertyId,
+            _deceasedOwner,
+            _heir,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Internal function to mint a verified parcel that inherits a source parcel's location and co-owners
+     * Callers record the lineage on both sides
+     */
+    function _createDerivedProperty(
+        uint256 _sourceId,
+        uint256 _area,
+        string memory _surveyNumber,
+        string memory _subDivision,
+        string memory _documentHash
+    ) internal returns (uint256) {
+        Property storage parent = properties[_sourceId];
+
+        propertyCounter++;
+        uint256 childId = propertyCounter;
+
+        Property storage child = properties[childId];
+        child.propertyId = childId;
+        child.propertyAddress = parent.propertyAddress;
+        child.district = parent.district;
+        child.state = parent.state;
+        child.area = _area;
+        child.propertyType = parent.propertyType;
+        child.surveyNumber = _surveyNumber;
+        child.subDivision = _subDivision;
+        child.currentOwner = parent.currentOwner;
+        child.documentHash = _documentHash;
+        child.isRegistered = true;
+        child.isVerified = true;
+        child.isTransferable = true;
+        child.registrationDate = block.timestamp;
+        child.lastTransferDate = block.timestamp;
+        child.tehsil = parent.tehsil;
+        child.village = parent.village;
+        child.villageCode = parent.villageCode;
+
+        CoOwner[] storage parentCoOwners = propertyCoOwners[_sourceId];
+        for (uint256 i = 0; i < parentCoOwners.length; i++) {
+            propertyCoOwners[childId].push(parentCoOwners[i]);
+            ownerProperties[parentCoOwners[i].ownerAddress].push(childId);
+        }
+
+        stateProperties[child.state].push(childId);
+        districtProperties[child.state][child.district].push(childId);
+        _reserveSurveyNumber(childId);
+        _indexAdminUnitProperty(childId);
+
+        emit PropertyRegistered(
+            childId,
+            child.currentOwner,
+            child.propertyAddress,
+            child.state,
+            child.district,
+            block.timestamp
+        );
+
+        return childId;
+    }
+
+    /**
+     * @dev Internal function to move one co-owner's share to the buyer
+     * A seller left with no share drops out; the first remaining co-owner becomes currentOwner
+     */
+    function _transferShare(
+        uint256 _propertyId,
+        address _from,
+        address _to,
+        uint256 _sharePercentage
+    ) internal {
+        CoOwner[] storage coOwners = propertyCoOwners[_propertyId];
+        (bool fromFound, uint256 fromIndex) = _findCoOwner(_propertyId, _from);
+        require(
+            fromFound && coOwners[fromIndex].sharePercentage >= _sharePercentage,
+            "Seller no longer holds the share"
+        );
+        (bool toFound, uint256 toIndex) = _findCoOwner(_propertyId, _to);
+
+        coOwners[fromIndex].sharePercentage -= _sharePercentage;
+        if (toFound) {
+            coOwners[toIndex].sharePercentage += _sharePercentage;
+        } else {
+            require(coOwners.length < MAX_CO_OWNERS, "Too many co-owners");
+            coOwners.push(
+                CoOwner({ownerAddress: _to, sharePercentage: _sharePercentage})
+            );
+            ownerProperties[_to].push(_propertyId);
+        }
+
+        if (coOwners[fromIndex].sharePercentage == 0) {
+            // Shift later co-owners down to keep the original order
+            for (uint256 i = fromIndex; i < coOwners.length - 1; i++) {
+                coOwners[i] = coOwners[i + 1];
+            }
+            coOwners.pop();
+            _removePropertyFromOwner(_from, _propertyId);
+        }
+
+        properties[_propertyId].currentOwner = coOwners[0].ownerAddress;
+    }
+
+    /**
+     * @dev Internal function to locate an address among a property's co-owners
+     */
+    function _findCoOwner(
+        uint256 _propertyId,
+        address _owner
+    ) internal view returns (bool, uint256) {
+        CoOwner[] storage coOwners = propertyCoOwners[_propertyId];
+        for (uint256 i = 0; i < coOwners.length; i++) {
+            if (coOwners[i].ownerAddress == _owner) {
+                return (true, i);
+            }
+        }
+        return (false, 0);
+    }
+
+    /**
+     * @dev Internal function to load a request the caller can still accept or decline as buyer
+     */
+    function _getBuyerOpenRequest(
+        uint256 _requestId
+    ) internal view returns (TransferRequest storage request) {
+        request = transferRequests[_requestId];
+        require(request.requestId != 0, "Transfer request does not exist");
+        require(msg.sender == request.toOwner, "Only the buyer can respond");
+        require(!request.isCompleted, "Transfer already completed");
+        require(!request.isRejected, "Request already rejected");
+        require(!request.isCancelled, "Request already cancelled");
+        require(
+            !request.isAcceptedByBuyer && !request.isDeclinedByBuyer,
+            "Buyer already responded"
+        );
+    }
+
+    /**
+     * @dev Internal function to refuse roles other than sub-registrar and registrar
+     */
+    function _requireKnownOfficerRole(bytes32 _role) internal pure {
+        require(
+            _role == SUB_REGISTRAR_ROLE || _role == REGISTRAR_ROLE,
+            "Unknown officer role"
+        );
+    }
+
+    /**
+     * @dev Internal function to record an officer role change
+     */
+    function _setOfficerRole(
+        string memory _employeeId,
+        bytes32 _role,
+        bool _isGranted
+    ) internal {
+        officerRoles[_employeeId][_role] = _isGranted;
+
+        emit OfficerRoleUpdated(
+            _employeeId,
+            _role,
+            _isGranted,
+            msg.sender,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Internal function to split a collected fee between the state treasury and the officer
+     */
+    function _creditFee(
+        string memory _state,
+        string memory _employeeId,
+        string memory _feeType,
+        uint256 _referenceId,
+        uint256 _amount
+    ) internal {
+        if (_amount == 0) {
+            return;
+        }
+
+        uint256 officerShare = (_amount * officerIncentiveBps) / BASIS_POINTS;
+        uint256 stateShare = _amount - officerShare;
+
+        if (stateShare > 0) {
+            TreasuryAccount storage account = stateTreasuries[_state];
+            account.balance += stateShare;
+            account.totalCredited += stateShare;
+
+            emit TreasuryCredited(
+                _state,
+                _feeType,
+                _referenceId,
+                stateShare,
+                block.timestamp
+            );
+        }
+
+        if (officerShare > 0) {
+            officerIncentiveBalances[_employeeId] += officerShare;
+
+            emit OfficerIncentiveCredited(
+                _employeeId,
+                _feeType,
+                _referenceId,
+                officerShare,
+                block.timestamp
+            );
+        }
+    }
+
+    /**
+     * @dev Internal function to return an escrowed transfer fee to the seller
+     */
+    function _refundTransferFee(TransferRequest storage _request) internal {
+        if (_request.transferFee > 0) {
+            // Requests filed before the payer was recorded were always paid by the seller
+            address payer = _request.feePayer == address(0)
+                ? _request.fromOwner
+                : _request.feePayer;
+            (bool success, ) = payable(payer).call{
+                value: _request.transferFee
+            }("");
+            require(success, "Transfer fee refund failed");
+        }
+    }
+
+    /**
+     * @dev Internal function to push an owner's current profile onto their history
+     */
+    function _recordProfileHistory(
+        address _ownerAddress,
+        string memory _approvedByEmployeeId
+    ) internal {
+        Owner storage ownerRecord = owners[_ownerAddress];
+        ownerProfileHistory[_ownerAddress].push(
+            OwnerProfileRecord({
+                idDocumentHash: ownerRecord.idDocumentHash,
+                piiHash: ownerRecord.piiHash,
+                homeState: ownerRecord.homeState,
+                homeDistrict: ownerRecord.homeDistrict,
+                changedDate: block.timestamp,
+                approvedByEmployeeId: _approvedByEmployeeId
+            })
+        );
+    }
+
+    /**
+     * @dev Internal function to drop an owner from an ID document search entry
+     */
+    function _removeOwnerId(
+        uint256[] storage _ownerIds,
+        address _ownerAddress
+    ) internal {
+        uint256 ownerId = uint256(uint160(_ownerAddress));
+        for (uint256 i = 0; i < _ownerIds.length; i++) {
+            if (_ownerIds[i] == ownerId) {
+                _ownerIds[i] = _ownerIds[_ownerIds.length - 1];
+                _ownerIds.pop();
+                break;
+            }
+        }
+    }
+
+    /**
+     * @dev Internal function to hand every property of a recovered wallet to its new wallet
+     */
+    function _moveOwnerProperties(
+        address _from,
+        address _to
+    ) internal returns (uint256) {
+        uint256[] storage propertyIds = ownerProperties[_from];
+        for (uint256 i = 0; i < propertyIds.length; i++) {
+            uint256 propertyId = propertyIds[i];
+            if (properties[propertyId].currentOwner == _from) {
+                properties[propertyId].currentOwner = _to;
+            }
+
+            (bool isCoOwner, uint256 index) = _findCoOwner(propertyId, _from);
+            if (isCoOwner) {
+                propertyCoOwners[propertyId][index].ownerAddress = _to;
+            }
+
+            uint256 partitionId = pendingPartitionOf[propertyId];
+            if (partitionId != 0 && partitionRequests[partitionId].requestedBy == _from) {
+                partitionRequests[partitionId].requestedBy = _to;
+            }
+
+            uint256 mergeId = pendingMergeOf[propertyId];
+            if (mergeId != 0 && mergeRequests[mergeId].requestedBy == _from) {
+                mergeRequests[mergeId].requestedBy = _to;
+            }
+
+            uint256[] storage leaseIds = propertyLeases[propertyId];
+            for (uint256 j = 0; j < leaseIds.length; j++) {
+                if (leases[leaseIds[j]].lessor == _from) {
+                    leases[leaseIds[j]].lessor = _to;
+                }
+            }
+
+            ownerProperties[_to].push(propertyId);
+        }
+
+        uint256 moved = propertyIds.length;
+        delete ownerProperties[_from];
+        return moved;
+    }
+
+    /**
+     * @dev Internal function to move an owner record, its profile history and PII grants to a new wallet
+     */
+    function _moveOwnerRecord(address _from, address _to) internal {
+        owners[_to] = owners[_from];
+        owners[_to].ownerAddress = _to;
+        delete owners[_from];
+
+        bytes32 idDocumentHash = owners[_to].idDocumentHash;
+        _removeOwnerId(ownersByIdDocumentHash[idDocumentHash], _from);
+        ownersByIdDocumentHash[idDocumentHash].push(uint256(uint160(_to)));
+
+        OwnerProfileRecord[] storage history = ownerProfileHistory[_from];
+        for (uint256 i = 0; i < history.length; i++) {
+            ownerProfileHistory[_to].push(history[i]);
+        }
+        delete ownerProfileHistory[_from];
+
+        PiiAccessGrant[] storage grants = piiAccessGrants[_from];
+        for (uint256 i = 0; i < grants.length; i++) {
+            piiAccessGrants[_to].push(grants[i]);
+            piiAccessGrantPositions[_to][grants[i].grantee] = i + 1;
+            delete piiAccessGrantPositions[_from][grants[i].grantee];
+        }
+        delete piiAccessGrants[_from];
+    }
+
+    /**
+     * @dev Internal function to repoint a recovered wallet's open verification, transfer
+     * and profile change requests, its approved transfers awaiting completion and the
+     * pending succession claims it filed or inherits under, at its new wallet
+     */
+    function _moveOpenOwnerRequests(address _from, address _to) internal {
+        for (uint256 i = 0; i < openVerificationRequestIds.length; i++) {
+            VerificationRequest storage verification = verificationRequests[
+                openVerificationRequestIds[i]
+            ];
+            if (verification.propertyOwner == _from) {
+                verification.propertyOwner = _to;
+            }
+        }
+
+        for (uint256 i = 0; i < openTransferRequestIds.length; i++) {
+            _moveTransferParty(openTransferRequestIds[i], _from, _to);
+        }
+
+        uint256[] storage approvedIds = approvedTransferRequestIds[_from];
+        for (uint256 i = 0; i < approvedIds.length; i++) {
+            uint256 requestId = approvedIds[i];
+            _moveTransferParty(requestId, _from, _to);
+            delete approvedTransferRequestPositions[_from][requestId];
+            _addOpenRequest(
+                approvedTransferRequestIds[_to],
+                approvedTransferRequestPositions[_to],
+                requestId
+            );
+        }
+        delete approvedTransferRequestIds[_from];
+
+        uint256[] storage successionIds = pendingSuccessionIds[_from];
+        for (uint256 i = 0; i < successionIds.length; i++) {
+            uint256 successionId = successionIds[i];
+            SuccessionRequest storage succession = successionRequests[successionId];
+            if (succession.claimant == _from) {
+                succession.claimant = _to;
+            }
+            for (uint256 j = 0; j < succession.heirs.length; j++) {
+                if (succession.heirs[j] == _from) {
+                    succession.heirs[j] = _to;
+                }
+            }
+            delete pendingSuccessionPositions[_from][successionId];
+            _addOpenRequest(
+                pendingSuccessionIds[_to],
+                pendingSuccessionPositions[_to],
+                successionId
+            );
+        }
+        delete pendingSuccessionIds[_from];
+
+        uint256 profileChangeId = pendingProfileChanges[_from];
+        if (profileChangeId != 0) {
+            profileChangeRequests[profileChangeId].ownerAddress = _to;
+            pendingProfileChanges[_to] = profileChangeId;
+            delete pendingProfileChanges[_from];
+        }
+    }
+
+    /**
+     * @dev Internal function to carry a recovered wallet's leases as lessee and its powers of
+     * attorney as principal or attorney over to its new wallet, history included, as its
+     * properties are. The lost wallet can no longer act under a grant once it is moved
+     */
+    function _moveOwnerRights(address _from, address _to) internal {
+        uint256[] storage leaseIds = lesseeLeases[_from];
+        for (uint256 i = 0; i < leaseIds.length; i++) {
+            leases[leaseIds[i]].lessee = _to;
+            lesseeLeases[_to].push(leaseIds[i]);
+        }
+        delete lesseeLeases[_from];
+
+        uint256[] storage grantedIds = principalPowersOfAttorney[_from];
+        for (uint256 i = 0; i < grantedIds.length; i++) {
+            powersOfAttorney[grantedIds[i]].principal = _to;
+            principalPowersOfAttorney[_to].push(grantedIds[i]);
+        }
+        delete principalPowersOfAttorney[_from];
+
+        uint256[] storage heldIds = attorneyPowersOfAttorney[_from];
+        for (uint256 i = 0; i < heldIds.length; i++) {
+            powersOfAttorney[heldIds[i]].attorney = _to;
+            attorneyPowersOfAttorney[_to].push(heldIds[i]);
+        }
+        delete attorneyPowersOfAttorney[_from];
+    }
+
+    /**
+     * @dev Internal function to replace a recovered wallet wherever it appears on a transfer request
+     */
+    function _moveTransferParty(
+        uint256 _requestId,
+        address _from,
+        address _to
+    ) internal {
+        TransferRequest storage transfer = transferRequests[_requestId];
+        if (transfer.fromOwner == _from) {
+            transfer.fromOwner = _to;
+        }
+        if (transfer.toOwner == _from) {
+            transfer.toOwner = _to;
+        }
+        if (transfer.feePayer == _from) {
+            transfer.feePayer = _to;
+        }
+        if (transferConsents[_requestId][_from]) {
+            transferConsents[_requestId][_from] = false;
+            transferConsents[_requestId][_to] = true;
+        }
+    }
+
+    /**
+     * @dev Internal function to build a property's uniqueness key. Survey numbers and
+     * sub-divisions are compared without spaces and case, so "12 A" and "12a" collide
+     */
+    function _surveyKey(
+        string memory _state,
+        string memory _district,
+        string memory _surveyNumber,
+        string memory _subDivision
+    ) internal pure returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    _state,
+                    _district,
+                    _normalizeSurveyPart(_surveyNumber),
+                    _normalizeSurveyPart(_subDivision)
+                )
+            );
+    }
+
+    /**
+     * @dev Internal function to lowercase ASCII letters and drop spaces
+     */
+    function _normalizeSurveyPart(
+        string memory _value
+    ) internal pure returns (bytes memory) {
+        bytes memory input = bytes(_value);
+        uint256 length = 0;
+        for (uint256 i = 0; i < input.length; i++) {
+            if (input[i] != " ") {
+                length++;
+            }
+        }
+
+        bytes memory output = new bytes(length);
+        uint256 next = 0;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == " ") {
+                continue;
+            }
+            if (char >= "A" && char <= "Z") {
+                char = bytes1(uint8(char) + 32);
+            }
+            output[next] = char;
+            next++;
+        }
+        return output;
+    }
+
+    /**
+     * @dev Internal function to claim a property's survey key, refusing duplicates
+     */
+    function _reserveSurveyNumber(uint256 _propertyId) internal {
+        Property storage property = properties[_propertyId];
+        bytes32 key = _surveyKey(
+            property.state,
+            property.district,
+            property.surveyNumber,
+            property.subDivision
+        );
+        require(
+            propertyBySurveyKey[key] == 0,
+            "Survey number already registered in this district"
+        );
+        propertyBySurveyKey[key] = _propertyId;
+    }
+
+    /**
+     * @dev Internal function to index a pre-existing property's survey key, flagging duplicates instead of reverting
+     */
+    function _indexSurveyNumber(uint256 _propertyId) internal {
+        Property storage property = properties[_propertyId];
+        if (property.isRetired || bytes(property.surveyNumber).length == 0) {
+            return;
+        }
+
+        bytes32 key = _surveyKey(
+            property.state,
+            property.district,
+            property.surveyNumber,
+            property.subDivision
+        );
+        uint256 holder = propertyBySurveyKey[key];
+        if (holder == 0) {
+            propertyBySurveyKey[key] = _propertyId;
+        } else if (holder != _propertyId) {
+            emit SurveyNumberConflict(_propertyId, holder, block.timestamp);
+        }
+    }
+
+    /**
+     * @dev Internal function to look up a registered village and the names of its tehsil, district and state
+     */
+    function _resolveVillage(
+        uint256 _villageCode
+    )
+        internal
+        view
+        returns (
+            string memory state,
+            string memory district,
+            string memory tehsil,
+            string memory village
+        )
+    {
+        AdminUnit storage villageUnit = adminUnits[AdminLevel.Village][_villageCode];
+        require(villageUnit.lgdCode != 0, "Village not registered");
+        AdminUnit storage tehsilUnit = adminUnits[AdminLevel.Tehsil][villageUnit.parentCode];
+        AdminUnit storage districtUnit = adminUnits[AdminLevel.District][tehsilUnit.parentCode];
+
+        return (
+            adminUnits[AdminLevel.State][districtUnit.parentCode].name,
+            districtUnit.name,
+            tehsilUnit.name,
+            villageUnit.name
+        );
+    }
+
+    /**
+     * @dev Internal function to find the name of the state enclosing an LGD unit
+     */
+    function _adminUnitStateName(
+        AdminLevel _level,
+        uint256 _lgdCode
+    ) internal view returns (string memory) {
+        while (_level != AdminLevel.State) {
+            _lgdCode = adminUnits[_level][_lgdCode].parentCode;
+            _level = AdminLevel(uint8(_level) - 1);
+        }
+        return adminUnits[AdminLevel.State][_lgdCode].name;
+    }
+
+    /**
+     * @dev Internal function to list a property under its village and every unit above it
+     */
+    function _indexAdminUnitProperty(uint256 _propertyId) internal {
+        uint256 code = properties[_propertyId].villageCode;
+        for (
+            AdminLevel level = AdminLevel.Village;
+            level != AdminLevel.None;
+            level = AdminLevel(uint8(level) - 1)
+        ) {
+            adminUnitProperties[level][code].push(_propertyId);
+            code = adminUnits[level][code].parentCode;
+        }
+    }
+
+    /**
+     * @dev Internal function to place an existing property in a village of its recorded state and district
+     */
+    function _assignVillage(uint256 _propertyId, uint256 _villageCode) internal {
+        Property storage property = properties[_propertyId];
+        (
+            string memory state,
+            string memory district,
+            string memory tehsil,
+            string memory village
+        ) = _resolveVillage(_villageCode);
+        require(
+            keccak256(bytes(state)) == keccak256(bytes(property.state)) &&
+                keccak256(bytes(district)) == keccak256(bytes(property.district)),
+            "Village outside the property's district"
+        );
+
+        property.tehsil = tehsil;
+        property.village = village;
+        property.villageCode = _villageCode;
+        _indexAdminUnitProperty(_propertyId);
+    }
+
+    /**
+     * @dev Internal function to free a retired property's survey key for its successors
+     */
+    function _releaseSurveyNumber(uint256 _propertyId) internal {
+        Property storage property = properties[_propertyId];
+        bytes32 key = _surveyKey(
+            property.state,
+            property.district,
+            property.surveyNumber,
+            property.subDivision
+        );
+        if (propertyBySurveyKey[key] == _propertyId) {
+            delete propertyBySurveyKey[key];
+        }
+    }
+
+    /**
+     * @dev Internal function to remove property from owner's list
+     */
+    function _removePropertyFromOwner(
+        address _owner,
+        uint256 _propertyId
+    ) internal {
+        uint256[] storage properties = ownerProperties[_owner];
+        for (uint256 i = 0; i < properties.length; i++) {
+            if (properties[i] == _propertyId) {
+                properties[i] = properties[properties.length - 1];
+                properties.pop();
+                break;
+            }
+        }
+    }
+}
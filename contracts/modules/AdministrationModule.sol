@@ -0,0 +1,423 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title AdministrationModule
+ * @dev Officers, roles, administrative units and the fee, quorum and circle rate settings
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract AdministrationModule is LandRegistryStorage {
+    /**
+     * @dev Register a government officer (only by contract owner or the state's admins)
+     * Leave _district empty to register a state-level officer. The officer holds only the roles
+     * listed, so sub-registrars who verify and registrars who approve transfers stay separate
+     */
+    function registerGovernmentOfficer(
+        string memory _employeeId,
+        string memory _name,
+        string memory _department,
+        string memory _state,
+        string memory _district,
+        address _signerAddress,
+        bytes32[] memory _roles
+    ) external onlyStateAdmin(_state) {
+        require(
+            bytes(governmentOfficers[_employeeId].employeeId).length == 0,
+            "Officer already registered"
+        );
+        require(_signerAddress != address(0), "Invalid signer address");
+
+        governmentOfficers[_employeeId] = GovernmentOfficer({
+            employeeId: _employeeId,
+            signerAddress: _signerAddress,
+            name: _name,
+            department: _department,
+            state: _state,
+            district: _district,
+            isActive: true,
+            registrationDate: block.timestamp
+        });
+
+        activeOfficers[_employeeId] = true;
+        stateOfficerIds[_state].push(_employeeId);
+
+        emit GovernmentOfficerRegistered(
+            _employeeId,
+            _name,
+            _department,
+            _state,
+            _district,
+            block.timestamp
+        );
+
+        emit GovernmentOfficerSignerChanged(
+            _employeeId,
+            address(0),
+            _signerAddress,
+            block.timestamp
+        );
+
+        for (uint256 i = 0; i < _roles.length; i++) {
+            _requireKnownOfficerRole(_roles[i]);
+            _setOfficerRole(_employeeId, _roles[i], true);
+        }
+    }
+
+    /**
+     * @dev Grant or revoke an officer role (only by contract owner or the officer's state admins)
+     */
+    function setOfficerRole(
+        string memory _employeeId,
+        bytes32 _role,
+        bool _isGranted
+    ) external onlyStateAdmin(governmentOfficers[_employeeId].state) {
+        require(
+            bytes(governmentOfficers[_employeeId].employeeId).length > 0,
+            "Officer not registered"
+        );
+        _requireKnownOfficerRole(_role);
+
+        _setOfficerRole(_employeeId, _role, _isGranted);
+    }
+
+    /**
+     * @dev Grant or revoke a state admin who manages the state's officers (only by contract owner)
+     */
+    function setStateAdmin(
+        string memory _state,
+        address _admin,
+        bool _isAuthorized
+    ) external onlyOwner {
+        require(bytes(_state).length > 0, "State required");
+        require(_admin != address(0), "Invalid admin address");
+        stateAdmins[_state][_admin] = _isAuthorized;
+
+        emit StateAdminUpdated(_state, _admin, _isAuthorized, block.timestamp);
+    }
+
+    /**
+     * @dev Register LGD units under one parent: states by the contract owner only, lower levels
+     * also by the enclosing state's admins. Codes cannot be re-registered once properties may use them
+     */
+    function registerAdminUnits(
+        AdminLevel _level,
+        uint256 _parentCode,
+        uint256[] memory _codes,
+        string[] memory _names
+    ) external {
+        require(_level != AdminLevel.None, "Invalid level");
+        require(_codes.length == _names.length, "Code and name counts differ");
+
+        if (_level == AdminLevel.State) {
+            require(_parentCode == 0, "States have no parent");
+            _checkOwner();
+        } else {
+            AdminLevel parentLevel = AdminLevel(uint8(_level) - 1);
+            require(
+                adminUnits[parentLevel][_parentCode].lgdCode != 0,
+                "Parent unit not registered"
+            );
+            string memory state = _adminUnitStateName(parentLevel, _parentCode);
+            require(
+                msg.sender == owner() || stateAdmins[state][msg.sender],
+                "Not an admin for this state"
+            );
+        }
+
+        for (uint256 i = 0; i < _codes.length; i++) {
+            require(_codes[i] > 0, "Invalid LGD code");
+            require(bytes(_names[i]).length > 0, "Name required");
+            require(
+                adminUnits[_level][_codes[i]].lgdCode == 0,
+                "LGD code already registered"
+            );
+
+            adminUnits[_level][_codes[i]] = AdminUnit({
+                lgdCode: _codes[i],
+                name: _names[i],
+                level: _level,
+                parentCode: _parentCode
+            });
+            adminUnitChildren[
+                _level == AdminLevel.State
+                    ? AdminLevel.None
+                    : AdminLevel(uint8(_level) - 1)
+            ][_parentCode].push(_codes[i]);
+
+            emit AdminUnitRegistered(
+                _level,
+                _codes[i],
+                _parentCode,
+                _names[i],
+                block.timestamp
+            );
+        }
+    }
+
+    /**
+     * @dev Grant or revoke the auditor role, which opens the roster views in the admin panel but changes nothing on chain (only by contract owner)
+     */
+    function setAuditor(
+        address _auditor,
+        bool _isAuthorized
+    ) external onlyOwner {
+        require(_auditor != address(0), "Invalid auditor address");
+        auditors[_auditor] = _isAuthorized;
+
+        emit AuditorUpdated(_auditor, _isAuthorized, block.timestamp);
+    }
+
+    /**
+     * @dev Rotate the wallet authorized to act for a government officer (only by contract owner)
+     */
+    function setOfficerSigner(
+        string memory _employeeId,
+        address _newSigner
+    ) external onlyOwner {
+        require(
+            bytes(governmentOfficers[_employeeId].employeeId).length > 0,
+            "Officer not registered"
+        );
+        require(_newSigner != address(0), "Invalid signer address");
+
+        address previousSigner = governmentOfficers[_employeeId].signerAddress;
+        governmentOfficers[_employeeId].signerAddress = _newSigner;
+
+        emit GovernmentOfficerSignerChanged(
+            _employeeId,
+            previousSigner,
+            _newSigner,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Activate/Deactivate government officer (only by contract owner or the officer's state admins)
+     */
+    function setOfficerStatus(
+        string memory _employeeId,
+        bool _isActive
+    ) external onlyStateAdmin(governmentOfficers[_employeeId].state) {
+        require(
+            bytes(governmentOfficers[_employeeId].employeeId).length > 0,
+            "Officer not registered"
+        );
+
+        governmentOfficers[_employeeId].isActive = _isActive;
+        activeOfficers[_employeeId] = _isActive;
+
+        emit GovernmentOfficerStatusChanged(
+            _employeeId,
+            _isActive,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Grant or revoke the court authority role (only by contract owner)
+     */
+    function setCourtAuthority(
+        address _authority,
+        bool _isAuthorized
+    ) external onlyOwner {
+        require(_authority != address(0), "Invalid authority address");
+        courtAuthorities[_authority] = _isAuthorized;
+
+        emit CourtAuthorityUpdated(_authority, _isAuthorized, block.timestamp);
+    }
+
+    /**
+     * @dev Set the stamp duty and registration fee for a property type in a state (only by contract owner)
+     */
+    function setFeeSchedule(
+        string memory _state,
+        string memory _propertyType,
+        uint256 _stampDutyBps,
+        uint256 _minStampDuty,
+        uint256 _maxStampDuty,
+        uint256 _registrationFee
+    ) external onlyOwner {
+        require(_stampDutyBps <= BASIS_POINTS, "Stamp duty cannot exceed 100%");
+        require(
+            _maxStampDuty == 0 || _maxStampDuty >= _minStampDuty,
+            "Maximum stamp duty below minimum"
+        );
+
+        feeSchedules[_state][_propertyType] = FeeSchedule({
+            stampDutyBps: _stampDutyBps,
+            minStampDuty: _minStampDuty,
+            maxStampDuty: _maxStampDuty,
+            registrationFee: _registrationFee,
+            isActive: true
+        });
+
+        emit FeeScheduleUpdated(
+            _state,
+            _propertyType,
+            _stampDutyBps,
+            _minStampDuty,
+            _maxStampDuty,
+            _registrationFee,
+            true,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Remove a fee schedule so transfers fall back to TRANSFER_FEE (only by contract owner)
+     */
+    function removeFeeSchedule(
+        string memory _state,
+        string memory _propertyType
+    ) external onlyOwner {
+        require(
+            feeSchedules[_state][_propertyType].isActive,
+            "No fee schedule for this property type"
+        );
+        delete feeSchedules[_state][_propertyType];
+
+        emit FeeScheduleUpdated(
+            _state,
+            _propertyType,
+            0,
+            0,
+            0,
+            0,
+            false,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Set the stamp duty rate reduction for a buyer category in a state, 0 to remove (only by contract owner)
+     */
+    function setStampDutyConcession(
+        string memory _state,
+        string memory _buyerCategory,
+        uint256 _concessionBps
+    ) external onlyOwner {
+        require(bytes(_buyerCategory).length > 0, "Buyer category required");
+        require(_concessionBps <= BASIS_POINTS, "Concession cannot exceed 100%");
+        stampDutyConcessions[_state][_buyerCategory] = _concessionBps;
+
+        emit StampDutyConcessionUpdated(
+            _state,
+            _buyerCategory,
+            _concessionBps,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Set how many distinct officers must approve a state's high-value or flagged transfers (only by contract owner)
+     * Applies to transfers declared at or above the threshold, on quorum property types, or flagged as undervalued
+     */
+    function setApprovalQuorum(
+        string memory _state,
+        uint256 _requiredApprovals,
+        uint256 _valueThreshold
+    ) external onlyOwner {
+        require(bytes(_state).length > 0, "State required");
+        require(_requiredApprovals > 0, "At least one approval required");
+
+        approvalQuorums[_state] = ApprovalQuorum({
+            requiredApprovals: _requiredApprovals,
+            valueThreshold: _valueThreshold
+        });
+
+        emit ApprovalQuorumUpdated(
+            _state,
+            _requiredApprovals,
+            _valueThreshold,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Require the state's approval quorum for every transfer of a property type (only by contract owner)
+     */
+    function setQuorumPropertyType(
+        string memory _state,
+        string memory _propertyType,
+        bool _requiresQuorum
+    ) external onlyOwner {
+        require(bytes(_state).length > 0, "State required");
+        require(bytes(_propertyType).length > 0, "Property type required");
+        quorumPropertyTypes[_state][_propertyType] = _requiresQuorum;
+
+        emit QuorumPropertyTypeUpdated(
+            _state,
+            _propertyType,
+            _requiresQuorum,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Set the share of each fee credited to the processing officer (only by contract owner)
+     */
+    function setOfficerIncentiveShare(uint256 _incentiveBps) external onlyOwner {
+        require(_incentiveBps <= BASIS_POINTS, "Incentive cannot exceed 100%");
+        officerIncentiveBps = _incentiveBps;
+
+        emit OfficerIncentiveShareUpdated(_incentiveBps, block.timestamp);
+    }
+
+    /**
+     * @dev Grant or revoke a state treasurer allowed to withdraw the state's fees (only by contract owner)
+     */
+    function setStateTreasurer(
+        string memory _state,
+        address _treasurer,
+        bool _isAuthorized
+    ) external onlyOwner {
+        require(bytes(_state).length > 0, "State required");
+        require(_treasurer != address(0), "Invalid treasurer address");
+        stateTreasurers[_state][_treasurer] = _isAuthorized;
+
+        emit StateTreasurerUpdated(
+            _state,
+            _treasurer,
+            _isAuthorized,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Set the circle rate for a property type in a district within the officer's jurisdiction
+     */
+    function setCircleRate(
+        string memory _state,
+        string memory _district,
+        string memory _propertyType,
+        string memory _employeeId,
+        uint256 _ratePerSqm
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, REGISTRAR_ROLE)
+    {
+        require(bytes(_district).length > 0, "District required");
+        require(
+            _coversLocation(_employeeId, _state, _district),
+            "District outside officer's jurisdiction"
+        );
+
+        circleRates[_state][_district][_propertyType] = CircleRate({
+            ratePerSqm: _ratePerSqm,
+            setByEmployeeId: _employeeId,
+            updatedDate: block.timestamp
+        });
+
+        emit CircleRateUpdated(
+            _state,
+            _district,
+            _propertyType,
+            _ratePerSqm,
+            _employeeId,
+            block.timestamp
+        );
+    }
+}
@@ -0,0 +1,316 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title MigrationModule
+ * @dev Replays records from a non-upgradeable deployment and backfills indexes added by later upgrades
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract MigrationModule is LandRegistryStorage {
+    /**
+     * @dev Replay an owner from a non-upgradeable deployment (only by contract owner, before finalizing)
+     */
+    function migrateOwner(
+        Owner memory _owner
+    ) external onlyOwner onlyDuringMigration {
+        require(_owner.ownerAddress != address(0), "Invalid owner address");
+        require(
+            owners[_owner.ownerAddress].ownerAddress == address(0),
+            "Owner already registered"
+        );
+        require(
+            bytes(_owner.idDocument).length == 0 &&
+                _owner.idDocumentHash != bytes32(0),
+            "Hash the ID document before migrating"
+        );
+        require(
+            bytes(_owner.name).length == 0 &&
+                bytes(_owner.contactInfo).length == 0 &&
+                _owner.piiHash != bytes32(0),
+            "Move the name and contact info to the PII vault before migrating"
+        );
+
+        owners[_owner.ownerAddress] = _owner;
+        ownersByIdDocumentHash[_owner.idDocumentHash].push(
+            uint256(uint160(_owner.ownerAddress))
+        );
+
+        emit RecordMigrated(
+            "Owner",
+            Strings.toHexString(_owner.ownerAddress),
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Replay a government officer with the roles it should hold (only by contract owner, before finalizing).
+     * Legacy officers had no roles, so the caller decides which of them verify and which approve transfers
+     */
+    function migrateGovernmentOfficer(
+        GovernmentOfficer memory _officer,
+        bytes32[] memory _roles
+    ) external onlyOwner onlyDuringMigration {
+        require(bytes(_officer.employeeId).length > 0, "Employee ID required");
+        require(
+            bytes(governmentOfficers[_officer.employeeId].employeeId).length == 0,
+            "Officer already registered"
+        );
+        require(_officer.signerAddress != address(0), "Invalid signer address");
+
+        governmentOfficers[_officer.employeeId] = _officer;
+        activeOfficers[_officer.employeeId] = _officer.isActive;
+        stateOfficerIds[_officer.state].push(_officer.employeeId);
+        for (uint256 i = 0; i < _roles.length; i++) {
+            _requireKnownOfficerRole(_roles[i]);
+            _setOfficerRole(_officer.employeeId, _roles[i], true);
+        }
+
+        emit RecordMigrated("GovernmentOfficer", _officer.employeeId, block.timestamp);
+    }
+
+    /**
+     * @dev Replay a property under its original ID, held wholly by its current owner (only by contract owner, before finalizing)
+     */
+    function migrateProperty(
+        Property memory _property
+    ) external onlyOwner onlyDuringMigration {
+        require(_property.propertyId > 0, "Invalid property ID");
+        require(
+            !properties[_property.propertyId].isRegistered,
+            "Property already exists"
+        );
+        require(
+            owners[_property.currentOwner].ownerAddress != address(0),
+            "Migrate the owner first"
+        );
+
+        properties[_property.propertyId] = _property;
+        propertyCoOwners[_property.propertyId].push(
+            CoOwner({ownerAddress: _property.currentOwner, sharePercentage: 100})
+        );
+        ownerProperties[_property.currentOwner].push(_property.propertyId);
+        stateProperties[_property.state].push(_property.propertyId);
+        districtProperties[_property.state][_property.district].push(
+            _property.propertyId
+        );
+        // Legacy duplicates are flagged rather than refused, so the rest of the migration can proceed
+        _indexSurveyNumber(_property.propertyId);
+        if (_property.villageCode != 0) {
+            _assignVillage(_property.propertyId, _property.villageCode);
+        }
+        if (_property.propertyId > propertyCounter) {
+            propertyCounter = _property.propertyId;
+        }
+
+        emit RecordMigrated(
+            "Property",
+            Strings.toString(_property.propertyId),
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Replay a verification request under its original ID (only by contract owner, before finalizing)
+     */
+    function migrateVerificationRequest(
+        VerificationRequest memory _request
+    ) external onlyOwner onlyDuringMigration {
+        require(_request.verificationId > 0, "Invalid verification ID");
+        require(
+            verificationRequests[_request.verificationId].verificationId == 0,
+            "Verification request already exists"
+        );
+        require(
+            properties[_request.propertyId].isRegistered,
+            "Migrate the property first"
+        );
+
+        verificationRequests[_request.verificationId] = _request;
+        _indexIfOpenVerification(_request.verificationId);
+        if (_request.verificationId > verificationRequestCounter) {
+            verificationRequestCounter = _request.verificationId;
+        }
+
+        emit RecordMigrated(
+            "VerificationRequest",
+            Strings.toString(_request.verificationId),
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Replay a transfer request under its original ID; completed ones join the
+     * property's transfer history (only by contract owner, before finalizing)
+     */
+    function migrateTransferRequest(
+        TransferRequest memory _request
+    ) external onlyOwner onlyDuringMigration {
+        require(_request.requestId > 0, "Invalid request ID");
+        require(
+            transferRequests[_request.requestId].requestId == 0,
+            "Transfer request already exists"
+        );
+        require(
+            properties[_request.propertyId].isRegistered,
+            "Migrate the property first"
+        );
+
+        transferRequests[_request.requestId] = _request;
+        if (_request.isCompleted) {
+            propertyTransferHistory[_request.propertyId].push(_request.requestId);
+        }
+        _indexIfOpenTransfer(_request.requestId);
+        if (_request.requestId > transferRequestCounter) {
+            transferRequestCounter = _request.requestId;
+        }
+
+        emit RecordMigrated(
+            "TransferRequest",
+            Strings.toString(_request.requestId),
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Receive the fees still escrowed for pending requests in the old deployment (only by contract owner, before finalizing)
+     */
+    function receiveMigrationEscrow()
+        external
+        payable
+        onlyOwner
+        onlyDuringMigration
+    {
+        require(msg.value > 0, "No escrow sent");
+
+        emit MigrationEscrowReceived(msg.value, block.timestamp);
+    }
+
+    /**
+     * @dev Close the migration window for good (only by contract owner)
+     */
+    function finalizeMigration() external onlyOwner onlyDuringMigration {
+        migrationFinalized = true;
+
+        emit MigrationFinalized(block.timestamp);
+    }
+
+    /**
+     * @dev Index open requests created before the open-request indexes existed,
+     * in batches of request IDs (only by contract owner; safe to repeat)
+     */
+    function indexOpenRequests(
+        uint256 _fromId,
+        uint256 _toId
+    ) external onlyOwner {
+        require(_fromId > 0 && _fromId <= _toId, "Invalid ID range");
+
+        for (uint256 i = _fromId; i <= _toId; i++) {
+            _indexIfOpenVerification(i);
+            _indexIfOpenTransfer(i);
+        }
+    }
+
+    /**
+     * @dev Index the survey numbers of properties registered before the uniqueness index existed,
+     * in batches of property IDs (only by contract owner; safe to repeat). Duplicates already on
+     * record are left unindexed and reported with SurveyNumberConflict for officers to resolve
+     */
+    function indexSurveyNumbers(
+        uint256 _fromId,
+        uint256 _toId
+    ) external onlyOwner {
+        require(_fromId > 0 && _fromId <= _toId, "Invalid ID range");
+
+        for (uint256 i = _fromId; i <= _toId; i++) {
+            if (properties[i].isRegistered) {
+                _indexSurveyNumber(i);
+            }
+        }
+    }
+
+    /**
+     * @dev Place properties registered before the LGD hierarchy under their villages (only by contract owner).
+     * Each village must lie in the property's recorded state and district; properties already coded are skipped
+     */
+    function assignPropertyVillageCodes(
+        uint256[] memory _propertyIds,
+        uint256[] memory _villageCodes
+    ) external onlyOwner {
+        require(
+            _propertyIds.length == _villageCodes.length,
+            "Property and village counts differ"
+        );
+
+        for (uint256 i = 0; i < _propertyIds.length; i++) {
+            require(
+                properties[_propertyIds[i]].isRegistered,
+                "Property not registered"
+            );
+            if (properties[_propertyIds[i]].villageCode == 0) {
+                _assignVillage(_propertyIds[i], _villageCodes[i]);
+            }
+        }
+    }
+
+    /**
+     * @dev Replace owners' plaintext ID documents with their salted hashes, computed off-chain
+     * (only by contract owner). Owners already hashed are skipped, so batches can be re-sent
+     */
+    function migrateOwnerIdDocuments(
+        address[] memory _owners,
+        bytes32[] memory _idDocumentHashes
+    ) external onlyOwner {
+        require(
+            _owners.length == _idDocumentHashes.length,
+            "Owner and hash counts differ"
+        );
+
+        for (uint256 i = 0; i < _owners.length; i++) {
+            Owner storage ownerRecord = owners[_owners[i]];
+            if (bytes(ownerRecord.idDocument).length == 0) {
+                continue;
+            }
+            require(_idDocumentHashes[i] != bytes32(0), "ID document hash required");
+
+            _removeOwnerId(ownersByIdDocument[ownerRecord.idDocument], _owners[i]);
+            delete ownerRecord.idDocument;
+
+            ownerRecord.idDocumentHash = _idDocumentHashes[i];
+            ownersByIdDocumentHash[_idDocumentHashes[i]].push(
+                uint256(uint160(_owners[i]))
+            );
+
+            emit OwnerIdDocumentHashed(_owners[i], block.timestamp);
+        }
+    }
+
+    /**
+     * @dev Replace owners' plaintext name and contact info with the hash of the record now held in the
+     * PII vault (only by contract owner). Owners already moved are skipped, so batches can be re-sent
+     */
+    function migrateOwnerPii(
+        address[] memory _owners,
+        bytes32[] memory _piiHashes
+    ) external onlyOwner {
+        require(_owners.length == _piiHashes.length, "Owner and hash counts differ");
+
+        for (uint256 i = 0; i < _owners.length; i++) {
+            Owner storage ownerRecord = owners[_owners[i]];
+            if (
+                bytes(ownerRecord.name).length == 0 &&
+                bytes(ownerRecord.contactInfo).length == 0
+            ) {
+                continue;
+            }
+            require(_piiHashes[i] != bytes32(0), "PII hash required");
+
+            delete ownerRecord.name;
+            delete ownerRecord.contactInfo;
+            ownerRecord.piiHash = _piiHashes[i];
+
+            emit OwnerPiiMoved(_owners[i], _piiHashes[i], block.timestamp);
+        }
+    }
+}
@@ -0,0 +1,449 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title OwnersModule
+ * @dev Owner registration, profile changes, PII vault access grants and wallet recovery
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract OwnersModule is LandRegistryStorage {
+    /**
+     * @dev Register a new owner. Pass the salted hash of the ID document, never the number itself,
+     * and the hash the PII vault returned for the owner's name and contact record
+     */
+    function registerOwner(
+        bytes32 _idDocumentHash,
+        bytes32 _piiHash,
+        string memory _homeState,
+        string memory _homeDistrict
+    ) external {
+        require(
+            owners[msg.sender].ownerAddress == address(0),
+            "Owner already registered"
+        );
+        require(_idDocumentHash != bytes32(0), "ID document hash required");
+        require(_piiHash != bytes32(0), "PII hash required");
+
+        owners[msg.sender] = Owner({
+            ownerAddress: msg.sender,
+            name: "",
+            idDocument: "",
+            contactInfo: "",
+            isVerified: false,
+            homeState: _homeState,
+            homeDistrict: _homeDistrict,
+            idDocumentHash: _idDocumentHash,
+            piiHash: _piiHash
+        });
+
+        // Add to ID document hash mapping for search functionality
+        ownersByIdDocumentHash[_idDocumentHash].push(uint256(uint160(msg.sender)));
+
+        emit OwnerRegistered(
+            msg.sender,
+            _homeState,
+            _homeDistrict,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Update the caller's home location and the hash of their re-stored vault contact record;
+     * the previous values go to the profile history
+     */
+    function updateOwnerContactInfo(
+        bytes32 _piiHash,
+        string memory _homeState,
+        string memory _homeDistrict
+    ) external {
+        Owner storage ownerRecord = owners[msg.sender];
+        require(ownerRecord.ownerAddress != address(0), "Owner not registered");
+        require(_piiHash != bytes32(0), "PII hash required");
+        require(
+            bytes(_homeState).length > 0 && bytes(_homeDistrict).length > 0,
+            "Home state and district required"
+        );
+
+        _recordProfileHistory(msg.sender, "");
+
+        ownerRecord.piiHash = _piiHash;
+        ownerRecord.homeState = _homeState;
+        ownerRecord.homeDistrict = _homeDistrict;
+
+        emit OwnerProfileUpdated(msg.sender, "Contact", "", block.timestamp);
+    }
+
+    /**
+     * @dev Ask an officer to change the caller's name or ID document hash (re-KYC).
+     * A new name is stored in the PII vault first and passed as the hash of that record.
+     * Pass the current value for whichever field stays the same
+     */
+    function requestProfileChange(
+        bytes32 _newPiiHash,
+        bytes32 _newIdDocumentHash,
+        string memory _supportingDocumentHash
+    ) external returns (uint256) {
+        Owner storage ownerRecord = owners[msg.sender];
+        require(ownerRecord.ownerAddress != address(0), "Owner not registered");
+        require(
+            pendingProfileChanges[msg.sender] == 0,
+            "Profile change already pending"
+        );
+        require(
+            _newPiiHash != bytes32(0) && _newIdDocumentHash != bytes32(0),
+            "PII hash and ID document required"
+        );
+        require(
+            _newPiiHash != ownerRecord.piiHash ||
+                _newIdDocumentHash != ownerRecord.idDocumentHash,
+            "No profile changes requested"
+        );
+        require(
+            bytes(_supportingDocumentHash).length > 0,
+            "Supporting document required"
+        );
+
+        profileChangeRequestCounter++;
+        uint256 newRequestId = profileChangeRequestCounter;
+
+        profileChangeRequests[newRequestId] = ProfileChangeRequest({
+            requestId: newRequestId,
+            ownerAddress: msg.sender,
+            newPiiHash: _newPiiHash,
+            newIdDocumentHash: _newIdDocumentHash,
+            supportingDocumentHash: _supportingDocumentHash,
+            requestDate: block.timestamp,
+            isPending: true,
+            isApproved: false,
+            officerEmployeeId: "",
+            notes: ""
+        });
+        pendingProfileChanges[msg.sender] = newRequestId;
+        _addOpenRequest(
+            openProfileChangeRequestIds,
+            openProfileChangeRequestPositions,
+            newRequestId
+        );
+
+        emit ProfileChangeRequested(
+            newRequestId,
+            msg.sender,
+            _supportingDocumentHash,
+            block.timestamp
+        );
+
+        return newRequestId;
+    }
+
+    /**
+     * @dev Approve or reject a name/ID document change (officers covering the owner's home district).
+     * Approval records the old values in the profile history and moves the ID document search index
+     */
+    function processProfileChange(
+        uint256 _requestId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        ProfileChangeRequest storage request = profileChangeRequests[_requestId];
+        require(request.isPending, "Profile change not pending");
+
+        address ownerAddress = request.ownerAddress;
+        Owner storage ownerRecord = owners[ownerAddress];
+        require(
+            _coversLocation(
+                _employeeId,
+                ownerRecord.homeState,
+                ownerRecord.homeDistrict
+            ),
+            "Owner outside officer's jurisdiction"
+        );
+
+        request.isPending = false;
+        request.isApproved = _approve;
+        request.officerEmployeeId = _employeeId;
+        request.notes = _notes;
+        delete pendingProfileChanges[ownerAddress];
+        _removeOpenRequest(
+            openProfileChangeRequestIds,
+            openProfileChangeRequestPositions,
+            _requestId
+        );
+
+        if (_approve) {
+            _recordProfileHistory(ownerAddress, _employeeId);
+
+            if (request.newIdDocumentHash != ownerRecord.idDocumentHash) {
+                _removeOwnerId(
+                    ownersByIdDocumentHash[ownerRecord.idDocumentHash],
+                    ownerAddress
+                );
+                ownersByIdDocumentHash[request.newIdDocumentHash].push(
+                    uint256(uint160(ownerAddress))
+                );
+            }
+
+            ownerRecord.piiHash = request.newPiiHash;
+            ownerRecord.idDocumentHash = request.newIdDocumentHash;
+
+            emit OwnerProfileUpdated(
+                ownerAddress,
+                "Identity",
+                _employeeId,
+                block.timestamp
+            );
+        }
+
+        emit ProfileChangeProcessed(
+            _requestId,
+            ownerAddress,
+            _employeeId,
+            _approve,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Let a wallet (an officer's signer or a bank) read the caller's PII vault record
+     */
+    function grantPiiAccess(
+        address _grantee,
+        string memory _granteeLabel
+    ) external {
+        require(owners[msg.sender].ownerAddress != address(0), "Owner not registered");
+        require(
+            _grantee != address(0) && _grantee != msg.sender,
+            "Invalid grantee"
+        );
+        require(
+            piiAccessGrantPositions[msg.sender][_grantee] == 0,
+            "Access already granted"
+        );
+        require(bytes(_granteeLabel).length > 0, "Grantee label required");
+
+        piiAccessGrants[msg.sender].push(
+            PiiAccessGrant({
+                grantee: _grantee,
+                granteeLabel: _granteeLabel,
+                grantedDate: block.timestamp
+            })
+        );
+        piiAccessGrantPositions[msg.sender][_grantee] = piiAccessGrants[msg.sender].length;
+
+        emit PiiAccessGranted(msg.sender, _grantee, _granteeLabel, block.timestamp);
+    }
+
+    /**
+     * @dev Withdraw a wallet's read access to the caller's PII vault record
+     */
+    function revokePiiAccess(address _grantee) external {
+        uint256 position = piiAccessGrantPositions[msg.sender][_grantee];
+        require(position > 0, "Access not granted");
+
+        PiiAccessGrant[] storage grants = piiAccessGrants[msg.sender];
+        uint256 lastIndex = grants.length - 1;
+        if (position - 1 != lastIndex) {
+            grants[position - 1] = grants[lastIndex];
+            piiAccessGrantPositions[msg.sender][grants[position - 1].grantee] = position;
+        }
+        grants.pop();
+        delete piiAccessGrantPositions[msg.sender][_grantee];
+
+        emit PiiAccessRevoked(msg.sender, _grantee, block.timestamp);
+    }
+
+    /**
+     * @dev File a recovery request from a new wallet for an owner whose key is lost.
+     * The owner's ID document hash is public, so it proves nothing here; the officer checks the
+     * claimant's ID document against it in person and reviews the affidavit before approving
+     */
+    function requestWalletRecovery(
+        address _lostAddress,
+        string memory _affidavitHash
+    ) external returns (uint256) {
+        Owner storage lostOwner = owners[_lostAddress];
+        require(lostOwner.ownerAddress != address(0), "Owner not registered");
+        require(
+            _lostAddress != msg.sender &&
+                owners[msg.sender].ownerAddress == address(0) &&
+                ownerProperties[msg.sender].length == 0,
+            "New wallet must be unused"
+        );
+        require(bytes(_affidavitHash).length > 0, "Affidavit required");
+        require(
+            pendingWalletRecoveries[_lostAddress] == 0,
+            "Recovery already pending"
+        );
+
+        walletRecoveryRequestCounter++;
+        uint256 newRequestId = walletRecoveryRequestCounter;
+
+        walletRecoveryRequests[newRequestId] = WalletRecoveryRequest({
+            requestId: newRequestId,
+            lostAddress: _lostAddress,
+            newAddress: msg.sender,
+            affidavitHash: _affidavitHash,
+            requestDate: block.timestamp,
+            isPending: true,
+            isApproved: false,
+            isCancelled: false,
+            isExecuted: false,
+            officerEmployeeId: "",
+            notes: "",
+            executableAfter: 0
+        });
+        pendingWalletRecoveries[_lostAddress] = newRequestId;
+        walletRecoveryRequestsOf[_lostAddress].push(newRequestId);
+        walletRecoveryRequestsOf[msg.sender].push(newRequestId);
+        _addOpenRequest(
+            openWalletRecoveryRequestIds,
+            openWalletRecoveryRequestPositions,
+            newRequestId
+        );
+
+        emit WalletRecoveryRequested(
+            newRequestId,
+            _lostAddress,
+            msg.sender,
+            _affidavitHash,
+            block.timestamp
+        );
+
+        return newRequestId;
+    }
+
+    /**
+     * @dev Approve or reject a wallet recovery (officers covering the owner's home district).
+     * Approval starts the waiting period during which the lost wallet can still cancel
+     */
+    function processWalletRecovery(
+        uint256 _requestId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        WalletRecoveryRequest storage request = walletRecoveryRequests[_requestId];
+        require(request.isPending, "Recovery not pending");
+
+        Owner storage lostOwner = owners[request.lostAddress];
+        require(
+            _coversLocation(
+                _employeeId,
+                lostOwner.homeState,
+                lostOwner.homeDistrict
+            ),
+            "Owner outside officer's jurisdiction"
+        );
+
+        request.isPending = false;
+        request.isApproved = _approve;
+        request.officerEmployeeId = _employeeId;
+        request.notes = _notes;
+        _removeOpenRequest(
+            openWalletRecoveryRequestIds,
+            openWalletRecoveryRequestPositions,
+            _requestId
+        );
+
+        if (_approve) {
+            request.executableAfter =
+                block.timestamp +
+                WALLET_RECOVERY_WAITING_PERIOD;
+        } else {
+            delete pendingWalletRecoveries[request.lostAddress];
+        }
+
+        emit WalletRecoveryProcessed(
+            _requestId,
+            _employeeId,
+            _approve,
+            request.executableAfter,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Cancel a wallet recovery that has not been executed. The lost wallet uses this
+     * to stop a recovery it did not ask for; the new wallet can withdraw its own request
+     */
+    function cancelWalletRecovery(uint256 _requestId) external {
+        WalletRecoveryRequest storage request = walletRecoveryRequests[_requestId];
+        require(
+            msg.sender == request.lostAddress ||
+                msg.sender == request.newAddress,
+            "Only the lost or new wallet can cancel"
+        );
+        require(
+            request.isPending || (request.isApproved && !request.isExecuted),
+            "Recovery not open"
+        );
+        require(!request.isCancelled, "Recovery already cancelled");
+
+        request.isPending = false;
+        request.isCancelled = true;
+        delete pendingWalletRecoveries[request.lostAddress];
+        _removeOpenRequest(
+            openWalletRecoveryRequestIds,
+            openWalletRecoveryRequestPositions,
+            _requestId
+        );
+
+        emit WalletRecoveryCancelled(_requestId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Move an approved recovery's owner record, properties, open requests, leases and powers
+     * of attorney to the new wallet once the waiting period has passed. Not a transfer: no transfer
+     * history entry or fee
+     */
+    function executeWalletRecovery(uint256 _requestId) external {
+        WalletRecoveryRequest storage request = walletRecoveryRequests[_requestId];
+        require(msg.sender == request.newAddress, "Only the new wallet can execute");
+        require(
+            request.isApproved && !request.isCancelled && !request.isExecuted,
+            "Recovery not approved"
+        );
+        require(
+            block.timestamp >= request.executableAfter,
+            "Waiting period not over"
+        );
+
+        address lostAddress = request.lostAddress;
+        require(
+            owners[lostAddress].ownerAddress != address(0),
+            "Owner not registered"
+        );
+        require(
+            owners[msg.sender].ownerAddress == address(0) &&
+                ownerProperties[msg.sender].length == 0,
+            "New wallet must be unused"
+        );
+
+        request.isExecuted = true;
+        delete pendingWalletRecoveries[lostAddress];
+        recoveredFromAddress[msg.sender] = lostAddress;
+
+        uint256 propertiesMoved = _moveOwnerProperties(lostAddress, msg.sender);
+        _moveOwnerRecord(lostAddress, msg.sender);
+        _moveOpenOwnerRequests(lostAddress, msg.sender);
+        _moveOwnerRights(lostAddress, msg.sender);
+
+        emit WalletRecovered(
+            _requestId,
+            lostAddress,
+            msg.sender,
+            propertiesMoved,
+            block.timestamp
+        );
+    }
+}
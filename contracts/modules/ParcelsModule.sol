@@ -0,0 +1,372 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title ParcelsModule
+ * @dev Partition of a property into child parcels and amalgamation of adjacent parcels
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract ParcelsModule is LandRegistryStorage {
+    /**
+     * @dev Request partition of a verified property into sub-division parcels
+     * Child areas must sum to the parent's area; an officer must approve before parcels are created
+     */
+    function requestPartition(
+        uint256 _propertyId,
+        uint256[] memory _childAreas,
+        string[] memory _childSubDivisions,
+        string memory _documentHash
+    )
+        external
+        onlyPropertyOwner(_propertyId)
+        propertyExists(_propertyId)
+        returns (uint256)
+    {
+        Property storage property = properties[_propertyId];
+        require(property.isVerified, "Property must be verified first");
+        require(!property.isRetired, "Property has been retired");
+        require(
+            pendingPartitionOf[_propertyId] == 0,
+            "Partition already pending"
+        );
+        require(pendingMergeOf[_propertyId] == 0, "Merge already pending");
+        require(
+            activeEncumbranceCount[_propertyId] == 0,
+            "Property has an active encumbrance"
+        );
+        require(!_isUnderLegalHold(_propertyId), "Property is under legal hold");
+        _requireNoTransfersOrLeases(_propertyId);
+        require(
+            _childAreas.length == _childSubDivisions.length,
+            "Area and sub-division counts differ"
+        );
+        require(
+            _childAreas.length >= 2 &&
+                _childAreas.length <= MAX_PARTITION_PARCELS,
+            "Invalid number of child parcels"
+        );
+
+        uint256 totalArea = 0;
+        for (uint256 i = 0; i < _childAreas.length; i++) {
+            require(_childAreas[i] > 0, "Child area must be greater than zero");
+            require(
+                bytes(_childSubDivisions[i]).length > 0,
+                "Sub-division required for each parcel"
+            );
+            bytes32 childKey = _surveyKey(
+                property.state,
+                property.district,
+                property.surveyNumber,
+                _childSubDivisions[i]
+            );
+            uint256 holder = propertyBySurveyKey[childKey];
+            require(
+                holder == 0 || holder == _propertyId,
+                "Survey number already registered in this district"
+            );
+            for (uint256 j = 0; j < i; j++) {
+                require(
+                    childKey !=
+                        _surveyKey(
+                            property.state,
+                            property.district,
+                            property.surveyNumber,
+                            _childSubDivisions[j]
+                        ),
+                    "Duplicate sub-division"
+                );
+            }
+            totalArea += _childAreas[i];
+        }
+        require(
+            totalArea == property.area,
+            "Child areas must sum to the parent area"
+        );
+
+        partitionRequestCounter++;
+        uint256 newPartitionId = partitionRequestCounter;
+
+        PartitionRequest storage request = partitionRequests[newPartitionId];
+        request.partitionId = newPartitionId;
+        request.propertyId = _propertyId;
+        request.requestedBy = msg.sender;
+        request.childAreas = _childAreas;
+        request.childSubDivisions = _childSubDivisions;
+        request.documentHash = _documentHash;
+        request.requestDate = block.timestamp;
+        request.isPending = true;
+
+        pendingPartitionOf[_propertyId] = newPartitionId;
+
+        emit PartitionRequested(
+            newPartitionId,
+            _propertyId,
+            msg.sender,
+            block.timestamp
+        );
+
+        return newPartitionId;
+    }
+
+    /**
+     * @dev Approve or reject a partition request (only by government officers)
+     * On approval the parent is retired and one verified child property is minted per parcel.
+     * Approval is refused if a hold, encumbrance, transfer or lease has been placed on the parent since the request
+     */
+    function processPartitionRequest(
+        uint256 _partitionId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        PartitionRequest storage request = partitionRequests[_partitionId];
+        require(request.isPending, "Partition request not pending");
+
+        uint256 parentId = request.propertyId;
+        Property storage parent = properties[parentId];
+        require(
+            _isWithinJurisdiction(_employeeId, parentId),
+            "Property outside officer's jurisdiction"
+        );
+
+        request.isPending = false;
+        request.isApproved = _approve;
+        request.officerEmployeeId = _employeeId;
+        request.notes = _notes;
+        pendingPartitionOf[parentId] = 0;
+
+        if (_approve) {
+            require(
+                parent.currentOwner == request.requestedBy,
+                "Property ownership changed since the request"
+            );
+            require(
+                activeEncumbranceCount[parentId] == 0,
+                "Property has an active encumbrance"
+            );
+            require(!_isUnderLegalHold(parentId), "Property is under legal hold");
+            _requireNoTransfersOrLeases(parentId);
+
+            // The parent stays searchable by location but leaves the owners' active lists
+            CoOwner[] storage coOwners = propertyCoOwners[parentId];
+            for (uint256 i = 0; i < coOwners.length; i++) {
+                _removePropertyFromOwner(coOwners[i].ownerAddress, parentId);
+            }
+            _releaseSurveyNumber(parentId);
+
+            for (uint256 i = 0; i < request.childAreas.length; i++) {
+                uint256 childId = _createDerivedProperty(
+                    parentId,
+                    request.childAreas[i],
+                    parent.surveyNumber,
+                    request.childSubDivisions[i],
+                    request.documentHash
+                );
+                properties[childId].parentPropertyIds.push(parentId);
+                request.childPropertyIds.push(childId);
+                parent.childPropertyIds.push(childId);
+            }
+
+            parent.isRetired = true;
+            parent.isTransferable = false;
+
+            emit PropertyPartitioned(
+                parentId,
+                request.childPropertyIds,
+                block.timestamp
+            );
+        }
+
+        emit PartitionProcessed(
+            _partitionId,
+            parentId,
+            _employeeId,
+            _approve,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Request amalgamation of adjacent parcels into a single property
+     * All parcels must be verified, solely owned by the caller, in the same state, district and
+     * village, and free of unsettled transfers and leases that have not ended. The merged parcel
+     * takes that village; parcels not yet placed in a village merge only with each other
+     */
+    function requestMerge(
+        uint256[] memory _propertyIds,
+        string memory _surveyNumber,
+        string memory _documentHash
+    ) external returns (uint256) {
+        require(
+            _propertyIds.length >= 2 && _propertyIds.length <= MAX_MERGE_PARCELS,
+            "Invalid number of parcels to merge"
+        );
+        require(bytes(_surveyNumber).length > 0, "Survey number required");
+
+        Property storage first = properties[_propertyIds[0]];
+        for (uint256 i = 0; i < _propertyIds.length; i++) {
+            uint256 propertyId = _propertyIds[i];
+            Property storage property = properties[propertyId];
+            require(property.isRegistered, "Property does not exist");
+            require(property.currentOwner == msg.sender, "Not the property owner");
+            require(
+                propertyCoOwners[propertyId].length == 1,
+                "Only solely owned properties can be merged"
+            );
+            require(property.isVerified, "Property must be verified first");
+            require(!property.isRetired, "Property has been retired");
+            require(pendingMergeOf[propertyId] == 0, "Merge already pending");
+            require(
+                activeEncumbranceCount[propertyId] == 0,
+                "Property has an active encumbrance"
+            );
+            require(
+                !_isUnderLegalHold(propertyId),
+                "Property is under legal hold"
+            );
+            require(
+                pendingPartitionOf[propertyId] == 0,
+                "Partition already pending"
+            );
+            _requireNoTransfersOrLeases(propertyId);
+            require(
+                keccak256(bytes(property.state)) == keccak256(bytes(first.state)) &&
+                    keccak256(bytes(property.district)) ==
+                    keccak256(bytes(first.district)),
+                "Parcels must be in the same state and district"
+            );
+            require(
+                property.villageCode == first.villageCode,
+                "Parcels must be in the same village"
+            );
+            for (uint256 j = 0; j < i; j++) {
+                require(propertyId != _propertyIds[j], "Duplicate property");
+            }
+        }
+
+        // The merged parcel may reuse the survey number of one of its sources
+        uint256 holder = propertyBySurveyKey[
+            _surveyKey(first.state, first.district, _surveyNumber, "")
+        ];
+        if (holder != 0) {
+            bool isSource = false;
+            for (uint256 i = 0; i < _propertyIds.length; i++) {
+                isSource = isSource || holder == _propertyIds[i];
+            }
+            require(isSource, "Survey number already registered in this district");
+        }
+
+        mergeRequestCounter++;
+        uint256 newMergeId = mergeRequestCounter;
+
+        MergeRequest storage request = mergeRequests[newMergeId];
+        request.mergeId = newMergeId;
+        request.propertyIds = _propertyIds;
+        request.requestedBy = msg.sender;
+        request.surveyNumber = _surveyNumber;
+        request.documentHash = _documentHash;
+        request.requestDate = block.timestamp;
+        request.isPending = true;
+
+        for (uint256 i = 0; i < _propertyIds.length; i++) {
+            pendingMergeOf[_propertyIds[i]] = newMergeId;
+        }
+
+        emit MergeRequested(newMergeId, msg.sender, _propertyIds, block.timestamp);
+
+        return newMergeId;
+    }
+
+    /**
+     * @dev Approve or reject a merge request (only by government officers)
+     * On approval the source parcels are superseded by one merged property with the summed area.
+     * Approval is refused if a hold, encumbrance, transfer or lease has been placed on any source since the request,
+     * or if a legacy source has since been placed in a different village
+     */
+    function processMergeRequest(
+        uint256 _mergeId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        MergeRequest storage request = mergeRequests[_mergeId];
+        require(request.isPending, "Merge request not pending");
+
+        uint256[] storage sourceIds = request.propertyIds;
+        require(
+            _isWithinJurisdiction(_employeeId, sourceIds[0]),
+            "Property outside officer's jurisdiction"
+        );
+
+        request.isPending = false;
+        request.isApproved = _approve;
+        request.officerEmployeeId = _employeeId;
+        request.notes = _notes;
+
+        uint256 totalArea = 0;
+        for (uint256 i = 0; i < sourceIds.length; i++) {
+            pendingMergeOf[sourceIds[i]] = 0;
+
+            if (_approve) {
+                Property storage source = properties[sourceIds[i]];
+                require(
+                    source.currentOwner == request.requestedBy &&
+                        propertyCoOwners[sourceIds[i]].length == 1,
+                    "Property ownership changed since the request"
+                );
+                require(
+                    activeEncumbranceCount[sourceIds[i]] == 0,
+                    "Property has an active encumbrance"
+                );
+                require(
+                    !_isUnderLegalHold(sourceIds[i]),
+                    "Property is under legal hold"
+                );
+                _requireNoTransfersOrLeases(sourceIds[i]);
+                // A legacy parcel may have been placed in a village since the request
+                require(
+                    source.villageCode == properties[sourceIds[0]].villageCode,
+                    "Parcels must be in the same village"
+                );
+                totalArea += source.area;
+                source.isRetired = true;
+                source.isTransferable = false;
+                _removePropertyFromOwner(request.requestedBy, sourceIds[i]);
+                _releaseSurveyNumber(sourceIds[i]);
+            }
+        }
+
+        if (_approve) {
+            uint256 mergedId = _createDerivedProperty(
+                sourceIds[0],
+                totalArea,
+                request.surveyNumber,
+                "",
+                request.documentHash
+            );
+            request.mergedPropertyId = mergedId;
+
+            Property storage merged = properties[mergedId];
+            for (uint256 i = 0; i < sourceIds.length; i++) {
+                merged.parentPropertyIds.push(sourceIds[i]);
+                properties[sourceIds[i]].childPropertyIds.push(mergedId);
+                propertyMergeHistory[sourceIds[i]].push(_mergeId);
+            }
+            propertyMergeHistory[mergedId].push(_mergeId);
+
+            emit PropertiesMerged(mergedId, sourceIds, block.timestamp);
+        }
+
+        emit MergeProcessed(_mergeId, _employeeId, _approve, block.timestamp);
+    }
+}
@@ -0,0 +1,295 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title PropertiesModule
+ * @dev Property registration, co-owners, verification and document updates
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract PropertiesModule is LandRegistryStorage {
+    /**
+     * @dev Register a new property in a village from the LGD registry; its tehsil, district and state follow from the village
+     */
+    function registerProperty(
+        string memory _propertyAddress,
+        uint256 _villageCode,
+        uint256 _area,
+        string memory _propertyType,
+        string memory _surveyNumber,
+        string memory _subDivision,
+        string memory _documentHash
+    ) external returns (uint256) {
+        require(
+            owners[msg.sender].ownerAddress != address(0),
+            "Owner must be registered first"
+        );
+        require(bytes(_surveyNumber).length > 0, "Survey number required");
+        (
+            string memory _state,
+            string memory _district,
+            string memory _tehsil,
+            string memory _village
+        ) = _resolveVillage(_villageCode);
+
+        propertyCounter++;
+        uint256 newPropertyId = propertyCounter;
+
+        properties[newPropertyId] = Property({
+            propertyId: newPropertyId,
+            propertyAddress: _propertyAddress,
+            district: _district,
+            state: _state,
+            area: _area,
+            propertyType: _propertyType,
+            surveyNumber: _surveyNumber,
+            subDivision: _subDivision,
+            currentOwner: msg.sender,
+            documentHash: _documentHash,
+            isRegistered: true,
+            isVerified: false,
+            isTransferable: false,
+            registrationDate: block.timestamp,
+            lastTransferDate: block.timestamp,
+            verificationFee: 0,
+            isRetired: false,
+            parentPropertyIds: new uint256[](0),
+            childPropertyIds: new uint256[](0),
+            tehsil: _tehsil,
+            village: _village,
+            villageCode: _villageCode
+        });
+
+        propertyCoOwners[newPropertyId].push(
+            CoOwner({ownerAddress: msg.sender, sharePercentage: 100})
+        );
+        ownerProperties[msg.sender].push(newPropertyId);
+        stateProperties[_state].push(newPropertyId);
+        districtProperties[_state][_district].push(newPropertyId);
+        _reserveSurveyNumber(newPropertyId);
+        _indexAdminUnitProperty(newPropertyId);
+
+        emit PropertyRegistered(
+            newPropertyId,
+            msg.sender,
+            _propertyAddress,
+            _state,
+            _district,
+            block.timestamp
+        );
+
+        return newPropertyId;
+    }
+
+    /**
+     * @dev Declare the co-owners of a property and their share percentages
+     * Only the primary owner can do this, before verification. The caller must be listed first.
+     */
+    function setPropertyCoOwners(
+        uint256 _propertyId,
+        address[] memory _coOwners,
+        uint256[] memory _sharePercentages
+    ) external onlyPropertyOwner(_propertyId) propertyExists(_propertyId) {
+        require(
+            !properties[_propertyId].isVerified,
+            "Co-owners must be declared before verification"
+        );
+        require(
+            _coOwners.length == _sharePercentages.length,
+            "Co-owner and share counts differ"
+        );
+        require(
+            _coOwners.length > 0 && _coOwners.length <= MAX_CO_OWNERS,
+            "Invalid number of co-owners"
+        );
+        require(
+            _coOwners[0] == msg.sender,
+            "Primary owner must be listed first"
+        );
+
+        uint256 totalShares = 0;
+        for (uint256 i = 0; i < _coOwners.length; i++) {
+            require(_coOwners[i] != address(0), "Invalid co-owner address");
+            require(_sharePercentages[i] > 0, "Share must be greater than zero");
+            for (uint256 j = 0; j < i; j++) {
+                require(_coOwners[i] != _coOwners[j], "Duplicate co-owner");
+            }
+            totalShares += _sharePercentages[i];
+        }
+        require(totalShares == 100, "Shares must total 100 percent");
+
+        // The primary owner keeps their ownerProperties entry; everyone else is re-indexed
+        CoOwner[] storage coOwners = propertyCoOwners[_propertyId];
+        for (uint256 i = 1; i < coOwners.length; i++) {
+            _removePropertyFromOwner(coOwners[i].ownerAddress, _propertyId);
+        }
+        delete propertyCoOwners[_propertyId];
+
+        for (uint256 i = 0; i < _coOwners.length; i++) {
+            coOwners.push(
+                CoOwner({
+                    ownerAddress: _coOwners[i],
+                    sharePercentage: _sharePercentages[i]
+                })
+            );
+            if (i > 0) {
+                ownerProperties[_coOwners[i]].push(_propertyId);
+            }
+        }
+
+        emit CoOwnersUpdated(
+            _propertyId,
+            _coOwners,
+            _sharePercentages,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Request property verification (owner pays the fee)
+     */
+    function requestPropertyVerification(
+        uint256 _propertyId
+    )
+        external
+        payable
+        onlyPropertyOwner(_propertyId)
+        propertyExists(_propertyId)
+        returns (uint256)
+    {
+        return _requestPropertyVerification(_propertyId, msg.sender);
+    }
+
+    /**
+     * @dev Request property verification as the owner's attorney (attorney pays the fee)
+     */
+    function requestPropertyVerificationAsAttorney(
+        uint256 _poaId,
+        uint256 _propertyId
+    ) external payable propertyExists(_propertyId) returns (uint256) {
+        PowerOfAttorney storage poa = _getValidPowerOfAttorney(
+            _poaId,
+            _propertyId
+        );
+        require(
+            poa.canRequestVerification,
+            "Action not permitted by the power of attorney"
+        );
+        require(
+            properties[_propertyId].currentOwner == poa.principal,
+            "Principal is not the property owner"
+        );
+
+        uint256 verificationId = _requestPropertyVerification(
+            _propertyId,
+            poa.principal
+        );
+        _recordAttorneyAction(
+            poa,
+            _propertyId,
+            "Request Verification",
+            verificationId
+        );
+
+        return verificationId;
+    }
+
+    /**
+     * @dev Verify a property (only by government officers)
+     */
+    function verifyProperty(
+        uint256 _verificationId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        VerificationRequest storage request = verificationRequests[
+            _verificationId
+        ];
+        require(request.isPending, "Verification request not pending");
+
+        uint256 propertyId = request.propertyId;
+        Property storage property = properties[propertyId];
+        require(
+            _isWithinJurisdiction(_employeeId, propertyId),
+            "Property outside officer's jurisdiction"
+        );
+
+        request.isPending = false;
+        request.isApproved = _approve;
+        request.officerEmployeeId = _employeeId;
+        request.verificationNotes = _notes;
+        _removeOpenVerification(_verificationId);
+
+        _creditFee(
+            property.state,
+            _employeeId,
+            "Verification",
+            _verificationId,
+            request.feePaid
+        );
+
+        if (_approve) {
+            property.isVerified = true;
+            property.isTransferable = !_isUnderLegalHold(propertyId);
+
+            // Also verify the registered co-owners when property is verified
+            CoOwner[] storage coOwners = propertyCoOwners[propertyId];
+            for (uint256 i = 0; i < coOwners.length; i++) {
+                Owner storage coOwner = owners[coOwners[i].ownerAddress];
+                if (coOwner.ownerAddress != address(0)) {
+                    coOwner.isVerified = true;
+                }
+            }
+        }
+
+        emit PropertyVerified(
+            propertyId,
+            _verificationId,
+            _employeeId,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Update property document hash
+     */
+    function updatePropertyDocument(
+        uint256 _propertyId,
+        string memory _newDocumentHash
+    ) external onlyPropertyOwner(_propertyId) propertyExists(_propertyId) {
+        require(!properties[_propertyId].isRetired, "Property has been retired");
+        properties[_propertyId].documentHash = _newDocumentHash;
+    }
+
+    /**
+     * @dev Update property document hash as the owner's attorney
+     */
+    function updatePropertyDocumentAsAttorney(
+        uint256 _poaId,
+        uint256 _propertyId,
+        string memory _newDocumentHash
+    ) external propertyExists(_propertyId) {
+        PowerOfAttorney storage poa = _getValidPowerOfAttorney(
+            _poaId,
+            _propertyId
+        );
+        require(
+            poa.canUpdateDocuments,
+            "Action not permitted by the power of attorney"
+        );
+        require(
+            properties[_propertyId].currentOwner == poa.principal,
+            "Principal is not the property owner"
+        );
+        require(!properties[_propertyId].isRetired, "Property has been retired");
+
+        properties[_propertyId].documentHash = _newDocumentHash;
+        _recordAttorneyAction(poa, _propertyId, "Update Documents", 0);
+    }
+}
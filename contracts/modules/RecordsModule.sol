@@ -0,0 +1,599 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title RecordsModule
+ * @dev Read access to properties, owners, requests and the fee and quorum settings
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract RecordsModule is LandRegistryStorage {
+    /**
+     * @dev Get all properties owned by an address
+     */
+    function getOwnerProperties(
+        address _owner
+    ) external view returns (uint256[] memory) {
+        return ownerProperties[_owner];
+    }
+
+    /**
+     * @dev Get the co-owners of a property and their share percentages
+     */
+    function getPropertyCoOwners(
+        uint256 _propertyId
+    ) external view propertyExists(_propertyId) returns (CoOwner[] memory) {
+        return propertyCoOwners[_propertyId];
+    }
+
+    /**
+     * @dev Get property transfer history
+     */
+    function getPropertyTransferHistory(
+        uint256 _propertyId
+    ) external view propertyExists(_propertyId) returns (uint256[] memory) {
+        return propertyTransferHistory[_propertyId];
+    }
+
+    /**
+     * @dev Get property details
+     */
+    function getPropertyDetails(
+        uint256 _propertyId
+    ) external view propertyExists(_propertyId) returns (Property memory) {
+        return properties[_propertyId];
+    }
+
+    /**
+     * @dev Get owner details
+     */
+    function getOwnerDetails(
+        address _ownerAddress
+    ) external view returns (Owner memory) {
+        return owners[_ownerAddress];
+    }
+
+    /**
+     * @dev Get an owner's previous profile values, oldest first
+     */
+    function getOwnerProfileHistory(
+        address _ownerAddress
+    ) external view returns (OwnerProfileRecord[] memory) {
+        return ownerProfileHistory[_ownerAddress];
+    }
+
+    /**
+     * @dev Get profile change request details
+     */
+    function getProfileChangeRequestDetails(
+        uint256 _requestId
+    ) external view returns (ProfileChangeRequest memory) {
+        return profileChangeRequests[_requestId];
+    }
+
+    /**
+     * @dev Get all pending profile change requests (for government portal)
+     */
+    function getPendingProfileChangeRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return openProfileChangeRequestIds;
+    }
+
+    /**
+     * @dev Get total profile change requests count
+     */
+    function getTotalProfileChangeRequests() external view returns (uint256) {
+        return profileChangeRequestCounter;
+    }
+
+    /**
+     * @dev Check whether a wallet may read an owner's PII vault record (used by the vault service)
+     */
+    function hasPiiAccess(
+        address _ownerAddress,
+        address _reader
+    ) external view returns (bool) {
+        return
+            _reader == _ownerAddress ||
+            piiAccessGrantPositions[_ownerAddress][_reader] > 0;
+    }
+
+    /**
+     * @dev Get the wallets an owner has granted PII access to
+     */
+    function getPiiAccessGrants(
+        address _ownerAddress
+    ) external view returns (PiiAccessGrant[] memory) {
+        return piiAccessGrants[_ownerAddress];
+    }
+
+    /**
+     * @dev Get wallet recovery request details
+     */
+    function getWalletRecoveryRequestDetails(
+        uint256 _requestId
+    ) external view returns (WalletRecoveryRequest memory) {
+        return walletRecoveryRequests[_requestId];
+    }
+
+    /**
+     * @dev Get wallet recovery requests awaiting officer review (for government portal)
+     */
+    function getPendingWalletRecoveryRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return openWalletRecoveryRequestIds;
+    }
+
+    /**
+     * @dev Get the recovery requests a wallet has filed or that target it
+     */
+    function getWalletRecoveryRequestsOf(
+        address _wallet
+    ) external view returns (uint256[] memory) {
+        return walletRecoveryRequestsOf[_wallet];
+    }
+
+    /**
+     * @dev Get total wallet recovery requests count
+     */
+    function getTotalWalletRecoveryRequests() external view returns (uint256) {
+        return walletRecoveryRequestCounter;
+    }
+
+    /**
+     * @dev Get transfer request details
+     */
+    function getTransferRequestDetails(
+        uint256 _requestId
+    ) external view returns (TransferRequest memory) {
+        return transferRequests[_requestId];
+    }
+
+    /**
+     * @dev Get verification request details
+     */
+    function getVerificationRequestDetails(
+        uint256 _verificationId
+    ) external view returns (VerificationRequest memory) {
+        return verificationRequests[_verificationId];
+    }
+
+    /**
+     * @dev Get partition request details
+     */
+    function getPartitionRequestDetails(
+        uint256 _partitionId
+    ) external view returns (PartitionRequest memory) {
+        return partitionRequests[_partitionId];
+    }
+
+    /**
+     * @dev Get merge request details
+     */
+    function getMergeRequestDetails(
+        uint256 _mergeId
+    ) external view returns (MergeRequest memory) {
+        return mergeRequests[_mergeId];
+    }
+
+    /**
+     * @dev Get approved merges a property took part in, as source or result
+     */
+    function getPropertyMergeHistory(
+        uint256 _propertyId
+    ) external view returns (uint256[] memory) {
+        return propertyMergeHistory[_propertyId];
+    }
+
+    /**
+     * @dev Get encumbrance details
+     */
+    function getEncumbranceDetails(
+        uint256 _encumbranceId
+    ) external view returns (Encumbrance memory) {
+        return encumbrances[_encumbranceId];
+    }
+
+    /**
+     * @dev Get all encumbrances (active and released) registered against a property
+     */
+    function getPropertyEncumbrances(
+        uint256 _propertyId
+    ) external view returns (uint256[] memory) {
+        return propertyEncumbrances[_propertyId];
+    }
+
+    /**
+     * @dev Get succession claim details
+     */
+    function getSuccessionRequestDetails(
+        uint256 _successionId
+    ) external view returns (SuccessionRequest memory) {
+        return successionRequests[_successionId];
+    }
+
+    /**
+     * @dev Get objections raised against a succession claim
+     */
+    function getSuccessionObjections(
+        uint256 _successionId
+    ) external view returns (SuccessionObjection[] memory) {
+        return successionObjections[_successionId];
+    }
+
+    /**
+     * @dev Get lease details
+     */
+    function getLeaseDetails(
+        uint256 _leaseId
+    ) external view returns (Lease memory) {
+        return leases[_leaseId];
+    }
+
+    /**
+     * @dev Get all leases (pending, registered, rejected, expired) filed on a property
+     */
+    function getPropertyLeases(
+        uint256 _propertyId
+    ) external view returns (uint256[] memory) {
+        return propertyLeases[_propertyId];
+    }
+
+    /**
+     * @dev Get all leases naming an address as lessee
+     */
+    function getLesseeLeases(
+        address _lessee
+    ) external view returns (uint256[] memory) {
+        return lesseeLeases[_lessee];
+    }
+
+    /**
+     * @dev Check if a lease is registered and its term has not ended
+     */
+    function isLeaseActive(uint256 _leaseId) public view returns (bool) {
+        Lease storage lease = leases[_leaseId];
+        return
+            lease.isApproved &&
+            lease.startDate <= block.timestamp &&
+            block.timestamp < lease.endDate;
+    }
+
+    /**
+     * @dev Check if a registered lease's term has ended
+     */
+    function isLeaseExpired(uint256 _leaseId) external view returns (bool) {
+        Lease storage lease = leases[_leaseId];
+        return lease.isApproved && block.timestamp >= lease.endDate;
+    }
+
+    /**
+     * @dev Get registered leases currently in force on a property
+     */
+    function getActivePropertyLeases(
+        uint256 _propertyId
+    ) external view returns (uint256[] memory) {
+        uint256[] storage ids = propertyLeases[_propertyId];
+        uint256[] memory active = new uint256[](ids.length);
+        uint256 count = 0;
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (isLeaseActive(ids[i])) {
+                active[count] = ids[i];
+                count++;
+            }
+        }
+
+        // Resize array to actual count
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = active[i];
+        }
+
+        return result;
+    }
+
+    /**
+     * @dev Get power of attorney details
+     */
+    function getPowerOfAttorneyDetails(
+        uint256 _poaId
+    ) external view returns (PowerOfAttorney memory) {
+        return powersOfAttorney[_poaId];
+    }
+
+    /**
+     * @dev Get powers of attorney granted by a principal
+     */
+    function getPrincipalPowersOfAttorney(
+        address _principal
+    ) external view returns (uint256[] memory) {
+        return principalPowersOfAttorney[_principal];
+    }
+
+    /**
+     * @dev Get powers of attorney held by an attorney
+     */
+    function getAttorneyPowersOfAttorney(
+        address _attorney
+    ) external view returns (uint256[] memory) {
+        return attorneyPowersOfAttorney[_attorney];
+    }
+
+    /**
+     * @dev Get actions attorneys have taken on a property and on whose behalf
+     */
+    function getPropertyAttorneyActions(
+        uint256 _propertyId
+    ) external view returns (AttorneyAction[] memory) {
+        return propertyAttorneyActions[_propertyId];
+    }
+
+    /**
+     * @dev Get total leases count
+     */
+    function getTotalLeases() external view returns (uint256) {
+        return leaseCounter;
+    }
+
+    /**
+     * @dev Get total powers of attorney count
+     */
+    function getTotalPowersOfAttorney() external view returns (uint256) {
+        return powerOfAttorneyCounter;
+    }
+
+    /**
+     * @dev Get legal hold details
+     */
+    function getLegalHoldDetails(
+        uint256 _holdId
+    ) external view returns (LegalHold memory) {
+        return legalHolds[_holdId];
+    }
+
+    /**
+     * @dev Get all legal holds (active and lifted) placed on a property
+     */
+    function getPropertyLegalHolds(
+        uint256 _propertyId
+    ) external view returns (uint256[] memory) {
+        return propertyLegalHolds[_propertyId];
+    }
+
+    /**
+     * @dev Check if a property is frozen by an active, unexpired legal hold
+     */
+    function isUnderLegalHold(uint256 _propertyId) external view returns (bool) {
+        return _isUnderLegalHold(_propertyId);
+    }
+
+    /**
+     * @dev Get government officer details
+     */
+    function getGovernmentOfficerDetails(
+        string memory _employeeId
+    ) external view returns (GovernmentOfficer memory) {
+        return governmentOfficers[_employeeId];
+    }
+
+    /**
+     * @dev Check whether an officer holds a role
+     */
+    function hasOfficerRole(
+        string memory _employeeId,
+        bytes32 _role
+    ) external view returns (bool) {
+        return officerRoles[_employeeId][_role];
+    }
+
+    /**
+     * @dev Get every officer registered in a state, as a convenience roster for the contract owner, auditors
+     * and the state's admins. The caller check only scopes the admin panel: a view cannot keep data private,
+     * and every officer is public through getGovernmentOfficerDetails and the GovernmentOfficerRegistered events
+     */
+    function getStateOfficers(
+        string memory _state
+    ) external view returns (GovernmentOfficer[] memory) {
+        require(
+            msg.sender == owner() ||
+                auditors[msg.sender] ||
+                stateAdmins[_state][msg.sender],
+            "Not authorized to audit this state"
+        );
+
+        string[] storage employeeIds = stateOfficerIds[_state];
+        GovernmentOfficer[] memory officers = new GovernmentOfficer[](
+            employeeIds.length
+        );
+        for (uint256 i = 0; i < employeeIds.length; i++) {
+            officers[i] = governmentOfficers[employeeIds[i]];
+        }
+        return officers;
+    }
+
+    /**
+     * @dev Check if a property falls within a government officer's jurisdiction
+     */
+    function isPropertyWithinJurisdiction(
+        string memory _employeeId,
+        uint256 _propertyId
+    ) external view returns (bool) {
+        return _isWithinJurisdiction(_employeeId, _propertyId);
+    }
+
+    /**
+     * @dev Check if property is transferable
+     */
+    function isPropertyTransferable(
+        uint256 _propertyId
+    ) external view returns (bool) {
+        return
+            properties[_propertyId].isVerified &&
+            properties[_propertyId].isTransferable;
+    }
+
+    /**
+     * @dev Get total number of registered properties
+     */
+    function getTotalProperties() external view returns (uint256) {
+        return propertyCounter;
+    }
+
+    /**
+     * @dev Get total number of transfer requests
+     */
+    function getTotalTransferRequests() external view returns (uint256) {
+        return transferRequestCounter;
+    }
+
+    /**
+     * @dev Get total number of verification requests
+     */
+    function getTotalVerificationRequests() external view returns (uint256) {
+        return verificationRequestCounter;
+    }
+
+    /**
+     * @dev Get open verification requests count
+     */
+    function getTotalPendingVerificationRequests()
+        external
+        view
+        returns (uint256)
+    {
+        return openVerificationRequestIds.length;
+    }
+
+    /**
+     * @dev Get open transfer requests count
+     */
+    function getTotalPendingTransferRequests() external view returns (uint256) {
+        return openTransferRequestIds.length;
+    }
+
+    /**
+     * @dev Get total partition requests count
+     */
+    function getTotalPartitionRequests() external view returns (uint256) {
+        return partitionRequestCounter;
+    }
+
+    /**
+     * @dev Get total merge requests count
+     */
+    function getTotalMergeRequests() external view returns (uint256) {
+        return mergeRequestCounter;
+    }
+
+    /**
+     * @dev Get total succession claims count
+     */
+    function getTotalSuccessionRequests() external view returns (uint256) {
+        return successionRequestCounter;
+    }
+
+    /**
+     * @dev Get total legal holds count
+     */
+    function getTotalLegalHolds() external view returns (uint256) {
+        return legalHoldCounter;
+    }
+
+    /**
+     * @dev Get total encumbrances count
+     */
+    function getTotalEncumbrances() external view returns (uint256) {
+        return encumbranceCounter;
+    }
+
+    /**
+     * @dev Get the multi-officer approval quorum for a state's transfers
+     */
+    function getApprovalQuorum(
+        string memory _state
+    ) external view returns (ApprovalQuorum memory) {
+        return approvalQuorums[_state];
+    }
+
+    /**
+     * @dev Check whether every transfer of a property type in a state needs the approval quorum
+     */
+    function isQuorumPropertyType(
+        string memory _state,
+        string memory _propertyType
+    ) external view returns (bool) {
+        return quorumPropertyTypes[_state][_propertyType];
+    }
+
+    /**
+     * @dev Get the fee schedule for a property type in a state
+     */
+    function getFeeSchedule(
+        string memory _state,
+        string memory _propertyType
+    ) external view returns (FeeSchedule memory) {
+        return feeSchedules[_state][_propertyType];
+    }
+
+    /**
+     * @dev Get the stamp duty rate reduction for a buyer category in a state
+     */
+    function getStampDutyConcession(
+        string memory _state,
+        string memory _buyerCategory
+    ) external view returns (uint256) {
+        return stampDutyConcessions[_state][_buyerCategory];
+    }
+
+    /**
+     * @dev Quote the fee payable to create a transfer request for a declared value
+     */
+    function quoteTransferFee(
+        uint256 _propertyId,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    ) external view propertyExists(_propertyId) returns (uint256) {
+        return _quoteTransferFee(_propertyId, _declaredValue, _buyerCategory);
+    }
+
+    /**
+     * @dev Get the circle rate for a property type in a district
+     */
+    function getCircleRate(
+        string memory _state,
+        string memory _district,
+        string memory _propertyType
+    ) external view returns (CircleRate memory) {
+        return circleRates[_state][_district][_propertyType];
+    }
+
+    /**
+     * @dev Get a property's guidance value (area x circle rate), 0 if no rate is set
+     */
+    function getGuidanceValue(
+        uint256 _propertyId
+    ) external view propertyExists(_propertyId) returns (uint256) {
+        return _getGuidanceValue(_propertyId);
+    }
+
+    /**
+     * @dev Check if a transfer was declared below the guidance value when it was filed
+     */
+    function isTransferUndervalued(
+        uint256 _requestId
+    ) external view returns (bool) {
+        require(
+            transferRequests[_requestId].requestId != 0,
+            "Transfer request does not exist"
+        );
+        return _isUndervalued(transferRequests[_requestId]);
+    }
+}
@@ -0,0 +1,658 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title RightsModule
+ * @dev Succession claims, leases, powers of attorney, encumbrances and legal holds
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract RightsModule is LandRegistryStorage {
+    /**
+     * @dev File a succession claim for a deceased owner's share (caller is the claimant)
+     * Heir shares are percentages of the whole property and must add up to the deceased's share
+     */
+    function fileSuccessionClaim(
+        uint256 _propertyId,
+        address _deceasedOwner,
+        string memory _deathCertificateHash,
+        address[] memory _heirs,
+        uint256[] memory _heirShares
+    ) external propertyExists(_propertyId) returns (uint256) {
+        Property storage property = properties[_propertyId];
+        require(property.isVerified, "Property must be verified first");
+        require(!property.isRetired, "Property has been retired");
+        require(
+            owners[msg.sender].ownerAddress != address(0),
+            "Claimant must be a registered owner"
+        );
+        require(msg.sender != _deceasedOwner, "Claimant cannot be the deceased");
+        require(
+            bytes(_deathCertificateHash).length > 0,
+            "Death certificate required"
+        );
+        require(
+            pendingSuccessionOf[_propertyId] == 0,
+            "Succession already pending"
+        );
+        (bool isCoOwner, uint256 deceasedIndex) = _findCoOwner(
+            _propertyId,
+            _deceasedOwner
+        );
+        require(isCoOwner, "Deceased is not an owner of the property");
+        require(_heirs.length == _heirShares.length, "Heir and share counts differ");
+        require(
+            _heirs.length >= 1 && _heirs.length <= MAX_CO_OWNERS,
+            "Invalid number of heirs"
+        );
+
+        uint256 totalShare = 0;
+        for (uint256 i = 0; i < _heirs.length; i++) {
+            require(
+                _heirs[i] != address(0) && _heirs[i] != _deceasedOwner,
+                "Invalid heir address"
+            );
+            require(_heirShares[i] > 0, "Share must be greater than zero");
+            for (uint256 j = 0; j < i; j++) {
+                require(_heirs[j] != _heirs[i], "Duplicate heir");
+            }
+            totalShare += _heirShares[i];
+        }
+        require(
+            totalShare ==
+                propertyCoOwners[_propertyId][deceasedIndex].sharePercentage,
+            "Heir shares must equal the deceased's share"
+        );
+
+        successionRequestCounter++;
+        uint256 newSuccessionId = successionRequestCounter;
+
+        SuccessionRequest storage request = successionRequests[newSuccessionId];
+        request.successionId = newSuccessionId;
+        request.propertyId = _propertyId;
+        request.claimant = msg.sender;
+        request.deceasedOwner = _deceasedOwner;
+        request.deathCertificateHash = _deathCertificateHash;
+        request.heirs = _heirs;
+        request.heirShares = _heirShares;
+        request.filedDate = block.timestamp;
+        request.objectionDeadline = block.timestamp + SUCCESSION_OBJECTION_PERIOD;
+        request.isPending = true;
+
+        pendingSuccessionOf[_propertyId] = newSuccessionId;
+        _addPendingSuccession(newSuccessionId);
+
+        emit SuccessionFiled(
+            newSuccessionId,
+            _propertyId,
+            msg.sender,
+            _deceasedOwner,
+            request.objectionDeadline,
+            block.timestamp
+        );
+
+        return newSuccessionId;
+    }
+
+    /**
+     * @dev Object to a pending succession claim (anyone, during the objection window)
+     */
+    function objectToSuccession(
+        uint256 _successionId,
+        string memory _reason
+    ) external {
+        SuccessionRequest storage request = successionRequests[_successionId];
+        require(request.isPending, "Succession request not pending");
+        require(
+            block.timestamp < request.objectionDeadline,
+            "Objection window has closed"
+        );
+        require(bytes(_reason).length > 0, "Objection reason required");
+
+        successionObjections[_successionId].push(
+            SuccessionObjection({
+                objector: msg.sender,
+                reason: _reason,
+                objectionDate: block.timestamp
+            })
+        );
+
+        emit SuccessionObjected(
+            _successionId,
+            msg.sender,
+            _reason,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Approve or reject a succession claim (only by government officers)
+     * Approval is allowed once the objection window closes and moves the deceased's share
+     * to the heirs without the deceased's wallet; each heir gets a succession entry in the history
+     */
+    function processSuccessionRequest(
+        uint256 _successionId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, REGISTRAR_ROLE)
+    {
+        SuccessionRequest storage request = successionRequests[_successionId];
+        require(request.isPending, "Succession request not pending");
+
+        uint256 propertyId = request.propertyId;
+        require(
+            _isWithinJurisdiction(_employeeId, propertyId),
+            "Property outside officer's jurisdiction"
+        );
+
+        request.isPending = false;
+        request.isApproved = _approve;
+        request.officerEmployeeId = _employeeId;
+        request.notes = _notes;
+        pendingSuccessionOf[propertyId] = 0;
+        _removePendingSuccession(_successionId);
+
+        if (_approve) {
+            require(
+                block.timestamp >= request.objectionDeadline,
+                "Objection window still open"
+            );
+            require(
+                !properties[propertyId].isRetired,
+                "Property has been retired"
+            );
+            require(
+                !_isUnderLegalHold(propertyId),
+                "Property is under legal hold"
+            );
+
+            for (uint256 i = 0; i < request.heirs.length; i++) {
+                // Reverts if the deceased's share changed since the claim was filed
+                _transferShare(
+                    propertyId,
+                    request.deceasedOwner,
+                    request.heirs[i],
+                    request.heirShares[i]
+                );
+                _recordSuccessionTransfer(
+                    propertyId,
+                    request.deceasedOwner,
+                    request.heirs[i],
+                    request.heirShares[i],
+                    request.deathCertificateHash
+                );
+            }
+
+            properties[propertyId].lastTransferDate = block.timestamp;
+        }
+
+        emit SuccessionProcessed(
+            _successionId,
+            propertyId,
+            _employeeId,
+            _approve,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev File a lease deed over a property for officer registration (only by the owner)
+     */
+    function fileLease(
+        uint256 _propertyId,
+        address _lessee,
+        uint256 _startDate,
+        uint256 _endDate,
+        uint256 _monthlyRent,
+        string memory _deedHash
+    )
+        external
+        onlyPropertyOwner(_propertyId)
+        propertyExists(_propertyId)
+        returns (uint256)
+    {
+        require(properties[_propertyId].isVerified, "Property must be verified first");
+        require(!properties[_propertyId].isRetired, "Property has been retired");
+        require(
+            _lessee != address(0) && _lessee != msg.sender,
+            "Invalid lessee address"
+        );
+        require(_endDate > _startDate, "Lease must end after it starts");
+        require(_endDate > block.timestamp, "Lease has already ended");
+        require(bytes(_deedHash).length > 0, "Lease deed required");
+
+        leaseCounter++;
+        uint256 newLeaseId = leaseCounter;
+
+        leases[newLeaseId] = Lease({
+            leaseId: newLeaseId,
+            propertyId: _propertyId,
+            lessor: msg.sender,
+            lessee: _lessee,
+            startDate: _startDate,
+            endDate: _endDate,
+            monthlyRent: _monthlyRent,
+            deedHash: _deedHash,
+            filedDate: block.timestamp,
+            isPending: true,
+            isApproved: false,
+            officerEmployeeId: "",
+            notes: ""
+        });
+
+        propertyLeases[_propertyId].push(newLeaseId);
+        lesseeLeases[_lessee].push(newLeaseId);
+
+        emit LeaseFiled(
+            newLeaseId,
+            _propertyId,
+            _lessee,
+            _startDate,
+            _endDate,
+            block.timestamp
+        );
+
+        return newLeaseId;
+    }
+
+    /**
+     * @dev Register or reject a filed lease (only by government officers)
+     */
+    function processLease(
+        uint256 _leaseId,
+        string memory _employeeId,
+        bool _approve,
+        string memory _notes
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        Lease storage lease = leases[_leaseId];
+        require(lease.isPending, "Lease not pending");
+        require(
+            _isWithinJurisdiction(_employeeId, lease.propertyId),
+            "Property outside officer's jurisdiction"
+        );
+
+        lease.isPending = false;
+        lease.isApproved = _approve;
+        lease.officerEmployeeId = _employeeId;
+        lease.notes = _notes;
+
+        emit LeaseProcessed(
+            _leaseId,
+            lease.propertyId,
+            _employeeId,
+            _approve,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Grant a power of attorney (caller is the principal)
+     * Leave _propertyIds empty to cover all of the principal's properties
+     */
+    function grantPowerOfAttorney(
+        address _attorney,
+        uint256[] memory _propertyIds,
+        bool _canRequestVerification,
+        bool _canCreateTransfer,
+        bool _canUpdateDocuments,
+        uint256 _expiryDate,
+        string memory _documentHash
+    ) external returns (uint256) {
+        require(
+            _attorney != address(0) && _attorney != msg.sender,
+            "Invalid attorney address"
+        );
+        require(
+            _canRequestVerification || _canCreateTransfer || _canUpdateDocuments,
+            "At least one action must be allowed"
+        );
+        require(_expiryDate > block.timestamp, "Expiry must be in the future");
+        require(bytes(_documentHash).length > 0, "POA document required");
+        for (uint256 i = 0; i < _propertyIds.length; i++) {
+            (bool isCoOwner, ) = _findCoOwner(_propertyIds[i], msg.sender);
+            require(isCoOwner, "Not a co-owner of the property");
+        }
+
+        powerOfAttorneyCounter++;
+        uint256 newPoaId = powerOfAttorneyCounter;
+
+        PowerOfAttorney storage poa = powersOfAttorney[newPoaId];
+        poa.poaId = newPoaId;
+        poa.principal = msg.sender;
+        poa.attorney = _attorney;
+        poa.propertyIds = _propertyIds;
+        poa.canRequestVerification = _canRequestVerification;
+        poa.canCreateTransfer = _canCreateTransfer;
+        poa.canUpdateDocuments = _canUpdateDocuments;
+        poa.expiryDate = _expiryDate;
+        poa.documentHash = _documentHash;
+        poa.grantedDate = block.timestamp;
+
+        principalPowersOfAttorney[msg.sender].push(newPoaId);
+        attorneyPowersOfAttorney[_attorney].push(newPoaId);
+
+        emit PowerOfAttorneyGranted(
+            newPoaId,
+            msg.sender,
+            _attorney,
+            _expiryDate,
+            block.timestamp
+        );
+
+        return newPoaId;
+    }
+
+    /**
+     * @dev Countersign a power of attorney after checking the deed (only by government officers)
+     * Property-specific grants must fall within the officer's jurisdiction; general grants
+     * must fall within it for the principal's home district
+     */
+    function countersignPowerOfAttorney(
+        uint256 _poaId,
+        string memory _employeeId
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        PowerOfAttorney storage poa = powersOfAttorney[_poaId];
+        require(poa.poaId != 0, "Power of attorney does not exist");
+        require(!poa.isRevoked, "Power of attorney revoked");
+        require(
+            bytes(poa.countersigningOfficerId).length == 0,
+            "Power of attorney already countersigned"
+        );
+        for (uint256 i = 0; i < poa.propertyIds.length; i++) {
+            require(
+                _isWithinJurisdiction(_employeeId, poa.propertyIds[i]),
+                "Property outside officer's jurisdiction"
+            );
+        }
+        if (poa.propertyIds.length == 0) {
+            Owner storage principal = owners[poa.principal];
+            require(
+                _coversLocation(
+                    _employeeId,
+                    principal.homeState,
+                    principal.homeDistrict
+                ),
+                "Principal outside officer's jurisdiction"
+            );
+        }
+
+        poa.countersigningOfficerId = _employeeId;
+
+        emit PowerOfAttorneyCountersigned(_poaId, _employeeId, block.timestamp);
+    }
+
+    /**
+     * @dev Revoke a power of attorney (only by the principal)
+     */
+    function revokePowerOfAttorney(uint256 _poaId) external {
+        PowerOfAttorney storage poa = powersOfAttorney[_poaId];
+        require(poa.principal == msg.sender, "Only the principal can revoke");
+        require(!poa.isRevoked, "Power of attorney revoked");
+
+        poa.isRevoked = true;
+
+        emit PowerOfAttorneyRevoked(_poaId, block.timestamp);
+    }
+
+    /**
+     * @dev Register a mortgage or lien against a property (caller is the lender)
+     * It stays pending until the owner consents or an officer co-signs; active encumbrances
+     * then block transfers unless the lender consents to the buyer
+     */
+    function registerEncumbrance(
+        uint256 _propertyId,
+        string memory _encumbranceType,
+        uint256 _amount,
+        string memory _documentHash
+    ) external propertyExists(_propertyId) returns (uint256) {
+        require(
+            !properties[_propertyId].isRetired,
+            "Property has been retired"
+        );
+        require(
+            bytes(_encumbranceType).length > 0,
+            "Encumbrance type required"
+        );
+        require(_amount > 0, "Amount must be greater than zero");
+        (bool isCoOwner, ) = _findCoOwner(_propertyId, msg.sender);
+        require(!isCoOwner, "Owners cannot encumber their own property");
+
+        encumbranceCounter++;
+        uint256 newEncumbranceId = encumbranceCounter;
+
+        encumbrances[newEncumbranceId] = Encumbrance({
+            encumbranceId: newEncumbranceId,
+            propertyId: _propertyId,
+            lender: msg.sender,
+            encumbranceType: _encumbranceType,
+            amount: _amount,
+            documentHash: _documentHash,
+            createdDate: block.timestamp,
+            isActive: false,
+            releasedDate: 0,
+            coSigningOfficerId: "",
+            approvedTransferee: address(0),
+            isPending: true
+        });
+
+        propertyEncumbrances[_propertyId].push(newEncumbranceId);
+
+        emit EncumbranceRegistered(
+            newEncumbranceId,
+            _propertyId,
+            msg.sender,
+            _encumbranceType,
+            _amount,
+            block.timestamp
+        );
+
+        return newEncumbranceId;
+    }
+
+    /**
+     * @dev Consent to a pending encumbrance on your property (only by the property owner)
+     * The encumbrance becomes active and starts blocking transfers, partition and merge
+     */
+    function consentToEncumbrance(uint256 _encumbranceId) external {
+        Encumbrance storage encumbrance = encumbrances[_encumbranceId];
+        require(encumbrance.isPending, "Encumbrance not pending");
+        require(
+            properties[encumbrance.propertyId].currentOwner == msg.sender,
+            "Not the property owner"
+        );
+
+        _activateEncumbrance(encumbrance);
+
+        emit EncumbranceConsented(_encumbranceId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Co-sign an encumbrance (only by government officers)
+     * Co-signing a pending encumbrance activates it without the owner's consent, e.g. for a court-ordered charge
+     */
+    function coSignEncumbrance(
+        uint256 _encumbranceId,
+        string memory _employeeId
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, SUB_REGISTRAR_ROLE)
+    {
+        Encumbrance storage encumbrance = encumbrances[_encumbranceId];
+        require(
+            encumbrance.isActive || encumbrance.isPending,
+            "Encumbrance not active or pending"
+        );
+        require(
+            bytes(encumbrance.coSigningOfficerId).length == 0,
+            "Encumbrance already co-signed"
+        );
+        require(
+            _isWithinJurisdiction(_employeeId, encumbrance.propertyId),
+            "Property outside officer's jurisdiction"
+        );
+
+        encumbrance.coSigningOfficerId = _employeeId;
+        if (encumbrance.isPending) {
+            _activateEncumbrance(encumbrance);
+        }
+
+        emit EncumbranceCoSigned(_encumbranceId, _employeeId, block.timestamp);
+    }
+
+    /**
+     * @dev Release an encumbrance once the loan is repaid, or withdraw a pending one (only by the lender)
+     */
+    function releaseEncumbrance(uint256 _encumbranceId) external {
+        Encumbrance storage encumbrance = encumbrances[_encumbranceId];
+        require(
+            encumbrance.isActive || encumbrance.isPending,
+            "Encumbrance not active or pending"
+        );
+        require(
+            msg.sender == encumbrance.lender,
+            "Only the lender can act on the encumbrance"
+        );
+
+        if (encumbrance.isActive) {
+            activeEncumbranceCount[encumbrance.propertyId]--;
+        }
+        encumbrance.isActive = false;
+        encumbrance.isPending = false;
+        encumbrance.releasedDate = block.timestamp;
+
+        emit EncumbranceReleased(
+            _encumbranceId,
+            encumbrance.propertyId,
+            msg.sender,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Consent to a transfer of the encumbered property to a specific buyer (only by the lender)
+     * The encumbrance stays on the property after the transfer
+     */
+    function consentToEncumberedTransfer(
+        uint256 _encumbranceId,
+        address _transferee
+    ) external {
+        Encumbrance storage encumbrance = encumbrances[_encumbranceId];
+        require(encumbrance.isActive, "Encumbrance not active");
+        require(
+            msg.sender == encumbrance.lender,
+            "Only the lender can act on the encumbrance"
+        );
+
+        encumbrance.approvedTransferee = _transferee;
+
+        emit EncumbranceTransferConsent(
+            _encumbranceId,
+            _transferee,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Place a legal hold on a property under litigation (only by court authorities)
+     * Transferability is switched off and open transfer requests cannot be approved or completed
+     */
+    function placeLegalHold(
+        uint256 _propertyId,
+        string memory _caseReference,
+        string memory _documentHash,
+        uint256 _expiryDate
+    ) external onlyCourtAuthority propertyExists(_propertyId) returns (uint256) {
+        require(bytes(_caseReference).length > 0, "Case reference required");
+        require(
+            _expiryDate == 0 || _expiryDate > block.timestamp,
+            "Expiry must be in the future"
+        );
+
+        legalHoldCounter++;
+        uint256 newHoldId = legalHoldCounter;
+
+        legalHolds[newHoldId] = LegalHold({
+            holdId: newHoldId,
+            propertyId: _propertyId,
+            authority: msg.sender,
+            caseReference: _caseReference,
+            documentHash: _documentHash,
+            placedDate: block.timestamp,
+            expiryDate: _expiryDate,
+            isActive: true,
+            liftedDate: 0
+        });
+
+        propertyLegalHolds[_propertyId].push(newHoldId);
+        properties[_propertyId].isTransferable = false;
+
+        emit LegalHoldPlaced(
+            newHoldId,
+            _propertyId,
+            msg.sender,
+            _caseReference,
+            _expiryDate,
+            block.timestamp
+        );
+
+        return newHoldId;
+    }
+
+    /**
+     * @dev Lift a legal hold. Only the placing authority can lift it early;
+     * once expired anyone can clear it to restore transferability
+     */
+    function liftLegalHold(uint256 _holdId) external {
+        LegalHold storage hold = legalHolds[_holdId];
+        require(hold.isActive, "Legal hold not active");
+        bool hasExpired = hold.expiryDate != 0 &&
+            hold.expiryDate <= block.timestamp;
+        require(
+            msg.sender == hold.authority || hasExpired,
+            "Only the placing authority can lift the hold"
+        );
+
+        hold.isActive = false;
+        hold.liftedDate = block.timestamp;
+
+        uint256 propertyId = hold.propertyId;
+        Property storage property = properties[propertyId];
+        if (
+            property.isVerified &&
+            !property.isRetired &&
+            !_isUnderLegalHold(propertyId)
+        ) {
+            property.isTransferable = true;
+        }
+
+        emit LegalHoldLifted(_holdId, propertyId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Internal function to turn a pending encumbrance into an active one
+     */
+    function _activateEncumbrance(Encumbrance storage _encumbrance) private {
+        require(
+            !properties[_encumbrance.propertyId].isRetired,
+            "Property has been retired"
+        );
+
+        _encumbrance.isPending = false;
+        _encumbrance.isActive = true;
+        activeEncumbranceCount[_encumbrance.propertyId]++;
+    }
+}
@@ -0,0 +1,319 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title SearchModule
+ * @dev Location, survey number and ID document searches and open request queues
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract SearchModule is LandRegistryStorage {
+    /**
+     * @dev Find the live parcel registered under a survey number and sub-division in a district.
+     * Spacing and letter case are ignored. Returns 0 if none is registered
+     */
+    function getPropertyBySurveyNumber(
+        string memory _state,
+        string memory _district,
+        string memory _surveyNumber,
+        string memory _subDivision
+    ) external view returns (uint256) {
+        return
+            propertyBySurveyKey[
+                _surveyKey(_state, _district, _surveyNumber, _subDivision)
+            ];
+    }
+
+    /**
+     * @dev Search properties by state and district
+     */
+    function searchPropertiesByLocation(
+        string memory _state,
+        string memory _district
+    ) external view returns (uint256[] memory) {
+        if (bytes(_district).length > 0) {
+            return districtProperties[_state][_district];
+        } else {
+            return stateProperties[_state];
+        }
+    }
+
+    /**
+     * @dev Page through the properties of a state, or of one district when given,
+     * filtered by status. Returns the page and the number of matching properties.
+     * With Any the page is sliced directly; any other status reads every property in
+     * the state or district to count matches, so filtered pages of a large state
+     * should be fetched by a node's eth_call rather than from another contract
+     */
+    function searchPropertiesByLocationPaged(
+        string memory _state,
+        string memory _district,
+        PropertyStatusFilter _status,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        uint256[] storage propertyIds = bytes(_district).length > 0
+            ? districtProperties[_state][_district]
+            : stateProperties[_state];
+
+        return
+            _pageIds(
+                propertyIds,
+                _propertyIdOfProperty,
+                "",
+                "",
+                _status,
+                _offset,
+                _limit
+            );
+    }
+
+    /**
+     * @dev Page through the properties of any LGD unit (state, district, tehsil or village),
+     * filtered by status. Properties registered before the hierarchy appear once assigned a village.
+     * As with searchPropertiesByLocationPaged, a status other than Any reads every property in the unit
+     */
+    function searchPropertiesByAdminUnitPaged(
+        AdminLevel _level,
+        uint256 _lgdCode,
+        PropertyStatusFilter _status,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        return
+            _pageIds(
+                adminUnitProperties[_level][_lgdCode],
+                _propertyIdOfProperty,
+                "",
+                "",
+                _status,
+                _offset,
+                _limit
+            );
+    }
+
+    /**
+     * @dev Get an LGD unit; lgdCode is 0 if it is not registered
+     */
+    function getAdminUnit(
+        AdminLevel _level,
+        uint256 _lgdCode
+    ) external view returns (AdminUnit memory) {
+        return adminUnits[_level][_lgdCode];
+    }
+
+    /**
+     * @dev Get the LGD codes one level below a unit; (None, 0) lists the states
+     */
+    function getAdminUnitChildren(
+        AdminLevel _level,
+        uint256 _lgdCode
+    ) external view returns (uint256[] memory) {
+        return adminUnitChildren[_level][_lgdCode];
+    }
+
+    /**
+     * @dev Search properties by the salted hash of the owner's ID document
+     */
+    function searchPropertiesByOwnerIdDocument(
+        bytes32 _idDocumentHash
+    )
+        external
+        view
+        returns (uint256[] memory ownerAddresses, uint256[][] memory properties)
+    {
+        uint256[] memory addresses = ownersByIdDocumentHash[_idDocumentHash];
+        properties = new uint256[][](addresses.length);
+
+        for (uint256 i = 0; i < addresses.length; i++) {
+            address ownerAddr = address(uint160(addresses[i]));
+            properties[i] = ownerProperties[ownerAddr];
+        }
+
+        return (addresses, properties);
+    }
+
+    /**
+     * @dev Get all open verification requests (for government portal); prefer the paged query
+     */
+    function getPendingVerificationRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return openVerificationRequestIds;
+    }
+
+    /**
+     * @dev Page through open verification requests, optionally limited to a state
+     * and district. Returns the page and the number of matching requests.
+     * A district given without its state falls back to scanning every open request
+     */
+    function getPendingVerificationRequestsPaged(
+        string memory _state,
+        string memory _district,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        if (bytes(_state).length == 0) {
+            return
+                _pageIds(
+                    openVerificationRequestIds,
+                    _propertyIdOfVerification,
+                    "",
+                    _district,
+                    PropertyStatusFilter.Any,
+                    _offset,
+                    _limit
+                );
+        }
+
+        uint256[] storage verificationIds = bytes(_district).length > 0
+            ? districtOpenVerificationRequestIds[_state][_district]
+            : stateOpenVerificationRequestIds[_state];
+
+        return
+            _pageIds(
+                verificationIds,
+                _propertyIdOfVerification,
+                "",
+                "",
+                PropertyStatusFilter.Any,
+                _offset,
+                _limit
+            );
+    }
+
+    /**
+     * @dev Get all pending partition requests (for government portal)
+     */
+    function getPendingPartitionRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        uint256[] memory pending = new uint256[](partitionRequestCounter);
+        uint256 count = 0;
+
+        for (uint256 i = 1; i <= partitionRequestCounter; i++) {
+            if (partitionRequests[i].isPending) {
+                pending[count] = i;
+                count++;
+            }
+        }
+
+        // Resize array to actual count
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = pending[i];
+        }
+
+        return result;
+    }
+
+    /**
+     * @dev Get all pending succession claims (for government portal)
+     */
+    function getPendingSuccessionRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        uint256[] memory pending = new uint256[](successionRequestCounter);
+        uint256 count = 0;
+
+        for (uint256 i = 1; i <= successionRequestCounter; i++) {
+            if (successionRequests[i].isPending) {
+                pending[count] = i;
+                count++;
+            }
+        }
+
+        // Resize array to actual count
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = pending[i];
+        }
+
+        return result;
+    }
+
+    /**
+     * @dev Get all pending merge requests (for government portal)
+     */
+    function getPendingMergeRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        uint256[] memory pending = new uint256[](mergeRequestCounter);
+        uint256 count = 0;
+
+        for (uint256 i = 1; i <= mergeRequestCounter; i++) {
+            if (mergeRequests[i].isPending) {
+                pending[count] = i;
+                count++;
+            }
+        }
+
+        // Resize array to actual count
+        uint256[] memory result = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = pending[i];
+        }
+
+        return result;
+    }
+
+    /**
+     * @dev Get all open transfer requests (for government portal); prefer the paged query
+     */
+    function getPendingTransferRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return openTransferRequestIds;
+    }
+
+    /**
+     * @dev Page through open transfer requests, optionally limited to a state
+     * and district. Returns the page and the number of matching requests.
+     * A district given without its state falls back to scanning every open request
+     */
+    function getPendingTransferRequestsPaged(
+        string memory _state,
+        string memory _district,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        if (bytes(_state).length == 0) {
+            return
+                _pageIds(
+                    openTransferRequestIds,
+                    _propertyIdOfTransfer,
+                    "",
+                    _district,
+                    PropertyStatusFilter.Any,
+                    _offset,
+                    _limit
+                );
+        }
+
+        uint256[] storage requestIds = bytes(_district).length > 0
+            ? districtOpenTransferRequestIds[_state][_district]
+            : stateOpenTransferRequestIds[_state];
+
+        return
+            _pageIds(
+                requestIds,
+                _propertyIdOfTransfer,
+                "",
+                "",
+                PropertyStatusFilter.Any,
+                _offset,
+                _limit
+            );
+    }
+}
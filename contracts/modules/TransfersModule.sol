@@ -0,0 +1,418 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title TransfersModule
+ * @dev Ownership and share transfer requests from creation to completion
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract TransfersModule is LandRegistryStorage {
+    /**
+     * @dev Create a transfer request for the whole property (only for verified and transferable properties)
+     * Any co-owner can initiate; every co-owner must consent before completion
+     */
+    function createTransferRequest(
+        uint256 _propertyId,
+        address _toOwner,
+        string memory _transferDocumentHash,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    )
+        external
+        payable
+        nonReentrant
+        onlyCoOwner(_propertyId)
+        propertyExists(_propertyId)
+        returns (uint256)
+    {
+        uint256 newRequestId = _createTransferRequest(
+            _propertyId,
+            msg.sender,
+            _toOwner,
+            _transferDocumentHash,
+            false,
+            100,
+            _declaredValue,
+            _buyerCategory
+        );
+
+        // The initiating co-owner consents by creating the request
+        transferConsents[newRequestId][msg.sender] = true;
+        emit TransferConsentGiven(newRequestId, msg.sender, block.timestamp);
+
+        return newRequestId;
+    }
+
+    /**
+     * @dev Create a whole-property transfer request as a co-owner's attorney
+     * The request is made in the principal's name and counts as the principal's consent
+     */
+    function createTransferRequestAsAttorney(
+        uint256 _poaId,
+        uint256 _propertyId,
+        address _toOwner,
+        string memory _transferDocumentHash,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    )
+        external
+        payable
+        nonReentrant
+        propertyExists(_propertyId)
+        returns (uint256)
+    {
+        PowerOfAttorney storage poa = _getValidPowerOfAttorney(
+            _poaId,
+            _propertyId
+        );
+        require(
+            poa.canCreateTransfer,
+            "Action not permitted by the power of attorney"
+        );
+        address principal = poa.principal;
+
+        uint256 newRequestId = _createTransferRequest(
+            _propertyId,
+            principal,
+            _toOwner,
+            _transferDocumentHash,
+            false,
+            100,
+            _declaredValue,
+            _buyerCategory
+        );
+
+        transferConsents[newRequestId][principal] = true;
+        emit TransferConsentGiven(newRequestId, principal, block.timestamp);
+
+        _recordAttorneyAction(poa, _propertyId, "Create Transfer", newRequestId);
+
+        return newRequestId;
+    }
+
+    /**
+     * @dev Create a transfer request for the caller's own share of a jointly owned property
+     * Other co-owners keep their shares and do not need to consent
+     */
+    function createShareTransferRequest(
+        uint256 _propertyId,
+        address _toOwner,
+        string memory _transferDocumentHash,
+        uint256 _declaredValue,
+        string memory _buyerCategory
+    )
+        external
+        payable
+        nonReentrant
+        onlyCoOwner(_propertyId)
+        propertyExists(_propertyId)
+        returns (uint256)
+    {
+        require(
+            propertyCoOwners[_propertyId].length > 1,
+            "Property is not jointly owned"
+        );
+        (, uint256 index) = _findCoOwner(_propertyId, msg.sender);
+
+        return
+            _createTransferRequest(
+                _propertyId,
+                msg.sender,
+                _toOwner,
+                _transferDocumentHash,
+                true,
+                propertyCoOwners[_propertyId][index].sharePercentage,
+                _declaredValue,
+                _buyerCategory
+            );
+    }
+
+    /**
+     * @dev Consent to a whole-property transfer initiated by another co-owner
+     */
+    function consentToTransfer(uint256 _requestId) external {
+        TransferRequest storage request = transferRequests[_requestId];
+        require(request.requestId != 0, "Transfer request does not exist");
+        require(
+            !request.isShareTransfer,
+            "Share transfers do not need co-owner consent"
+        );
+        require(!request.isCompleted, "Transfer already completed");
+        require(!request.isRejected, "Request already rejected");
+        require(!request.isCancelled, "Request already cancelled");
+        require(!request.isDeclinedByBuyer, "Request declined by buyer");
+        (bool isCoOwner, ) = _findCoOwner(request.propertyId, msg.sender);
+        require(isCoOwner, "Not a co-owner of the property");
+        require(
+            !transferConsents[_requestId][msg.sender],
+            "Consent already given"
+        );
+
+        transferConsents[_requestId][msg.sender] = true;
+
+        emit TransferConsentGiven(_requestId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Approve a transfer request (only by government officers)
+     * Requests under an approval quorum need that many distinct officers; the last approval
+     * credits the escrowed transfer fee to the state treasury and that officer's incentive
+     */
+    function approveTransferRequest(
+        uint256 _requestId,
+        string memory _employeeId
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, REGISTRAR_ROLE)
+        nonReentrant
+    {
+        TransferRequest storage request = transferRequests[_requestId];
+        require(!request.isApproved, "Request already approved");
+        require(!request.isCompleted, "Request already completed");
+        require(!request.isRejected, "Request already rejected");
+        require(!request.isCancelled, "Request already cancelled");
+        require(!request.isDeclinedByBuyer, "Request declined by buyer");
+        require(
+            _isWithinJurisdiction(_employeeId, request.propertyId),
+            "Property outside officer's jurisdiction"
+        );
+        require(
+            !properties[request.propertyId].isRetired,
+            "Property has been retired"
+        );
+        require(
+            !_isUnderLegalHold(request.propertyId),
+            "Property is under legal hold"
+        );
+
+        for (uint256 i = 0; i < request.approverEmployeeIds.length; i++) {
+            string storage approverId = request.approverEmployeeIds[i];
+            require(
+                keccak256(bytes(approverId)) != keccak256(bytes(_employeeId)) &&
+                    governmentOfficers[approverId].signerAddress != msg.sender,
+                "Officer has already approved"
+            );
+        }
+        request.approverEmployeeIds.push(_employeeId);
+
+        emit TransferApprovalRecorded(
+            _requestId,
+            _employeeId,
+            request.approverEmployeeIds.length,
+            request.requiredApprovals,
+            block.timestamp
+        );
+
+        if (request.approverEmployeeIds.length < request.requiredApprovals) {
+            return;
+        }
+
+        request.isApproved = true;
+        _removeOpenTransfer(_requestId);
+        _addApprovedTransfer(_requestId);
+
+        _creditFee(
+            properties[request.propertyId].state,
+            _employeeId,
+            "Transfer",
+            _requestId,
+            request.transferFee
+        );
+
+        emit TransferRequestApproved(_requestId, _employeeId, block.timestamp);
+    }
+
+    /**
+     * @dev Reject a transfer request (only by government officers)
+     * The escrowed transfer fee is refunded to whoever paid it
+     */
+    function rejectTransferRequest(
+        uint256 _requestId,
+        string memory _employeeId,
+        string memory _reason
+    )
+        external
+        onlyActiveOfficer(_employeeId)
+        onlyOfficerRole(_employeeId, REGISTRAR_ROLE)
+        nonReentrant
+    {
+        TransferRequest storage request = transferRequests[_requestId];
+        require(request.requestId != 0, "Transfer request does not exist");
+        require(!request.isApproved, "Request already approved");
+        require(!request.isRejected, "Request already rejected");
+        require(!request.isCancelled, "Request already cancelled");
+        require(!request.isDeclinedByBuyer, "Request declined by buyer");
+        require(bytes(_reason).length > 0, "Rejection reason required");
+        require(
+            _isWithinJurisdiction(_employeeId, request.propertyId),
+            "Property outside officer's jurisdiction"
+        );
+
+        request.isRejected = true;
+        request.rejectionReason = _reason;
+        _removeOpenTransfer(_requestId);
+        _removeUnsettledTransfer(_requestId);
+
+        _refundTransferFee(request);
+
+        emit TransferRequestRejected(
+            _requestId,
+            _employeeId,
+            _reason,
+            request.transferFee,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Cancel a transfer request (only by the seller, before approval)
+     * The escrowed transfer fee is refunded to whoever paid it
+     */
+    function cancelTransferRequest(uint256 _requestId) external nonReentrant {
+        TransferRequest storage request = transferRequests[_requestId];
+        require(request.requestId != 0, "Transfer request does not exist");
+        require(
+            msg.sender == request.fromOwner,
+            "Only the seller can cancel the request"
+        );
+        require(!request.isApproved, "Request already approved");
+        require(!request.isRejected, "Request already rejected");
+        require(!request.isCancelled, "Request already cancelled");
+        require(!request.isDeclinedByBuyer, "Request declined by buyer");
+
+        request.isCancelled = true;
+        _removeOpenTransfer(_requestId);
+        _removeUnsettledTransfer(_requestId);
+
+        _refundTransferFee(request);
+
+        emit TransferRequestCancelled(
+            _requestId,
+            msg.sender,
+            request.transferFee,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Accept an incoming transfer (only by the buyer named in the request)
+     */
+    function acceptTransferRequest(uint256 _requestId) external {
+        TransferRequest storage request = _getBuyerOpenRequest(_requestId);
+
+        request.isAcceptedByBuyer = true;
+        request.buyerResponseDate = block.timestamp;
+
+        emit TransferRequestAccepted(_requestId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Decline an incoming transfer (only by the buyer named in the request)
+     * The escrowed transfer fee is refunded to whoever paid it if not yet paid out on approval
+     */
+    function declineTransferRequest(uint256 _requestId) external nonReentrant {
+        TransferRequest storage request = _getBuyerOpenRequest(_requestId);
+
+        request.isDeclinedByBuyer = true;
+        request.buyerResponseDate = block.timestamp;
+        _removeOpenTransfer(_requestId);
+        _removeUnsettledTransfer(_requestId);
+
+        _removeApprovedTransfer(_requestId);
+
+        uint256 refundAmount = 0;
+        if (!request.isApproved) {
+            refundAmount = request.transferFee;
+            _refundTransferFee(request);
+        }
+
+        emit TransferRequestDeclined(
+            _requestId,
+            msg.sender,
+            refundAmount,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Complete the transfer (execute after approval and buyer acceptance)
+     */
+    function completeTransfer(uint256 _requestId) external nonReentrant {
+        TransferRequest storage request = transferRequests[_requestId];
+        require(request.isApproved, "Transfer not approved");
+        require(!request.isCompleted, "Transfer already completed");
+        require(request.isAcceptedByBuyer, "Buyer has not accepted the transfer");
+        require(
+            msg.sender == request.fromOwner || msg.sender == request.toOwner,
+            "Not authorized to complete transfer"
+        );
+
+        uint256 propertyId = request.propertyId;
+        Property storage property = properties[propertyId];
+        require(!property.isRetired, "Property has been retired");
+        require(!_isUnderLegalHold(propertyId), "Property is under legal hold");
+        _requireLenderConsent(propertyId, request.toOwner);
+
+        if (request.isShareTransfer) {
+            _transferShare(
+                propertyId,
+                request.fromOwner,
+                request.toOwner,
+                request.sharePercentage
+            );
+        } else {
+            CoOwner[] storage coOwners = propertyCoOwners[propertyId];
+            for (uint256 i = 0; i < coOwners.length; i++) {
+                require(
+                    transferConsents[_requestId][coOwners[i].ownerAddress],
+                    "All co-owners must consent to the transfer"
+                );
+            }
+
+            // Remove from every co-owner's properties
+            for (uint256 i = 0; i < coOwners.length; i++) {
+                _removePropertyFromOwner(coOwners[i].ownerAddress, propertyId);
+            }
+            delete propertyCoOwners[propertyId];
+
+            // Update property ownership
+            coOwners.push(
+                CoOwner({ownerAddress: request.toOwner, sharePercentage: 100})
+            );
+            property.currentOwner = request.toOwner;
+
+            // Add to new owner's properties
+            ownerProperties[request.toOwner].push(propertyId);
+        }
+
+        property.lastTransferDate = block.timestamp;
+
+        // Add to transfer history
+        propertyTransferHistory[propertyId].push(_requestId);
+
+        // Mark request as completed
+        request.isCompleted = true;
+        _removeApprovedTransfer(_requestId);
+        _removeUnsettledTransfer(_requestId);
+
+        if (request.isShareTransfer) {
+            emit ShareTransferred(
+                propertyId,
+                request.fromOwner,
+                request.toOwner,
+                request.sharePercentage,
+                block.timestamp
+            );
+        } else {
+            emit PropertyTransferred(
+                propertyId,
+                request.fromOwner,
+                request.toOwner,
+                block.timestamp
+            );
+        }
+    }
+}
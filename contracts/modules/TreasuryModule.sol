@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../LandRegistryStorage.sol";
+
+/**
+ * @title TreasuryModule
+ * @dev State treasury and officer incentive withdrawals
+ * @notice Reached only through the LandRegistry proxy, which delegates these selectors here
+ */
+contract TreasuryModule is LandRegistryStorage {
+    /**
+     * @dev Withdraw from a state's treasury account (only by the state's treasurers)
+     */
+    function withdrawFromStateTreasury(
+        string memory _state,
+        address _recipient,
+        uint256 _amount
+    ) external nonReentrant returns (uint256) {
+        require(stateTreasurers[_state][msg.sender], "Not a treasurer for this state");
+        require(_recipient != address(0), "Invalid recipient address");
+        require(_amount > 0, "Amount must be positive");
+
+        TreasuryAccount storage account = stateTreasuries[_state];
+        require(account.balance >= _amount, "Insufficient treasury balance");
+
+        account.balance -= _amount;
+        account.totalWithdrawn += _amount;
+
+        treasuryWithdrawalCounter++;
+        uint256 newWithdrawalId = treasuryWithdrawalCounter;
+
+        treasuryWithdrawals[newWithdrawalId] = TreasuryWithdrawal({
+            withdrawalId: newWithdrawalId,
+            state: _state,
+            treasurer: msg.sender,
+            recipient: _recipient,
+            amount: _amount,
+            withdrawalDate: block.timestamp
+        });
+        stateTreasuryWithdrawals[_state].push(newWithdrawalId);
+
+        (bool success, ) = payable(_recipient).call{value: _amount}("");
+        require(success, "Treasury withdrawal failed");
+
+        emit TreasuryWithdrawn(
+            newWithdrawalId,
+            _state,
+            msg.sender,
+            _recipient,
+            _amount,
+            block.timestamp
+        );
+
+        return newWithdrawalId;
+    }
+
+    /**
+     * @dev Withdraw an officer's accumulated incentive to their authorized signer
+     */
+    function withdrawOfficerIncentive(
+        string memory _employeeId
+    ) external onlyActiveOfficer(_employeeId) nonReentrant {
+        uint256 amount = officerIncentiveBalances[_employeeId];
+        require(amount > 0, "No incentive to withdraw");
+
+        officerIncentiveBalances[_employeeId] = 0;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Incentive withdrawal failed");
+
+        emit OfficerIncentiveWithdrawn(
+            _employeeId,
+            msg.sender,
+            amount,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Get a state's treasury account
+     */
+    function getStateTreasury(
+        string memory _state
+    ) external view returns (TreasuryAccount memory) {
+        return stateTreasuries[_state];
+    }
+
+    /**
+     * @dev Get treasury withdrawal details
+     */
+    function getTreasuryWithdrawal(
+        uint256 _withdrawalId
+    ) external view returns (TreasuryWithdrawal memory) {
+        require(
+            treasuryWithdrawals[_withdrawalId].withdrawalId != 0,
+            "Withdrawal does not exist"
+        );
+        return treasuryWithdrawals[_withdrawalId];
+    }
+
+    /**
+     * @dev Get withdrawal IDs for a state's treasury account
+     */
+    function getStateTreasuryWithdrawals(
+        string memory _state
+    ) external view returns (uint256[] memory) {
+        return stateTreasuryWithdrawals[_state];
+    }
+
+    /**
+     * @dev Get total treasury withdrawals count
+     */
+    function getTotalTreasuryWithdrawals() external view returns (uint256) {
+        return treasuryWithdrawalCounter;
+    }
+}
@@ -197,3 +197,134 @@ export const getDistrictsByState = (state: string): string[] => {
 export const getAllStates = (): string[] => {
   return Object.keys(INDIAN_STATES_DISTRICTS);
 };
+
+// Levels of the Local Government Directory hierarchy; matches LandRegistry.AdminLevel
+export const ADMIN_LEVELS = { STATE: 1, DISTRICT: 2, TEHSIL: 3, VILLAGE: 4 };
+
+export interface AdminUnit {
+  code: number;
+  name: string;
+}
+
+export interface Tehsil extends AdminUnit {
+  villages: AdminUnit[];
+}
+
+export interface District extends AdminUnit {
+  tehsils: Tehsil[];
+}
+
+// LGD state codes
+export const LGD_STATE_CODES: Record<string, number> = {
+  "Andhra Pradesh": 28,
+  "Arunachal Pradesh": 12,
+  "Assam": 18,
+  "Bihar": 10,
+  "Chhattisgarh": 22,
+  "Goa": 30,
+  "Gujarat": 24,
+  "Haryana": 6,
+  "Himachal Pradesh": 2,
+  "Jharkhand": 20,
+  "Karnataka": 29,
+  "Kerala": 32,
+  "Madhya Pradesh": 23,
+  "Maharashtra": 27,
+  "Manipur": 14,
+  "Meghalaya": 17,
+  "Mizoram": 15,
+  "Nagaland": 13,
+  "Odisha": 21,
+  "Punjab": 3,
+  "Rajasthan": 8,
+  "Sikkim": 11,
+  "Tamil Nadu": 33,
+  "Telangana": 36,
+  "Tripura": 16,
+  "Uttar Pradesh": 9,
+  "Uttarakhand": 5,
+  "West Bengal": 19,
+  "Andaman and Nicobar Islands": 35,
+  "Chandigarh": 4,
+  "Dadra and Nagar Haveli and Daman and Diu": 38,
+  "Delhi": 7,
+  "Lakshadweep": 31,
+  "Puducherry": 34
+};
+
+// Districts, tehsils/talukas and villages (or urban wards) for the demo officers' jurisdictions.
+// These are sample codes for development; replace them with your state's LGD directory export
+// before registering real parcels, since codes cannot be changed once registered on-chain.
+export const ADMIN_HIERARCHY: Record<string, District[]> = {
+  "Maharashtra": [
+    {
+      code: 519,
+      name: "Mumbai",
+      tehsils: [
+        { code: 4185, name: "Mumbai City", villages: [{ code: 551001, name: "Colaba" }, { code: 551002, name: "Fort" }] },
+        { code: 4186, name: "Andheri", villages: [{ code: 551101, name: "Juhu" }, { code: 551102, name: "Versova" }] },
+        { code: 4187, name: "Borivali", villages: [{ code: 551201, name: "Dahisar" }, { code: 551202, name: "Kandivali" }] },
+        { code: 4188, name: "Kurla", villages: [{ code: 551301, name: "Chembur" }, { code: 551302, name: "Ghatkopar" }] }
+      ]
+    },
+    {
+      code: 521,
+      name: "Pune",
+      tehsils: [
+        {
+          code: 4211,
+          name: "Haveli",
+          villages: [{ code: 556101, name: "Wagholi" }, { code: 556102, name: "Lohegaon" }, { code: 556103, name: "Kharadi" }]
+        },
+        { code: 4212, name: "Mulshi", villages: [{ code: 556201, name: "Hinjawadi" }, { code: 556202, name: "Pirangut" }] },
+        { code: 4213, name: "Maval", villages: [{ code: 556301, name: "Talegaon Dabhade" }, { code: 556302, name: "Lonavala" }] }
+      ]
+    }
+  ],
+  "Delhi": [
+    {
+      code: 77,
+      name: "Central Delhi",
+      tehsils: [
+        { code: 4601, name: "Karol Bagh", villages: [{ code: 600101, name: "Karol Bagh" }, { code: 600102, name: "Rajinder Nagar" }] },
+        { code: 4602, name: "Daryaganj", villages: [{ code: 600201, name: "Daryaganj" }, { code: 600202, name: "Chandni Chowk" }] }
+      ]
+    }
+  ],
+  "Uttar Pradesh": [
+    {
+      code: 162,
+      name: "Lucknow",
+      tehsils: [
+        { code: 1021, name: "Lucknow Sadar", villages: [{ code: 143001, name: "Chinhat" }, { code: 143002, name: "Sarojini Nagar" }] },
+        { code: 1022, name: "Malihabad", villages: [{ code: 143101, name: "Malihabad" }, { code: 143102, name: "Kakori" }] },
+        { code: 1023, name: "Mohanlalganj", villages: [{ code: 143201, name: "Mohanlalganj" }, { code: 143202, name: "Nigohan" }] },
+        { code: 1024, name: "Bakshi Ka Talab", villages: [{ code: 143301, name: "Itaunja" }] }
+      ]
+    }
+  ],
+  "West Bengal": [
+    {
+      code: 331,
+      name: "Kolkata",
+      tehsils: [
+        { code: 2301, name: "Kolkata", villages: [{ code: 320101, name: "Alipore" }, { code: 320102, name: "Ballygunge" }] }
+      ]
+    }
+  ]
+};
+
+export const getDistrictUnit = (state: string, district: string): District | undefined => {
+  return (ADMIN_HIERARCHY[state] || []).find((unit) => unit.name === district);
+};
+
+export const getTehsilsByDistrict = (state: string, district: string): Tehsil[] => {
+  return getDistrictUnit(state, district)?.tehsils || [];
+};
+
+export const getVillagesByTehsil = (state: string, district: string, tehsilCode: number): AdminUnit[] => {
+  return getTehsilsByDistrict(state, district).find((tehsil) => tehsil.code === tehsilCode)?.villages || [];
+};
+
+// Buyer categories that states grant stamp duty concessions to
+export const STAMP_DUTY_BUYER_CATEGORIES = ['Women', 'Senior Citizen', 'SC/ST'];
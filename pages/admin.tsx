@@ -2,7 +2,19 @@ import React, { useState, useEffect } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
 import { ethers } from 'ethers';
-import { getContract, getSigner } from '../utils/contract';
+import { getContract, getSigner, getProvider } from '../utils/contract';
+import { getAllStates, getDistrictsByState } from '../data/indiaData';
+
+const PROPERTY_TYPES = [
+  'Residential',
+  'Commercial',
+  'Agricultural',
+  'Industrial'
+];
+
+// Role identifiers match the contract's keccak256 constants
+const SUB_REGISTRAR_ROLE = ethers.id('SUB_REGISTRAR_ROLE');
+const REGISTRAR_ROLE = ethers.id('REGISTRAR_ROLE');
 
 interface TransferRequest {
   requestId: number;
@@ -30,11 +42,43 @@ interface Property {
   lastTransferDate: number;
 }
 
+interface TreasuryAccount {
+  state: string;
+  balance: bigint;
+  totalCredited: bigint;
+  totalWithdrawn: bigint;
+  isTreasurer: boolean;
+}
+
+interface StateOfficer {
+  employeeId: string;
+  name: string;
+  department: string;
+  district: string;
+  signerAddress: string;
+  isActive: boolean;
+  isSubRegistrar: boolean;
+  isRegistrar: boolean;
+}
+
+interface TreasuryWithdrawal {
+  withdrawalId: number;
+  state: string;
+  treasurer: string;
+  recipient: string;
+  amount: bigint;
+  withdrawalDate: number;
+}
+
 export default function Admin() {
   const [account, setAccount] = useState<string>('');
   const [isConnected, setIsConnected] = useState(false);
   const [isOwner, setIsOwner] = useState(false);
   const [isVerifier, setIsVerifier] = useState(false);
+  const [isTreasurer, setIsTreasurer] = useState(false);
+  const [isAuditor, setIsAuditor] = useState(false);
+  const [adminStates, setAdminStates] = useState<string[]>([]);
+  const [activeSection, setActiveSection] = useState<'overview' | 'treasury' | 'roles'>('overview');
   const [loading, setLoading] = useState(true);
   const [pendingTransfers, setPendingTransfers] = useState<TransferRequest[]>([]);
   const [unverifiedProperties, setUnverifiedProperties] = useState<Property[]>([]);
@@ -45,6 +89,28 @@ export default function Admin() {
   const [newVerifier, setNewVerifier] = useState('');
   const [addingVerifier, setAddingVerifier] = useState(false);
 
+  // Treasury
+  const [treasuryAccounts, setTreasuryAccounts] = useState<TreasuryAccount[]>([]);
+  const [treasuryWithdrawals, setTreasuryWithdrawals] = useState<TreasuryWithdrawal[]>([]);
+  const [incentiveBps, setIncentiveBps] = useState(0);
+  const [newIncentivePercent, setNewIncentivePercent] = useState('');
+  const [withdrawForm, setWithdrawForm] = useState({ state: '', recipient: '', amount: '' });
+  const [treasurerForm, setTreasurerForm] = useState({ state: '', address: '' });
+  const [savingTreasury, setSavingTreasury] = useState(false);
+
+  // Approval quorum
+  const [quorumForm, setQuorumForm] = useState({ state: '', requiredApprovals: '2', valueThreshold: '' });
+  const [quorumTypes, setQuorumTypes] = useState<string[]>([]);
+  const [savingQuorum, setSavingQuorum] = useState(false);
+
+  // Roles
+  const [rolesState, setRolesState] = useState('');
+  const [stateOfficers, setStateOfficers] = useState<StateOfficer[]>([]);
+  const [officerForm, setOfficerForm] = useState({ employeeId: '', name: '', department: '', district: '', signerAddress: '', isSubRegistrar: true, isRegistrar: false });
+  const [stateAdminForm, setStateAdminForm] = useState({ state: '', address: '' });
+  const [auditorAddress, setAuditorAddress] = useState('');
+  const [savingRoles, setSavingRoles] = useState(false);
+
   useEffect(() => {
     checkWalletConnection();
   }, []);
@@ -106,11 +172,31 @@ export default function Admin() {
 
       // Check if user is contract owner
       const owner = await contract.owner();
-      setIsOwner(owner.toLowerCase() === account.toLowerCase());
+      const isContractOwner = owner.toLowerCase() === account.toLowerCase();
+      setIsOwner(isContractOwner);
+
+      // Officers work from the government portal; this dashboard is for the contract owner
+      setIsVerifier(isContractOwner);
+
+      const accounts = await loadTreasury();
+      const treasurer = accounts.some(a => a.isTreasurer);
+      setIsTreasurer(treasurer);
 
-      // Check if user is verifier
-      const verifier = await contract.verifiers(account);
-      setIsVerifier(verifier || owner.toLowerCase() === account.toLowerCase());
+      const auditor = await contract.auditors(account);
+      setIsAuditor(auditor);
+
+      const states = getAllStates();
+      const adminFlags = await Promise.all(states.map(state => contract.stateAdmins(state, account)));
+      const managedStates = states.filter((_, i) => adminFlags[i]);
+      setAdminStates(managedStates);
+
+      // Treasurers, state admins and auditors only get the sections for their role
+      if (!isContractOwner) {
+        setActiveSection(treasurer ? 'treasury' : 'roles');
+        if (managedStates.length > 0) {
+          loadStateOfficers(managedStates[0]);
+        }
+      }
 
     } catch (error) {
       console.error('Error checking permissions:', error);
@@ -184,6 +270,374 @@ export default function Admin() {
     }
   };
 
+  const loadTreasury = async (): Promise<TreasuryAccount[]> => {
+    try {
+      const contract = getContract(getProvider());
+
+      setIncentiveBps(Number(await contract.officerIncentiveBps()));
+
+      const accounts: TreasuryAccount[] = [];
+      for (const state of getAllStates()) {
+        const [treasury, treasurer] = await Promise.all([
+          contract.getStateTreasury(state),
+          contract.stateTreasurers(state, account)
+        ]);
+
+        // Only list states that have collected fees or that this wallet manages
+        if (treasury.totalCredited > 0n || treasurer) {
+          accounts.push({
+            state,
+            balance: treasury.balance,
+            totalCredited: treasury.totalCredited,
+            totalWithdrawn: treasury.totalWithdrawn,
+            isTreasurer: treasurer
+          });
+        }
+      }
+      setTreasuryAccounts(accounts);
+
+      const total = Number(await contract.getTotalTreasuryWithdrawals());
+      const withdrawals: TreasuryWithdrawal[] = [];
+      for (let i = 1; i <= total; i++) {
+        const withdrawal = await contract.getTreasuryWithdrawal(i);
+        withdrawals.push({
+          withdrawalId: i,
+          state: withdrawal.state,
+          treasurer: withdrawal.treasurer,
+          recipient: withdrawal.recipient,
+          amount: withdrawal.amount,
+          withdrawalDate: Number(withdrawal.withdrawalDate)
+        });
+      }
+      setTreasuryWithdrawals(withdrawals.reverse());
+
+      return accounts;
+    } catch (error) {
+      console.error('Error loading treasury:', error);
+      return [];
+    }
+  };
+
+  const withdrawFromTreasury = async () => {
+    if (!withdrawForm.state) {
+      alert('Please select a state treasury');
+      return;
+    }
+    if (!ethers.isAddress(withdrawForm.recipient)) {
+      alert('Please enter a valid recipient address');
+      return;
+    }
+    if (!(parseFloat(withdrawForm.amount) > 0)) {
+      alert('Please enter an amount to withdraw');
+      return;
+    }
+
+    setSavingTreasury(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.withdrawFromStateTreasury(
+        withdrawForm.state,
+        withdrawForm.recipient,
+        ethers.parseEther(withdrawForm.amount)
+      );
+      await tx.wait();
+      alert(`✅ Withdrew ${withdrawForm.amount} ETH from the ${withdrawForm.state} treasury`);
+
+      setWithdrawForm({ state: withdrawForm.state, recipient: '', amount: '' });
+      await loadTreasury();
+    } catch (error: any) {
+      console.error('Error withdrawing from treasury:', error);
+      alert('❌ Failed to withdraw: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingTreasury(false);
+    }
+  };
+
+  const updateIncentiveShare = async () => {
+    const percent = parseFloat(newIncentivePercent);
+    if (isNaN(percent) || percent < 0 || percent > 100) {
+      alert('Officer incentive must be between 0 and 100%');
+      return;
+    }
+
+    setSavingTreasury(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setOfficerIncentiveShare(Math.round(percent * 100));
+      await tx.wait();
+      alert(`✅ Officers now receive ${percent}% of each fee they process`);
+
+      setNewIncentivePercent('');
+      await loadTreasury();
+    } catch (error: any) {
+      console.error('Error updating incentive share:', error);
+      alert('❌ Failed to update incentive share: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingTreasury(false);
+    }
+  };
+
+  const updateTreasurer = async (isAuthorized: boolean) => {
+    if (!treasurerForm.state || !ethers.isAddress(treasurerForm.address)) {
+      alert('Please select a state and enter a valid treasurer address');
+      return;
+    }
+
+    setSavingTreasury(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setStateTreasurer(treasurerForm.state, treasurerForm.address, isAuthorized);
+      await tx.wait();
+      alert(isAuthorized
+        ? `✅ Treasurer added for ${treasurerForm.state}`
+        : `✅ Treasurer removed for ${treasurerForm.state}`);
+
+      setTreasurerForm({ state: treasurerForm.state, address: '' });
+      await loadTreasury();
+    } catch (error: any) {
+      console.error('Error updating treasurer:', error);
+      alert('❌ Failed to update treasurer: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingTreasury(false);
+    }
+  };
+
+  const loadApprovalQuorum = async (state: string) => {
+    setQuorumForm({ state, requiredApprovals: '2', valueThreshold: '' });
+    setQuorumTypes([]);
+    if (!state) return;
+
+    try {
+      const contract = getContract(getProvider());
+      const quorum = await contract.getApprovalQuorum(state);
+      if (quorum.requiredApprovals > 0n) {
+        setQuorumForm({
+          state,
+          requiredApprovals: quorum.requiredApprovals.toString(),
+          valueThreshold: quorum.valueThreshold > 0n ? ethers.formatEther(quorum.valueThreshold) : ''
+        });
+      }
+
+      const flags = await Promise.all(PROPERTY_TYPES.map(type => contract.isQuorumPropertyType(state, type)));
+      setQuorumTypes(PROPERTY_TYPES.filter((_, i) => flags[i]));
+    } catch (error) {
+      console.error('Error loading approval quorum:', error);
+    }
+  };
+
+  const saveApprovalQuorum = async () => {
+    const requiredApprovals = parseInt(quorumForm.requiredApprovals);
+    if (!quorumForm.state || !(requiredApprovals >= 1)) {
+      alert('Please select a state and at least one required approval');
+      return;
+    }
+
+    setSavingQuorum(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setApprovalQuorum(
+        quorumForm.state,
+        requiredApprovals,
+        quorumForm.valueThreshold ? ethers.parseEther(quorumForm.valueThreshold) : 0
+      );
+      await tx.wait();
+      alert(requiredApprovals > 1
+        ? `✅ ${quorumForm.state} transfers that are high-value or flagged now need ${requiredApprovals} officer approvals`
+        : `✅ Approval quorum disabled for ${quorumForm.state}`);
+    } catch (error: any) {
+      console.error('Error saving approval quorum:', error);
+      alert('❌ Failed to save approval quorum: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingQuorum(false);
+    }
+  };
+
+  const toggleQuorumType = async (propertyType: string) => {
+    const requiresQuorum = !quorumTypes.includes(propertyType);
+
+    setSavingQuorum(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setQuorumPropertyType(quorumForm.state, propertyType, requiresQuorum);
+      await tx.wait();
+      setQuorumTypes(prev => requiresQuorum ? [...prev, propertyType] : prev.filter(t => t !== propertyType));
+    } catch (error: any) {
+      console.error('Error updating quorum property type:', error);
+      alert('❌ Failed to update property type: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingQuorum(false);
+    }
+  };
+
+  const loadStateOfficers = async (state: string) => {
+    setRolesState(state);
+    setStateOfficers([]);
+    setOfficerForm(prev => ({ ...prev, district: '' }));
+    if (!state) return;
+
+    try {
+      // The roster is a privileged view, so it must be called from the connected account
+      const contract = getContract(await getSigner());
+      const officers = await contract.getStateOfficers(state);
+
+      const roster: StateOfficer[] = [];
+      for (const officer of officers) {
+        const [isSubRegistrar, isRegistrar] = await Promise.all([
+          contract.hasOfficerRole(officer.employeeId, SUB_REGISTRAR_ROLE),
+          contract.hasOfficerRole(officer.employeeId, REGISTRAR_ROLE)
+        ]);
+        roster.push({
+          employeeId: officer.employeeId,
+          name: officer.name,
+          department: officer.department,
+          district: officer.district,
+          signerAddress: officer.signerAddress,
+          isActive: officer.isActive,
+          isSubRegistrar,
+          isRegistrar
+        });
+      }
+      setStateOfficers(roster);
+    } catch (error) {
+      console.error('Error loading officers:', error);
+    }
+  };
+
+  const registerOfficer = async () => {
+    if (!officerForm.employeeId || !officerForm.name || !ethers.isAddress(officerForm.signerAddress)) {
+      alert('Please enter an employee ID, name and valid signer address');
+      return;
+    }
+    const roles = [
+      ...(officerForm.isSubRegistrar ? [SUB_REGISTRAR_ROLE] : []),
+      ...(officerForm.isRegistrar ? [REGISTRAR_ROLE] : [])
+    ];
+    const roleLabels = [
+      ...(officerForm.isSubRegistrar ? ['sub-registrar'] : []),
+      ...(officerForm.isRegistrar ? ['registrar'] : [])
+    ];
+
+    setSavingRoles(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.registerGovernmentOfficer(
+        officerForm.employeeId,
+        officerForm.name,
+        officerForm.department,
+        rolesState,
+        officerForm.district,
+        officerForm.signerAddress,
+        roles
+      );
+      await tx.wait();
+      alert(`✅ ${officerForm.employeeId} registered ${roleLabels.length ? `as ${roleLabels.join(' and ')}` : 'without roles'} in ${officerForm.district || 'all districts'}, ${rolesState}`);
+
+      setOfficerForm({ employeeId: '', name: '', department: '', district: '', signerAddress: '', isSubRegistrar: true, isRegistrar: false });
+      await loadStateOfficers(rolesState);
+    } catch (error: any) {
+      console.error('Error registering officer:', error);
+      alert('❌ Failed to register officer: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingRoles(false);
+    }
+  };
+
+  const toggleOfficerRole = async (employeeId: string, role: string, isGranted: boolean) => {
+    setSavingRoles(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setOfficerRole(employeeId, role, !isGranted);
+      await tx.wait();
+      await loadStateOfficers(rolesState);
+    } catch (error: any) {
+      console.error('Error updating officer role:', error);
+      alert('❌ Failed to update role: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingRoles(false);
+    }
+  };
+
+  const toggleOfficerStatus = async (employeeId: string, isActive: boolean) => {
+    setSavingRoles(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setOfficerStatus(employeeId, !isActive);
+      await tx.wait();
+      await loadStateOfficers(rolesState);
+    } catch (error: any) {
+      console.error('Error updating officer status:', error);
+      alert('❌ Failed to update officer status: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingRoles(false);
+    }
+  };
+
+  const updateStateAdmin = async (isAuthorized: boolean) => {
+    if (!stateAdminForm.state || !ethers.isAddress(stateAdminForm.address)) {
+      alert('Please select a state and enter a valid admin address');
+      return;
+    }
+
+    setSavingRoles(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setStateAdmin(stateAdminForm.state, stateAdminForm.address, isAuthorized);
+      await tx.wait();
+      alert(isAuthorized
+        ? `✅ State admin added for ${stateAdminForm.state}`
+        : `✅ State admin removed for ${stateAdminForm.state}`);
+
+      setStateAdminForm({ state: stateAdminForm.state, address: '' });
+    } catch (error: any) {
+      console.error('Error updating state admin:', error);
+      alert('❌ Failed to update state admin: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingRoles(false);
+    }
+  };
+
+  const updateAuditor = async (isAuthorized: boolean) => {
+    if (!ethers.isAddress(auditorAddress)) {
+      alert('Please enter a valid auditor address');
+      return;
+    }
+
+    setSavingRoles(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setAuditor(auditorAddress, isAuthorized);
+      await tx.wait();
+      alert(isAuthorized ? '✅ Auditor added' : '✅ Auditor removed');
+
+      setAuditorAddress('');
+    } catch (error: any) {
+      console.error('Error updating auditor:', error);
+      alert('❌ Failed to update auditor: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingRoles(false);
+    }
+  };
+
   const approveTransfer = async (requestId: number) => {
     try {
       const signer = await getSigner();
@@ -297,7 +751,9 @@ export default function Admin() {
     );
   }
 
-  if (!isVerifier) {
+  const canManageOfficers = isOwner || adminStates.includes(rolesState);
+
+  if (!isVerifier && !isTreasurer && !isAuditor && adminStates.length === 0) {
     return (
       <>
         <Head>
@@ -308,7 +764,7 @@ export default function Admin() {
             <div className="text-5xl mb-4">🚫</div>
             <h2 className="text-2xl font-bold text-gray-800 mb-4">Access Denied</h2>
             <p className="text-gray-600 mb-6">
-              You don't have verifier permissions to access this panel
+              You don't have administrator, state admin, treasurer or auditor permissions to access this panel
             </p>
             <Link
               href="/"
@@ -350,9 +806,21 @@ export default function Admin() {
                       Contract Owner
                     </span>
                   )}
-                  <span className="px-3 py-1 bg-indigo-100 text-indigo-800 rounded-full text-sm font-semibold">
-                    Government Verifier
-                  </span>
+                  {adminStates.length > 0 && (
+                    <span className="px-3 py-1 bg-indigo-100 text-indigo-800 rounded-full text-sm font-semibold">
+                      State Admin
+                    </span>
+                  )}
+                  {isTreasurer && (
+                    <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-semibold">
+                      State Treasurer
+                    </span>
+                  )}
+                  {isAuditor && (
+                    <span className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full text-sm font-semibold">
+                      Auditor
+                    </span>
+                  )}
                 </div>
                 <div className="text-right">
                   <p className="text-xs text-gray-500">Connected Account</p>
@@ -366,6 +834,466 @@ export default function Admin() {
         </header>
 
         <main className="container mx-auto px-4 py-8">
+          <div className="bg-gray-100 p-1 rounded-lg inline-flex mb-8">
+            {isVerifier && (
+              <button
+                onClick={() => setActiveSection('overview')}
+                className={`px-6 py-2 rounded-lg font-semibold transition ${activeSection === 'overview'
+                  ? 'bg-white text-indigo-600 shadow-md'
+                  : 'text-gray-600 hover:text-indigo-600'
+                  }`}
+              >
+                📊 Overview
+              </button>
+            )}
+            {(isVerifier || isTreasurer || isAuditor) && (
+              <button
+                onClick={() => setActiveSection('treasury')}
+                className={`px-6 py-2 rounded-lg font-semibold transition ${activeSection === 'treasury'
+                  ? 'bg-white text-indigo-600 shadow-md'
+                  : 'text-gray-600 hover:text-indigo-600'
+                  }`}
+              >
+                💰 Treasury
+              </button>
+            )}
+            {(isVerifier || isAuditor || adminStates.length > 0) && (
+              <button
+                onClick={() => setActiveSection('roles')}
+                className={`px-6 py-2 rounded-lg font-semibold transition ${activeSection === 'roles'
+                  ? 'bg-white text-indigo-600 shadow-md'
+                  : 'text-gray-600 hover:text-indigo-600'
+                  }`}
+              >
+                👮 Roles
+              </button>
+            )}
+          </div>
+
+          {activeSection === 'roles' ? (
+            <div className="space-y-8">
+              {/* Officer Roster */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex justify-between items-start mb-4">
+                  <h2 className="text-xl font-bold text-gray-800">Government Officers</h2>
+                  <select
+                    value={rolesState}
+                    onChange={(e) => loadStateOfficers(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">Select state</option>
+                    {(isOwner || isAuditor ? getAllStates() : adminStates).map((state) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {!rolesState ? (
+                  <p className="text-gray-500 text-center py-8">Select a state to view its officers</p>
+                ) : stateOfficers.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No officers registered in {rolesState}</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                          <th className="py-2">Officer</th>
+                          <th className="py-2">Jurisdiction</th>
+                          <th className="py-2">Signer</th>
+                          <th className="py-2">Roles</th>
+                          <th className="py-2">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stateOfficers.map((officer) => (
+                          <tr key={officer.employeeId} className="border-b border-gray-100">
+                            <td className="py-2">
+                              <p className="font-semibold text-gray-800">{officer.employeeId} · {officer.name}</p>
+                              <p className="text-xs text-gray-500">{officer.department}</p>
+                            </td>
+                            <td className="py-2 text-gray-600">{officer.district || 'All districts'}</td>
+                            <td className="py-2 font-mono text-gray-600">{formatAddress(officer.signerAddress)}</td>
+                            <td className="py-2">
+                              <div className="flex flex-wrap gap-1">
+                                {[
+                                  { role: SUB_REGISTRAR_ROLE, label: 'Sub-Registrar', isGranted: officer.isSubRegistrar },
+                                  { role: REGISTRAR_ROLE, label: 'Registrar', isGranted: officer.isRegistrar }
+                                ].map(({ role, label, isGranted }) => (
+                                  <button
+                                    key={role}
+                                    onClick={() => toggleOfficerRole(officer.employeeId, role, isGranted)}
+                                    disabled={!canManageOfficers || savingRoles}
+                                    className={`px-2 py-1 rounded-full text-xs font-semibold transition disabled:cursor-not-allowed ${isGranted
+                                      ? 'bg-indigo-600 text-white'
+                                      : 'bg-gray-100 text-gray-500'
+                                      }`}
+                                    title={canManageOfficers ? (isGranted ? `Revoke ${label}` : `Grant ${label}`) : undefined}
+                                  >
+                                    {label}
+                                  </button>
+                                ))}
+                              </div>
+                            </td>
+                            <td className="py-2">
+                              <button
+                                onClick={() => toggleOfficerStatus(officer.employeeId, officer.isActive)}
+                                disabled={!canManageOfficers || savingRoles}
+                                className={`px-2 py-1 rounded-full text-xs font-semibold transition disabled:cursor-not-allowed ${officer.isActive
+                                  ? 'bg-green-100 text-green-800'
+                                  : 'bg-red-100 text-red-800'
+                                  }`}
+                                title={canManageOfficers ? (officer.isActive ? 'Deactivate' : 'Activate') : undefined}
+                              >
+                                {officer.isActive ? 'Active' : 'Inactive'}
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {rolesState && canManageOfficers && (
+                  <div className="mt-6 pt-6 border-t border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-3">Register Officer in {rolesState}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <input
+                        type="text"
+                        value={officerForm.employeeId}
+                        onChange={(e) => setOfficerForm(prev => ({ ...prev, employeeId: e.target.value }))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Employee ID"
+                      />
+                      <input
+                        type="text"
+                        value={officerForm.name}
+                        onChange={(e) => setOfficerForm(prev => ({ ...prev, name: e.target.value }))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Full name"
+                      />
+                      <input
+                        type="text"
+                        value={officerForm.department}
+                        onChange={(e) => setOfficerForm(prev => ({ ...prev, department: e.target.value }))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Department"
+                      />
+                      <select
+                        value={officerForm.district}
+                        onChange={(e) => setOfficerForm(prev => ({ ...prev, district: e.target.value }))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg"
+                      >
+                        <option value="">All districts (state-level)</option>
+                        {getDistrictsByState(rolesState).map((district) => (
+                          <option key={district} value={district}>{district}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={officerForm.signerAddress}
+                        onChange={(e) => setOfficerForm(prev => ({ ...prev, signerAddress: e.target.value }))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                        placeholder="Signer wallet (0x...)"
+                      />
+                      <div className="flex items-center gap-4 text-sm text-gray-700">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={officerForm.isSubRegistrar}
+                            onChange={(e) => setOfficerForm(prev => ({ ...prev, isSubRegistrar: e.target.checked }))}
+                          />
+                          Sub-Registrar
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={officerForm.isRegistrar}
+                            onChange={(e) => setOfficerForm(prev => ({ ...prev, isRegistrar: e.target.checked }))}
+                          />
+                          Registrar
+                        </label>
+                      </div>
+                      <button
+                        onClick={registerOfficer}
+                        disabled={savingRoles}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {savingRoles ? 'Saving...' : 'Register Officer'}
+                      </button>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-2">
+                      New officers hold only the roles ticked here; click a role above to revoke or grant it later.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {/* State Admins and Auditors (Only for Contract Owner) */}
+              {isOwner && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                  <div className="bg-white rounded-xl shadow-lg p-6">
+                    <h2 className="text-xl font-bold text-gray-800 mb-1">State Admins</h2>
+                    <p className="text-sm text-gray-500 mb-4">Register and deactivate officers and manage their roles in one state</p>
+                    <div className="space-y-3">
+                      <select
+                        value={stateAdminForm.state}
+                        onChange={(e) => setStateAdminForm(prev => ({ ...prev, state: e.target.value }))}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                      >
+                        <option value="">Select state</option>
+                        {getAllStates().map((state) => (
+                          <option key={state} value={state}>{state}</option>
+                        ))}
+                      </select>
+                      <div className="flex space-x-3">
+                        <input
+                          type="text"
+                          value={stateAdminForm.address}
+                          onChange={(e) => setStateAdminForm(prev => ({ ...prev, address: e.target.value }))}
+                          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                          placeholder="Admin address (0x...)"
+                        />
+                        <button
+                          onClick={() => updateStateAdmin(true)}
+                          disabled={savingRoles}
+                          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50"
+                        >
+                          Add
+                        </button>
+                        <button
+                          onClick={() => updateStateAdmin(false)}
+                          disabled={savingRoles}
+                          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-xl shadow-lg p-6">
+                    <h2 className="text-xl font-bold text-gray-800 mb-1">Auditors</h2>
+                    <p className="text-sm text-gray-500 mb-4">Can open the officer roster and treasury sections; the data itself is public on chain</p>
+                    <div className="flex space-x-3">
+                      <input
+                        type="text"
+                        value={auditorAddress}
+                        onChange={(e) => setAuditorAddress(e.target.value)}
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                        placeholder="Auditor address (0x...)"
+                      />
+                      <button
+                        onClick={() => updateAuditor(true)}
+                        disabled={savingRoles}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                      <button
+                        onClick={() => updateAuditor(false)}
+                        disabled={savingRoles}
+                        className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : activeSection === 'treasury' ? (
+            <div className="space-y-8">
+              {/* State Treasury Balances */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex justify-between items-start mb-4">
+                  <h2 className="text-xl font-bold text-gray-800">State Treasury Accounts</h2>
+                  <span className="text-sm text-gray-500">
+                    Officer incentive: <strong>{(incentiveBps / 100).toFixed(2)}%</strong> of each fee
+                  </span>
+                </div>
+
+                {treasuryAccounts.length === 0 ? (
+                  <div className="text-center py-8">
+                    <div className="text-4xl mb-2">💰</div>
+                    <p className="text-gray-500">No fees have been credited yet</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                          <th className="py-2">State</th>
+                          <th className="py-2 text-right">Balance</th>
+                          <th className="py-2 text-right">Total Credited</th>
+                          <th className="py-2 text-right">Total Withdrawn</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {treasuryAccounts.map((treasury) => (
+                          <tr key={treasury.state} className="border-b border-gray-100">
+                            <td className="py-2 font-semibold text-gray-800">{treasury.state}</td>
+                            <td className="py-2 text-right font-mono">{ethers.formatEther(treasury.balance)} ETH</td>
+                            <td className="py-2 text-right font-mono text-gray-600">{ethers.formatEther(treasury.totalCredited)} ETH</td>
+                            <td className="py-2 text-right font-mono text-gray-600">{ethers.formatEther(treasury.totalWithdrawn)} ETH</td>
+                            <td className="py-2 text-right">
+                              {treasury.isTreasurer && (
+                                <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs font-semibold">
+                                  You manage
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Withdraw (Only for Treasurers) */}
+                {isTreasurer && (
+                  <div className="bg-white rounded-xl shadow-lg p-6">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4">Withdraw Funds</h2>
+                    <div className="space-y-3">
+                      <select
+                        value={withdrawForm.state}
+                        onChange={(e) => setWithdrawForm(prev => ({ ...prev, state: e.target.value }))}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                      >
+                        <option value="">Select state treasury</option>
+                        {treasuryAccounts.filter(t => t.isTreasurer).map((treasury) => (
+                          <option key={treasury.state} value={treasury.state}>
+                            {treasury.state} ({ethers.formatEther(treasury.balance)} ETH available)
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={withdrawForm.recipient}
+                        onChange={(e) => setWithdrawForm(prev => ({ ...prev, recipient: e.target.value }))}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                        placeholder="Recipient address (0x...)"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={withdrawForm.amount}
+                        onChange={(e) => setWithdrawForm(prev => ({ ...prev, amount: e.target.value }))}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Amount (ETH)"
+                      />
+                      <button
+                        onClick={withdrawFromTreasury}
+                        disabled={savingTreasury}
+                        className="w-full py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {savingTreasury ? 'Processing...' : 'Withdraw'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Treasury Settings (Only for Contract Owner) */}
+                {isOwner && (
+                  <div className="bg-white rounded-xl shadow-lg p-6">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4">Treasury Settings</h2>
+
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">Officer Incentive Share</h3>
+                    <div className="flex space-x-3 mb-6">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={newIncentivePercent}
+                        onChange={(e) => setNewIncentivePercent(e.target.value)}
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Percent of each fee (e.g. 10)"
+                      />
+                      <button
+                        onClick={updateIncentiveShare}
+                        disabled={savingTreasury || !newIncentivePercent}
+                        className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Save
+                      </button>
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">State Treasurers</h3>
+                    <div className="space-y-3">
+                      <select
+                        value={treasurerForm.state}
+                        onChange={(e) => setTreasurerForm(prev => ({ ...prev, state: e.target.value }))}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                      >
+                        <option value="">Select state</option>
+                        {getAllStates().map((state) => (
+                          <option key={state} value={state}>{state}</option>
+                        ))}
+                      </select>
+                      <div className="flex space-x-3">
+                        <input
+                          type="text"
+                          value={treasurerForm.address}
+                          onChange={(e) => setTreasurerForm(prev => ({ ...prev, address: e.target.value }))}
+                          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                          placeholder="Treasurer address (0x...)"
+                        />
+                        <button
+                          onClick={() => updateTreasurer(true)}
+                          disabled={savingTreasury}
+                          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50"
+                        >
+                          Add
+                        </button>
+                        <button
+                          onClick={() => updateTreasurer(false)}
+                          disabled={savingTreasury}
+                          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Withdrawal History */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">
+                  Withdrawal History ({treasuryWithdrawals.length})
+                </h2>
+
+                {treasuryWithdrawals.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No withdrawals yet</p>
+                ) : (
+                  <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {treasuryWithdrawals.map((withdrawal) => (
+                      <div key={withdrawal.withdrawalId} className="border border-gray-200 rounded-lg p-4 flex justify-between items-center">
+                        <div>
+                          <h3 className="font-semibold">
+                            #{withdrawal.withdrawalId} · {withdrawal.state}
+                          </h3>
+                          <p className="text-sm text-gray-500">
+                            By {formatAddress(withdrawal.treasurer)} to {formatAddress(withdrawal.recipient)} · {formatDate(withdrawal.withdrawalDate)}
+                          </p>
+                        </div>
+                        <span className="font-mono font-semibold text-red-600">
+                          −{ethers.formatEther(withdrawal.amount)} ETH
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+          <>
           {/* Stats Overview */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
             <div className="bg-white rounded-xl shadow-lg p-6">
@@ -508,8 +1436,72 @@ export default function Admin() {
                   Add a new government official as a verifier
                 </p>
               </div>
+
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-800 mb-1">Transfer Approval Quorum</h3>
+                <p className="text-sm text-gray-500 mb-3">
+                  Transfers at or above the value threshold, on the selected property types, or flagged as undervalued
+                  must be approved by this many distinct officers. Set 1 to disable.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <select
+                    value={quorumForm.state}
+                    onChange={(e) => loadApprovalQuorum(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">Select state</option>
+                    {getAllStates().map((state) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    value={quorumForm.requiredApprovals}
+                    onChange={(e) => setQuorumForm(prev => ({ ...prev, requiredApprovals: e.target.value }))}
+                    className="px-4 py-2 border border-gray-300 rounded-lg"
+                    placeholder="Required approvals"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={quorumForm.valueThreshold}
+                    onChange={(e) => setQuorumForm(prev => ({ ...prev, valueThreshold: e.target.value }))}
+                    className="px-4 py-2 border border-gray-300 rounded-lg"
+                    placeholder="Value threshold (ETH)"
+                  />
+                  <button
+                    onClick={saveApprovalQuorum}
+                    disabled={savingQuorum || !quorumForm.state}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {savingQuorum ? 'Saving...' : 'Save Quorum'}
+                  </button>
+                </div>
+
+                {quorumForm.state && (
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {PROPERTY_TYPES.map((type) => (
+                      <button
+                        key={type}
+                        onClick={() => toggleQuorumType(type)}
+                        disabled={savingQuorum}
+                        className={`px-3 py-1 rounded-full text-sm font-semibold transition disabled:opacity-50 ${quorumTypes.includes(type)
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-purple-100'
+                          }`}
+                      >
+                        {quorumTypes.includes(type) ? '👥 ' : ''}{type}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           )}
+          </>
+          )}
         </main>
       </div>
     </>
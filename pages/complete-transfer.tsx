@@ -14,6 +14,8 @@ interface TransferRequest {
     isCompleted: boolean;
     transferDocumentHash: string;
     transferFee: bigint;
+    isAcceptedByBuyer: boolean;
+    buyerResponseDate: number;
 }
 
 export default function CompleteTransfer() {
@@ -22,6 +24,7 @@ export default function CompleteTransfer() {
     const [loading, setLoading] = useState(false);
     const [message, setMessage] = useState('');
     const [myTransferRequests, setMyTransferRequests] = useState<TransferRequest[]>([]);
+    const [incomingOffers, setIncomingOffers] = useState<TransferRequest[]>([]);
     const [selectedRequestId, setSelectedRequestId] = useState<number>(0);
 
     useEffect(() => {
@@ -76,44 +79,51 @@ export default function CompleteTransfer() {
             const provider = getProvider();
             const contract = getContract(provider);
 
-            // Get transfer request counter
-            const counter = await contract.transferRequestCounter();
+            const total = await contract.getTotalTransferRequests();
             const requests: TransferRequest[] = [];
+            const offers: TransferRequest[] = [];
 
-            console.log(`Checking ${counter} transfer requests for account ${account}`);
+            console.log(`Checking ${total} transfer requests for account ${account}`);
 
             // Loop through all requests and find ones involving current user
-            for (let i = 1; i <= Number(counter); i++) {
+            for (let i = 1; i <= Number(total); i++) {
                 try {
-                    const request = await contract.transferRequests(i);
+                    const request = await contract.getTransferRequestDetails(i);
+
+                    const isSender = request.fromOwner.toLowerCase() === account.toLowerCase();
+                    const isReceiver = request.toOwner.toLowerCase() === account.toLowerCase();
+                    const isClosed =
+                        request.isCompleted ||
+                        request.isRejected ||
+                        request.isCancelled ||
+                        request.isDeclinedByBuyer;
+
+                    if ((!isSender && !isReceiver) || isClosed) {
+                        continue;
+                    }
 
-                    console.log(`Request ${i}:`, {
+                    const transferRequest: TransferRequest = {
+                        requestId: i,
+                        propertyId: Number(request.propertyId),
                         fromOwner: request.fromOwner,
                         toOwner: request.toOwner,
+                        requestDate: Number(request.requestDate),
                         isApproved: request.isApproved,
-                        isCompleted: request.isCompleted
-                    });
-
-                    // Include if user is sender OR receiver, and request is approved but not completed
-                    if (
-                        (request.fromOwner.toLowerCase() === account.toLowerCase() ||
-                            request.toOwner.toLowerCase() === account.toLowerCase()) &&
-                        request.isApproved &&
-                        !request.isCompleted
-                    ) {
-                        const propertyDetails = await contract.getPropertyDetails(request.propertyId);
-
-                        requests.push({
-                            requestId: i,
-                            propertyId: Number(request.propertyId),
-                            fromOwner: request.fromOwner,
-                            toOwner: request.toOwner,
-                            requestDate: Number(request.requestDate),
-                            isApproved: request.isApproved,
-                            isCompleted: request.isCompleted,
-                            transferDocumentHash: request.transferDocumentHash,
-                            transferFee: request.transferFee
-                        });
+                        isCompleted: request.isCompleted,
+                        transferDocumentHash: request.transferDocumentHash,
+                        transferFee: request.transferFee,
+                        isAcceptedByBuyer: request.isAcceptedByBuyer,
+                        buyerResponseDate: Number(request.buyerResponseDate)
+                    };
+
+                    // Offers the receiver has not yet accepted or declined
+                    if (isReceiver && !request.isAcceptedByBuyer) {
+                        offers.push(transferRequest);
+                    }
+
+                    // Approved transfers waiting to be completed
+                    if (request.isApproved) {
+                        requests.push(transferRequest);
                     }
                 } catch (error) {
                     // Skip if request doesn't exist
@@ -121,13 +131,58 @@ export default function CompleteTransfer() {
                 }
             }
 
-            console.log(`Found ${requests.length} pending transfers`);
+            console.log(`Found ${offers.length} incoming offers and ${requests.length} pending transfers`);
+            setIncomingOffers(offers);
             setMyTransferRequests(requests);
         } catch (error) {
             console.error('Error loading transfer requests:', error);
         }
     };
 
+    const handleRespondToOffer = async (requestId: number, accept: boolean) => {
+        setLoading(true);
+        try {
+            setMessage(accept ? '🔄 Accepting transfer offer...' : '🔄 Declining transfer offer...');
+
+            const signer = await getSigner();
+            const contract = getContract(signer);
+
+            const tx = accept
+                ? await contract.acceptTransferRequest(requestId)
+                : await contract.declineTransferRequest(requestId);
+
+            setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+
+            const receipt = await tx.wait();
+            console.log('Transfer offer response recorded:', receipt);
+
+            setMessage(
+                accept
+                    ? '✅ Transfer offer accepted! It can be completed once a government officer approves it.'
+                    : '✅ Transfer offer declined. The seller has been notified on the blockchain.'
+            );
+
+            loadMyTransferRequests();
+
+        } catch (error: any) {
+            console.error('Error responding to transfer offer:', error);
+
+            let errorMessage = 'Failed to respond to transfer offer';
+
+            if (error.code === 'ACTION_REJECTED') {
+                errorMessage = 'Transaction was rejected by user';
+            } else if (error.reason) {
+                errorMessage = error.reason;
+            } else if (error.message) {
+                errorMessage = error.message;
+            }
+
+            setMessage(`❌ Error: ${errorMessage}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const handleCompleteTransfer = async (requestId: number) => {
         setLoading(true);
         try {
@@ -248,6 +303,63 @@ export default function CompleteTransfer() {
 
                     {/* Content */}
                     <div className="max-w-4xl mx-auto">
+                        {/* Incoming Offers Inbox */}
+                        {incomingOffers.length > 0 && (
+                            <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+                                <h2 className="text-2xl font-bold text-gray-800 mb-2">📥 Incoming Transfer Offers</h2>
+                                <p className="text-gray-600 mb-6">
+                                    A property can only be transferred to you after you accept the offer
+                                </p>
+
+                                <div className="space-y-4">
+                                    {incomingOffers.map((offer) => (
+                                        <div key={offer.requestId} className="border border-amber-200 bg-amber-50 rounded-xl p-6">
+                                            <div className="flex justify-between items-start mb-4">
+                                                <div>
+                                                    <h3 className="text-lg font-bold text-gray-800">
+                                                        Offer #{offer.requestId} • Property #{offer.propertyId}
+                                                    </h3>
+                                                    <p className="text-sm text-gray-600">
+                                                        From <span className="font-mono">{offer.fromOwner.slice(0, 6)}...{offer.fromOwner.slice(-4)}</span>
+                                                        {' '}on {new Date(offer.requestDate * 1000).toLocaleString()}
+                                                    </p>
+                                                </div>
+                                                <span className={`px-3 py-1 rounded-full text-sm font-semibold ${offer.isApproved
+                                                        ? 'bg-green-100 text-green-800'
+                                                        : 'bg-yellow-100 text-yellow-800'
+                                                    }`}>
+                                                    {offer.isApproved ? '✅ Approved' : '⏳ Awaiting Approval'}
+                                                </span>
+                                            </div>
+
+                                            <div className="flex flex-wrap gap-3">
+                                                <Link
+                                                    href={`/property/${offer.propertyId}`}
+                                                    className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-semibold text-sm"
+                                                >
+                                                    🔍 View Property
+                                                </Link>
+                                                <button
+                                                    onClick={() => handleRespondToOffer(offer.requestId, true)}
+                                                    disabled={loading}
+                                                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    ✅ Accept Offer
+                                                </button>
+                                                <button
+                                                    onClick={() => handleRespondToOffer(offer.requestId, false)}
+                                                    disabled={loading}
+                                                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    ❌ Decline Offer
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="bg-white rounded-xl shadow-lg p-8">
                             <div className="text-center mb-8">
                                 <div className="text-5xl mb-4">✅</div>
@@ -323,8 +435,8 @@ export default function CompleteTransfer() {
                                 <div className="space-y-6">
                                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
                                         <p className="text-sm text-blue-800">
-                                            ℹ️ <strong>Note:</strong> Either the sender or receiver can complete the transfer.
-                                            Once completed, the property ownership will be transferred on the blockchain.
+                                            ℹ️ <strong>Note:</strong> Either the sender or receiver can complete the transfer
+                                            once the receiver has accepted it. Once completed, the property ownership will be transferred on the blockchain.
                                         </p>
                                     </div>
 
@@ -373,9 +485,22 @@ export default function CompleteTransfer() {
                                                 </p>
                                             </div>
 
+                                            <div className="mb-4">
+                                                <p className="text-sm text-gray-500">Buyer Acceptance</p>
+                                                {request.isAcceptedByBuyer ? (
+                                                    <p className="text-sm text-green-700">
+                                                        ✅ Accepted on {new Date(request.buyerResponseDate * 1000).toLocaleString()}
+                                                    </p>
+                                                ) : (
+                                                    <p className="text-sm text-yellow-700">
+                                                        ⏳ Waiting for the receiver to accept this transfer
+                                                    </p>
+                                                )}
+                                            </div>
+
                                             <button
                                                 onClick={() => handleCompleteTransfer(request.requestId)}
-                                                disabled={loading}
+                                                disabled={loading || !request.isAcceptedByBuyer}
                                                 className="w-full px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                                             >
                                                 {loading ? (
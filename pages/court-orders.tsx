@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { getContract, getSigner } from '../utils/contract';
+
+interface LegalHold {
+  holdId: number;
+  propertyId: number;
+  authority: string;
+  caseReference: string;
+  documentHash: string;
+  placedDate: number;
+  expiryDate: number;
+  isActive: boolean;
+  liftedDate: number;
+}
+
+export default function CourtOrders() {
+  const [account, setAccount] = useState<string>('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [isCourtAuthority, setIsCourtAuthority] = useState(false);
+  const [isContractOwner, setIsContractOwner] = useState(false);
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actingId, setActingId] = useState<number | null>(null);
+  const [authorityAddress, setAuthorityAddress] = useState('');
+  const [formData, setFormData] = useState({
+    propertyId: '',
+    caseReference: '',
+    documentHash: '',
+    expiryDate: ''
+  });
+
+  useEffect(() => {
+    checkWalletConnection();
+  }, []);
+
+  useEffect(() => {
+    if (account) {
+      checkRoles();
+    }
+  }, [account]);
+
+  useEffect(() => {
+    if (isCourtAuthority) {
+      loadMyHolds();
+    }
+  }, [isCourtAuthority]);
+
+  const checkWalletConnection = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        const accounts = await provider.listAccounts();
+
+        if (accounts.length > 0) {
+          const signer = await provider.getSigner();
+          const address = await signer.getAddress();
+          setAccount(address);
+          setIsConnected(true);
+        }
+      } catch (error) {
+        console.error('Error checking wallet connection:', error);
+      }
+    }
+  };
+
+  const connectWallet = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        await provider.send('eth_requestAccounts', []);
+        const signer = await provider.getSigner();
+        const address = await signer.getAddress();
+
+        setAccount(address);
+        setIsConnected(true);
+      } catch (error) {
+        console.error('Error connecting wallet:', error);
+        alert('Failed to connect wallet. Please make sure MetaMask is installed.');
+      }
+    } else {
+      alert('Please install MetaMask to use this application.');
+    }
+  };
+
+  const checkRoles = async () => {
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const [authorized, contractOwner] = await Promise.all([
+        contract.courtAuthorities(account),
+        contract.owner()
+      ]);
+      setIsCourtAuthority(authorized);
+      setIsContractOwner(contractOwner.toLowerCase() === account.toLowerCase());
+    } catch (error) {
+      console.error('Error checking court authority status:', error);
+    }
+  };
+
+  // Holds placed by the connected court authority
+  const loadMyHolds = async () => {
+    if (!account) return;
+
+    setLoading(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const total = Number(await contract.getTotalLegalHolds());
+      const mine: LegalHold[] = [];
+      for (let i = 1; i <= total; i++) {
+        const details = await contract.getLegalHoldDetails(i);
+        if (details.authority.toLowerCase() !== account.toLowerCase()) continue;
+
+        mine.push({
+          holdId: i,
+          propertyId: Number(details.propertyId),
+          authority: details.authority,
+          caseReference: details.caseReference,
+          documentHash: details.documentHash,
+          placedDate: Number(details.placedDate),
+          expiryDate: Number(details.expiryDate),
+          isActive: details.isActive,
+          liftedDate: Number(details.liftedDate)
+        });
+      }
+      setHolds(mine.reverse());
+    } catch (error) {
+      console.error('Error loading legal holds:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePlaceHold = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const propertyId = parseInt(formData.propertyId);
+    if (isNaN(propertyId) || propertyId <= 0) {
+      alert('❌ Please enter a valid property ID');
+      return;
+    }
+
+    // Holds run until lifted unless the order specifies an end date
+    const expiry = formData.expiryDate
+      ? Math.floor(new Date(formData.expiryDate).getTime() / 1000)
+      : 0;
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.placeLegalHold(
+        propertyId,
+        formData.caseReference,
+        formData.documentHash || 'QmCourtOrder',
+        expiry
+      );
+      await tx.wait();
+      alert(`✅ Legal hold placed on Property #${propertyId}. Transfers are frozen until the hold is lifted${expiry ? ' or expires' : ''}.`);
+
+      setFormData({ propertyId: '', caseReference: '', documentHash: '', expiryDate: '' });
+      await loadMyHolds();
+    } catch (error: any) {
+      console.error('Error placing legal hold:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to place legal hold: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleLiftHold = async (holdId: number) => {
+    if (!confirm('Lift this legal hold? The property will become transferable again if no other hold is active.')) return;
+
+    setActingId(holdId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.liftLegalHold(holdId);
+      await tx.wait();
+      alert('✅ Legal hold lifted');
+      await loadMyHolds();
+    } catch (error: any) {
+      console.error('Error lifting legal hold:', error);
+      alert('❌ Failed to lift legal hold: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const handleSetAuthority = async (isAuthorized: boolean) => {
+    if (!ethers.isAddress(authorityAddress)) {
+      alert('❌ Please enter a valid wallet address');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setCourtAuthority(authorityAddress, isAuthorized);
+      await tx.wait();
+      alert(isAuthorized ? '✅ Court authority granted' : '✅ Court authority revoked');
+      setAuthorityAddress('');
+      await checkRoles();
+    } catch (error: any) {
+      console.error('Error updating court authority:', error);
+      alert('❌ Failed to update court authority: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleDateString();
+  };
+
+  const isExpired = (hold: LegalHold) => {
+    return hold.expiryDate > 0 && hold.expiryDate * 1000 <= Date.now();
+  };
+
+  if (!isConnected) {
+    return (
+      <>
+        <Head>
+          <title>Court Orders - Land Registry</title>
+        </Head>
+        <div className="min-h-screen bg-gradient-to-br from-red-50 to-white flex items-center justify-center">
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-md">
+            <div className="text-5xl mb-4">🔌</div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Connect Your Wallet</h2>
+            <p className="text-gray-600 mb-6">
+              Please connect a court authority's MetaMask wallet to manage legal holds
+            </p>
+            <button
+              onClick={connectWallet}
+              className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold"
+            >
+              Connect MetaMask
+            </button>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Court Orders - Land Registry</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-white">
+        {/* Header */}
+        <header className="bg-white shadow-md">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex justify-between items-center">
+              <Link href="/" className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-primary-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-xl">🏠</span>
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-800">Land Registry</h1>
+                  <p className="text-xs text-gray-500">Court Orders &amp; Legal Holds</p>
+                </div>
+              </Link>
+
+              <div className="text-right">
+                <p className="text-xs text-gray-500">{isCourtAuthority ? 'Court Authority' : 'Connected Account'}</p>
+                <p className="text-sm font-mono font-semibold text-gray-700">
+                  {account.slice(0, 6)}...{account.slice(-4)}
+                </p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-8">
+          {/* Breadcrumb */}
+          <nav className="flex mb-8" aria-label="Breadcrumb">
+            <ol className="inline-flex items-center space-x-1 md:space-x-3">
+              <li>
+                <Link href="/" className="text-gray-500 hover:text-primary-600">Home</Link>
+              </li>
+              <li>
+                <span className="text-gray-400 mx-2">/</span>
+                <span className="text-gray-700 font-semibold">Court Orders</span>
+              </li>
+            </ol>
+          </nav>
+
+          {isContractOwner && (
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+              <h2 className="text-xl font-bold text-gray-800 mb-2">⚖️ Manage Court Authorities</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Only wallets granted this role can place legal holds on properties.
+              </p>
+              <div className="flex flex-col md:flex-row md:items-center gap-2">
+                <input
+                  type="text"
+                  value={authorityAddress}
+                  onChange={(e) => setAuthorityAddress(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                  placeholder="Court authority wallet address (0x...)"
+                />
+                <button
+                  onClick={() => handleSetAuthority(true)}
+                  disabled={submitting}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50"
+                >
+                  Grant
+                </button>
+                <button
+                  onClick={() => handleSetAuthority(false)}
+                  disabled={submitting}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold text-sm disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isCourtAuthority ? (
+            <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+              <div className="text-5xl mb-4">⚖️</div>
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">Court Authority Access Only</h2>
+              <p className="text-gray-600">
+                This wallet is not registered as a court authority. Contact the registry administrator to be granted access.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Place Legal Hold */}
+              <div className="lg:col-span-1">
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-2">⚖️ Place Legal Hold</h2>
+                  <p className="text-sm text-gray-600 mb-6">
+                    Freeze a property under litigation. Pending transfers cannot be approved or completed while the hold is active.
+                  </p>
+
+                  <form onSubmit={handlePlaceHold} className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Property ID *</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={formData.propertyId}
+                        onChange={(e) => setFormData(prev => ({ ...prev, propertyId: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="e.g. 12"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Court Case Reference *</label>
+                      <input
+                        type="text"
+                        value={formData.caseReference}
+                        onChange={(e) => setFormData(prev => ({ ...prev, caseReference: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="e.g. OS 123/2024, City Civil Court"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Court Order Hash (Optional)</label>
+                      <input
+                        type="text"
+                        value={formData.documentHash}
+                        onChange={(e) => setFormData(prev => ({ ...prev, documentHash: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="IPFS hash of the court order"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Expiry Date (Optional)</label>
+                      <input
+                        type="date"
+                        value={formData.expiryDate}
+                        onChange={(e) => setFormData(prev => ({ ...prev, expiryDate: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Leave empty to keep the hold until it is lifted</p>
+                    </div>
+
+                    <button
+                      type="submit"
+                      disabled={submitting}
+                      className="w-full py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {submitting ? '⏳ Placing Hold...' : 'Place Legal Hold'}
+                    </button>
+                  </form>
+                </div>
+              </div>
+
+              {/* My Legal Holds */}
+              <div className="lg:col-span-2">
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-4">Legal Holds You Placed</h2>
+
+                  {loading ? (
+                    <div className="flex justify-center items-center py-12">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                      <span className="ml-2 text-gray-600">Loading legal holds...</span>
+                    </div>
+                  ) : holds.length === 0 ? (
+                    <div className="text-center py-12">
+                      <div className="text-5xl mb-4">📄</div>
+                      <p className="text-gray-600">You have not placed any legal holds yet</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {holds.map((hold) => (
+                        <div key={hold.holdId} className="border border-gray-200 rounded-lg p-4">
+                          <div className="flex justify-between items-start mb-3">
+                            <div>
+                              <h3 className="font-semibold text-gray-800">
+                                Hold #{hold.holdId} on{' '}
+                                <Link href={`/property/${hold.propertyId}`} className="text-primary-600 hover:underline">
+                                  Property #{hold.propertyId}
+                                </Link>
+                              </h3>
+                              <p className="text-sm text-gray-600">{hold.caseReference}</p>
+                              <p className="text-xs text-gray-500">
+                                Placed {formatDate(hold.placedDate)} · {hold.expiryDate > 0 ? `Expires ${formatDate(hold.expiryDate)}` : 'No expiry'}
+                              </p>
+                            </div>
+                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${hold.isActive && !isExpired(hold)
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-gray-100 text-gray-600'
+                              }`}>
+                              {!hold.isActive
+                                ? `Lifted ${formatDate(hold.liftedDate)}`
+                                : isExpired(hold) ? '⌛ Expired' : '⚖️ Active'}
+                            </span>
+                          </div>
+
+                          {hold.isActive && (
+                            <div className="pt-3 border-t border-gray-100">
+                              <button
+                                onClick={() => handleLiftHold(hold.holdId)}
+                                disabled={actingId === hold.holdId}
+                                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50"
+                              >
+                                {actingId === hold.holdId ? '⏳ Processing...' : '🔓 Lift Hold'}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -14,9 +14,7 @@ interface DashboardStats {
 }
 
 interface OwnerInfo {
-  name: string;
-  idDocument: string;
-  contactInfo: string;
+  idDocumentHash: string;
   isVerified: boolean;
   isRegistered: boolean;
 }
@@ -97,19 +95,16 @@ export default function Dashboard() {
 
       const ownerDetails = await contract.getOwnerDetails(account);
 
-      if (ownerDetails.name) {
+      if (ownerDetails.ownerAddress !== ethers.ZeroAddress) {
         setOwnerInfo({
-          name: ownerDetails.name,
-          idDocument: ownerDetails.idDocument,
-          contactInfo: ownerDetails.contactInfo,
+          idDocumentHash: ownerDetails.idDocumentHash,
           isVerified: ownerDetails.isVerified,
           isRegistered: true
         });
       } else {
         setOwnerInfo({
           name: '',
-          idDocument: '',
-          contactInfo: '',
+          idDocumentHash: '',
           isVerified: false,
           isRegistered: false
         });
@@ -118,8 +113,7 @@ export default function Dashboard() {
       console.error('Error loading owner info:', error);
       setOwnerInfo({
         name: '',
-        idDocument: '',
-        contactInfo: '',
+        idDocumentHash: '',
         isVerified: false,
         isRegistered: false
       });
@@ -342,7 +336,7 @@ export default function Dashboard() {
                         <div className="flex items-center space-x-3">
                           <div className="text-3xl">👤</div>
                           <div>
-                            <h3 className="text-xl font-bold text-gray-800">Welcome back, {ownerInfo.name}!</h3>
+                            <h3 className="text-xl font-bold text-gray-800">Welcome back!</h3>
                             <p className="text-sm text-gray-600">Registered Owner Dashboard</p>
                           </div>
                         </div>
@@ -359,7 +353,8 @@ export default function Dashboard() {
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div>
                           <p className="text-sm text-gray-500 mb-1">Contact Info</p>
-                          <p className="font-semibold text-gray-800">{ownerInfo.contactInfo}</p>
+                          <p className="font-semibold text-gray-800">🔒 In the PII vault</p>
+                          <Link href="/register-owner" className="text-xs text-primary-600 hover:underline">Manage who can see it</Link>
                         </div>
                         <div>
                           <p className="text-sm text-gray-500 mb-1">Wallet Address</p>
@@ -0,0 +1,462 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { getContract, getSigner } from '../utils/contract';
+
+interface Encumbrance {
+  encumbranceId: number;
+  propertyId: number;
+  lender: string;
+  encumbranceType: string;
+  amount: number;
+  documentHash: string;
+  createdDate: number;
+  isActive: boolean;
+  releasedDate: number;
+  coSigningOfficerId: string;
+  approvedTransferee: string;
+  isPending: boolean;
+}
+
+const ENCUMBRANCE_TYPES = ['Mortgage', 'Lien', 'Charge'];
+
+export default function Encumbrances() {
+  const [account, setAccount] = useState<string>('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [encumbrances, setEncumbrances] = useState<Encumbrance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actingId, setActingId] = useState<number | null>(null);
+  const [transfereeInputs, setTransfereeInputs] = useState<{ [encumbranceId: number]: string }>({});
+  const [formData, setFormData] = useState({
+    propertyId: '',
+    encumbranceType: 'Mortgage',
+    amount: '',
+    documentHash: ''
+  });
+
+  useEffect(() => {
+    checkWalletConnection();
+  }, []);
+
+  useEffect(() => {
+    if (account) {
+      loadMyEncumbrances();
+    }
+  }, [account]);
+
+  const checkWalletConnection = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        const accounts = await provider.listAccounts();
+
+        if (accounts.length > 0) {
+          const signer = await provider.getSigner();
+          const address = await signer.getAddress();
+          setAccount(address);
+          setIsConnected(true);
+        }
+      } catch (error) {
+        console.error('Error checking wallet connection:', error);
+      }
+    }
+  };
+
+  const connectWallet = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        await provider.send('eth_requestAccounts', []);
+        const signer = await provider.getSigner();
+        const address = await signer.getAddress();
+
+        setAccount(address);
+        setIsConnected(true);
+      } catch (error) {
+        console.error('Error connecting wallet:', error);
+        alert('Failed to connect wallet. Please make sure MetaMask is installed.');
+      }
+    } else {
+      alert('Please install MetaMask to use this application.');
+    }
+  };
+
+  // Encumbrances registered by the connected wallet acting as lender
+  const loadMyEncumbrances = async () => {
+    if (!account) return;
+
+    setLoading(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const total = Number(await contract.getTotalEncumbrances());
+      const mine: Encumbrance[] = [];
+      for (let i = 1; i <= total; i++) {
+        const details = await contract.getEncumbranceDetails(i);
+        if (details.lender.toLowerCase() !== account.toLowerCase()) continue;
+
+        mine.push({
+          encumbranceId: i,
+          propertyId: Number(details.propertyId),
+          lender: details.lender,
+          encumbranceType: details.encumbranceType,
+          amount: Number(details.amount),
+          documentHash: details.documentHash,
+          createdDate: Number(details.createdDate),
+          isActive: details.isActive,
+          releasedDate: Number(details.releasedDate),
+          coSigningOfficerId: details.coSigningOfficerId,
+          approvedTransferee: details.approvedTransferee,
+          isPending: details.isPending
+        });
+      }
+      setEncumbrances(mine.reverse());
+    } catch (error) {
+      console.error('Error loading encumbrances:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const propertyId = parseInt(formData.propertyId);
+    const amount = parseInt(formData.amount);
+    if (isNaN(propertyId) || propertyId <= 0 || isNaN(amount) || amount <= 0) {
+      alert('❌ Please enter a valid property ID and amount');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.registerEncumbrance(
+        propertyId,
+        formData.encumbranceType,
+        amount,
+        formData.documentHash || 'QmLoanDeed'
+      );
+      await tx.wait();
+      alert(`✅ ${formData.encumbranceType} registered against Property #${propertyId}. It takes effect once the owner consents or an officer co-signs it.`);
+
+      setFormData({ propertyId: '', encumbranceType: 'Mortgage', amount: '', documentHash: '' });
+      await loadMyEncumbrances();
+    } catch (error: any) {
+      console.error('Error registering encumbrance:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to register encumbrance: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRelease = async (encumbranceId: number) => {
+    const pending = encumbrances.find(e => e.encumbranceId === encumbranceId)?.isPending;
+    if (!confirm(pending
+      ? 'Withdraw this pending encumbrance?'
+      : 'Release this encumbrance? Only do this once the loan has been repaid.')) return;
+
+    setActingId(encumbranceId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.releaseEncumbrance(encumbranceId);
+      await tx.wait();
+      alert(pending ? '✅ Encumbrance withdrawn' : '✅ Encumbrance released');
+      await loadMyEncumbrances();
+    } catch (error: any) {
+      console.error('Error releasing encumbrance:', error);
+      alert('❌ Failed to release encumbrance: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const handleConsent = async (encumbranceId: number) => {
+    const transferee = transfereeInputs[encumbranceId] || '';
+    if (!ethers.isAddress(transferee)) {
+      alert('❌ Please enter a valid buyer wallet address');
+      return;
+    }
+
+    setActingId(encumbranceId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.consentToEncumberedTransfer(encumbranceId, transferee);
+      await tx.wait();
+      alert('✅ Consent recorded. The owner can now transfer the property to this buyer.');
+      setTransfereeInputs(prev => ({ ...prev, [encumbranceId]: '' }));
+      await loadMyEncumbrances();
+    } catch (error: any) {
+      console.error('Error recording consent:', error);
+      alert('❌ Failed to record consent: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleDateString();
+  };
+
+  if (!isConnected) {
+    return (
+      <>
+        <Head>
+          <title>Encumbrances - Land Registry</title>
+        </Head>
+        <div className="min-h-screen bg-gradient-to-br from-amber-50 to-white flex items-center justify-center">
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-md">
+            <div className="text-5xl mb-4">🔌</div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Connect Your Wallet</h2>
+            <p className="text-gray-600 mb-6">
+              Please connect the lender's MetaMask wallet to manage encumbrances
+            </p>
+            <button
+              onClick={connectWallet}
+              className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold"
+            >
+              Connect MetaMask
+            </button>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Encumbrances - Land Registry</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-white">
+        {/* Header */}
+        <header className="bg-white shadow-md">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex justify-between items-center">
+              <Link href="/" className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-primary-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-xl">🏠</span>
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-800">Land Registry</h1>
+                  <p className="text-xs text-gray-500">Encumbrance Registry</p>
+                </div>
+              </Link>
+
+              <div className="text-right">
+                <p className="text-xs text-gray-500">Lender Account</p>
+                <p className="text-sm font-mono font-semibold text-gray-700">
+                  {account.slice(0, 6)}...{account.slice(-4)}
+                </p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-8">
+          {/* Breadcrumb */}
+          <nav className="flex mb-8" aria-label="Breadcrumb">
+            <ol className="inline-flex items-center space-x-1 md:space-x-3">
+              <li>
+                <Link href="/" className="text-gray-500 hover:text-primary-600">Home</Link>
+              </li>
+              <li>
+                <span className="text-gray-400 mx-2">/</span>
+                <span className="text-gray-700 font-semibold">Encumbrances</span>
+              </li>
+            </ol>
+          </nav>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Register Encumbrance */}
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-2">🏦 Register Encumbrance</h2>
+                <p className="text-sm text-gray-600 mb-6">
+                  Record a mortgage or lien before disbursing a loan. The property cannot be transferred until you release it or consent to a buyer.
+                </p>
+
+                <form onSubmit={handleRegister} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Property ID *</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.propertyId}
+                      onChange={(e) => setFormData(prev => ({ ...prev, propertyId: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="e.g. 12"
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Type *</label>
+                    <select
+                      value={formData.encumbranceType}
+                      onChange={(e) => setFormData(prev => ({ ...prev, encumbranceType: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {ENCUMBRANCE_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Secured Amount (₹) *</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.amount}
+                      onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="e.g. 2500000"
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Loan Deed Hash (Optional)</label>
+                    <input
+                      type="text"
+                      value={formData.documentHash}
+                      onChange={(e) => setFormData(prev => ({ ...prev, documentHash: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="IPFS hash of the loan or charge deed"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full py-3 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? '⏳ Registering...' : 'Register Encumbrance'}
+                  </button>
+                </form>
+              </div>
+            </div>
+
+            {/* My Encumbrances */}
+            <div className="lg:col-span-2">
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">My Encumbrances</h2>
+
+                {loading ? (
+                  <div className="flex justify-center items-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                    <span className="ml-2 text-gray-600">Loading encumbrances...</span>
+                  </div>
+                ) : encumbrances.length === 0 ? (
+                  <div className="text-center py-12">
+                    <div className="text-5xl mb-4">📄</div>
+                    <p className="text-gray-600">You have not registered any encumbrances yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {encumbrances.map((encumbrance) => (
+                      <div key={encumbrance.encumbranceId} className="border border-gray-200 rounded-lg p-4">
+                        <div className="flex justify-between items-start mb-3">
+                          <div>
+                            <h3 className="font-semibold text-gray-800">
+                              {encumbrance.encumbranceType} #{encumbrance.encumbranceId} on{' '}
+                              <Link href={`/property/${encumbrance.propertyId}`} className="text-primary-600 hover:underline">
+                                Property #{encumbrance.propertyId}
+                              </Link>
+                            </h3>
+                            <p className="text-sm text-gray-600">
+                              ₹{encumbrance.amount.toLocaleString('en-IN')} · Registered {formatDate(encumbrance.createdDate)}
+                            </p>
+                          </div>
+                          <div className="flex flex-col items-end space-y-1">
+                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${encumbrance.isActive
+                              ? 'bg-amber-100 text-amber-800'
+                              : encumbrance.isPending
+                                ? 'bg-blue-100 text-blue-800'
+                                : 'bg-gray-100 text-gray-600'
+                              }`}>
+                              {encumbrance.isActive
+                                ? '🔒 Active'
+                                : encumbrance.isPending
+                                  ? '⏳ Awaiting owner consent or officer co-sign'
+                                  : `Released ${formatDate(encumbrance.releasedDate)}`}
+                            </span>
+                            {encumbrance.coSigningOfficerId && (
+                              <span className="px-2 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                                ✅ Co-signed by {encumbrance.coSigningOfficerId}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+
+                        {encumbrance.isActive && (
+                          <div className="pt-3 border-t border-gray-100 space-y-3">
+                            {encumbrance.approvedTransferee !== ethers.ZeroAddress && (
+                              <p className="text-xs text-gray-600">
+                                Transfer consent given to <span className="font-mono">{encumbrance.approvedTransferee}</span>
+                              </p>
+                            )}
+                            <div className="flex items-center space-x-2">
+                              <input
+                                type="text"
+                                value={transfereeInputs[encumbrance.encumbranceId] || ''}
+                                onChange={(e) => setTransfereeInputs(prev => ({ ...prev, [encumbrance.encumbranceId]: e.target.value }))}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                                placeholder="Buyer address to consent to (0x...)"
+                              />
+                              <button
+                                onClick={() => handleConsent(encumbrance.encumbranceId)}
+                                disabled={actingId === encumbrance.encumbranceId}
+                                className="px-4 py-2 border border-amber-600 text-amber-700 rounded-lg hover:bg-amber-50 transition font-semibold text-sm disabled:opacity-50"
+                              >
+                                Consent to Transfer
+                              </button>
+                            </div>
+                            <button
+                              onClick={() => handleRelease(encumbrance.encumbranceId)}
+                              disabled={actingId === encumbrance.encumbranceId}
+                              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50"
+                            >
+                              {actingId === encumbrance.encumbranceId ? '⏳ Processing...' : '✅ Release (Loan Repaid)'}
+                            </button>
+                          </div>
+                        )}
+
+                        {encumbrance.isPending && (
+                          <div className="pt-3 border-t border-gray-100">
+                            <button
+                              onClick={() => handleRelease(encumbrance.encumbranceId)}
+                              disabled={actingId === encumbrance.encumbranceId}
+                              className="px-4 py-2 border border-gray-400 text-gray-700 rounded-lg hover:bg-gray-50 transition font-semibold text-sm disabled:opacity-50"
+                            >
+                              {actingId === encumbrance.encumbranceId ? '⏳ Processing...' : 'Withdraw'}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
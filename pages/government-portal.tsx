@@ -2,7 +2,9 @@ import React, { useState, useEffect } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
+import { ethers } from 'ethers';
 import { getContract, getProvider, getSigner } from '../utils/contract';
+import { readOwnerPii } from '../utils/piiVault';
 
 interface VerificationRequest {
   verificationId: number;
@@ -26,6 +28,125 @@ interface TransferRequest {
   isCompleted: boolean;
   transferDocumentHash: string;
   transferFee: number;
+  isRejected: boolean;
+  isCancelled: boolean;
+  rejectionReason: string;
+  declaredValue: number;
+  buyerCategory: string;
+  guidanceValue: number;
+  isUndervalued: boolean;
+  requiredApprovals: number;
+  approverEmployeeIds: string[];
+}
+
+interface CircleRate {
+  propertyType: string;
+  ratePerSqm: number;
+  setByEmployeeId: string;
+  updatedDate: number;
+}
+
+const PAGE_SIZE = 10;
+
+const PROPERTY_TYPES = [
+  'Residential',
+  'Commercial',
+  'Agricultural',
+  'Industrial'
+];
+
+interface PartitionRequest {
+  partitionId: number;
+  propertyId: number;
+  requestedBy: string;
+  childAreas: number[];
+  childSubDivisions: string[];
+  documentHash: string;
+  requestDate: number;
+  parentArea: number;
+  surveyNumber: string;
+  propertyAddress: string;
+}
+
+interface MergeRequest {
+  mergeId: number;
+  requestedBy: string;
+  surveyNumber: string;
+  documentHash: string;
+  requestDate: number;
+  parcels: { propertyId: number; surveyNumber: string; area: number; propertyAddress: string }[];
+}
+
+interface SuccessionRequest {
+  successionId: number;
+  propertyId: number;
+  propertyAddress: string;
+  claimant: string;
+  deceasedOwner: string;
+  deathCertificateHash: string;
+  heirs: { address: string; share: number }[];
+  filedDate: number;
+  objectionDeadline: number;
+  objections: { objector: string; reason: string; objectionDate: number }[];
+}
+
+interface PendingLease {
+  leaseId: number;
+  propertyId: number;
+  propertyAddress: string;
+  lessor: string;
+  lessee: string;
+  startDate: number;
+  endDate: number;
+  monthlyRent: number;
+  deedHash: string;
+  filedDate: number;
+}
+
+interface PendingProfileChange {
+  requestId: number;
+  ownerAddress: string;
+  currentPiiHash: string;
+  currentIdDocumentHash: string;
+  newPiiHash: string;
+  newIdDocumentHash: string;
+  supportingDocumentHash: string;
+  homeDistrict: string;
+  homeState: string;
+  requestDate: number;
+}
+
+interface PendingWalletRecovery {
+  requestId: number;
+  lostAddress: string;
+  newAddress: string;
+  affidavitHash: string;
+  propertyCount: number;
+  homeDistrict: string;
+  homeState: string;
+  requestDate: number;
+}
+
+interface PendingPowerOfAttorney {
+  poaId: number;
+  principal: string;
+  attorney: string;
+  propertyIds: number[];
+  allowedActions: string[];
+  expiryDate: number;
+  documentHash: string;
+  grantedDate: number;
+}
+
+interface PendingCoSign {
+  encumbranceId: number;
+  propertyId: number;
+  lender: string;
+  encumbranceType: string;
+  amount: number;
+  documentHash: string;
+  createdDate: number;
+  isPending: boolean;
 }
 
 interface Property {
@@ -33,6 +154,8 @@ interface Property {
   propertyAddress: string;
   district: string;
   state: string;
+  tehsil: string;
+  village: string;
   area: number;
   propertyType: string;
   surveyNumber: string;
@@ -50,7 +173,7 @@ interface Property {
 interface Owner {
   ownerAddress: string;
   name: string;
-  idDocument: string;
+  idDocumentHash: string;
   contactInfo: string;
   homeState: string;
   homeDistrict: string;
@@ -65,13 +188,35 @@ export default function GovernmentPortal() {
   const [loginState, setLoginState] = useState('');
   const [loginDistrict, setLoginDistrict] = useState('');
   const [currentOfficer, setCurrentOfficer] = useState<any>(null);
-  const [activeTab, setActiveTab] = useState<'verification' | 'transfer' | 'properties'>('verification');
+  const [activeTab, setActiveTab] = useState<'verification' | 'transfer' | 'partition' | 'merge' | 'succession' | 'lease' | 'profile' | 'recovery' | 'poa' | 'encumbrance' | 'circle-rate' | 'properties'>('verification');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
+  const [incentiveBalance, setIncentiveBalance] = useState<bigint>(0n);
 
   // Data states
   const [verificationRequests, setVerificationRequests] = useState<VerificationRequest[]>([]);
   const [transferRequests, setTransferRequests] = useState<TransferRequest[]>([]);
+  const [verificationTotal, setVerificationTotal] = useState(0);
+  const [transferTotal, setTransferTotal] = useState(0);
+  const [requestPage, setRequestPage] = useState(0);
+  const [partitionRequests, setPartitionRequests] = useState<PartitionRequest[]>([]);
+  const [partitionNotes, setPartitionNotes] = useState<{ [partitionId: number]: string }>({});
+  const [mergeRequests, setMergeRequests] = useState<MergeRequest[]>([]);
+  const [mergeNotes, setMergeNotes] = useState<{ [mergeId: number]: string }>({});
+  const [successionRequests, setSuccessionRequests] = useState<SuccessionRequest[]>([]);
+  const [successionNotes, setSuccessionNotes] = useState<{ [successionId: number]: string }>({});
+  const [pendingCoSigns, setPendingCoSigns] = useState<PendingCoSign[]>([]);
+  const [pendingPowersOfAttorney, setPendingPowersOfAttorney] = useState<PendingPowerOfAttorney[]>([]);
+  const [pendingLeases, setPendingLeases] = useState<PendingLease[]>([]);
+  const [leaseNotes, setLeaseNotes] = useState<{ [leaseId: number]: string }>({});
+  const [pendingProfileChanges, setPendingProfileChanges] = useState<PendingProfileChange[]>([]);
+  const [profileChangeNotes, setProfileChangeNotes] = useState<{ [requestId: number]: string }>({});
+  // Current and requested names read from the PII vault, keyed by profile change request
+  const [profileChangeNames, setProfileChangeNames] = useState<{ [requestId: number]: { current: string; requested: string } }>({});
+  const [pendingWalletRecoveries, setPendingWalletRecoveries] = useState<PendingWalletRecovery[]>([]);
+  const [walletRecoveryNotes, setWalletRecoveryNotes] = useState<{ [requestId: number]: string }>({});
+  const [circleRates, setCircleRates] = useState<CircleRate[]>([]);
+  const [circleRateInputs, setCircleRateInputs] = useState<{ [propertyType: string]: string }>({});
   const [selectedRequest, setSelectedRequest] = useState<any>(null);
   const [propertyDetails, setPropertyDetails] = useState<Property | null>(null);
   const [ownerDetails, setOwnerDetails] = useState<Owner | null>(null);
@@ -79,12 +224,15 @@ export default function GovernmentPortal() {
   // Properties view states
   const [allProperties, setAllProperties] = useState<Property[]>([]);
   const [filteredProperties, setFilteredProperties] = useState<Property[]>([]);
+  const [propertyTotal, setPropertyTotal] = useState(0);
+  const [propertyPage, setPropertyPage] = useState(0);
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
 
   // Form states
   const [verificationNotes, setVerificationNotes] = useState('');
   const [approvalDecision, setApprovalDecision] = useState<boolean | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
 
   // Document and photo viewing states
   const [showDocumentModal, setShowDocumentModal] = useState(false);
@@ -124,6 +272,13 @@ export default function GovernmentPortal() {
       state: 'West Bengal',
       district: 'Kolkata',
       password: 'admin123'
+    },
+    'GVT005': {
+      name: 'Meera Deshpande',
+      department: 'Inspector General of Registration',
+      state: 'Maharashtra',
+      district: '',
+      password: 'admin123'
     }
   };
 
@@ -137,17 +292,23 @@ export default function GovernmentPortal() {
     'Tamil Nadu': ['Chennai', 'Coimbatore', 'Madurai', 'Salem']
   };
 
+  useEffect(() => {
+    if (isLoggedIn) {
+      loadIncentiveBalance();
+    }
+  }, [isLoggedIn]);
+
   useEffect(() => {
     if (isLoggedIn) {
       if (activeTab === 'properties') {
-        loadAllProperties();
+        loadAllProperties(0);
       } else {
-        loadPendingRequests();
+        loadPendingRequests(0);
       }
     }
   }, [isLoggedIn, activeTab]);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!loginState || !loginDistrict) {
@@ -156,17 +317,69 @@ export default function GovernmentPortal() {
     }
 
     const officer = GOVERNMENT_OFFICERS[employeeId as keyof typeof GOVERNMENT_OFFICERS];
-    if (officer && officer.password === password) {
+    if (!officer || officer.password !== password) {
+      setMessage('❌ Invalid credentials. Please check your Employee ID and password.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Employee IDs are bound on-chain to a signer wallet; only that wallet may act for the officer
+      const contract = getContract(getProvider());
+      const onChainOfficer = await contract.getGovernmentOfficerDetails(employeeId);
+
+      if (!onChainOfficer.isActive) {
+        setMessage('❌ This officer is not registered or has been deactivated on the blockchain.');
+        return;
+      }
+
+      const signer = await getSigner();
+      const walletAddress = await signer.getAddress();
+
+      if (walletAddress.toLowerCase() !== onChainOfficer.signerAddress.toLowerCase()) {
+        setMessage(
+          `❌ Connected wallet ${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)} is not authorized for ${employeeId}. ` +
+          `Please switch MetaMask to ${onChainOfficer.signerAddress.slice(0, 6)}...${onChainOfficer.signerAddress.slice(-4)}.`
+        );
+        return;
+      }
+
+      // District officers are limited to their district; state-level officers (no district) to their state
+      const withinJurisdiction =
+        loginState === onChainOfficer.state &&
+        (!onChainOfficer.district || loginDistrict === onChainOfficer.district);
+
+      if (!withinJurisdiction) {
+        setMessage(
+          `❌ ${employeeId} is only authorized for ${onChainOfficer.district || 'all districts'}, ${onChainOfficer.state}.`
+        );
+        return;
+      }
+
+      // Sub-registrars verify properties; registrars approve and reject transfers
+      const [isSubRegistrar, isRegistrar] = await Promise.all([
+        contract.hasOfficerRole(employeeId, ethers.id('SUB_REGISTRAR_ROLE')),
+        contract.hasOfficerRole(employeeId, ethers.id('REGISTRAR_ROLE'))
+      ]);
+
       setCurrentOfficer({
         ...officer,
         employeeId,
+        state: onChainOfficer.state,
+        district: onChainOfficer.district,
+        signerAddress: onChainOfficer.signerAddress,
         selectedState: loginState,
-        selectedDistrict: loginDistrict
+        selectedDistrict: loginDistrict,
+        isSubRegistrar,
+        isRegistrar
       });
       setIsLoggedIn(true);
       setMessage(`✅ Login successful! Viewing properties in ${loginDistrict}, ${loginState}.`);
-    } else {
-      setMessage('❌ Invalid credentials. Please check your Employee ID and password.');
+    } catch (error: any) {
+      console.error('Error verifying officer wallet:', error);
+      setMessage(`❌ Unable to verify officer wallet: ${error.reason || error.message || 'Unknown error'}`);
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -177,6 +390,7 @@ export default function GovernmentPortal() {
     setLoginState('');
     setLoginDistrict('');
     setCurrentOfficer(null);
+    setIncentiveBalance(0n);
     setMessage('');
     setSelectedRequest(null);
     setPropertyDetails(null);
@@ -186,7 +400,39 @@ export default function GovernmentPortal() {
     setFilteredProperties([]);
   };
 
-  const loadPendingRequests = async () => {
+  const loadIncentiveBalance = async () => {
+    if (!currentOfficer?.employeeId) return;
+    try {
+      const contract = getContract(getProvider());
+      setIncentiveBalance(await contract.officerIncentiveBalances(currentOfficer.employeeId));
+    } catch (error) {
+      console.error('Error loading incentive balance:', error);
+    }
+  };
+
+  const handleWithdrawIncentive = async () => {
+    setLoading(true);
+    setMessage('⏳ Withdrawing incentive... Please confirm in MetaMask');
+    try {
+      const contract = getContract(await getSigner());
+      const tx = await contract.withdrawOfficerIncentive(currentOfficer.employeeId);
+      await tx.wait();
+      setMessage(`✅ Withdrew ${ethers.formatEther(incentiveBalance)} ETH incentive to your signer wallet.`);
+      await loadIncentiveBalance();
+    } catch (error: any) {
+      console.error('Error withdrawing incentive:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        setMessage('❌ Transaction was rejected by user');
+      } else {
+        setMessage(`❌ Failed to withdraw incentive: ${error.reason || error.message || 'Unknown error'}`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Verification and transfer queues are paged on-chain; other queues are loaded in full
+  const loadPendingRequests = async (page: number = requestPage) => {
     setLoading(true);
     try {
       const provider = getProvider();
@@ -195,8 +441,301 @@ export default function GovernmentPortal() {
       // Get list of deleted properties from localStorage
       const deletedProperties = JSON.parse(localStorage.getItem('deleted_properties') || '[]');
 
-      if (activeTab === 'verification') {
-        const pendingIds = await contract.getPendingVerificationRequests();
+      if (activeTab === 'partition') {
+        const pendingIds = await contract.getPendingPartitionRequests();
+        const requests = [];
+
+        for (const id of pendingIds) {
+          const request = await contract.getPartitionRequestDetails(Number(id));
+          const propertyId = Number(request.propertyId);
+
+          // Skip requests outside the officer's jurisdiction (the contract would reject them)
+          if (!(await contract.isPropertyWithinJurisdiction(currentOfficer.employeeId, propertyId))) {
+            continue;
+          }
+
+          const parent = await contract.getPropertyDetails(propertyId);
+          requests.push({
+            partitionId: Number(id),
+            propertyId: propertyId,
+            requestedBy: request.requestedBy,
+            childAreas: request.childAreas.map((a: bigint) => Number(a)),
+            childSubDivisions: [...request.childSubDivisions],
+            documentHash: request.documentHash,
+            requestDate: Number(request.requestDate),
+            parentArea: Number(parent.area),
+            surveyNumber: parent.surveyNumber,
+            propertyAddress: parent.propertyAddress
+          });
+        }
+
+        setPartitionRequests(requests);
+      } else if (activeTab === 'merge') {
+        const pendingIds = await contract.getPendingMergeRequests();
+        const requests = [];
+
+        for (const id of pendingIds) {
+          const request = await contract.getMergeRequestDetails(Number(id));
+          const propertyIds: number[] = request.propertyIds.map((p: bigint) => Number(p));
+
+          // All parcels share a district, so checking the first covers the request
+          if (!(await contract.isPropertyWithinJurisdiction(currentOfficer.employeeId, propertyIds[0]))) {
+            continue;
+          }
+
+          const parcels = [];
+          for (const propertyId of propertyIds) {
+            const details = await contract.getPropertyDetails(propertyId);
+            parcels.push({
+              propertyId: propertyId,
+              surveyNumber: details.surveyNumber,
+              area: Number(details.area),
+              propertyAddress: details.propertyAddress
+            });
+          }
+
+          requests.push({
+            mergeId: Number(id),
+            requestedBy: request.requestedBy,
+            surveyNumber: request.surveyNumber,
+            documentHash: request.documentHash,
+            requestDate: Number(request.requestDate),
+            parcels: parcels
+          });
+        }
+
+        setMergeRequests(requests);
+      } else if (activeTab === 'succession') {
+        const pendingIds = await contract.getPendingSuccessionRequests();
+        const requests = [];
+
+        for (const id of pendingIds) {
+          const request = await contract.getSuccessionRequestDetails(Number(id));
+          const propertyId = Number(request.propertyId);
+
+          if (!(await contract.isPropertyWithinJurisdiction(currentOfficer.employeeId, propertyId))) {
+            continue;
+          }
+
+          const details = await contract.getPropertyDetails(propertyId);
+          const objections = await contract.getSuccessionObjections(Number(id));
+          requests.push({
+            successionId: Number(id),
+            propertyId: propertyId,
+            propertyAddress: details.propertyAddress,
+            claimant: request.claimant,
+            deceasedOwner: request.deceasedOwner,
+            deathCertificateHash: request.deathCertificateHash,
+            heirs: request.heirs.map((heir: string, index: number) => ({
+              address: heir,
+              share: Number(request.heirShares[index])
+            })),
+            filedDate: Number(request.filedDate),
+            objectionDeadline: Number(request.objectionDeadline),
+            objections: objections.map((objection: any) => ({
+              objector: objection.objector,
+              reason: objection.reason,
+              objectionDate: Number(objection.objectionDate)
+            }))
+          });
+        }
+
+        setSuccessionRequests(requests);
+      } else if (activeTab === 'lease') {
+        const total = Number(await contract.getTotalLeases());
+        const pending = [];
+
+        for (let i = 1; i <= total; i++) {
+          const lease = await contract.getLeaseDetails(i);
+          if (!lease.isPending) {
+            continue;
+          }
+
+          const propertyId = Number(lease.propertyId);
+          if (!(await contract.isPropertyWithinJurisdiction(currentOfficer.employeeId, propertyId))) {
+            continue;
+          }
+
+          const details = await contract.getPropertyDetails(propertyId);
+          pending.push({
+            leaseId: i,
+            propertyId: propertyId,
+            propertyAddress: details.propertyAddress,
+            lessor: lease.lessor,
+            lessee: lease.lessee,
+            startDate: Number(lease.startDate),
+            endDate: Number(lease.endDate),
+            monthlyRent: Number(lease.monthlyRent),
+            deedHash: lease.deedHash,
+            filedDate: Number(lease.filedDate)
+          });
+        }
+
+        setPendingLeases(pending);
+      } else if (activeTab === 'profile') {
+        // Name/ID document changes for owners whose home district this officer covers
+        const pendingIds = await contract.getPendingProfileChangeRequests();
+        const pending = [];
+
+        for (const id of pendingIds) {
+          const request = await contract.getProfileChangeRequestDetails(Number(id));
+          const ownerDetails = await contract.getOwnerDetails(request.ownerAddress);
+
+          const withinJurisdiction =
+            ownerDetails.homeState === currentOfficer.state &&
+            (!currentOfficer.district || ownerDetails.homeDistrict === currentOfficer.district);
+          if (!withinJurisdiction) {
+            continue;
+          }
+
+          pending.push({
+            requestId: Number(id),
+            ownerAddress: request.ownerAddress,
+            currentPiiHash: ownerDetails.piiHash,
+            currentIdDocumentHash: ownerDetails.idDocumentHash,
+            newPiiHash: request.newPiiHash,
+            newIdDocumentHash: request.newIdDocumentHash,
+            supportingDocumentHash: request.supportingDocumentHash,
+            homeDistrict: ownerDetails.homeDistrict,
+            homeState: ownerDetails.homeState,
+            requestDate: Number(request.requestDate)
+          });
+        }
+
+        setPendingProfileChanges(pending);
+      } else if (activeTab === 'recovery') {
+        // Lost-wallet recoveries for owners whose home district this officer covers
+        const pendingIds = await contract.getPendingWalletRecoveryRequests();
+        const pending = [];
+
+        for (const id of pendingIds) {
+          const request = await contract.getWalletRecoveryRequestDetails(Number(id));
+          const ownerDetails = await contract.getOwnerDetails(request.lostAddress);
+
+          const withinJurisdiction =
+            ownerDetails.homeState === currentOfficer.state &&
+            (!currentOfficer.district || ownerDetails.homeDistrict === currentOfficer.district);
+          if (!withinJurisdiction) {
+            continue;
+          }
+
+          const ownedIds = await contract.getOwnerProperties(request.lostAddress);
+          pending.push({
+            requestId: Number(id),
+            lostAddress: request.lostAddress,
+            newAddress: request.newAddress,
+            affidavitHash: request.affidavitHash,
+            propertyCount: ownedIds.length,
+            homeDistrict: ownerDetails.homeDistrict,
+            homeState: ownerDetails.homeState,
+            requestDate: Number(request.requestDate)
+          });
+        }
+
+        setPendingWalletRecoveries(pending);
+      } else if (activeTab === 'poa') {
+        // Live grants no officer has countersigned yet
+        const total = Number(await contract.getTotalPowersOfAttorney());
+        const now = Math.floor(Date.now() / 1000);
+        const pending = [];
+
+        for (let i = 1; i <= total; i++) {
+          const poa = await contract.getPowerOfAttorneyDetails(i);
+          if (poa.isRevoked || poa.countersigningOfficerId || Number(poa.expiryDate) <= now) {
+            continue;
+          }
+
+          // Property-specific grants must sit entirely in this officer's jurisdiction
+          const propertyIds: number[] = poa.propertyIds.map((p: bigint) => Number(p));
+          let inJurisdiction = true;
+          for (const propertyId of propertyIds) {
+            if (!(await contract.isPropertyWithinJurisdiction(currentOfficer.employeeId, propertyId))) {
+              inJurisdiction = false;
+              break;
+            }
+          }
+          if (!inJurisdiction) {
+            continue;
+          }
+
+          pending.push({
+            poaId: i,
+            principal: poa.principal,
+            attorney: poa.attorney,
+            propertyIds: propertyIds,
+            allowedActions: [
+              poa.canRequestVerification && 'Request verification',
+              poa.canCreateTransfer && 'Create transfers',
+              poa.canUpdateDocuments && 'Update documents'
+            ].filter(Boolean) as string[],
+            expiryDate: Number(poa.expiryDate),
+            documentHash: poa.documentHash,
+            grantedDate: Number(poa.grantedDate)
+          });
+        }
+
+        setPendingPowersOfAttorney(pending);
+      } else if (activeTab === 'circle-rate') {
+        const rates = await Promise.all(PROPERTY_TYPES.map(async (propertyType) => {
+          const rate = await contract.getCircleRate(
+            currentOfficer.selectedState,
+            currentOfficer.selectedDistrict,
+            propertyType
+          );
+          return {
+            propertyType,
+            ratePerSqm: Number(rate.ratePerSqm),
+            setByEmployeeId: rate.setByEmployeeId,
+            updatedDate: Number(rate.updatedDate)
+          };
+        }));
+
+        setCircleRates(rates);
+      } else if (activeTab === 'encumbrance') {
+        // Active or pending encumbrances in this jurisdiction that no officer has co-signed yet
+        const total = Number(await contract.getTotalEncumbrances());
+        const pending = [];
+
+        for (let i = 1; i <= total; i++) {
+          const encumbrance = await contract.getEncumbranceDetails(i);
+          if (!(encumbrance.isActive || encumbrance.isPending) || encumbrance.coSigningOfficerId) {
+            continue;
+          }
+
+          const propertyId = Number(encumbrance.propertyId);
+          if (!(await contract.isPropertyWithinJurisdiction(currentOfficer.employeeId, propertyId))) {
+            continue;
+          }
+
+          pending.push({
+            encumbranceId: i,
+            propertyId: propertyId,
+            lender: encumbrance.lender,
+            encumbranceType: encumbrance.encumbranceType,
+            amount: Number(encumbrance.amount),
+            documentHash: encumbrance.documentHash,
+            createdDate: Number(encumbrance.createdDate),
+            isPending: encumbrance.isPending
+          });
+        }
+
+        setPendingCoSigns(pending);
+      } else if (activeTab === 'verification') {
+        // Only requests in the officer's jurisdiction, read from the contract's open-request index
+        const [pendingIds, total] = await contract.getPendingVerificationRequestsPaged(
+          currentOfficer.state,
+          currentOfficer.district,
+          page * PAGE_SIZE,
+          PAGE_SIZE
+        );
+
+        // Step back when the last request on this page was just processed
+        if (pendingIds.length === 0 && page > 0) {
+          return loadPendingRequests(page - 1);
+        }
+
+        setRequestPage(page);
+        setVerificationTotal(Number(total));
         const requests = [];
 
         for (const id of pendingIds) {
@@ -223,7 +762,19 @@ export default function GovernmentPortal() {
 
         setVerificationRequests(requests);
       } else {
-        const pendingIds = await contract.getPendingTransferRequests();
+        const [pendingIds, total] = await contract.getPendingTransferRequestsPaged(
+          currentOfficer.state,
+          currentOfficer.district,
+          page * PAGE_SIZE,
+          PAGE_SIZE
+        );
+
+        if (pendingIds.length === 0 && page > 0) {
+          return loadPendingRequests(page - 1);
+        }
+
+        setRequestPage(page);
+        setTransferTotal(Number(total));
         const requests = [];
 
         for (const id of pendingIds) {
@@ -244,7 +795,16 @@ export default function GovernmentPortal() {
             isApproved: request.isApproved,
             isCompleted: request.isCompleted,
             transferDocumentHash: request.transferDocumentHash,
-            transferFee: Number(request.transferFee)
+            transferFee: Number(request.transferFee),
+            isRejected: request.isRejected,
+            isCancelled: request.isCancelled,
+            rejectionReason: request.rejectionReason,
+            declaredValue: Number(request.declaredValue),
+            buyerCategory: request.buyerCategory,
+            guidanceValue: Number(request.guidanceValue),
+            isUndervalued: await contract.isTransferUndervalued(Number(id)),
+            requiredApprovals: Number(request.requiredApprovals),
+            approverEmployeeIds: [...request.approverEmployeeIds]
           });
         }
 
@@ -258,7 +818,7 @@ export default function GovernmentPortal() {
     }
   };
 
-  const loadAllProperties = async () => {
+  const loadAllProperties = async (page: number = propertyPage) => {
     setLoading(true);
     try {
       const provider = getProvider();
@@ -268,21 +828,32 @@ export default function GovernmentPortal() {
       const deletedProperties = JSON.parse(localStorage.getItem('deleted_properties') || '[]');
 
       let propertyIds: bigint[] = [];
+      let total = 0;
 
-      // Use smart contract's searchPropertiesByLocation function to get properties by state and district
+      // Use smart contract's paged location search to get one page of properties by state and district
       if (currentOfficer?.selectedState && currentOfficer?.selectedDistrict) {
         console.log(`Searching properties in ${currentOfficer.selectedDistrict}, ${currentOfficer.selectedState}`);
-        propertyIds = await contract.searchPropertiesByLocation(
+        const [pageIds, matching] = await contract.searchPropertiesByLocationPaged(
           currentOfficer.selectedState,
-          currentOfficer.selectedDistrict
+          currentOfficer.selectedDistrict,
+          0,
+          page * PAGE_SIZE,
+          PAGE_SIZE
         );
-        console.log(`Found ${propertyIds.length} properties in the selected location`);
+        propertyIds = [...pageIds];
+        total = Number(matching);
+        console.log(`Found ${total} properties in the selected location`);
       } else {
-        // If no state/district selected, load all properties
-        const totalProperties = await contract.getTotalProperties();
-        propertyIds = Array.from({ length: Number(totalProperties) }, (_, i) => BigInt(i + 1));
+        // If no state/district selected, page through all properties by ID
+        total = Number(await contract.getTotalProperties());
+        const first = page * PAGE_SIZE + 1;
+        const last = Math.min(total, (page + 1) * PAGE_SIZE);
+        propertyIds = Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => BigInt(first + i));
       }
 
+      setPropertyPage(page);
+      setPropertyTotal(total);
+
       const properties: Property[] = [];
 
       // Load details for each property
@@ -301,6 +872,8 @@ export default function GovernmentPortal() {
             propertyAddress: propDetails.propertyAddress,
             district: propDetails.district,
             state: propDetails.state,
+            tehsil: propDetails.tehsil,
+            village: propDetails.village,
             area: Number(propDetails.area),
             propertyType: propDetails.propertyType,
             surveyNumber: propDetails.surveyNumber,
@@ -371,9 +944,9 @@ export default function GovernmentPortal() {
 
       setOwnerDetails({
         ownerAddress: owner.ownerAddress,
-        name: owner.name,
-        idDocument: owner.idDocument,
-        contactInfo: owner.contactInfo,
+        name: '', // Fetched from the PII vault on request
+        idDocumentHash: owner.idDocumentHash,
+        contactInfo: '', // Fetched from the PII vault on request
         homeState: owner.homeState,
         homeDistrict: owner.homeDistrict,
         isVerified: owner.isVerified
@@ -449,6 +1022,8 @@ export default function GovernmentPortal() {
         propertyAddress: propDetails.propertyAddress,
         district: propDetails.district,
         state: propDetails.state,
+        tehsil: propDetails.tehsil,
+        village: propDetails.village,
         area: Number(propDetails.area),
         propertyType: propDetails.propertyType,
         surveyNumber: propDetails.surveyNumber,
@@ -468,9 +1043,9 @@ export default function GovernmentPortal() {
       const owner = await contract.getOwnerDetails(ownerAddress);
       setOwnerDetails({
         ownerAddress: owner.ownerAddress,
-        name: owner.name,
-        idDocument: owner.idDocument,
-        contactInfo: owner.contactInfo,
+        name: '', // Fetched from the PII vault on request
+        idDocumentHash: owner.idDocumentHash,
+        contactInfo: '', // Fetched from the PII vault on request
         homeState: owner.homeState,
         homeDistrict: owner.homeDistrict,
         isVerified: owner.isVerified
@@ -601,8 +1176,9 @@ export default function GovernmentPortal() {
         const feeInEth = formatEther(selectedRequest.feePaid);
         setMessage(
           `✅ Property verification approved! The decision has been recorded on the blockchain. ` +
-          `Verification fee of ${feeInEth} ETH has been transferred to the government officer's wallet.`
+          `Verification fee of ${feeInEth} ETH has been credited to the state treasury.`
         );
+        loadIncentiveBalance();
       } else {
         setMessage('❌ Property verification rejected. The decision has been recorded with notes.');
       }
@@ -674,15 +1250,25 @@ export default function GovernmentPortal() {
       const receipt = await tx.wait();
       console.log('Transfer approval transaction confirmed:', receipt);
 
-      // Calculate transfer fee in ETH
-      const transferFeeInEth = selectedRequest.transferFee
-        ? (Number(selectedRequest.transferFee) / 1e18).toFixed(4)
-        : '0.002';
+      // Under an approval quorum, only the last officer's approval completes the request
+      const approvalCount = selectedRequest.approverEmployeeIds.length + 1;
+      if (approvalCount < selectedRequest.requiredApprovals) {
+        setMessage(
+          `✅ Your approval has been recorded (${approvalCount} of ${selectedRequest.requiredApprovals}). ` +
+          `The request stays pending until another officer in the jurisdiction approves it.`
+        );
+      } else {
+        // Calculate transfer fee in ETH
+        const transferFeeInEth = selectedRequest.transferFee
+          ? (Number(selectedRequest.transferFee) / 1e18).toFixed(4)
+          : '0.002';
 
-      setMessage(
-        `✅ Transfer request approved! The parties can now complete the transfer. ` +
-        `Transfer fee of ${transferFeeInEth} ETH has been transferred to your wallet.`
-      );
+        setMessage(
+          `✅ Transfer request approved! The parties can now complete the transfer. ` +
+          `Transfer fee of ${transferFeeInEth} ETH has been credited to the state treasury.`
+        );
+        loadIncentiveBalance();
+      }
 
       // Reset after a short delay
       setTimeout(() => {
@@ -713,50 +1299,589 @@ export default function GovernmentPortal() {
     }
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp * 1000).toLocaleString();
-  };
+  const handleRejectTransfer = async () => {
+    if (!rejectionReason.trim()) {
+      setMessage('❌ Please enter a reason for rejecting this transfer');
+      return;
+    }
 
-  const formatEther = (wei: number) => {
-    return (wei / 1e18).toFixed(4);
-  };
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
 
-  if (!isLoggedIn) {
-    return (
-      <>
-        <Head>
-          <title>Government Portal - Land Registry</title>
-        </Head>
+      const signer = await getSigner();
+      const contract = getContract(signer);
 
-        <div className="min-h-screen bg-gradient-to-br from-red-50 to-white flex items-center justify-center">
-          <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full">
-            <div className="text-center mb-8">
-              <div className="text-5xl mb-4">🏛️</div>
-              <h1 className="text-2xl font-bold text-gray-800 mb-2">Government Portal</h1>
-              <p className="text-gray-600">Secure access for government officials</p>
-            </div>
+      // The request may have been cancelled by the seller while it was open in the portal
+      const requestDetails = await contract.getTransferRequestDetails(selectedRequest.requestId);
+      if (requestDetails.isCancelled || requestDetails.isRejected || requestDetails.isApproved) {
+        setMessage('❌ This transfer request has already been processed or withdrawn by the seller.');
+        setTimeout(() => {
+          setSelectedRequest(null);
+          setPropertyDetails(null);
+          setOwnerDetails(null);
+          loadPendingRequests();
+        }, 2000);
+        return;
+      }
 
-            <form onSubmit={handleLogin} className="space-y-6">
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Employee ID
-                </label>
-                <input
-                  type="text"
-                  value={employeeId}
-                  onChange={(e) => setEmployeeId(e.target.value)}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                  placeholder="e.g., GVT001"
-                  required
-                />
-              </div>
+      setMessage('📝 Rejecting transfer request on blockchain...');
 
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Password
-                </label>
-                <input
-                  type="password"
+      const tx = await contract.rejectTransferRequest(
+        selectedRequest.requestId,
+        currentOfficer.employeeId,
+        rejectionReason.trim()
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+
+      const receipt = await tx.wait();
+      console.log('Transfer rejection transaction confirmed:', receipt);
+
+      setMessage(
+        `✅ Transfer request rejected. ` +
+        `The transfer fee of ${formatEther(selectedRequest.transferFee)} ETH has been refunded to the seller.`
+      );
+
+      setTimeout(() => {
+        setRejectionReason('');
+        setSelectedRequest(null);
+        setPropertyDetails(null);
+        setOwnerDetails(null);
+
+        // Reload requests
+        loadPendingRequests();
+      }, 2000);
+
+    } catch (error: any) {
+      console.error('Error rejecting transfer:', error);
+
+      let errorMessage = 'Failed to reject transfer';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProcessPartition = async (request: PartitionRequest, approve: boolean) => {
+    const notes = partitionNotes[request.partitionId] || '';
+    if (!approve && !notes.trim()) {
+      setMessage('❌ Please enter notes explaining why this partition is rejected');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage(`📝 ${approve ? 'Approving' : 'Rejecting'} partition request on blockchain...`);
+
+      const tx = await contract.processPartitionRequest(
+        request.partitionId,
+        currentOfficer.employeeId,
+        approve,
+        notes || 'Partition approved'
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(approve
+        ? `✅ Partition approved! Property #${request.propertyId} has been retired and ${request.childAreas.length} child parcels were created.`
+        : `✅ Partition request for Property #${request.propertyId} rejected.`);
+
+      setPartitionNotes(prev => ({ ...prev, [request.partitionId]: '' }));
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error processing partition:', error);
+
+      let errorMessage = 'Failed to process partition';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProcessMerge = async (request: MergeRequest, approve: boolean) => {
+    const notes = mergeNotes[request.mergeId] || '';
+    if (!approve && !notes.trim()) {
+      setMessage('❌ Please enter notes explaining why this merge is rejected');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage(`📝 ${approve ? 'Approving' : 'Rejecting'} merge request on blockchain...`);
+
+      const tx = await contract.processMergeRequest(
+        request.mergeId,
+        currentOfficer.employeeId,
+        approve,
+        notes || 'Merge approved'
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(approve
+        ? `✅ Merge approved! ${request.parcels.length} parcels have been superseded by a single property under survey number ${request.surveyNumber}.`
+        : `✅ Merge request #${request.mergeId} rejected.`);
+
+      setMergeNotes(prev => ({ ...prev, [request.mergeId]: '' }));
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error processing merge:', error);
+
+      let errorMessage = 'Failed to process merge';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProcessSuccession = async (request: SuccessionRequest, approve: boolean) => {
+    const notes = successionNotes[request.successionId] || '';
+    if (!approve && !notes.trim()) {
+      setMessage('❌ Please enter notes explaining why this succession claim is rejected');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage(`📝 ${approve ? 'Approving' : 'Rejecting'} succession claim on blockchain...`);
+
+      const tx = await contract.processSuccessionRequest(
+        request.successionId,
+        currentOfficer.employeeId,
+        approve,
+        notes || 'Succession approved'
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(approve
+        ? `✅ Succession approved! Property #${request.propertyId} now passes to ${request.heirs.length} heir${request.heirs.length > 1 ? 's' : ''}.`
+        : `✅ Succession claim for Property #${request.propertyId} rejected.`);
+
+      setSuccessionNotes(prev => ({ ...prev, [request.successionId]: '' }));
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error processing succession:', error);
+
+      let errorMessage = 'Failed to process succession';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetCircleRate = async (propertyType: string) => {
+    const rate = parseFloat(circleRateInputs[propertyType] || '');
+    if (isNaN(rate) || rate < 0) {
+      setMessage('❌ Please enter a valid circle rate');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage(`📝 Updating ${propertyType} circle rate on blockchain...`);
+
+      const tx = await contract.setCircleRate(
+        currentOfficer.selectedState,
+        currentOfficer.selectedDistrict,
+        propertyType,
+        currentOfficer.employeeId,
+        ethers.parseEther(circleRateInputs[propertyType])
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(`✅ ${propertyType} circle rate for ${currentOfficer.selectedDistrict} set to ${circleRateInputs[propertyType]} ETH/sq m.`);
+      setCircleRateInputs(prev => ({ ...prev, [propertyType]: '' }));
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error setting circle rate:', error);
+
+      let errorMessage = 'Failed to set circle rate';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProcessLease = async (lease: PendingLease, approve: boolean) => {
+    const notes = leaseNotes[lease.leaseId] || '';
+    if (!approve && !notes.trim()) {
+      setMessage('❌ Please enter notes explaining why this lease is rejected');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage(`📝 ${approve ? 'Registering' : 'Rejecting'} lease on blockchain...`);
+
+      const tx = await contract.processLease(
+        lease.leaseId,
+        currentOfficer.employeeId,
+        approve,
+        notes || 'Lease registered'
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(approve
+        ? `✅ Lease #${lease.leaseId} on Property #${lease.propertyId} registered.`
+        : `✅ Lease #${lease.leaseId} on Property #${lease.propertyId} rejected.`);
+
+      setLeaseNotes(prev => ({ ...prev, [lease.leaseId]: '' }));
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error processing lease:', error);
+
+      let errorMessage = 'Failed to process lease';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Names and contact details live in the PII vault; the read is logged there and only succeeds if the owner granted this wallet access
+  const handleViewOwnerContact = async () => {
+    if (!ownerDetails) return;
+
+    try {
+      setMessage('🔒 Requesting name and contact details from the PII vault...');
+      const signer = await getSigner();
+      const { name, contactInfo } = await readOwnerPii(signer, ownerDetails.ownerAddress);
+      setOwnerDetails({ ...ownerDetails, name, contactInfo });
+      setMessage('✅ Name and contact details loaded from the PII vault');
+    } catch (error: any) {
+      console.error('Error reading owner contact details:', error);
+
+      let errorMessage = 'Failed to read contact details';
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Signature was rejected by user';
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    }
+  };
+
+  // Reads the current record and the one the request points to; both reads need the owner's grant
+  const handleViewProfileChangeNames = async (request: PendingProfileChange) => {
+    try {
+      setMessage('🔒 Requesting the current and requested names from the PII vault...');
+      const signer = await getSigner();
+      const current = await readOwnerPii(signer, request.ownerAddress);
+      const requested = await readOwnerPii(signer, request.ownerAddress, request.requestId);
+      setProfileChangeNames(prev => ({ ...prev, [request.requestId]: { current: current.name, requested: requested.name } }));
+      setMessage('');
+    } catch (error: any) {
+      console.error('Error reading profile change names:', error);
+      setMessage(`❌ Error: ${error.code === 'ACTION_REJECTED' ? 'Signature was rejected by user' : error.message}`);
+    }
+  };
+
+  const handleProcessProfileChange = async (request: PendingProfileChange, approve: boolean) => {
+    const notes = profileChangeNotes[request.requestId] || '';
+    if (!approve && !notes.trim()) {
+      setMessage('❌ Please enter notes explaining why this profile change is rejected');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage(`📝 ${approve ? 'Approving' : 'Rejecting'} profile change on blockchain...`);
+
+      const tx = await contract.processProfileChange(
+        request.requestId,
+        currentOfficer.employeeId,
+        approve,
+        notes || 'Supporting document verified'
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(approve
+        ? `✅ Profile change #${request.requestId} approved.`
+        : `✅ Profile change #${request.requestId} rejected.`);
+
+      setProfileChangeNotes(prev => ({ ...prev, [request.requestId]: '' }));
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error processing profile change:', error);
+
+      let errorMessage = 'Failed to process profile change';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProcessWalletRecovery = async (request: PendingWalletRecovery, approve: boolean) => {
+    const notes = walletRecoveryNotes[request.requestId] || '';
+    if (!approve && !notes.trim()) {
+      setMessage('❌ Please enter notes explaining why this recovery is rejected');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage(`📝 ${approve ? 'Approving' : 'Rejecting'} wallet recovery on blockchain...`);
+
+      const tx = await contract.processWalletRecovery(
+        request.requestId,
+        currentOfficer.employeeId,
+        approve,
+        notes || 'Identity and affidavit verified'
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(approve
+        ? `✅ Recovery #${request.requestId} approved. The owner's new wallet can complete it after the 7-day waiting period unless the old wallet cancels.`
+        : `✅ Recovery #${request.requestId} rejected.`);
+
+      setWalletRecoveryNotes(prev => ({ ...prev, [request.requestId]: '' }));
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error processing wallet recovery:', error);
+
+      let errorMessage = 'Failed to process wallet recovery';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCountersignPowerOfAttorney = async (poa: PendingPowerOfAttorney) => {
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage('📝 Countersigning power of attorney on blockchain...');
+
+      const tx = await contract.countersignPowerOfAttorney(poa.poaId, currentOfficer.employeeId);
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(`✅ Power of attorney #${poa.poaId} countersigned. The attorney can now act for the owner.`);
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error countersigning power of attorney:', error);
+
+      let errorMessage = 'Failed to countersign power of attorney';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCoSignEncumbrance = async (encumbrance: PendingCoSign) => {
+    setLoading(true);
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage('📝 Co-signing encumbrance on blockchain...');
+
+      const tx = await contract.coSignEncumbrance(encumbrance.encumbranceId, currentOfficer.employeeId);
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setMessage(`✅ ${encumbrance.encumbranceType} #${encumbrance.encumbranceId} on Property #${encumbrance.propertyId} co-signed.`);
+      loadPendingRequests();
+    } catch (error: any) {
+      console.error('Error co-signing encumbrance:', error);
+
+      let errorMessage = 'Failed to co-sign encumbrance';
+
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected by user';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleString();
+  };
+
+  const formatEther = (wei: number) => {
+    return (wei / 1e18).toFixed(4);
+  };
+
+  if (!isLoggedIn) {
+    return (
+      <>
+        <Head>
+          <title>Government Portal - Land Registry</title>
+        </Head>
+
+        <div className="min-h-screen bg-gradient-to-br from-red-50 to-white flex items-center justify-center">
+          <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full">
+            <div className="text-center mb-8">
+              <div className="text-5xl mb-4">🏛️</div>
+              <h1 className="text-2xl font-bold text-gray-800 mb-2">Government Portal</h1>
+              <p className="text-gray-600">Secure access for government officials</p>
+            </div>
+
+            <form onSubmit={handleLogin} className="space-y-6">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Employee ID
+                </label>
+                <input
+                  type="text"
+                  value={employeeId}
+                  onChange={(e) => setEmployeeId(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  placeholder="e.g., GVT001"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Password
+                </label>
+                <input
+                  type="password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
@@ -817,18 +1942,21 @@ export default function GovernmentPortal() {
 
               <button
                 type="submit"
-                className="w-full py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold"
+                disabled={loading}
+                className="w-full py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Login to Portal
+                {loading ? 'Verifying wallet...' : 'Login to Portal'}
               </button>
             </form>
 
             <div className="mt-8 p-4 bg-blue-50 rounded-lg">
               <h3 className="text-sm font-semibold text-blue-800 mb-2">Demo Credentials:</h3>
               <div className="text-xs text-blue-700 space-y-1">
-                <p><strong>Employee ID:</strong> GVT001, GVT002, GVT003, GVT004</p>
+                <p><strong>Employee ID:</strong> GVT001, GVT002, GVT003, GVT004 (district officers)</p>
+                <p><strong>Employee ID:</strong> GVT005 (state-level officer, Maharashtra)</p>
                 <p><strong>Password:</strong> admin123 (for all)</p>
-                <p className="mt-2 pt-2 border-t border-blue-300"><strong>Note:</strong> Select any State & District to view properties in that jurisdiction</p>
+                <p className="mt-2 pt-2 border-t border-blue-300"><strong>Note:</strong> Select a State & District within the officer's jurisdiction</p>
+                <p><strong>Wallet:</strong> MetaMask must be connected with the signer wallet registered for the Employee ID</p>
               </div>
             </div>
 
@@ -868,9 +1996,28 @@ export default function GovernmentPortal() {
                 <div className="text-right">
                   <p className="text-sm font-semibold text-gray-800">{currentOfficer.name}</p>
                   <p className="text-xs text-gray-500">
-                    {currentOfficer.department} • {currentOfficer.district}, {currentOfficer.state}
+                    {currentOfficer.department} • {currentOfficer.district || 'All districts'}, {currentOfficer.state}
+                  </p>
+                  <p className="text-xs font-mono text-gray-400">
+                    🔑 {currentOfficer.signerAddress.slice(0, 6)}...{currentOfficer.signerAddress.slice(-4)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[
+                      currentOfficer.isSubRegistrar && 'Sub-Registrar',
+                      currentOfficer.isRegistrar && 'Registrar'
+                    ].filter(Boolean).join(' • ') || 'No approval roles'}
                   </p>
                 </div>
+                {incentiveBalance > 0n && (
+                  <button
+                    onClick={handleWithdrawIncentive}
+                    disabled={loading}
+                    className="px-4 py-2 bg-green-100 text-green-800 rounded-lg hover:bg-green-200 transition text-sm font-semibold disabled:opacity-50"
+                    title="Withdraw your share of processed fees"
+                  >
+                    💰 {ethers.formatEther(incentiveBalance)} ETH · Withdraw
+                  </button>
+                )}
                 <button
                   onClick={handleLogout}
                   className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold text-sm"
@@ -895,7 +2042,7 @@ export default function GovernmentPortal() {
                       : 'text-gray-600 hover:text-red-600'
                       }`}
                   >
-                    🔍 Verification ({verificationRequests.length})
+                    🔍 Verification ({verificationTotal})
                   </button>
                   <button
                     onClick={() => setActiveTab('transfer')}
@@ -904,7 +2051,88 @@ export default function GovernmentPortal() {
                       : 'text-gray-600 hover:text-red-600'
                       }`}
                   >
-                    🔄 Transfers ({transferRequests.length})
+                    🔄 Transfers ({transferTotal})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('partition')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'partition'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    ✂️ Partitions ({partitionRequests.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('merge')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'merge'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    🔗 Merges ({mergeRequests.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('succession')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'succession'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    📜 Successions ({successionRequests.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('lease')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'lease'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    🔑 Leases ({pendingLeases.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('profile')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'profile'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    🪪 Profile Changes ({pendingProfileChanges.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('recovery')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'recovery'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    🔐 Wallet Recovery ({pendingWalletRecoveries.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('poa')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'poa'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    ✍️ POA ({pendingPowersOfAttorney.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('encumbrance')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'encumbrance'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    🏦 Encumbrances ({pendingCoSigns.length})
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('circle-rate')}
+                    className={`px-6 py-3 rounded-lg font-semibold transition ${activeTab === 'circle-rate'
+                      ? 'bg-white text-red-600 shadow-md'
+                      : 'text-gray-600 hover:text-red-600'
+                      }`}
+                  >
+                    📈 Circle Rates
                   </button>
                   <button
                     onClick={() => setActiveTab('properties')}
@@ -948,7 +2176,7 @@ export default function GovernmentPortal() {
                     />
                   </div>
                   <div className="text-sm text-gray-600">
-                    <strong>{filteredProperties.length}</strong> properties in <strong>{currentOfficer?.selectedDistrict}, {currentOfficer?.selectedState}</strong>
+                    <strong>{propertyTotal}</strong> properties in <strong>{currentOfficer?.selectedDistrict}, {currentOfficer?.selectedState}</strong>
                   </div>
                 </div>
               </div>
@@ -1015,6 +2243,30 @@ export default function GovernmentPortal() {
                 </div>
               )}
 
+              {propertyTotal > PAGE_SIZE && (
+                <div className="bg-white rounded-xl shadow-lg p-4 flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    Page {propertyPage + 1} of {Math.ceil(propertyTotal / PAGE_SIZE)}
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => loadAllProperties(propertyPage - 1)}
+                      disabled={loading || propertyPage === 0}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      ← Previous
+                    </button>
+                    <button
+                      onClick={() => loadAllProperties(propertyPage + 1)}
+                      disabled={loading || (propertyPage + 1) * PAGE_SIZE >= propertyTotal}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Next →
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Property Details Modal */}
               {selectedProperty && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -1042,7 +2294,7 @@ export default function GovernmentPortal() {
                         <div className="space-y-3">
                           <div>
                             <p className="text-sm text-gray-500">Location</p>
-                            <p className="font-semibold">{selectedProperty.district}, {selectedProperty.state}</p>
+                            <p className="font-semibold">{[selectedProperty.village, selectedProperty.tehsil, selectedProperty.district, selectedProperty.state].filter(Boolean).join(', ')}</p>
                           </div>
                           <div>
                             <p className="text-sm text-gray-500">Type</p>
@@ -1077,15 +2329,28 @@ export default function GovernmentPortal() {
                           <div className="space-y-3">
                             <div>
                               <p className="text-sm text-gray-500">Name</p>
-                              <p className="font-semibold">{ownerDetails.name}</p>
+                              {ownerDetails.name ? (
+                                <p className="font-semibold">{ownerDetails.name}</p>
+                              ) : (
+                                <p className="font-semibold">🔒 Held in the PII vault</p>
+                              )}
                             </div>
                             <div>
                               <p className="text-sm text-gray-500">Contact</p>
-                              <p className="font-semibold">{ownerDetails.contactInfo}</p>
+                              {ownerDetails.contactInfo ? (
+                                <p className="font-semibold">{ownerDetails.contactInfo}</p>
+                              ) : (
+                                <button
+                                  onClick={handleViewOwnerContact}
+                                  className="text-sm text-primary-600 hover:underline"
+                                >
+                                  🔒 Request from PII vault
+                                </button>
+                              )}
                             </div>
                             <div>
-                              <p className="text-sm text-gray-500">ID Document</p>
-                              <p className="font-mono text-sm">{ownerDetails.idDocument}</p>
+                              <p className="text-sm text-gray-500">ID Document Hash</p>
+                              <p className="font-mono text-sm break-all">{ownerDetails.idDocumentHash}</p>
                             </div>
                             <div>
                               <p className="text-sm text-gray-500">Home Location</p>
@@ -1116,6 +2381,608 @@ export default function GovernmentPortal() {
                 </div>
               )}
             </div>
+          ) : activeTab === 'partition' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Pending Partitions</h3>
+
+              {loading && partitionRequests.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading requests...</p>
+                </div>
+              ) : partitionRequests.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No pending partition requests</p>
+              ) : (
+                <div className="space-y-6">
+                  {partitionRequests.map((request) => (
+                    <div key={request.partitionId} className="border border-gray-200 rounded-lg p-5">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h4 className="font-semibold text-gray-800">
+                            Partition #{request.partitionId} · Property #{request.propertyId}
+                          </h4>
+                          <p className="text-sm text-gray-600">{request.propertyAddress}</p>
+                          <p className="text-xs text-gray-500">
+                            Survey No. {request.surveyNumber} · {request.parentArea.toLocaleString()} sq m · Requested {formatDate(request.requestDate)}
+                          </p>
+                          <p className="text-xs text-gray-500 font-mono">Owner: {request.requestedBy}</p>
+                        </div>
+                        <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">Pending</span>
+                      </div>
+
+                      <table className="w-full text-sm mb-4">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2">Sub-division</th>
+                            <th className="py-2 text-right">Area (sq m)</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {request.childSubDivisions.map((subDivision, index) => (
+                            <tr key={index} className="border-b border-gray-100">
+                              <td className="py-2 font-semibold">{subDivision}</td>
+                              <td className="py-2 text-right">{request.childAreas[index].toLocaleString()}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+
+                      {request.documentHash && (
+                        <p className="text-xs text-gray-500 mb-4">
+                          Document: <span className="font-mono">{request.documentHash}</span>
+                        </p>
+                      )}
+
+                      <textarea
+                        value={partitionNotes[request.partitionId] || ''}
+                        onChange={(e) => setPartitionNotes(prev => ({ ...prev, [request.partitionId]: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent mb-3"
+                        rows={2}
+                        placeholder="Field inspection notes (required to reject)..."
+                      />
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => handleProcessPartition(request, true)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ✅ Approve Partition
+                        </button>
+                        <button
+                          onClick={() => handleProcessPartition(request, false)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ❌ Reject Partition
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'merge' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Pending Merges</h3>
+
+              {loading && mergeRequests.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading requests...</p>
+                </div>
+              ) : mergeRequests.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No pending merge requests</p>
+              ) : (
+                <div className="space-y-6">
+                  {mergeRequests.map((request) => (
+                    <div key={request.mergeId} className="border border-gray-200 rounded-lg p-5">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h4 className="font-semibold text-gray-800">
+                            Merge #{request.mergeId} · New Survey No. {request.surveyNumber}
+                          </h4>
+                          <p className="text-xs text-gray-500">Requested {formatDate(request.requestDate)}</p>
+                          <p className="text-xs text-gray-500 font-mono">Owner: {request.requestedBy}</p>
+                        </div>
+                        <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">Pending</span>
+                      </div>
+
+                      <table className="w-full text-sm mb-4">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2">Property</th>
+                            <th className="py-2">Survey No.</th>
+                            <th className="py-2 text-right">Area (sq m)</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {request.parcels.map((parcel) => (
+                            <tr key={parcel.propertyId} className="border-b border-gray-100">
+                              <td className="py-2">
+                                <p className="font-semibold">#{parcel.propertyId}</p>
+                                <p className="text-xs text-gray-500">{parcel.propertyAddress}</p>
+                              </td>
+                              <td className="py-2">{parcel.surveyNumber}</td>
+                              <td className="py-2 text-right">{parcel.area.toLocaleString()}</td>
+                            </tr>
+                          ))}
+                          <tr className="font-semibold">
+                            <td className="py-2" colSpan={2}>Merged area</td>
+                            <td className="py-2 text-right">
+                              {request.parcels.reduce((sum, parcel) => sum + parcel.area, 0).toLocaleString()}
+                            </td>
+                          </tr>
+                        </tbody>
+                      </table>
+
+                      {request.documentHash && (
+                        <p className="text-xs text-gray-500 mb-4">
+                          Document: <span className="font-mono">{request.documentHash}</span>
+                        </p>
+                      )}
+
+                      <textarea
+                        value={mergeNotes[request.mergeId] || ''}
+                        onChange={(e) => setMergeNotes(prev => ({ ...prev, [request.mergeId]: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent mb-3"
+                        rows={2}
+                        placeholder="Adjacency check notes (required to reject)..."
+                      />
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => handleProcessMerge(request, true)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ✅ Approve Merge
+                        </button>
+                        <button
+                          onClick={() => handleProcessMerge(request, false)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ❌ Reject Merge
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'succession' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Pending Succession Claims</h3>
+
+              {loading && successionRequests.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading requests...</p>
+                </div>
+              ) : successionRequests.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No pending succession claims</p>
+              ) : (
+                <div className="space-y-6">
+                  {successionRequests.map((request) => {
+                    const windowOpen = request.objectionDeadline * 1000 > Date.now();
+                    return (
+                      <div key={request.successionId} className="border border-gray-200 rounded-lg p-5">
+                        <div className="flex justify-between items-start mb-4">
+                          <div>
+                            <h4 className="font-semibold text-gray-800">
+                              Succession #{request.successionId} · Property #{request.propertyId}
+                            </h4>
+                            <p className="text-sm text-gray-600">{request.propertyAddress}</p>
+                            <p className="text-xs text-gray-500">Filed {formatDate(request.filedDate)}</p>
+                            <p className="text-xs text-gray-500 font-mono">Deceased: {request.deceasedOwner}</p>
+                            <p className="text-xs text-gray-500 font-mono">Claimant: {request.claimant}</p>
+                          </div>
+                          <span className={`text-xs px-2 py-1 rounded ${windowOpen
+                            ? 'bg-yellow-100 text-yellow-800'
+                            : 'bg-blue-100 text-blue-800'
+                            }`}>
+                            {windowOpen ? `Objections open until ${formatDate(request.objectionDeadline)}` : 'Ready for decision'}
+                          </span>
+                        </div>
+
+                        <table className="w-full text-sm mb-4">
+                          <thead>
+                            <tr className="text-left text-gray-500 border-b">
+                              <th className="py-2">Legal Heir</th>
+                              <th className="py-2 text-right">Share</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {request.heirs.map((heir) => (
+                              <tr key={heir.address} className="border-b border-gray-100">
+                                <td className="py-2 font-mono text-xs">{heir.address}</td>
+                                <td className="py-2 text-right font-semibold">{heir.share}%</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+
+                        <p className="text-xs text-gray-500 mb-4">
+                          Death certificate: <span className="font-mono">{request.deathCertificateHash}</span>
+                        </p>
+
+                        {request.objections.length > 0 && (
+                          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                            <p className="text-sm font-semibold text-red-800 mb-2">
+                              ⚠️ {request.objections.length} objection{request.objections.length > 1 ? 's' : ''} raised
+                            </p>
+                            {request.objections.map((objection, index) => (
+                              <p key={index} className="text-xs text-red-700">
+                                <span className="font-mono">{objection.objector.slice(0, 8)}...</span> ({formatDate(objection.objectionDate)}): {objection.reason}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+
+                        <textarea
+                          value={successionNotes[request.successionId] || ''}
+                          onChange={(e) => setSuccessionNotes(prev => ({ ...prev, [request.successionId]: e.target.value }))}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent mb-3"
+                          rows={2}
+                          placeholder="Enquiry notes, including how objections were resolved (required to reject)..."
+                        />
+                        <div className="flex space-x-3">
+                          <button
+                            onClick={() => handleProcessSuccession(request, true)}
+                            disabled={loading || windowOpen}
+                            className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            ✅ Approve Succession
+                          </button>
+                          <button
+                            onClick={() => handleProcessSuccession(request, false)}
+                            disabled={loading}
+                            className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            ❌ Reject Succession
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'lease' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Leases Awaiting Registration</h3>
+
+              {loading && pendingLeases.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading leases...</p>
+                </div>
+              ) : pendingLeases.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No leases awaiting registration</p>
+              ) : (
+                <div className="space-y-6">
+                  {pendingLeases.map((lease) => (
+                    <div key={lease.leaseId} className="border border-gray-200 rounded-lg p-5">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h4 className="font-semibold text-gray-800">
+                            Lease #{lease.leaseId} · Property #{lease.propertyId}
+                          </h4>
+                          <p className="text-sm text-gray-600">{lease.propertyAddress}</p>
+                          <p className="text-sm text-gray-600">
+                            {formatDate(lease.startDate)} – {formatDate(lease.endDate)} · ₹{lease.monthlyRent.toLocaleString('en-IN')}/month
+                          </p>
+                          <p className="text-xs text-gray-500 font-mono">Lessor: {lease.lessor}</p>
+                          <p className="text-xs text-gray-500 font-mono">Lessee: {lease.lessee}</p>
+                          <p className="text-xs text-gray-500">
+                            Deed: <span className="font-mono">{lease.deedHash}</span> · Filed {formatDate(lease.filedDate)}
+                          </p>
+                        </div>
+                        <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">Pending</span>
+                      </div>
+
+                      <textarea
+                        value={leaseNotes[lease.leaseId] || ''}
+                        onChange={(e) => setLeaseNotes(prev => ({ ...prev, [lease.leaseId]: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent mb-3"
+                        rows={2}
+                        placeholder="Registration notes (required to reject)..."
+                      />
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => handleProcessLease(lease, true)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ✅ Register Lease
+                        </button>
+                        <button
+                          onClick={() => handleProcessLease(lease, false)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ❌ Reject Lease
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'profile' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Owner Name & ID Changes</h3>
+
+              {loading && pendingProfileChanges.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading profile changes...</p>
+                </div>
+              ) : pendingProfileChanges.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No profile changes awaiting approval</p>
+              ) : (
+                <div className="space-y-6">
+                  {pendingProfileChanges.map((request) => (
+                    <div key={request.requestId} className="border border-gray-200 rounded-lg p-5">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h4 className="font-semibold text-gray-800">
+                            Request #{request.requestId} · {request.homeDistrict}, {request.homeState}
+                          </h4>
+                          <p className="text-xs text-gray-500 font-mono">Owner: {request.ownerAddress}</p>
+                          <p className="text-sm text-gray-600 mt-2">
+                            Name: {request.newPiiHash === request.currentPiiHash
+                              ? 'unchanged'
+                              : profileChangeNames[request.requestId]
+                                ? <>{profileChangeNames[request.requestId].current} → <strong>{profileChangeNames[request.requestId].requested}</strong></>
+                                : (
+                                  <button onClick={() => handleViewProfileChangeNames(request)} className="text-primary-600 hover:underline">
+                                    🔒 Read current and requested names from the PII vault
+                                  </button>
+                                )}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            ID document: {request.newIdDocumentHash === request.currentIdDocumentHash
+                              ? 'unchanged'
+                              : <strong>changed (check the new number against the supporting document)</strong>}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Supporting document: <span className="font-mono">{request.supportingDocumentHash}</span> · Filed {formatDate(request.requestDate)}
+                          </p>
+                        </div>
+                        <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">Pending</span>
+                      </div>
+
+                      <textarea
+                        value={profileChangeNotes[request.requestId] || ''}
+                        onChange={(e) => setProfileChangeNotes(prev => ({ ...prev, [request.requestId]: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent mb-3"
+                        rows={2}
+                        placeholder="Review notes (required to reject)..."
+                      />
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => handleProcessProfileChange(request, true)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ✅ Approve Change
+                        </button>
+                        <button
+                          onClick={() => handleProcessProfileChange(request, false)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ❌ Reject Change
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'recovery' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">Lost Wallet Recoveries</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Check the affidavit and the owner&apos;s original ID in person before approving. Approval starts a 7-day waiting period during which the old wallet can still cancel.
+              </p>
+
+              {loading && pendingWalletRecoveries.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading wallet recoveries...</p>
+                </div>
+              ) : pendingWalletRecoveries.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No wallet recoveries awaiting approval</p>
+              ) : (
+                <div className="space-y-6">
+                  {pendingWalletRecoveries.map((request) => (
+                    <div key={request.requestId} className="border border-gray-200 rounded-lg p-5">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h4 className="font-semibold text-gray-800">
+                            Recovery #{request.requestId} · {request.homeDistrict}, {request.homeState}
+                          </h4>
+                          <p className="text-xs text-gray-500 font-mono">Lost wallet: {request.lostAddress}</p>
+                          <p className="text-xs text-gray-500 font-mono">New wallet: {request.newAddress}</p>
+                          <p className="text-sm text-gray-600 mt-2">
+                            {request.propertyCount} propert{request.propertyCount === 1 ? 'y' : 'ies'} will move to the new wallet
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Affidavit: <span className="font-mono">{request.affidavitHash}</span> · Filed {formatDate(request.requestDate)}
+                          </p>
+                        </div>
+                        <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">Pending</span>
+                      </div>
+
+                      <textarea
+                        value={walletRecoveryNotes[request.requestId] || ''}
+                        onChange={(e) => setWalletRecoveryNotes(prev => ({ ...prev, [request.requestId]: e.target.value }))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent mb-3"
+                        rows={2}
+                        placeholder="Review notes (required to reject)..."
+                      />
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => handleProcessWalletRecovery(request, true)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ✅ Approve Recovery
+                        </button>
+                        <button
+                          onClick={() => handleProcessWalletRecovery(request, false)}
+                          disabled={loading}
+                          className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          ❌ Reject Recovery
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'poa' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Powers of Attorney Awaiting Countersign</h3>
+
+              {loading && pendingPowersOfAttorney.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading powers of attorney...</p>
+                </div>
+              ) : pendingPowersOfAttorney.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No powers of attorney awaiting countersign</p>
+              ) : (
+                <div className="space-y-4">
+                  {pendingPowersOfAttorney.map((poa) => (
+                    <div key={poa.poaId} className="border border-gray-200 rounded-lg p-4 flex justify-between items-center">
+                      <div>
+                        <p className="font-semibold text-gray-800">
+                          POA #{poa.poaId} · {poa.propertyIds.length === 0 ? 'All properties' : `Properties ${poa.propertyIds.map(id => `#${id}`).join(', ')}`}
+                        </p>
+                        <p className="text-sm text-gray-600">{poa.allowedActions.join(', ')}</p>
+                        <p className="text-xs text-gray-500">
+                          Granted {formatDate(poa.grantedDate)} · Valid until {formatDate(poa.expiryDate)}
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono">Principal: {poa.principal}</p>
+                        <p className="text-xs text-gray-500 font-mono">Attorney: {poa.attorney}</p>
+                        <p className="text-xs text-gray-500">
+                          Deed: <span className="font-mono">{poa.documentHash}</span>
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleCountersignPowerOfAttorney(poa)}
+                        disabled={loading}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        ✍️ Countersign
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'circle-rate' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">
+                Circle Rates · {currentOfficer?.selectedDistrict}, {currentOfficer?.selectedState}
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Guidance value per square meter. Transfers declared below area × circle rate are flagged as undervalued.
+              </p>
+
+              {loading && circleRates.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading circle rates...</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {circleRates.map((rate) => (
+                    <div key={rate.propertyType} className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:justify-between md:items-center gap-3">
+                      <div>
+                        <h4 className="font-semibold text-gray-800">{rate.propertyType}</h4>
+                        {rate.updatedDate > 0 ? (
+                          <p className="text-sm text-gray-600">
+                            {formatEther(rate.ratePerSqm)} ETH/sq m · Set by {rate.setByEmployeeId} on {formatDate(rate.updatedDate)}
+                          </p>
+                        ) : (
+                          <p className="text-sm text-gray-500">No circle rate set</p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={circleRateInputs[rate.propertyType] || ''}
+                          onChange={(e) => setCircleRateInputs(prev => ({ ...prev, [rate.propertyType]: e.target.value }))}
+                          className="w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          placeholder="New rate (ETH/sq m)"
+                        />
+                        <button
+                          onClick={() => handleSetCircleRate(rate.propertyType)}
+                          disabled={loading || !circleRateInputs[rate.propertyType]}
+                          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Update
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'encumbrance' ? (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">Encumbrances Awaiting Co-signature</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Co-signing records that the registry has checked the lender&apos;s deed against the property. A pending entry
+                only takes effect once you co-sign it or the owner consents, so check the deed before co-signing one.
+              </p>
+
+              {loading && pendingCoSigns.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto mb-2"></div>
+                  <p className="text-gray-600">Loading encumbrances...</p>
+                </div>
+              ) : pendingCoSigns.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No encumbrances awaiting co-signature</p>
+              ) : (
+                <div className="space-y-4">
+                  {pendingCoSigns.map((encumbrance) => (
+                    <div key={encumbrance.encumbranceId} className="border border-gray-200 rounded-lg p-4 flex justify-between items-center">
+                      <div>
+                        <h4 className="font-semibold text-gray-800">
+                          {encumbrance.encumbranceType} #{encumbrance.encumbranceId} · Property #{encumbrance.propertyId}
+                        </h4>
+                        <p className="text-sm text-gray-600">
+                          ₹{encumbrance.amount.toLocaleString('en-IN')} · Registered {formatDate(encumbrance.createdDate)}
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono">Lender: {encumbrance.lender}</p>
+                        {encumbrance.isPending && (
+                          <p className="text-xs text-blue-700">⏳ Not yet consented to by the owner</p>
+                        )}
+                        {encumbrance.documentHash && (
+                          <p className="text-xs text-gray-500">
+                            Deed: <span className="font-mono">{encumbrance.documentHash}</span>
+                          </p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleCoSignEncumbrance(encumbrance)}
+                        disabled={loading}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        ✍️ Co-sign
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           ) : (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Requests List */}
@@ -1179,9 +3046,21 @@ export default function GovernmentPortal() {
                                 <h4 className="font-semibold text-gray-800">
                                   Property #{request.propertyId}
                                 </h4>
-                                <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
-                                  Transfer
-                                </span>
+                                <div className="flex items-center gap-1">
+                                  {request.isUndervalued && (
+                                    <span className="text-xs bg-orange-100 text-orange-800 px-2 py-1 rounded">
+                                      ⚠️ Undervalued
+                                    </span>
+                                  )}
+                                  {request.requiredApprovals > 1 && (
+                                    <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
+                                      👥 {request.approverEmployeeIds.length}/{request.requiredApprovals}
+                                    </span>
+                                  )}
+                                  <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                                    Transfer
+                                  </span>
+                                </div>
                               </div>
                               <p className="text-sm text-gray-600 mb-1">
                                 Fee: {formatEther(request.transferFee)} ETH
@@ -1195,6 +3074,28 @@ export default function GovernmentPortal() {
                       )}
                     </div>
                   )}
+
+                  {(activeTab === 'verification' ? verificationTotal : transferTotal) > PAGE_SIZE && (
+                    <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
+                      <button
+                        onClick={() => loadPendingRequests(requestPage - 1)}
+                        disabled={loading || requestPage === 0}
+                        className="px-3 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        ←
+                      </button>
+                      <span className="text-sm text-gray-600">
+                        Page {requestPage + 1} of {Math.ceil((activeTab === 'verification' ? verificationTotal : transferTotal) / PAGE_SIZE)}
+                      </span>
+                      <button
+                        onClick={() => loadPendingRequests(requestPage + 1)}
+                        disabled={loading || (requestPage + 1) * PAGE_SIZE >= (activeTab === 'verification' ? verificationTotal : transferTotal)}
+                        className="px-3 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        →
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1344,7 +3245,7 @@ export default function GovernmentPortal() {
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div>
                               <p className="text-sm text-gray-600 font-semibold">Owner Name</p>
-                              <p className="text-lg font-bold text-gray-800">{ownerDetails.name}</p>
+                              <p className="text-lg font-bold text-gray-800">{ownerDetails.name || '🔒 Held in the PII vault'}</p>
                             </div>
                             <div>
                               <p className="text-sm text-gray-600 font-semibold">Owner Verification Status</p>
@@ -1357,12 +3258,21 @@ export default function GovernmentPortal() {
                             </div>
                             <div className="md:col-span-2">
                               <p className="text-sm text-gray-600 font-semibold">Contact Information</p>
-                              <p className="text-base font-bold text-gray-800">{ownerDetails.contactInfo}</p>
+                              {ownerDetails.contactInfo ? (
+                                <p className="text-base font-bold text-gray-800">{ownerDetails.contactInfo}</p>
+                              ) : (
+                                <button
+                                  onClick={handleViewOwnerContact}
+                                  className="mt-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition"
+                                >
+                                  🔒 Request from PII vault (owner must have granted your wallet access)
+                                </button>
+                              )}
                             </div>
                             <div className="md:col-span-2">
-                              <p className="text-sm text-gray-600 font-semibold">Government ID Document</p>
-                              <p className="text-base font-mono font-bold text-gray-800 bg-white px-3 py-2 rounded border border-gray-300">
-                                {ownerDetails.idDocument}
+                              <p className="text-sm text-gray-600 font-semibold">Government ID Document (Salted Hash)</p>
+                              <p className="text-base font-mono font-bold text-gray-800 bg-white px-3 py-2 rounded border border-gray-300 break-all">
+                                {ownerDetails.idDocumentHash}
                               </p>
                             </div>
                             <div>
@@ -1514,15 +3424,83 @@ export default function GovernmentPortal() {
                           <p className="text-blue-700 text-sm">
                             <strong>Fee Paid:</strong> {formatEther(selectedRequest.transferFee)} ETH
                           </p>
+                          <p className="text-blue-700 text-sm">
+                            <strong>Declared Value:</strong> {formatEther(selectedRequest.declaredValue)} ETH
+                            {selectedRequest.buyerCategory && ` · ${selectedRequest.buyerCategory} buyer`}
+                          </p>
+                          <p className="text-blue-700 text-sm">
+                            <strong>Guidance Value:</strong>{' '}
+                            {selectedRequest.guidanceValue > 0
+                              ? `${formatEther(selectedRequest.guidanceValue)} ETH (area × circle rate)`
+                              : 'No circle rate set for this district'}
+                          </p>
+                          <p className="text-blue-700 text-sm mt-2">
+                            <strong>Status:</strong>{' '}
+                            <span className="inline-block px-2 py-0.5 rounded-full text-xs font-bold bg-yellow-100 text-yellow-800">
+                              ⏳ Pending Approval
+                            </span>
+                          </p>
                         </div>
 
+                        {selectedRequest.requiredApprovals > 1 && (
+                          <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 mb-6">
+                            <p className="font-semibold text-purple-800">
+                              👥 Needs {selectedRequest.requiredApprovals} officer approvals
+                              ({selectedRequest.approverEmployeeIds.length} so far)
+                            </p>
+                            <p className="text-sm text-purple-700">
+                              {selectedRequest.approverEmployeeIds.length > 0
+                                ? `Approved by: ${selectedRequest.approverEmployeeIds.join(', ')}`
+                                : 'No officer has approved this request yet.'}
+                            </p>
+                          </div>
+                        )}
+
+                        {selectedRequest.isUndervalued && (
+                          <div className="bg-orange-50 border border-orange-300 rounded-lg p-4 mb-6">
+                            <p className="font-semibold text-orange-800">⚠️ Declared below guidance value</p>
+                            <p className="text-sm text-orange-700">
+                              The declared consideration is{' '}
+                              {Math.round((1 - selectedRequest.declaredValue / selectedRequest.guidanceValue) * 100)}% below
+                              the circle-rate value. Check the sale deed before approving.
+                            </p>
+                          </div>
+                        )}
+
                         <button
                           onClick={handleApproveTransfer}
-                          disabled={loading}
+                          disabled={loading || selectedRequest.approverEmployeeIds.includes(currentOfficer.employeeId)}
                           className="w-full py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                          {loading ? 'Processing...' : 'Approve Transfer Request'}
+                          {loading
+                            ? 'Processing...'
+                            : selectedRequest.approverEmployeeIds.includes(currentOfficer.employeeId)
+                              ? 'You have already approved this request'
+                              : 'Approve Transfer Request'}
                         </button>
+
+                        <div className="mt-6 pt-6 border-t border-gray-200">
+                          <label className="block text-sm font-semibold text-gray-700 mb-2">
+                            Rejection Reason
+                          </label>
+                          <textarea
+                            value={rejectionReason}
+                            onChange={(e) => setRejectionReason(e.target.value)}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                            rows={3}
+                            placeholder="Explain why this transfer cannot be approved (shared with the seller)..."
+                          />
+                          <p className="text-xs text-gray-500 mt-1 mb-4">
+                            Rejecting refunds the escrowed transfer fee to the seller.
+                          </p>
+                          <button
+                            onClick={handleRejectTransfer}
+                            disabled={loading || !rejectionReason.trim()}
+                            className="w-full py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {loading ? 'Processing...' : '❌ Reject Transfer Request'}
+                          </button>
+                        </div>
                       </div>
                     )}
                   </div>
@@ -181,7 +181,7 @@ export default function Home() {
           {/* Action Cards */}
           {isConnected ? (
             <div className="space-y-8">
-              <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                 <Link href="/register-owner">
                   <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
                     <div className="text-3xl mb-3">👤</div>
@@ -244,7 +244,7 @@ export default function Home() {
               </div>
 
               {/* Additional Navigation */}
-              <div className="grid md:grid-cols-2 gap-6">
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                 <Link href="/dashboard">
                   <div className="bg-gradient-to-br from-teal-500 to-teal-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
                     <div className="text-3xl mb-3">📊</div>
@@ -255,6 +255,66 @@ export default function Home() {
                   </div>
                 </Link>
 
+                <Link href="/encumbrances">
+                  <div className="bg-gradient-to-br from-amber-500 to-amber-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
+                    <div className="text-3xl mb-3">🏦</div>
+                    <h3 className="text-lg font-bold mb-2">Encumbrances</h3>
+                    <p className="text-sm text-amber-100">
+                      Lenders: register and release mortgages & liens
+                    </p>
+                  </div>
+                </Link>
+
+                <Link href="/court-orders">
+                  <div className="bg-gradient-to-br from-rose-600 to-rose-700 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
+                    <div className="text-3xl mb-3">⚖️</div>
+                    <h3 className="text-lg font-bold mb-2">Court Orders</h3>
+                    <p className="text-sm text-rose-100">
+                      Courts: freeze properties under litigation
+                    </p>
+                  </div>
+                </Link>
+
+                <Link href="/succession">
+                  <div className="bg-gradient-to-br from-indigo-500 to-indigo-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
+                    <div className="text-3xl mb-3">📜</div>
+                    <h3 className="text-lg font-bold mb-2">Succession</h3>
+                    <p className="text-sm text-indigo-100">
+                      Heirs: claim a deceased owner&apos;s property
+                    </p>
+                  </div>
+                </Link>
+
+                <Link href="/power-of-attorney">
+                  <div className="bg-gradient-to-br from-sky-500 to-sky-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
+                    <div className="text-3xl mb-3">✍️</div>
+                    <h3 className="text-lg font-bold mb-2">Power of Attorney</h3>
+                    <p className="text-sm text-sky-100">
+                      Let a trusted attorney act on your properties
+                    </p>
+                  </div>
+                </Link>
+
+                <Link href="/wallet-recovery">
+                  <div className="bg-gradient-to-br from-slate-500 to-slate-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
+                    <div className="text-3xl mb-3">🔐</div>
+                    <h3 className="text-lg font-bold mb-2">Wallet Recovery</h3>
+                    <p className="text-sm text-slate-100">
+                      Lost your key? Move your properties to a new wallet
+                    </p>
+                  </div>
+                </Link>
+
+                <Link href="/stamp-duty">
+                  <div className="bg-gradient-to-br from-yellow-500 to-yellow-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
+                    <div className="text-3xl mb-3">💰</div>
+                    <h3 className="text-lg font-bold mb-2">Stamp Duty</h3>
+                    <p className="text-sm text-yellow-100">
+                      Calculate stamp duty and registration fees by state
+                    </p>
+                  </div>
+                </Link>
+
                 <Link href="/government-portal">
                   <div className="bg-gradient-to-br from-red-500 to-red-600 rounded-xl shadow-lg p-6 text-white hover:shadow-xl transition cursor-pointer transform hover:scale-105">
                     <div className="text-3xl mb-3">🏛️</div>
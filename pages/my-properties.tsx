@@ -3,28 +3,57 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { ethers } from 'ethers';
 import { getContract, getSigner } from '../utils/contract';
+import { STAMP_DUTY_BUYER_CATEGORIES } from '../data/indiaData';
 
 interface Owner {
   ownerAddress: string;
-  name: string;
-  idDocument: string;
-  contactInfo: string;
+  idDocumentHash: string;
   isVerified: boolean;
 }
 
+interface CoOwner {
+  ownerAddress: string;
+  sharePercentage: number;
+}
+
 interface Property {
   propertyId: number;
   propertyAddress: string;
   district: string;
-  city: string;
+  tehsil: string;
+  village: string;
   state: string;
   area: number;
+  propertyType: string;
+  surveyNumber: string;
   currentOwner: string;
   documentHash: string;
   isRegistered: boolean;
   isVerified: boolean;
   registrationDate: number;
   lastTransferDate: number;
+  coOwners: CoOwner[];
+  pendingPartitionId: number;
+  pendingMergeId: number;
+}
+
+interface LeaseRecord {
+  leaseId: number;
+  propertyId: number;
+  lessor: string;
+  startDate: number;
+  endDate: number;
+  monthlyRent: number;
+  isPending: boolean;
+  isApproved: boolean;
+}
+
+interface ConsentRequest {
+  requestId: number;
+  propertyId: number;
+  fromOwner: string;
+  toOwner: string;
+  requestDate: number;
 }
 
 export default function MyProperties() {
@@ -37,9 +66,37 @@ export default function MyProperties() {
   const [showTransferModal, setShowTransferModal] = useState(false);
   const [transferData, setTransferData] = useState({
     toAddress: '',
-    documentHash: ''
+    documentHash: '',
+    declaredValue: '',
+    buyerCategory: ''
   });
+  const [transferQuote, setTransferQuote] = useState<bigint | null>(null);
   const [transferring, setTransferring] = useState(false);
+  const [transferShareOnly, setTransferShareOnly] = useState(false);
+  const [showCoOwnersModal, setShowCoOwnersModal] = useState(false);
+  const [coOwnerRows, setCoOwnerRows] = useState<{ address: string; share: string }[]>([]);
+  const [savingCoOwners, setSavingCoOwners] = useState(false);
+  const [consentRequests, setConsentRequests] = useState<ConsentRequest[]>([]);
+  const [consentingId, setConsentingId] = useState<number | null>(null);
+  const [showPartitionModal, setShowPartitionModal] = useState(false);
+  const [parcelRows, setParcelRows] = useState<{ subDivision: string; area: string }[]>([]);
+  const [partitionDocumentHash, setPartitionDocumentHash] = useState('');
+  const [submittingPartition, setSubmittingPartition] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [mergeSelection, setMergeSelection] = useState<number[]>([]);
+  const [mergeSurveyNumber, setMergeSurveyNumber] = useState('');
+  const [mergeDocumentHash, setMergeDocumentHash] = useState('');
+  const [submittingMerge, setSubmittingMerge] = useState(false);
+  const [showLeaseModal, setShowLeaseModal] = useState(false);
+  const [leaseData, setLeaseData] = useState({
+    lessee: '',
+    startDate: '',
+    endDate: '',
+    monthlyRent: '',
+    deedHash: ''
+  });
+  const [submittingLease, setSubmittingLease] = useState(false);
+  const [myLeases, setMyLeases] = useState<LeaseRecord[]>([]);
 
   useEffect(() => {
     checkWalletConnection();
@@ -52,6 +109,12 @@ export default function MyProperties() {
     }
   }, [account]);
 
+  useEffect(() => {
+    if (showTransferModal && selectedProperty) {
+      loadTransferQuote();
+    }
+  }, [showTransferModal, selectedProperty, transferData.declaredValue, transferData.buyerCategory]);
+
   const checkWalletConnection = async () => {
     if (typeof window !== 'undefined' && window.ethereum) {
       try {
@@ -98,12 +161,10 @@ export default function MyProperties() {
 
       const ownerDetails = await contract.getOwnerDetails(account);
 
-      if (ownerDetails.name) {
+      if (ownerDetails.ownerAddress !== ethers.ZeroAddress) {
         setOwner({
           ownerAddress: ownerDetails.ownerAddress,
-          name: ownerDetails.name,
-          idDocument: ownerDetails.idDocument,
-          contactInfo: ownerDetails.contactInfo,
+          idDocumentHash: ownerDetails.idDocumentHash,
           isVerified: ownerDetails.isVerified
         });
       }
@@ -136,19 +197,31 @@ export default function MyProperties() {
         }
 
         const details = await contract.getPropertyDetails(id);
+        const coOwners = await contract.getPropertyCoOwners(id);
+        const pendingPartitionId = await contract.pendingPartitionOf(id);
+        const pendingMergeId = await contract.pendingMergeOf(id);
         return {
           propertyId: propertyId,
           propertyAddress: details.propertyAddress,
           district: details.district,
-          city: details.city,
+          tehsil: details.tehsil,
+          village: details.village,
           state: details.state,
           area: Number(details.area),
+          propertyType: details.propertyType,
+          surveyNumber: details.surveyNumber,
           currentOwner: details.currentOwner,
           documentHash: details.documentHash,
           isRegistered: details.isRegistered,
           isVerified: details.isVerified,
           registrationDate: Number(details.registrationDate),
-          lastTransferDate: Number(details.lastTransferDate)
+          lastTransferDate: Number(details.lastTransferDate),
+          coOwners: coOwners.map((c: any) => ({
+            ownerAddress: c.ownerAddress,
+            sharePercentage: Number(c.sharePercentage)
+          })),
+          pendingPartitionId: Number(pendingPartitionId),
+          pendingMergeId: Number(pendingMergeId)
         };
       });
 
@@ -157,6 +230,8 @@ export default function MyProperties() {
       const filteredProperties = propertiesData.filter(p => p !== null) as Property[];
       console.log('Loaded properties:', filteredProperties);
       setProperties(filteredProperties);
+      await loadConsentRequests(contract, filteredProperties);
+      await loadMyLeases(contract);
     } catch (error) {
       console.error('Error loading properties:', error);
     } finally {
@@ -164,29 +239,348 @@ export default function MyProperties() {
     }
   };
 
+  // Whole-property transfers started by another co-owner that still need this wallet's consent
+  const loadConsentRequests = async (contract: ethers.Contract, myProperties: Property[]) => {
+    const jointPropertyIds = myProperties
+      .filter(p => p.coOwners.length > 1)
+      .map(p => p.propertyId);
+    if (jointPropertyIds.length === 0) {
+      setConsentRequests([]);
+      return;
+    }
+
+    const total = Number(await contract.getTotalTransferRequests());
+    const pending: ConsentRequest[] = [];
+    for (let i = 1; i <= total; i++) {
+      const request = await contract.getTransferRequestDetails(i);
+      const isOpen = !request.isCompleted && !request.isRejected && !request.isCancelled && !request.isDeclinedByBuyer;
+      if (!isOpen || request.isShareTransfer || !jointPropertyIds.includes(Number(request.propertyId))) continue;
+
+      const hasConsented = await contract.transferConsents(i, account);
+      if (!hasConsented) {
+        pending.push({
+          requestId: i,
+          propertyId: Number(request.propertyId),
+          fromOwner: request.fromOwner,
+          toOwner: request.toOwner,
+          requestDate: Number(request.requestDate)
+        });
+      }
+    }
+    setConsentRequests(pending);
+  };
+
+  // Leases naming this wallet as lessee
+  const loadMyLeases = async (contract: ethers.Contract) => {
+    const leaseIds = await contract.getLesseeLeases(account);
+    const leases = await Promise.all(leaseIds.map(async (id: bigint) => {
+      const lease = await contract.getLeaseDetails(id);
+      return {
+        leaseId: Number(id),
+        propertyId: Number(lease.propertyId),
+        lessor: lease.lessor,
+        startDate: Number(lease.startDate),
+        endDate: Number(lease.endDate),
+        monthlyRent: Number(lease.monthlyRent),
+        isPending: lease.isPending,
+        isApproved: lease.isApproved
+      };
+    }));
+    setMyLeases(leases.reverse());
+  };
+
+  const handleConsent = async (requestId: number) => {
+    setConsentingId(requestId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.consentToTransfer(requestId);
+      await tx.wait();
+      alert('✅ Consent recorded for transfer request #' + requestId);
+      await loadMyProperties();
+    } catch (error: any) {
+      console.error('Error giving consent:', error);
+      alert('❌ Failed to give consent: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setConsentingId(null);
+    }
+  };
+
+  const openCoOwnersModal = (property: Property) => {
+    setSelectedProperty(property);
+    setCoOwnerRows(property.coOwners.map(c => ({
+      address: c.ownerAddress,
+      share: c.sharePercentage.toString()
+    })));
+    setShowCoOwnersModal(true);
+  };
+
+  const closeCoOwnersModal = () => {
+    setShowCoOwnersModal(false);
+    setSelectedProperty(null);
+    setCoOwnerRows([]);
+  };
+
+  const coOwnerShareTotal = coOwnerRows.reduce((sum, row) => sum + (parseInt(row.share) || 0), 0);
+
+  const handleSaveCoOwners = async () => {
+    if (!selectedProperty) return;
+
+    if (coOwnerShareTotal !== 100) {
+      alert('❌ Shares must total 100%');
+      return;
+    }
+    if (coOwnerRows.some(row => !ethers.isAddress(row.address))) {
+      alert('❌ Every co-owner needs a valid wallet address');
+      return;
+    }
+
+    setSavingCoOwners(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setPropertyCoOwners(
+        selectedProperty.propertyId,
+        coOwnerRows.map(row => row.address),
+        coOwnerRows.map(row => parseInt(row.share))
+      );
+      await tx.wait();
+      alert('✅ Co-owners updated successfully!');
+
+      closeCoOwnersModal();
+      await loadMyProperties();
+    } catch (error: any) {
+      console.error('Error updating co-owners:', error);
+      alert('❌ Failed to update co-owners: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSavingCoOwners(false);
+    }
+  };
+
+  const openLeaseModal = (property: Property) => {
+    setSelectedProperty(property);
+    setLeaseData({ lessee: '', startDate: '', endDate: '', monthlyRent: '', deedHash: '' });
+    setShowLeaseModal(true);
+  };
+
+  const closeLeaseModal = () => {
+    setShowLeaseModal(false);
+    setSelectedProperty(null);
+  };
+
+  const handleFileLease = async () => {
+    if (!selectedProperty) return;
+
+    if (!ethers.isAddress(leaseData.lessee)) {
+      alert('❌ Please enter a valid lessee wallet address');
+      return;
+    }
+    const startDate = Math.floor(new Date(leaseData.startDate).getTime() / 1000);
+    const endDate = Math.floor(new Date(leaseData.endDate).getTime() / 1000);
+    if (isNaN(startDate) || isNaN(endDate) || endDate <= startDate) {
+      alert('❌ The lease must end after it starts');
+      return;
+    }
+    if (!leaseData.deedHash.trim()) {
+      alert('❌ Please enter the lease deed hash');
+      return;
+    }
+
+    setSubmittingLease(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.fileLease(
+        selectedProperty.propertyId,
+        leaseData.lessee,
+        startDate,
+        endDate,
+        parseInt(leaseData.monthlyRent) || 0,
+        leaseData.deedHash.trim()
+      );
+      await tx.wait();
+      alert('✅ Lease filed! A government officer will register it.');
+
+      closeLeaseModal();
+    } catch (error: any) {
+      console.error('Error filing lease:', error);
+      alert('❌ Failed to file lease: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSubmittingLease(false);
+    }
+  };
+
+  const openPartitionModal = (property: Property) => {
+    setSelectedProperty(property);
+    setParcelRows([
+      { subDivision: `${property.surveyNumber}/1`, area: '' },
+      { subDivision: `${property.surveyNumber}/2`, area: '' }
+    ]);
+    setPartitionDocumentHash('');
+    setShowPartitionModal(true);
+  };
+
+  const closePartitionModal = () => {
+    setShowPartitionModal(false);
+    setSelectedProperty(null);
+    setParcelRows([]);
+    setPartitionDocumentHash('');
+  };
+
+  const parcelAreaTotal = parcelRows.reduce((sum, row) => sum + (parseInt(row.area) || 0), 0);
+
+  const handleRequestPartition = async () => {
+    if (!selectedProperty) return;
+
+    if (parcelAreaTotal !== selectedProperty.area) {
+      alert(`❌ Parcel areas must add up to ${selectedProperty.area} sq m`);
+      return;
+    }
+    if (parcelRows.some(row => !row.subDivision.trim())) {
+      alert('❌ Every parcel needs a sub-division number');
+      return;
+    }
+
+    setSubmittingPartition(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.requestPartition(
+        selectedProperty.propertyId,
+        parcelRows.map(row => parseInt(row.area)),
+        parcelRows.map(row => row.subDivision.trim()),
+        partitionDocumentHash || 'QmPartitionDoc'
+      );
+      await tx.wait();
+      alert('✅ Partition request submitted! A government officer will review it.');
+
+      closePartitionModal();
+      await loadMyProperties();
+    } catch (error: any) {
+      console.error('Error requesting partition:', error);
+      alert('❌ Failed to request partition: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSubmittingPartition(false);
+    }
+  };
+
+  // Only verified, solely owned parcels with no pending partition or merge can be merged
+  const mergeableProperties = properties.filter(p =>
+    p.isVerified &&
+    p.coOwners.length === 1 &&
+    p.currentOwner.toLowerCase() === account.toLowerCase() &&
+    p.pendingPartitionId === 0 &&
+    p.pendingMergeId === 0
+  );
+
+  const mergeAnchor = properties.find(p => p.propertyId === mergeSelection[0]);
+
+  const toggleMergeSelection = (propertyId: number) => {
+    setMergeSelection(prev => prev.includes(propertyId)
+      ? prev.filter(id => id !== propertyId)
+      : [...prev, propertyId]);
+  };
+
+  const closeMergeModal = () => {
+    setShowMergeModal(false);
+    setMergeSelection([]);
+    setMergeSurveyNumber('');
+    setMergeDocumentHash('');
+  };
+
+  const handleRequestMerge = async () => {
+    if (mergeSelection.length < 2 || !mergeSurveyNumber.trim()) return;
+
+    setSubmittingMerge(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.requestMerge(
+        mergeSelection,
+        mergeSurveyNumber.trim(),
+        mergeDocumentHash || 'QmMergeDoc'
+      );
+      await tx.wait();
+      alert('✅ Merge request submitted! A government officer will review it.');
+
+      closeMergeModal();
+      await loadMyProperties();
+    } catch (error: any) {
+      console.error('Error requesting merge:', error);
+      alert('❌ Failed to request merge: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSubmittingMerge(false);
+    }
+  };
+
+  const getMyShare = (property: Property) => {
+    const entry = property.coOwners.find(c => c.ownerAddress.toLowerCase() === account.toLowerCase());
+    return entry ? entry.sharePercentage : 0;
+  };
+
+  // Stamp duty and registration fee for the declared value under the state's schedule
+  const loadTransferQuote = async () => {
+    if (!selectedProperty) return;
+
+    const declaredValue = parseFloat(transferData.declaredValue);
+    if (isNaN(declaredValue) || declaredValue <= 0) {
+      setTransferQuote(null);
+      return;
+    }
+
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const quote = await contract.quoteTransferFee(
+        selectedProperty.propertyId,
+        ethers.parseEther(transferData.declaredValue),
+        transferData.buyerCategory
+      );
+      setTransferQuote(quote);
+    } catch (error) {
+      console.error('Error quoting transfer fee:', error);
+      setTransferQuote(null);
+    }
+  };
+
   const handleTransfer = async () => {
-    if (!selectedProperty || !transferData.toAddress) return;
+    if (!selectedProperty || !transferData.toAddress || transferQuote === null) return;
 
     setTransferring(true);
     try {
       const signer = await getSigner();
       const contract = getContract(signer);
 
-      const tx = await contract.createTransferRequest(
+      const createRequest = transferShareOnly
+        ? contract.createShareTransferRequest
+        : contract.createTransferRequest;
+      const tx = await createRequest(
         selectedProperty.propertyId,
         transferData.toAddress,
-        transferData.documentHash || 'QmTransferDoc'
+        transferData.documentHash || 'QmTransferDoc',
+        ethers.parseEther(transferData.declaredValue),
+        transferData.buyerCategory,
+        { value: transferQuote }
       );
 
       console.log('Transfer request sent:', tx.hash);
-      alert('Transfer request created! Waiting for government approval...');
+      alert(selectedProperty.coOwners.length > 1 && !transferShareOnly
+        ? 'Transfer request created! Every co-owner must consent before it can be completed.'
+        : 'Transfer request created! Waiting for government approval...');
 
       await tx.wait();
       alert('Transfer request created successfully!');
 
       setShowTransferModal(false);
       setSelectedProperty(null);
-      setTransferData({ toAddress: '', documentHash: '' });
+      setTransferData({ toAddress: '', documentHash: '', declaredValue: '', buyerCategory: '' });
+      setTransferShareOnly(false);
 
     } catch (error: any) {
       console.error('Error creating transfer request:', error);
@@ -277,8 +671,8 @@ export default function MyProperties() {
             <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
               <div className="flex items-center justify-between">
                 <div>
-                  <h2 className="text-xl font-bold text-gray-800">Owner: {owner.name}</h2>
-                  <p className="text-gray-600">Contact: {owner.contactInfo}</p>
+                  <h2 className="text-xl font-bold text-gray-800">Owner: {owner.ownerAddress.slice(0, 6)}...{owner.ownerAddress.slice(-4)}</h2>
+                  <p className="text-gray-600">Contact details: 🔒 held in the PII vault (<Link href="/register-owner" className="text-primary-600 hover:underline">manage access</Link>)</p>
                 </div>
                 <div className="flex items-center space-x-2">
                   <span className={`px-3 py-1 rounded-full text-sm font-semibold ${owner.isVerified
@@ -292,6 +686,78 @@ export default function MyProperties() {
             </div>
           )}
 
+          {/* Transfers Awaiting Co-Owner Consent */}
+          {consentRequests.length > 0 && (
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-8 border-l-4 border-orange-500">
+              <h2 className="text-xl font-bold text-gray-800 mb-2">👥 Transfers Awaiting Your Consent</h2>
+              <p className="text-gray-600 mb-4">
+                A co-owner has requested to transfer a jointly owned property. It cannot be completed until every co-owner consents.
+              </p>
+              <div className="space-y-3">
+                {consentRequests.map((request) => (
+                  <div key={request.requestId} className="flex justify-between items-center border border-gray-200 rounded-lg p-4">
+                    <div>
+                      <p className="font-semibold text-gray-800">
+                        Request #{request.requestId} · Property #{request.propertyId}
+                      </p>
+                      <p className="text-sm text-gray-600 font-mono">
+                        From {request.fromOwner.slice(0, 6)}...{request.fromOwner.slice(-4)} to {request.toOwner.slice(0, 6)}...{request.toOwner.slice(-4)}
+                      </p>
+                      <p className="text-xs text-gray-500">Requested {formatDate(request.requestDate)}</p>
+                    </div>
+                    <button
+                      onClick={() => handleConsent(request.requestId)}
+                      disabled={consentingId === request.requestId}
+                      className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-semibold disabled:opacity-50"
+                    >
+                      {consentingId === request.requestId ? '⏳ Consenting...' : '✅ Give Consent'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Leased Properties */}
+          {myLeases.length > 0 && (
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-8 border-l-4 border-teal-500">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">🔑 Properties I Lease</h2>
+              <div className="space-y-3">
+                {myLeases.map((lease) => {
+                  const now = Date.now() / 1000;
+                  const status = lease.isPending
+                    ? { label: '⏳ Awaiting Registration', className: 'bg-yellow-100 text-yellow-800' }
+                    : !lease.isApproved
+                    ? { label: 'Rejected', className: 'bg-red-100 text-red-800' }
+                    : lease.endDate <= now
+                    ? { label: '⌛ Expired', className: 'bg-gray-100 text-gray-600' }
+                    : { label: '✅ Registered', className: 'bg-green-100 text-green-800' };
+                  return (
+                    <div key={lease.leaseId} className="flex justify-between items-center border border-gray-200 rounded-lg p-4">
+                      <div>
+                        <p className="font-semibold text-gray-800">
+                          Lease #{lease.leaseId} ·{' '}
+                          <Link href={`/property/${lease.propertyId}`} className="text-primary-600 hover:underline">
+                            Property #{lease.propertyId}
+                          </Link>
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {formatDate(lease.startDate)} – {formatDate(lease.endDate)} · ₹{lease.monthlyRent.toLocaleString('en-IN')}/month
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono">
+                          Lessor {lease.lessor.slice(0, 6)}...{lease.lessor.slice(-4)}
+                        </p>
+                      </div>
+                      <span className={`px-2 py-1 rounded-full text-xs font-semibold ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Properties Section */}
           <div className="bg-white rounded-xl shadow-lg p-8">
             <div className="flex justify-between items-center mb-6">
@@ -300,6 +766,15 @@ export default function MyProperties() {
                 <p className="text-gray-600">Properties registered under your account</p>
               </div>
               <div className="flex items-center space-x-3">
+                {mergeableProperties.length >= 2 && (
+                  <button
+                    onClick={() => setShowMergeModal(true)}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-semibold flex items-center space-x-2"
+                  >
+                    <span>🔗</span>
+                    <span>Merge Parcels</span>
+                  </button>
+                )}
                 <Link
                   href="/request-transfer"
                   className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition font-semibold flex items-center space-x-2"
@@ -347,7 +822,7 @@ export default function MyProperties() {
                         </h3>
                         <p className="text-lg text-gray-700">{property.propertyAddress}</p>
                         <p className="text-gray-600">
-                          {property.district && `${property.district}, `}{property.city}, {property.state}
+                          {[property.village, property.tehsil, property.district, property.state].filter(Boolean).join(', ')}
                         </p>
                       </div>
                       <div className="flex items-center space-x-2">
@@ -357,6 +832,16 @@ export default function MyProperties() {
                           }`}>
                           {property.isVerified ? '✅ Verified' : '⏳ Pending Verification'}
                         </span>
+                        {property.pendingPartitionId > 0 && (
+                          <span className="px-3 py-1 rounded-full text-sm font-semibold bg-blue-100 text-blue-800">
+                            ✂️ Partition Pending
+                          </span>
+                        )}
+                        {property.pendingMergeId > 0 && (
+                          <span className="px-3 py-1 rounded-full text-sm font-semibold bg-blue-100 text-blue-800">
+                            🔗 Merge Pending
+                          </span>
+                        )}
                       </div>
                     </div>
 
@@ -375,6 +860,31 @@ export default function MyProperties() {
                       </div>
                     </div>
 
+                    {/* Co-ownership Breakdown */}
+                    <div className="bg-gray-50 rounded-lg p-4 mb-4">
+                      <div className="flex justify-between items-center mb-2">
+                        <p className="text-sm font-semibold text-gray-700">
+                          {property.coOwners.length > 1 ? '👥 Joint Ownership' : '👤 Sole Ownership'}
+                        </p>
+                        <p className="text-sm text-gray-700">
+                          Your share: <span className="font-bold">{getMyShare(property)}%</span>
+                        </p>
+                      </div>
+                      {property.coOwners.length > 1 && (
+                        <ul className="space-y-1">
+                          {property.coOwners.map((coOwner) => (
+                            <li key={coOwner.ownerAddress} className="flex justify-between text-sm">
+                              <span className="font-mono text-gray-600">
+                                {coOwner.ownerAddress.slice(0, 6)}...{coOwner.ownerAddress.slice(-4)}
+                                {coOwner.ownerAddress.toLowerCase() === account.toLowerCase() && ' (You)'}
+                              </span>
+                              <span className="font-semibold text-gray-800">{coOwner.sharePercentage}%</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
                     <div className="flex justify-between items-center">
                       <div>
                         <p className="text-sm text-gray-500">Document Hash</p>
@@ -389,6 +899,31 @@ export default function MyProperties() {
                         >
                           View Details
                         </Link>
+                        {!property.isVerified && property.currentOwner.toLowerCase() === account.toLowerCase() && (
+                          <button
+                            onClick={() => openCoOwnersModal(property)}
+                            className="px-4 py-2 border border-purple-600 text-purple-600 rounded-lg hover:bg-purple-50 transition font-semibold"
+                          >
+                            Co-Owners
+                          </button>
+                        )}
+                        {property.isVerified && property.pendingPartitionId === 0 && property.pendingMergeId === 0 &&
+                          property.currentOwner.toLowerCase() === account.toLowerCase() && (
+                          <button
+                            onClick={() => openPartitionModal(property)}
+                            className="px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition font-semibold"
+                          >
+                            Partition
+                          </button>
+                        )}
+                        {property.isVerified && property.currentOwner.toLowerCase() === account.toLowerCase() && (
+                          <button
+                            onClick={() => openLeaseModal(property)}
+                            className="px-4 py-2 border border-teal-600 text-teal-600 rounded-lg hover:bg-teal-50 transition font-semibold"
+                          >
+                            Lease
+                          </button>
+                        )}
                         {property.isVerified && (
                           <button
                             onClick={() => {
@@ -421,6 +956,30 @@ export default function MyProperties() {
               </p>
 
               <div className="space-y-4">
+                {selectedProperty.coOwners.length > 1 && (
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      What are you transferring?
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 mb-1">
+                      <input
+                        type="radio"
+                        checked={!transferShareOnly}
+                        onChange={() => setTransferShareOnly(false)}
+                      />
+                      <span>Entire property (every co-owner must consent)</span>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={transferShareOnly}
+                        onChange={() => setTransferShareOnly(true)}
+                      />
+                      <span>Only my {getMyShare(selectedProperty)}% share</span>
+                    </label>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-2">
                     Transfer To (Address) *
@@ -446,6 +1005,48 @@ export default function MyProperties() {
                     placeholder="IPFS hash of transfer documents"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Declared Sale Value (ETH) *
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={transferData.declaredValue}
+                    onChange={(e) => setTransferData(prev => ({ ...prev, declaredValue: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder={transferShareOnly ? 'Consideration for your share' : 'Consideration stated in the sale deed'}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Buyer Category
+                  </label>
+                  <select
+                    value={transferData.buyerCategory}
+                    onChange={(e) => setTransferData(prev => ({ ...prev, buyerCategory: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="">General (no concession)</option>
+                    {STAMP_DUTY_BUYER_CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {transferQuote !== null && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                    <p className="text-sm text-yellow-800">
+                      💰 Stamp duty &amp; registration fee: <strong>{ethers.formatEther(transferQuote)} ETH</strong>
+                    </p>
+                    <p className="text-xs text-yellow-700 mt-1">
+                      Per the {selectedProperty.state} schedule for {selectedProperty.propertyType} property
+                    </p>
+                  </div>
+                )}
               </div>
 
               <div className="flex justify-end space-x-3 mt-6">
@@ -453,7 +1054,8 @@ export default function MyProperties() {
                   onClick={() => {
                     setShowTransferModal(false);
                     setSelectedProperty(null);
-                    setTransferData({ toAddress: '', documentHash: '' });
+                    setTransferData({ toAddress: '', documentHash: '', declaredValue: '', buyerCategory: '' });
+                    setTransferShareOnly(false);
                   }}
                   className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
                 >
@@ -461,7 +1063,7 @@ export default function MyProperties() {
                 </button>
                 <button
                   onClick={handleTransfer}
-                  disabled={transferring || !transferData.toAddress}
+                  disabled={transferring || !transferData.toAddress || transferQuote === null}
                   className="px-6 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
                 >
                   {transferring ? (
@@ -477,6 +1079,343 @@ export default function MyProperties() {
             </div>
           </div>
         )}
+
+        {/* Co-Owners Modal */}
+        {showCoOwnersModal && selectedProperty && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">
+                Co-Owners of Property #{selectedProperty.propertyId}
+              </h3>
+              <p className="text-sm text-gray-600 mb-6">
+                Declare co-owners before verification. You stay the primary owner and must be listed first. Shares must total 100%.
+              </p>
+
+              <div className="space-y-3">
+                {coOwnerRows.map((row, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={row.address}
+                      disabled={index === 0}
+                      onChange={(e) => setCoOwnerRows(prev => prev.map((r, i) => i === index ? { ...r, address: e.target.value } : r))}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm disabled:bg-gray-100"
+                      placeholder="0x..."
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={row.share}
+                      onChange={(e) => setCoOwnerRows(prev => prev.map((r, i) => i === index ? { ...r, share: e.target.value } : r))}
+                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <span className="text-gray-500">%</span>
+                    {index > 0 && (
+                      <button
+                        onClick={() => setCoOwnerRows(prev => prev.filter((_, i) => i !== index))}
+                        className="px-2 text-red-600 hover:text-red-800"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-between items-center mt-4">
+                <button
+                  onClick={() => setCoOwnerRows(prev => [...prev, { address: '', share: '' }])}
+                  className="text-sm text-purple-600 hover:text-purple-800 font-semibold"
+                >
+                  ➕ Add Co-Owner
+                </button>
+                <span className={`text-sm font-semibold ${coOwnerShareTotal === 100 ? 'text-green-700' : 'text-red-600'}`}>
+                  Total: {coOwnerShareTotal}%
+                </span>
+              </div>
+
+              <div className="flex justify-end space-x-3 mt-6">
+                <button
+                  onClick={closeCoOwnersModal}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveCoOwners}
+                  disabled={savingCoOwners || coOwnerShareTotal !== 100}
+                  className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {savingCoOwners ? 'Saving...' : 'Save Co-Owners'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Lease Modal */}
+        {showLeaseModal && selectedProperty && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">
+                Register Lease on Property #{selectedProperty.propertyId}
+              </h3>
+              <p className="text-sm text-gray-600 mb-6">
+                Leases longer than 11 months must be registered. An officer reviews the deed before the lease is recorded.
+              </p>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Lessee Wallet Address *</label>
+                  <input
+                    type="text"
+                    value={leaseData.lessee}
+                    onChange={(e) => setLeaseData(prev => ({ ...prev, lessee: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm"
+                    placeholder="0x..."
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Term Start *</label>
+                    <input
+                      type="date"
+                      value={leaseData.startDate}
+                      onChange={(e) => setLeaseData(prev => ({ ...prev, startDate: e.target.value }))}
+                      className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Term End *</label>
+                    <input
+                      type="date"
+                      value={leaseData.endDate}
+                      onChange={(e) => setLeaseData(prev => ({ ...prev, endDate: e.target.value }))}
+                      className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Monthly Rent (₹)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={leaseData.monthlyRent}
+                    onChange={(e) => setLeaseData(prev => ({ ...prev, monthlyRent: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="e.g. 35000"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Lease Deed Hash *</label>
+                  <input
+                    type="text"
+                    value={leaseData.deedHash}
+                    onChange={(e) => setLeaseData(prev => ({ ...prev, deedHash: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="IPFS hash of the lease deed"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-3 mt-6">
+                <button
+                  onClick={closeLeaseModal}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleFileLease}
+                  disabled={submittingLease}
+                  className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submittingLease ? 'Submitting...' : 'File Lease'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Partition Modal */}
+        {showPartitionModal && selectedProperty && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">
+                Partition Property #{selectedProperty.propertyId}
+              </h3>
+              <p className="text-sm text-gray-600 mb-6">
+                Split survey number {selectedProperty.surveyNumber} into sub-division parcels. Areas must add up to {selectedProperty.area.toLocaleString()} sq m.
+                Once an officer approves, this record is retired and a new property is created for each parcel.
+              </p>
+
+              <div className="space-y-3">
+                {parcelRows.map((row, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={row.subDivision}
+                      onChange={(e) => setParcelRows(prev => prev.map((r, i) => i === index ? { ...r, subDivision: e.target.value } : r))}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      placeholder="Sub-division (e.g. 123/1)"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      value={row.area}
+                      onChange={(e) => setParcelRows(prev => prev.map((r, i) => i === index ? { ...r, area: e.target.value } : r))}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      placeholder="Area"
+                    />
+                    <span className="text-gray-500 text-sm">sq m</span>
+                    {parcelRows.length > 2 && (
+                      <button
+                        onClick={() => setParcelRows(prev => prev.filter((_, i) => i !== index))}
+                        className="px-2 text-red-600 hover:text-red-800"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-between items-center mt-4">
+                <button
+                  onClick={() => setParcelRows(prev => [...prev, { subDivision: `${selectedProperty.surveyNumber}/${prev.length + 1}`, area: '' }])}
+                  className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                >
+                  ➕ Add Parcel
+                </button>
+                <span className={`text-sm font-semibold ${parcelAreaTotal === selectedProperty.area ? 'text-green-700' : 'text-red-600'}`}>
+                  Total: {parcelAreaTotal.toLocaleString()} / {selectedProperty.area.toLocaleString()} sq m
+                </span>
+              </div>
+
+              <div className="mt-4">
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Survey Sketch / Partition Deed Hash (Optional)
+                </label>
+                <input
+                  type="text"
+                  value={partitionDocumentHash}
+                  onChange={(e) => setPartitionDocumentHash(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  placeholder="IPFS hash of partition documents"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3 mt-6">
+                <button
+                  onClick={closePartitionModal}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRequestPartition}
+                  disabled={submittingPartition || parcelAreaTotal !== selectedProperty.area}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submittingPartition ? 'Submitting...' : 'Request Partition'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Merge Modal */}
+        {showMergeModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6">
+              <h3 className="text-xl font-bold text-gray-800 mb-2">Merge Adjacent Parcels</h3>
+              <p className="text-sm text-gray-600 mb-6">
+                Select parcels in the same state and district. Once an officer approves, they are superseded by a single merged property with the combined area.
+              </p>
+
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {mergeableProperties.map((property) => {
+                  const outsideDistrict = !!mergeAnchor &&
+                    (property.state !== mergeAnchor.state || property.district !== mergeAnchor.district);
+                  return (
+                    <label
+                      key={property.propertyId}
+                      className={`flex items-center space-x-3 p-3 border rounded-lg ${outsideDistrict ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={mergeSelection.includes(property.propertyId)}
+                        disabled={outsideDistrict}
+                        onChange={() => toggleMergeSelection(property.propertyId)}
+                      />
+                      <div className="flex-1">
+                        <p className="font-semibold text-gray-800">
+                          Property #{property.propertyId} · Survey No. {property.surveyNumber}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {property.district}, {property.state} · {property.area.toLocaleString()} sq m
+                        </p>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <p className="text-sm text-gray-700 mt-4">
+                Combined area: <span className="font-semibold">
+                  {properties
+                    .filter(p => mergeSelection.includes(p.propertyId))
+                    .reduce((sum, p) => sum + p.area, 0)
+                    .toLocaleString()} sq m
+                </span>
+              </p>
+
+              <div className="space-y-4 mt-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Survey Number for Merged Parcel *
+                  </label>
+                  <input
+                    type="text"
+                    value={mergeSurveyNumber}
+                    onChange={(e) => setMergeSurveyNumber(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="As assigned by the revenue department"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Amalgamation Document Hash (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={mergeDocumentHash}
+                    onChange={(e) => setMergeDocumentHash(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="IPFS hash of amalgamation order or survey sketch"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-3 mt-6">
+                <button
+                  onClick={closeMergeModal}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRequestMerge}
+                  disabled={submittingMerge || mergeSelection.length < 2 || !mergeSurveyNumber.trim()}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submittingMerge ? 'Submitting...' : 'Request Merge'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </>
   );
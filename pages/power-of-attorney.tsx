@@ -0,0 +1,634 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { getContract, getSigner } from '../utils/contract';
+import { STAMP_DUTY_BUYER_CATEGORIES } from '../data/indiaData';
+
+interface PowerOfAttorney {
+  poaId: number;
+  principal: string;
+  attorney: string;
+  propertyIds: number[];
+  canRequestVerification: boolean;
+  canCreateTransfer: boolean;
+  canUpdateDocuments: boolean;
+  expiryDate: number;
+  documentHash: string;
+  grantedDate: number;
+  countersigningOfficerId: string;
+  isRevoked: boolean;
+}
+
+type AttorneyActionType = 'verification' | 'transfer' | 'document';
+
+export default function PowerOfAttorneyPage() {
+  const [account, setAccount] = useState<string>('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [grantedByMe, setGrantedByMe] = useState<PowerOfAttorney[]>([]);
+  const [heldByMe, setHeldByMe] = useState<PowerOfAttorney[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actingId, setActingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState({
+    attorney: '',
+    propertyIds: '',
+    canRequestVerification: false,
+    canCreateTransfer: false,
+    canUpdateDocuments: false,
+    expiryDate: '',
+    documentHash: ''
+  });
+  const [actionForms, setActionForms] = useState<{
+    [poaId: number]: { type: AttorneyActionType; propertyId: string; buyer: string; declaredValue: string; buyerCategory: string; documentHash: string };
+  }>({});
+
+  useEffect(() => {
+    checkWalletConnection();
+  }, []);
+
+  useEffect(() => {
+    if (account) {
+      loadPowersOfAttorney();
+    }
+  }, [account]);
+
+  const checkWalletConnection = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        const accounts = await provider.listAccounts();
+
+        if (accounts.length > 0) {
+          const signer = await provider.getSigner();
+          const address = await signer.getAddress();
+          setAccount(address);
+          setIsConnected(true);
+        }
+      } catch (error) {
+        console.error('Error checking wallet connection:', error);
+      }
+    }
+  };
+
+  const connectWallet = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        await provider.send('eth_requestAccounts', []);
+        const signer = await provider.getSigner();
+        const address = await signer.getAddress();
+
+        setAccount(address);
+        setIsConnected(true);
+      } catch (error) {
+        console.error('Error connecting wallet:', error);
+        alert('Failed to connect wallet. Please make sure MetaMask is installed.');
+      }
+    } else {
+      alert('Please install MetaMask to use this application.');
+    }
+  };
+
+  const loadPowersOfAttorney = async () => {
+    if (!account) return;
+
+    setLoading(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const toPowerOfAttorney = (details: any): PowerOfAttorney => ({
+        poaId: Number(details.poaId),
+        principal: details.principal,
+        attorney: details.attorney,
+        propertyIds: details.propertyIds.map((id: bigint) => Number(id)),
+        canRequestVerification: details.canRequestVerification,
+        canCreateTransfer: details.canCreateTransfer,
+        canUpdateDocuments: details.canUpdateDocuments,
+        expiryDate: Number(details.expiryDate),
+        documentHash: details.documentHash,
+        grantedDate: Number(details.grantedDate),
+        countersigningOfficerId: details.countersigningOfficerId,
+        isRevoked: details.isRevoked
+      });
+
+      const grantedIds = await contract.getPrincipalPowersOfAttorney(account);
+      const granted = await Promise.all(grantedIds.map(async (id: bigint) =>
+        toPowerOfAttorney(await contract.getPowerOfAttorneyDetails(id))
+      ));
+      setGrantedByMe(granted.reverse());
+
+      const heldIds = await contract.getAttorneyPowersOfAttorney(account);
+      const held = await Promise.all(heldIds.map(async (id: bigint) =>
+        toPowerOfAttorney(await contract.getPowerOfAttorneyDetails(id))
+      ));
+      setHeldByMe(held.reverse());
+    } catch (error) {
+      console.error('Error loading powers of attorney:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!ethers.isAddress(formData.attorney)) {
+      alert('❌ Please enter a valid attorney wallet address');
+      return;
+    }
+    if (!formData.canRequestVerification && !formData.canCreateTransfer && !formData.canUpdateDocuments) {
+      alert('❌ Please allow at least one action');
+      return;
+    }
+
+    // Blank scope covers every property the principal owns
+    const propertyIds = formData.propertyIds
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => id !== '')
+      .map(id => parseInt(id));
+    if (propertyIds.some(id => isNaN(id) || id <= 0)) {
+      alert('❌ Property IDs must be positive numbers separated by commas');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.grantPowerOfAttorney(
+        formData.attorney,
+        propertyIds,
+        formData.canRequestVerification,
+        formData.canCreateTransfer,
+        formData.canUpdateDocuments,
+        Math.floor(new Date(formData.expiryDate).getTime() / 1000),
+        formData.documentHash
+      );
+      await tx.wait();
+      alert('✅ Power of attorney registered. Take the deed to a registry officer to have it countersigned before your attorney can act.');
+
+      setFormData({
+        attorney: '',
+        propertyIds: '',
+        canRequestVerification: false,
+        canCreateTransfer: false,
+        canUpdateDocuments: false,
+        expiryDate: '',
+        documentHash: ''
+      });
+      await loadPowersOfAttorney();
+    } catch (error: any) {
+      console.error('Error granting power of attorney:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to grant power of attorney: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (poaId: number) => {
+    if (!confirm('Revoke this power of attorney? Your attorney will no longer be able to act for you.')) return;
+
+    setActingId(poaId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.revokePowerOfAttorney(poaId);
+      await tx.wait();
+      alert('✅ Power of attorney revoked');
+      await loadPowersOfAttorney();
+    } catch (error: any) {
+      console.error('Error revoking power of attorney:', error);
+      alert('❌ Failed to revoke power of attorney: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const getActionForm = (poa: PowerOfAttorney) => {
+    const defaultType: AttorneyActionType = poa.canRequestVerification
+      ? 'verification'
+      : poa.canCreateTransfer ? 'transfer' : 'document';
+    return actionForms[poa.poaId] || { type: defaultType, propertyId: '', buyer: '', declaredValue: '', buyerCategory: '', documentHash: '' };
+  };
+
+  const updateActionForm = (poa: PowerOfAttorney, changes: Partial<{ type: AttorneyActionType; propertyId: string; buyer: string; declaredValue: string; buyerCategory: string; documentHash: string }>) => {
+    setActionForms(prev => ({ ...prev, [poa.poaId]: { ...getActionForm(poa), ...changes } }));
+  };
+
+  const handleAct = async (poa: PowerOfAttorney) => {
+    const form = getActionForm(poa);
+    const propertyId = parseInt(form.propertyId);
+    if (isNaN(propertyId) || propertyId <= 0) {
+      alert('❌ Please enter a valid property ID');
+      return;
+    }
+    if (form.type === 'transfer' && !ethers.isAddress(form.buyer)) {
+      alert('❌ Please enter a valid buyer wallet address');
+      return;
+    }
+    if (form.type === 'transfer' && !(parseFloat(form.declaredValue) > 0)) {
+      alert('❌ Please enter the declared sale value');
+      return;
+    }
+
+    setActingId(poa.poaId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      let tx;
+      if (form.type === 'verification') {
+        const verificationFee = await contract.VERIFICATION_FEE();
+        tx = await contract.requestPropertyVerificationAsAttorney(poa.poaId, propertyId, { value: verificationFee });
+      } else if (form.type === 'transfer') {
+        const declaredValue = ethers.parseEther(form.declaredValue);
+        const transferFee = await contract.quoteTransferFee(propertyId, declaredValue, form.buyerCategory);
+        tx = await contract.createTransferRequestAsAttorney(
+          poa.poaId,
+          propertyId,
+          form.buyer,
+          form.documentHash || 'QmTransferDeed',
+          declaredValue,
+          form.buyerCategory,
+          { value: transferFee }
+        );
+      } else {
+        tx = await contract.updatePropertyDocumentAsAttorney(poa.poaId, propertyId, form.documentHash);
+      }
+      await tx.wait();
+      alert(`✅ Action recorded on Property #${propertyId} on behalf of ${poa.principal.slice(0, 6)}...${poa.principal.slice(-4)}`);
+
+      setActionForms(prev => ({ ...prev, [poa.poaId]: { ...form, propertyId: '', buyer: '', declaredValue: '', buyerCategory: '', documentHash: '' } }));
+    } catch (error: any) {
+      console.error('Error acting under power of attorney:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to act under power of attorney: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleDateString();
+  };
+
+  const getStatus = (poa: PowerOfAttorney) => {
+    if (poa.isRevoked) return { label: 'Revoked', className: 'bg-gray-100 text-gray-600' };
+    if (poa.expiryDate * 1000 <= Date.now()) return { label: '⌛ Expired', className: 'bg-gray-100 text-gray-600' };
+    if (!poa.countersigningOfficerId) return { label: '⏳ Awaiting Countersign', className: 'bg-yellow-100 text-yellow-800' };
+    return { label: `✅ Active · ${poa.countersigningOfficerId}`, className: 'bg-green-100 text-green-800' };
+  };
+
+  const describeScope = (poa: PowerOfAttorney) => {
+    const actions = [
+      poa.canRequestVerification && 'request verification',
+      poa.canCreateTransfer && 'create transfers',
+      poa.canUpdateDocuments && 'update documents'
+    ].filter(Boolean).join(', ');
+    const properties = poa.propertyIds.length === 0
+      ? 'all properties'
+      : poa.propertyIds.map(id => `#${id}`).join(', ');
+    return `May ${actions} for ${properties}`;
+  };
+
+  if (!isConnected) {
+    return (
+      <>
+        <Head>
+          <title>Power of Attorney - Land Registry</title>
+        </Head>
+        <div className="min-h-screen bg-gradient-to-br from-sky-50 to-white flex items-center justify-center">
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-md">
+            <div className="text-5xl mb-4">🔌</div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Connect Your Wallet</h2>
+            <p className="text-gray-600 mb-6">
+              Please connect your MetaMask wallet to grant or use a power of attorney
+            </p>
+            <button
+              onClick={connectWallet}
+              className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold"
+            >
+              Connect MetaMask
+            </button>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Power of Attorney - Land Registry</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-sky-50 to-white">
+        {/* Header */}
+        <header className="bg-white shadow-md">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex justify-between items-center">
+              <Link href="/" className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-primary-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-xl">🏠</span>
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-800">Land Registry</h1>
+                  <p className="text-xs text-gray-500">Power of Attorney</p>
+                </div>
+              </Link>
+
+              <div className="text-right">
+                <p className="text-xs text-gray-500">Connected Account</p>
+                <p className="text-sm font-mono font-semibold text-gray-700">
+                  {account.slice(0, 6)}...{account.slice(-4)}
+                </p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-8">
+          {/* Breadcrumb */}
+          <nav className="flex mb-8" aria-label="Breadcrumb">
+            <ol className="inline-flex items-center space-x-1 md:space-x-3">
+              <li>
+                <Link href="/" className="text-gray-500 hover:text-primary-600">Home</Link>
+              </li>
+              <li>
+                <span className="text-gray-400 mx-2">/</span>
+                <span className="text-gray-700 font-semibold">Power of Attorney</span>
+              </li>
+            </ol>
+          </nav>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Grant Power of Attorney */}
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-2">✍️ Grant Power of Attorney</h2>
+                <p className="text-sm text-gray-600 mb-6">
+                  Let a trusted person act on your properties. A registry officer must countersign the deed before it takes effect.
+                </p>
+
+                <form onSubmit={handleGrant} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Attorney Wallet *</label>
+                    <input
+                      type="text"
+                      value={formData.attorney}
+                      onChange={(e) => setFormData(prev => ({ ...prev, attorney: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm"
+                      placeholder="0x..."
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Property IDs</label>
+                    <input
+                      type="text"
+                      value={formData.propertyIds}
+                      onChange={(e) => setFormData(prev => ({ ...prev, propertyIds: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="e.g. 3, 7 (leave empty for all)"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Allowed Actions *</label>
+                    <div className="space-y-2">
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.canRequestVerification}
+                          onChange={(e) => setFormData(prev => ({ ...prev, canRequestVerification: e.target.checked }))}
+                        />
+                        <span>Request verification</span>
+                      </label>
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.canCreateTransfer}
+                          onChange={(e) => setFormData(prev => ({ ...prev, canCreateTransfer: e.target.checked }))}
+                        />
+                        <span>Create transfer requests</span>
+                      </label>
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.canUpdateDocuments}
+                          onChange={(e) => setFormData(prev => ({ ...prev, canUpdateDocuments: e.target.checked }))}
+                        />
+                        <span>Update documents</span>
+                      </label>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Valid Until *</label>
+                    <input
+                      type="date"
+                      value={formData.expiryDate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, expiryDate: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">POA Deed Hash *</label>
+                    <input
+                      type="text"
+                      value={formData.documentHash}
+                      onChange={(e) => setFormData(prev => ({ ...prev, documentHash: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="IPFS hash of the registered POA deed"
+                      required
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full py-3 bg-sky-600 text-white rounded-lg hover:bg-sky-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? '⏳ Registering...' : 'Grant Power of Attorney'}
+                  </button>
+                </form>
+              </div>
+            </div>
+
+            <div className="lg:col-span-2 space-y-8">
+              {loading ? (
+                <div className="bg-white rounded-xl shadow-lg p-6 flex justify-center items-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                  <span className="ml-2 text-gray-600">Loading powers of attorney...</span>
+                </div>
+              ) : (
+                <>
+                  {/* Held by Me */}
+                  <div className="bg-white rounded-xl shadow-lg p-6">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4">Acting as Attorney</h2>
+                    {heldByMe.length === 0 ? (
+                      <p className="text-gray-500 text-center py-6">No one has granted you a power of attorney</p>
+                    ) : (
+                      <div className="space-y-4">
+                        {heldByMe.map((poa) => {
+                          const status = getStatus(poa);
+                          const form = getActionForm(poa);
+                          const isActive = status.label.startsWith('✅');
+                          return (
+                            <div key={poa.poaId} className="border border-gray-200 rounded-lg p-4">
+                              <div className="flex justify-between items-start mb-3">
+                                <div>
+                                  <h3 className="font-semibold text-gray-800">
+                                    POA #{poa.poaId} from <span className="font-mono">{poa.principal.slice(0, 6)}...{poa.principal.slice(-4)}</span>
+                                  </h3>
+                                  <p className="text-sm text-gray-600">{describeScope(poa)}</p>
+                                  <p className="text-xs text-gray-500">Valid until {formatDate(poa.expiryDate)}</p>
+                                </div>
+                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${status.className}`}>
+                                  {status.label}
+                                </span>
+                              </div>
+
+                              {isActive && (
+                                <div className="pt-3 border-t border-gray-100 space-y-2">
+                                  <div className="flex flex-col md:flex-row gap-2">
+                                    <select
+                                      value={form.type}
+                                      onChange={(e) => updateActionForm(poa, { type: e.target.value as AttorneyActionType })}
+                                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                    >
+                                      {poa.canRequestVerification && <option value="verification">Request Verification</option>}
+                                      {poa.canCreateTransfer && <option value="transfer">Create Transfer</option>}
+                                      {poa.canUpdateDocuments && <option value="document">Update Documents</option>}
+                                    </select>
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      value={form.propertyId}
+                                      onChange={(e) => updateActionForm(poa, { propertyId: e.target.value })}
+                                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                      placeholder="Property ID"
+                                    />
+                                    {form.type === 'transfer' && (
+                                      <input
+                                        type="text"
+                                        value={form.buyer}
+                                        onChange={(e) => updateActionForm(poa, { buyer: e.target.value })}
+                                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                                        placeholder="Buyer wallet (0x...)"
+                                      />
+                                    )}
+                                    {form.type === 'transfer' && (
+                                      <>
+                                        <input
+                                          type="number"
+                                          min="0"
+                                          step="any"
+                                          value={form.declaredValue}
+                                          onChange={(e) => updateActionForm(poa, { declaredValue: e.target.value })}
+                                          className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                          placeholder="Declared value (ETH)"
+                                        />
+                                        <select
+                                          value={form.buyerCategory}
+                                          onChange={(e) => updateActionForm(poa, { buyerCategory: e.target.value })}
+                                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                        >
+                                          <option value="">General buyer</option>
+                                          {STAMP_DUTY_BUYER_CATEGORIES.map((category) => (
+                                            <option key={category} value={category}>{category}</option>
+                                          ))}
+                                        </select>
+                                      </>
+                                    )}
+                                    {form.type !== 'verification' && (
+                                      <input
+                                        type="text"
+                                        value={form.documentHash}
+                                        onChange={(e) => updateActionForm(poa, { documentHash: e.target.value })}
+                                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                        placeholder={form.type === 'transfer' ? 'Sale deed hash' : 'New document hash'}
+                                      />
+                                    )}
+                                  </div>
+                                  <button
+                                    onClick={() => handleAct(poa)}
+                                    disabled={actingId === poa.poaId}
+                                    className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 transition font-semibold text-sm disabled:opacity-50"
+                                  >
+                                    {actingId === poa.poaId ? '⏳ Processing...' : 'Act on Behalf of Owner'}
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Granted by Me */}
+                  <div className="bg-white rounded-xl shadow-lg p-6">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4">Granted by Me</h2>
+                    {grantedByMe.length === 0 ? (
+                      <p className="text-gray-500 text-center py-6">You have not granted any power of attorney</p>
+                    ) : (
+                      <div className="space-y-4">
+                        {grantedByMe.map((poa) => {
+                          const status = getStatus(poa);
+                          return (
+                            <div key={poa.poaId} className="border border-gray-200 rounded-lg p-4 flex justify-between items-start">
+                              <div>
+                                <h3 className="font-semibold text-gray-800">
+                                  POA #{poa.poaId} to <span className="font-mono">{poa.attorney.slice(0, 6)}...{poa.attorney.slice(-4)}</span>
+                                </h3>
+                                <p className="text-sm text-gray-600">{describeScope(poa)}</p>
+                                <p className="text-xs text-gray-500">
+                                  Granted {formatDate(poa.grantedDate)} · Valid until {formatDate(poa.expiryDate)}
+                                </p>
+                                <p className="text-xs text-gray-500">Deed: <span className="font-mono">{poa.documentHash}</span></p>
+                              </div>
+                              <div className="flex flex-col items-end space-y-2">
+                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${status.className}`}>
+                                  {status.label}
+                                </span>
+                                {!poa.isRevoked && (
+                                  <button
+                                    onClick={() => handleRevoke(poa.poaId)}
+                                    disabled={actingId === poa.poaId}
+                                    className="px-3 py-1 border border-red-600 text-red-700 rounded-lg hover:bg-red-50 transition font-semibold text-xs disabled:opacity-50"
+                                  >
+                                    Revoke
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
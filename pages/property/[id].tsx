@@ -9,7 +9,8 @@ interface Property {
   propertyId: number;
   propertyAddress: string;
   district: string;
-  city: string;
+  tehsil: string;
+  village: string;
   state: string;
   area: number;
   currentOwner: string;
@@ -18,16 +19,62 @@ interface Property {
   isVerified: boolean;
   registrationDate: number;
   lastTransferDate: number;
+  isRetired: boolean;
+  parentPropertyIds: number[];
+  childPropertyIds: number[];
 }
 
 interface Owner {
   ownerAddress: string;
-  name: string;
-  idDocument: string;
-  contactInfo: string;
+  idDocumentHash: string;
   isVerified: boolean;
 }
 
+interface CoOwner {
+  ownerAddress: string;
+  isRegistered: boolean;
+  sharePercentage: number;
+}
+
+interface Encumbrance {
+  encumbranceId: number;
+  lender: string;
+  encumbranceType: string;
+  amount: number;
+  createdDate: number;
+  isActive: boolean;
+  releasedDate: number;
+  coSigningOfficerId: string;
+  isPending: boolean;
+}
+
+interface LegalHold {
+  holdId: number;
+  authority: string;
+  caseReference: string;
+  documentHash: string;
+  placedDate: number;
+  expiryDate: number;
+}
+
+interface Lease {
+  leaseId: number;
+  lessee: string;
+  startDate: number;
+  endDate: number;
+  monthlyRent: number;
+  officerEmployeeId: string;
+}
+
+interface AttorneyAction {
+  poaId: number;
+  principal: string;
+  attorney: string;
+  action: string;
+  referenceId: number;
+  actionDate: number;
+}
+
 interface TransferRequest {
   requestId: number;
   propertyId: number;
@@ -37,6 +84,9 @@ interface TransferRequest {
   isApproved: boolean;
   isCompleted: boolean;
   transferDocumentHash: string;
+  isShareTransfer: boolean;
+  sharePercentage: number;
+  isSuccession: boolean;
 }
 
 export default function PropertyDetails() {
@@ -46,6 +96,12 @@ export default function PropertyDetails() {
   const [isConnected, setIsConnected] = useState(false);
   const [property, setProperty] = useState<Property | null>(null);
   const [owner, setOwner] = useState<Owner | null>(null);
+  const [coOwners, setCoOwners] = useState<CoOwner[]>([]);
+  const [encumbrances, setEncumbrances] = useState<Encumbrance[]>([]);
+  const [consentingId, setConsentingId] = useState<number | null>(null);
+  const [legalHolds, setLegalHolds] = useState<LegalHold[]>([]);
+  const [attorneyActions, setAttorneyActions] = useState<AttorneyAction[]>([]);
+  const [activeLeases, setActiveLeases] = useState<Lease[]>([]);
   const [transferHistory, setTransferHistory] = useState<TransferRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -106,7 +162,8 @@ export default function PropertyDetails() {
         propertyId: propertyId,
         propertyAddress: details.propertyAddress,
         district: details.district,
-        city: details.city,
+        tehsil: details.tehsil,
+        village: details.village,
         state: details.state,
         area: Number(details.area),
         currentOwner: details.currentOwner,
@@ -114,23 +171,97 @@ export default function PropertyDetails() {
         isRegistered: details.isRegistered,
         isVerified: details.isVerified,
         registrationDate: Number(details.registrationDate),
-        lastTransferDate: Number(details.lastTransferDate)
+        lastTransferDate: Number(details.lastTransferDate),
+        isRetired: details.isRetired,
+        parentPropertyIds: details.parentPropertyIds.map((p: bigint) => Number(p)),
+        childPropertyIds: details.childPropertyIds.map((c: bigint) => Number(c))
       };
 
       setProperty(propertyData);
 
       // Load owner details
       const ownerDetails = await contract.getOwnerDetails(details.currentOwner);
-      if (ownerDetails.name) {
+      if (ownerDetails.ownerAddress !== ethers.ZeroAddress) {
         setOwner({
           ownerAddress: ownerDetails.ownerAddress,
-          name: ownerDetails.name,
-          idDocument: ownerDetails.idDocument,
-          contactInfo: ownerDetails.contactInfo,
+          idDocumentHash: ownerDetails.idDocumentHash,
           isVerified: ownerDetails.isVerified
         });
       }
 
+      // Load co-ownership breakdown
+      const coOwnerEntries = await contract.getPropertyCoOwners(propertyId);
+      const coOwnerData = await Promise.all(coOwnerEntries.map(async (entry: any) => {
+        const coOwnerDetails = await contract.getOwnerDetails(entry.ownerAddress);
+        return {
+          ownerAddress: entry.ownerAddress,
+          isRegistered: coOwnerDetails.ownerAddress !== ethers.ZeroAddress,
+          sharePercentage: Number(entry.sharePercentage)
+        };
+      }));
+      setCoOwners(coOwnerData);
+
+      // Load encumbrances (mortgages, liens)
+      const encumbranceIds = await contract.getPropertyEncumbrances(propertyId);
+      const encumbranceData = await Promise.all(encumbranceIds.map(async (encumbranceId: bigint) => {
+        const details = await contract.getEncumbranceDetails(encumbranceId);
+        return {
+          encumbranceId: Number(encumbranceId),
+          lender: details.lender,
+          encumbranceType: details.encumbranceType,
+          amount: Number(details.amount),
+          createdDate: Number(details.createdDate),
+          isActive: details.isActive,
+          releasedDate: Number(details.releasedDate),
+          coSigningOfficerId: details.coSigningOfficerId,
+          isPending: details.isPending
+        };
+      }));
+      setEncumbrances(encumbranceData);
+
+      // Load legal holds still in force (active and not yet expired)
+      const holdIds = await contract.getPropertyLegalHolds(propertyId);
+      const holdData = await Promise.all(holdIds.map(async (holdId: bigint) => {
+        const details = await contract.getLegalHoldDetails(holdId);
+        return {
+          holdId: Number(holdId),
+          authority: details.authority,
+          caseReference: details.caseReference,
+          documentHash: details.documentHash,
+          placedDate: Number(details.placedDate),
+          expiryDate: Number(details.expiryDate),
+          isActive: details.isActive
+        };
+      }));
+      const now = Math.floor(Date.now() / 1000);
+      setLegalHolds(holdData.filter(h => h.isActive && (h.expiryDate === 0 || h.expiryDate > now)));
+
+      // Load registered leases whose term is running
+      const leaseIds = await contract.getActivePropertyLeases(propertyId);
+      const leaseData = await Promise.all(leaseIds.map(async (leaseId: bigint) => {
+        const lease = await contract.getLeaseDetails(leaseId);
+        return {
+          leaseId: Number(leaseId),
+          lessee: lease.lessee,
+          startDate: Number(lease.startDate),
+          endDate: Number(lease.endDate),
+          monthlyRent: Number(lease.monthlyRent),
+          officerEmployeeId: lease.officerEmployeeId
+        };
+      }));
+      setActiveLeases(leaseData);
+
+      // Load actions taken by power-of-attorney holders
+      const actions = await contract.getPropertyAttorneyActions(propertyId);
+      setAttorneyActions(actions.map((entry: any) => ({
+        poaId: Number(entry.poaId),
+        principal: entry.principal,
+        attorney: entry.attorney,
+        action: entry.action,
+        referenceId: Number(entry.referenceId),
+        actionDate: Number(entry.actionDate)
+      })));
+
       // Load transfer history
       const transferIds = await contract.getPropertyTransferHistory(propertyId);
       const transferPromises = transferIds.map(async (transferId: bigint) => {
@@ -143,7 +274,10 @@ export default function PropertyDetails() {
           requestDate: Number(transferDetails.requestDate),
           isApproved: transferDetails.isApproved,
           isCompleted: transferDetails.isCompleted,
-          transferDocumentHash: transferDetails.transferDocumentHash
+          transferDocumentHash: transferDetails.transferDocumentHash,
+          isShareTransfer: transferDetails.isShareTransfer,
+          sharePercentage: Number(transferDetails.sharePercentage),
+          isSuccession: transferDetails.isSuccession
         };
       });
 
@@ -158,6 +292,27 @@ export default function PropertyDetails() {
     }
   };
 
+  // A lender's entry only takes effect once the owner consents (or an officer co-signs)
+  const handleConsentToEncumbrance = async (encumbranceId: number) => {
+    if (!confirm('Consent to this encumbrance? Transfers, partition and merge will need the lender\'s consent until it is released.')) return;
+
+    setConsentingId(encumbranceId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.consentToEncumbrance(encumbranceId);
+      await tx.wait();
+      alert('✅ Encumbrance is now active');
+      await loadPropertyDetails();
+    } catch (error: any) {
+      console.error('Error consenting to encumbrance:', error);
+      alert('❌ Failed to consent: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setConsentingId(null);
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleString();
   };
@@ -258,6 +413,46 @@ export default function PropertyDetails() {
             </ol>
           </nav>
 
+          {/* Retired Parcel Notice */}
+          {property.isRetired && (
+            <div className="bg-gray-100 border-l-4 border-gray-500 rounded-lg p-4 mb-8">
+              <p className="font-semibold text-gray-800">📁 Retired Record</p>
+              <p className="text-sm text-gray-600">
+                This parcel has been {property.childPropertyIds.length === 1 ? 'merged into another record' : 'partitioned'} and is kept for audit only. See the parcel lineage below for current ownership.
+              </p>
+            </div>
+          )}
+
+          {/* Legal Hold Notice */}
+          {legalHolds.length > 0 && (
+            <div className="bg-red-50 border-l-4 border-red-600 rounded-lg p-4 mb-8">
+              <p className="font-semibold text-red-800">⚖️ Under Legal Hold</p>
+              <p className="text-sm text-red-700 mb-2">
+                A court order has frozen this property. It cannot be transferred, partitioned or merged until the hold is lifted.
+              </p>
+              <ul className="space-y-1">
+                {legalHolds.map((hold) => (
+                  <li key={hold.holdId} className="text-sm text-red-700">
+                    <span className="font-semibold">{hold.caseReference}</span>
+                    {' '}· placed {formatDate(hold.placedDate)}
+                    {hold.expiryDate > 0 ? ` · expires ${formatDate(hold.expiryDate)}` : ''}
+                    {' '}· order <span className="font-mono">{hold.documentHash}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Active Encumbrance Notice */}
+          {encumbrances.some(e => e.isActive) && (
+            <div className="bg-amber-50 border-l-4 border-amber-500 rounded-lg p-4 mb-8">
+              <p className="font-semibold text-amber-800">🏦 Encumbered Property</p>
+              <p className="text-sm text-amber-700">
+                This property has an active mortgage or lien. Transfers need the lender&apos;s consent until it is released.
+              </p>
+            </div>
+          )}
+
           {/* Property Header */}
           <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
             <div className="flex justify-between items-start mb-6">
@@ -267,7 +462,7 @@ export default function PropertyDetails() {
                 </h1>
                 <p className="text-xl text-gray-700 mb-2">{property.propertyAddress}</p>
                 <p className="text-gray-600">
-                  {property.district && `${property.district}, `}{property.city}, {property.state}
+                  {[property.village, property.tehsil, property.district, property.state].filter(Boolean).join(', ')}
                 </p>
               </div>
               <div className="text-right">
@@ -310,13 +505,14 @@ export default function PropertyDetails() {
             <div className="lg:col-span-2 space-y-8">
               {/* Current Owner */}
               <div className="bg-white rounded-xl shadow-lg p-6">
-                <h2 className="text-xl font-bold text-gray-800 mb-4">Current Owner</h2>
+                <h2 className="text-xl font-bold text-gray-800 mb-4">
+                  {coOwners.length > 1 ? 'Primary Owner' : 'Current Owner'}
+                </h2>
                 {owner ? (
                   <div className="space-y-3">
                     <div className="flex justify-between items-start">
                       <div>
-                        <p className="font-semibold text-lg">{owner.name}</p>
-                        <p className="text-gray-600">{owner.contactInfo}</p>
+                        <p className="font-semibold text-lg">Registered owner</p>
                         <p className="font-mono text-sm text-gray-500 break-all">{owner.ownerAddress}</p>
                       </div>
                       <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
@@ -336,6 +532,175 @@ export default function PropertyDetails() {
                 )}
               </div>
 
+              {/* Co-Ownership */}
+              {coOwners.length > 1 && (
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-4">👥 Co-Ownership</h2>
+                  <div className="space-y-3">
+                    {coOwners.map((coOwner) => (
+                      <div key={coOwner.ownerAddress}>
+                        <div className="flex justify-between items-center mb-1">
+                          <div>
+                            <p className="font-semibold">
+                              {coOwner.isRegistered ? `${coOwner.ownerAddress.slice(0, 6)}...${coOwner.ownerAddress.slice(-4)}` : 'Unregistered owner'}
+                              {isConnected && account.toLowerCase() === coOwner.ownerAddress.toLowerCase() && (
+                                <span className="ml-2 text-xs text-purple-600">(You)</span>
+                              )}
+                            </p>
+                            <p className="font-mono text-xs text-gray-500 break-all">{coOwner.ownerAddress}</p>
+                          </div>
+                          <span className="text-lg font-bold text-purple-600">{coOwner.sharePercentage}%</span>
+                        </div>
+                        <div className="w-full bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-purple-600 h-2 rounded-full"
+                            style={{ width: `${coOwner.sharePercentage}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Parcel Lineage */}
+              {(property.parentPropertyIds.length > 0 || property.childPropertyIds.length > 0) && (
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-4">🧬 Parcel Lineage</h2>
+                  {property.parentPropertyIds.length > 0 && (
+                    <div className="mb-4">
+                      <p className="text-sm text-gray-500 mb-2">
+                        {property.parentPropertyIds.length > 1 ? 'Merged from' : 'Partitioned from'}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {property.parentPropertyIds.map((parentId) => (
+                          <Link
+                            key={parentId}
+                            href={`/property/${parentId}`}
+                            className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm font-semibold hover:bg-gray-200"
+                          >
+                            Property #{parentId}
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {property.childPropertyIds.length > 0 && (
+                    <div>
+                      <p className="text-sm text-gray-500 mb-2">
+                        {property.childPropertyIds.length === 1 ? 'Merged into' : 'Partitioned into'}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {property.childPropertyIds.map((childId) => (
+                          <Link
+                            key={childId}
+                            href={`/property/${childId}`}
+                            className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-semibold hover:bg-blue-200"
+                          >
+                            Property #{childId}
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Encumbrances */}
+              {encumbrances.length > 0 && (
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-4">🏦 Encumbrances</h2>
+                  <div className="space-y-3">
+                    {encumbrances.map((encumbrance) => (
+                      <div key={encumbrance.encumbranceId} className="border border-gray-200 rounded-lg p-4">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <p className="font-semibold">
+                              {encumbrance.encumbranceType} · ₹{encumbrance.amount.toLocaleString('en-IN')}
+                            </p>
+                            <p className="text-sm text-gray-500">Lender: <span className="font-mono">{formatAddress(encumbrance.lender)}</span></p>
+                            <p className="text-sm text-gray-500">Registered {formatDate(encumbrance.createdDate)}</p>
+                          </div>
+                          <div className="flex flex-col items-end space-y-1">
+                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                              encumbrance.isActive
+                                ? 'bg-amber-100 text-amber-800'
+                                : encumbrance.isPending
+                                  ? 'bg-blue-100 text-blue-800'
+                                  : 'bg-gray-100 text-gray-600'
+                            }`}>
+                              {encumbrance.isActive
+                                ? '🔒 Active'
+                                : encumbrance.isPending
+                                  ? '⏳ Awaiting owner consent'
+                                  : `Released ${formatDate(encumbrance.releasedDate)}`}
+                            </span>
+                            {encumbrance.isPending && account.toLowerCase() === property.currentOwner.toLowerCase() && (
+                              <button
+                                onClick={() => handleConsentToEncumbrance(encumbrance.encumbranceId)}
+                                disabled={consentingId === encumbrance.encumbranceId}
+                                className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition font-semibold text-xs disabled:opacity-50"
+                              >
+                                {consentingId === encumbrance.encumbranceId ? '⏳ Processing...' : 'Consent'}
+                              </button>
+                            )}
+                            {encumbrance.coSigningOfficerId && (
+                              <span className="px-2 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                                ✅ Co-signed by {encumbrance.coSigningOfficerId}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {activeLeases.length > 0 && (
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-4">🔑 Active Leases</h2>
+                  <div className="space-y-3">
+                    {activeLeases.map((lease) => (
+                      <div key={lease.leaseId} className="border border-gray-200 rounded-lg p-4 flex justify-between items-start">
+                        <div>
+                          <p className="font-semibold text-gray-800">
+                            Lease #{lease.leaseId} · ₹{lease.monthlyRent.toLocaleString('en-IN')}/month
+                          </p>
+                          <p className="text-sm text-gray-500">Lessee: <span className="font-mono">{formatAddress(lease.lessee)}</span></p>
+                          <p className="text-sm text-gray-500">{formatDate(lease.startDate)} – {formatDate(lease.endDate)}</p>
+                        </div>
+                        <span className="px-2 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                          ✅ Registered by {lease.officerEmployeeId}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {attorneyActions.length > 0 && (
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-4">✍️ Actions Under Power of Attorney</h2>
+                  <div className="space-y-3">
+                    {attorneyActions.map((entry, index) => (
+                      <div key={index} className="border border-gray-200 rounded-lg p-3 text-sm">
+                        <div className="flex justify-between">
+                          <p className="font-semibold text-gray-800">
+                            {entry.action}{entry.referenceId > 0 ? ` #${entry.referenceId}` : ''}
+                          </p>
+                          <p className="text-gray-500">{formatDate(entry.actionDate)}</p>
+                        </div>
+                        <p className="text-gray-600">
+                          By <span className="font-mono">{formatAddress(entry.attorney)}</span> on behalf of{' '}
+                          <span className="font-mono">{formatAddress(entry.principal)}</span> (POA #{entry.poaId})
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Transfer History */}
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <h2 className="text-xl font-bold text-gray-800 mb-4">Transfer History</h2>
@@ -345,7 +710,13 @@ export default function PropertyDetails() {
                       <div key={transfer.requestId} className="border border-gray-200 rounded-lg p-4">
                         <div className="flex justify-between items-start mb-3">
                           <div>
-                            <h3 className="font-semibold">Transfer #{transfer.requestId}</h3>
+                            <h3 className="font-semibold">
+                              {transfer.isSuccession
+                                ? `⚱️ Succession #${transfer.requestId} (${transfer.sharePercentage}% to heir)`
+                                : transfer.isShareTransfer
+                                ? `Share Transfer #${transfer.requestId} (${transfer.sharePercentage}%)`
+                                : `Transfer #${transfer.requestId}`}
+                            </h3>
                             <p className="text-sm text-gray-500">{formatDate(transfer.requestDate)}</p>
                           </div>
                           <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
@@ -360,17 +731,17 @@ export default function PropertyDetails() {
                         </div>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                           <div>
-                            <p className="text-gray-500">From</p>
+                            <p className="text-gray-500">{transfer.isSuccession ? 'Deceased Owner' : 'From'}</p>
                             <p className="font-mono break-all">{formatAddress(transfer.fromOwner)}</p>
                           </div>
                           <div>
-                            <p className="text-gray-500">To</p>
+                            <p className="text-gray-500">{transfer.isSuccession ? 'Heir' : 'To'}</p>
                             <p className="font-mono break-all">{formatAddress(transfer.toOwner)}</p>
                           </div>
                         </div>
                         {transfer.transferDocumentHash && (
                           <div className="mt-3 pt-3 border-t border-gray-100">
-                            <p className="text-gray-500 text-sm">Document Hash</p>
+                            <p className="text-gray-500 text-sm">{transfer.isSuccession ? 'Death Certificate Hash' : 'Document Hash'}</p>
                             <p className="font-mono text-xs text-gray-600 break-all">{transfer.transferDocumentHash}</p>
                           </div>
                         )}
@@ -417,7 +788,7 @@ export default function PropertyDetails() {
                     🔍 Search Other Properties
                   </Link>
                   
-                  {isConnected && account.toLowerCase() === property.currentOwner.toLowerCase() && (
+                  {isConnected && coOwners.some(c => c.ownerAddress.toLowerCase() === account.toLowerCase()) && (
                     <Link
                       href="/my-properties"
                       className="w-full block text-center px-4 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition font-semibold"
@@ -425,6 +796,15 @@ export default function PropertyDetails() {
                       📋 My Properties
                     </Link>
                   )}
+
+                  {isConnected && property.isVerified && !property.isRetired && (
+                    <Link
+                      href={`/succession?propertyId=${property.propertyId}`}
+                      className="w-full block text-center px-4 py-3 border border-indigo-600 text-indigo-600 rounded-lg hover:bg-indigo-50 transition font-semibold"
+                    >
+                      📜 File Succession Claim
+                    </Link>
+                  )}
                   
                   <Link
                     href="/"
@@ -3,7 +3,8 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { ethers } from 'ethers';
-import { getContract, getSigner, getProvider } from '../utils/contract';
+import { getContract, getSigner, getProvider, hashIdDocument } from '../utils/contract';
+import { storeOwnerPii, readOwnerPii, getVaultAccessLog, OwnerPii, VaultAccessLogEntry } from '../utils/piiVault';
 import { getAllStates, getDistrictsByState } from '../data/indiaData';
 
 // Utility function to ensure Ganache Local network
@@ -56,6 +57,29 @@ const ensureGanacheNetwork = async (provider: ethers.BrowserProvider): Promise<v
   }
 };
 
+interface ProfileChange {
+  requestId: number;
+  newPiiHash: string;
+  newIdDocumentHash: string;
+  supportingDocumentHash: string;
+  requestDate: number;
+}
+
+interface ProfileRecord {
+  idDocumentHash: string;
+  piiHash: string;
+  homeState: string;
+  homeDistrict: string;
+  changedDate: number;
+  approvedByEmployeeId: string;
+}
+
+interface PiiGrant {
+  grantee: string;
+  granteeLabel: string;
+  grantedDate: number;
+}
+
 // Component for ID-based login
 function IdLoginForm({ onAccountFound }: { onAccountFound: (walletAddress: string) => void }) {
   const [idDocument, setIdDocument] = useState('');
@@ -89,7 +113,7 @@ function IdLoginForm({ onAccountFound }: { onAccountFound: (walletAddress: strin
       const contract = getContract(provider);
 
       // Search for properties by owner ID document
-      const result = await contract.searchPropertiesByOwnerIdDocument(idDocument);
+      const result = await contract.searchPropertiesByOwnerIdDocument(hashIdDocument(idDocument));
 
       if (result[0].length === 0) {
         setMessage('❌ No account found with this ID document number. Please register as a new user.');
@@ -101,18 +125,16 @@ function IdLoginForm({ onAccountFound }: { onAccountFound: (walletAddress: strin
       const ownerAddress = ethers.getAddress(`0x${result[0][0].toString(16).padStart(40, '0')}`);
       const ownerDetails = await contract.getOwnerDetails(ownerAddress);
 
-      if (ownerDetails.name) {
+      if (ownerDetails.ownerAddress !== ethers.ZeroAddress) {
         setFoundOwner({
           address: ownerAddress,
-          name: ownerDetails.name,
-          idDocument: ownerDetails.idDocument,
-          contactInfo: ownerDetails.contactInfo,
+          idDocumentHash: ownerDetails.idDocumentHash,
           homeState: ownerDetails.homeState,
           homeDistrict: ownerDetails.homeDistrict,
           isVerified: ownerDetails.isVerified
         });
 
-        setMessage(`✅ Account found! Owner: ${ownerDetails.name}. Please connect your wallet with address ${ownerAddress.slice(0, 8)}...${ownerAddress.slice(-6)} to continue.`);
+        setMessage(`✅ Account found! Please connect your wallet with address ${ownerAddress.slice(0, 8)}...${ownerAddress.slice(-6)} to continue.`);
         onAccountFound(ownerAddress);
       } else {
         setMessage('❌ Account data could not be retrieved. Please try again.');
@@ -193,8 +215,6 @@ function IdLoginForm({ onAccountFound }: { onAccountFound: (walletAddress: strin
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <h4 className="font-semibold text-blue-800 mb-3">Account Found!</h4>
           <div className="space-y-2 text-sm text-blue-700">
-            <p><strong>Name:</strong> {foundOwner.name}</p>
-            <p><strong>Contact:</strong> {foundOwner.contactInfo}</p>
             <p><strong>Location:</strong> {foundOwner.homeDistrict}, {foundOwner.homeState}</p>
             <p><strong>Wallet Address:</strong>
               <span className="font-mono text-xs ml-1">
@@ -251,6 +271,18 @@ export default function RegisterOwner() {
   const [checkingUser, setCheckingUser] = useState(false);
   const [expectedWalletAddress, setExpectedWalletAddress] = useState<string>('');
 
+  // Profile edit screen for existing owners
+  const [showEditProfile, setShowEditProfile] = useState(false);
+  const [contactForm, setContactForm] = useState({ contactInfo: '', homeState: '', homeDistrict: '' });
+  const [identityForm, setIdentityForm] = useState({ name: '', idDocument: '', supportingDocumentHash: '' });
+  // Name and contact details from the PII vault, loaded once the owner signs a read request
+  const [myPii, setMyPii] = useState<OwnerPii | null>(null);
+  const [pendingProfileChange, setPendingProfileChange] = useState<ProfileChange | null>(null);
+  const [profileHistory, setProfileHistory] = useState<ProfileRecord[]>([]);
+  const [piiGrants, setPiiGrants] = useState<PiiGrant[]>([]);
+  const [grantForm, setGrantForm] = useState({ grantee: '', granteeLabel: '' });
+  const [accessLog, setAccessLog] = useState<VaultAccessLogEntry[] | null>(null);
+
   useEffect(() => {
     checkWalletConnection();
 
@@ -394,24 +426,27 @@ export default function RegisterOwner() {
 
       // Check if the owner details indicate a registered user
       // The contract returns default values if user is not registered
-      if (ownerDetails && ownerDetails.name && ownerDetails.name.trim() !== '' && ownerDetails.name !== '0x0000000000000000000000000000000000000000') {
+      if (ownerDetails && ownerDetails.ownerAddress !== ethers.ZeroAddress) {
         // User is already registered
         console.log('User is already registered');
         setIsExistingUser(true);
         setExistingUserData({
-          name: ownerDetails.name,
-          idDocument: ownerDetails.idDocument,
-          contactInfo: ownerDetails.contactInfo,
+          idDocumentHash: ownerDetails.idDocumentHash,
+          piiHash: ownerDetails.piiHash,
           homeState: ownerDetails.homeState,
           homeDistrict: ownerDetails.homeDistrict,
           isVerified: ownerDetails.isVerified
         });
+        setContactForm({
+          contactInfo: '',
+          homeState: ownerDetails.homeState,
+          homeDistrict: ownerDetails.homeDistrict
+        });
+        setIdentityForm({ name: '', idDocument: '', supportingDocumentHash: '' });
+        setMyPii(null);
+        await loadProfileChanges(contract);
 
-        // Auto-redirect to dashboard after 2 seconds
-        setMessage('✅ Welcome back! You are already registered. Redirecting to dashboard...');
-        setTimeout(() => {
-          router.push('/dashboard');
-        }, 2000);
+        setMessage('✅ Welcome back! You are already registered.');
       } else {
         // User is not registered
         console.log('User is not registered - showing registration form');
@@ -438,6 +473,278 @@ export default function RegisterOwner() {
     }
   };
 
+  const loadProfileChanges = async (contract: ethers.Contract) => {
+    const pendingId = Number(await contract.pendingProfileChanges(account));
+    if (pendingId > 0) {
+      const request = await contract.getProfileChangeRequestDetails(pendingId);
+      setPendingProfileChange({
+        requestId: pendingId,
+        newPiiHash: request.newPiiHash,
+        newIdDocumentHash: request.newIdDocumentHash,
+        supportingDocumentHash: request.supportingDocumentHash,
+        requestDate: Number(request.requestDate)
+      });
+    } else {
+      setPendingProfileChange(null);
+    }
+
+    const history = await contract.getOwnerProfileHistory(account);
+    setProfileHistory(history.map((record: any) => ({
+      idDocumentHash: record.idDocumentHash,
+      piiHash: record.piiHash,
+      homeState: record.homeState,
+      homeDistrict: record.homeDistrict,
+      changedDate: Number(record.changedDate),
+      approvedByEmployeeId: record.approvedByEmployeeId
+    })));
+
+    const grants = await contract.getPiiAccessGrants(account);
+    setPiiGrants(grants.map((grant: any) => ({
+      grantee: grant.grantee,
+      granteeLabel: grant.granteeLabel,
+      grantedDate: Number(grant.grantedDate)
+    })));
+  };
+
+  const handleUpdateContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage('');
+
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      // A blank contact field keeps the current vault record; otherwise a new version keeps the current name
+      let piiHash = existingUserData.piiHash;
+      let pii = myPii;
+      if (contactForm.contactInfo.trim()) {
+        setMessage('🔒 Storing contact details in the PII vault...');
+        const current = myPii || await readOwnerPii(signer, account);
+        pii = { name: current.name, contactInfo: contactForm.contactInfo.trim() };
+        piiHash = await storeOwnerPii(signer, pii);
+      }
+
+      setMessage('📝 Updating contact details...');
+      const tx = await contract.updateOwnerContactInfo(
+        piiHash,
+        contactForm.homeState,
+        contactForm.homeDistrict
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setExistingUserData({
+        ...existingUserData,
+        piiHash,
+        homeState: contactForm.homeState,
+        homeDistrict: contactForm.homeDistrict
+      });
+      setMyPii(pii);
+      setContactForm(prev => ({ ...prev, contactInfo: '' }));
+      await loadProfileChanges(contract);
+      setMessage('✅ Contact details updated. Your previous details are kept in your profile history.');
+    } catch (error: any) {
+      console.error('Error updating contact details:', error);
+
+      let errorMessage = 'Failed to update contact details';
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGrantPiiAccess = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage('');
+
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      // Officers are granted through the wallet bound to their employee ID
+      let granteeAddress = grantForm.grantee.trim();
+      let granteeLabel = grantForm.granteeLabel.trim();
+      if (!ethers.isAddress(granteeAddress)) {
+        const officer = await contract.getGovernmentOfficerDetails(granteeAddress);
+        if (!officer.employeeId) {
+          setMessage('❌ Enter a wallet address or a government officer employee ID');
+          return;
+        }
+        granteeAddress = officer.signerAddress;
+        granteeLabel = granteeLabel || `${officer.employeeId} - ${officer.name}`;
+      }
+      if (!granteeLabel) {
+        setMessage('❌ Please describe who this wallet belongs to');
+        return;
+      }
+
+      setMessage('📝 Granting access...');
+      const tx = await contract.grantPiiAccess(granteeAddress, granteeLabel);
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      setGrantForm({ grantee: '', granteeLabel: '' });
+      await loadProfileChanges(contract);
+      setMessage(`✅ ${granteeLabel} can now read your contact details. Every read is logged.`);
+    } catch (error: any) {
+      console.error('Error granting access:', error);
+
+      let errorMessage = 'Failed to grant access';
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevokePiiAccess = async (grant: PiiGrant) => {
+    setLoading(true);
+    setMessage('');
+
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      setMessage('📝 Revoking access...');
+      const tx = await contract.revokePiiAccess(grant.grantee);
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      await loadProfileChanges(contract);
+      setMessage(`✅ ${grant.granteeLabel} can no longer read your contact details.`);
+    } catch (error: any) {
+      console.error('Error revoking access:', error);
+
+      let errorMessage = 'Failed to revoke access';
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadAccessLog = async () => {
+    try {
+      setMessage('🔒 Loading your access log from the PII vault...');
+      const signer = await getSigner();
+      setAccessLog(await getVaultAccessLog(signer));
+      setMessage('');
+    } catch (error: any) {
+      console.error('Error loading access log:', error);
+      setMessage(`❌ Error: ${error.code === 'ACTION_REJECTED' ? 'Signature was rejected' : error.message}`);
+    }
+  };
+
+  const handleShowPii = async () => {
+    try {
+      setMessage('🔒 Loading your name and contact details from the PII vault...');
+      const signer = await getSigner();
+      setMyPii(await readOwnerPii(signer, account));
+      setMessage('');
+    } catch (error: any) {
+      console.error('Error reading PII vault:', error);
+      setMessage(`❌ Error: ${error.code === 'ACTION_REJECTED' ? 'Signature was rejected' : error.message}`);
+    }
+  };
+
+  const handleRequestProfileChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // A blank ID field keeps the current document; only its salted hash is ever submitted
+    const newIdDocumentHash = identityForm.idDocument.trim()
+      ? hashIdDocument(identityForm.idDocument)
+      : existingUserData?.idDocumentHash;
+
+    // A blank name keeps the current one
+    const newName = identityForm.name.trim();
+    if ((!newName || newName === myPii?.name) && newIdDocumentHash === existingUserData?.idDocumentHash) {
+      setMessage('❌ Change your name or ID document number before submitting');
+      return;
+    }
+    if (!identityForm.supportingDocumentHash.trim()) {
+      setMessage('❌ Please provide the supporting document hash');
+      return;
+    }
+
+    setLoading(true);
+    setMessage('');
+
+    try {
+      setMessage('🔄 Connecting to blockchain...');
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      // A new name goes into a new vault record; the officer approves the switch to its hash
+      let newPiiHash = existingUserData.piiHash;
+      if (newName) {
+        const current = myPii || await readOwnerPii(signer, account);
+        if (newName !== current.name) {
+          setMessage('🔒 Storing the new name in the PII vault...');
+          newPiiHash = await storeOwnerPii(signer, { name: newName, contactInfo: current.contactInfo });
+        }
+      }
+
+      setMessage('📝 Submitting change request for officer approval...');
+      const tx = await contract.requestProfileChange(
+        newPiiHash,
+        newIdDocumentHash,
+        identityForm.supportingDocumentHash.trim()
+      );
+
+      setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+      await tx.wait();
+
+      await loadProfileChanges(contract);
+      setIdentityForm({ name: '', idDocument: '', supportingDocumentHash: '' });
+      setMessage('✅ Change request submitted. A government officer for your home district will review it.');
+    } catch (error: any) {
+      console.error('Error requesting profile change:', error);
+
+      let errorMessage = 'Failed to submit change request';
+      if (error.code === 'ACTION_REJECTED' || error.message?.includes('user rejected')) {
+        errorMessage = 'Transaction was rejected';
+      } else if (error.reason) {
+        errorMessage = error.reason;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      setMessage(`❌ Error: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -455,8 +762,8 @@ export default function RegisterOwner() {
         return;
       }
 
-      // Verify ID document matches
-      if (existingUserData.idDocument.toLowerCase() !== loginIdDocument.toLowerCase()) {
+      // Verify ID document matches the stored hash
+      if (hashIdDocument(loginIdDocument) !== existingUserData.idDocumentHash) {
         setMessage('❌ ID document number does not match our records');
         return;
       }
@@ -491,13 +798,16 @@ export default function RegisterOwner() {
       const contract = getContract(signer);
       console.log('Contract instance created');
 
+      // The name and contact details go to the off-chain vault; only the hash it returns is registered
+      setMessage('🔒 Storing your name and contact details in the PII vault...');
+      const piiHash = await storeOwnerPii(signer, { name: formData.name, contactInfo: formData.contactInfo });
+
       setMessage('📝 Submitting registration...');
-      console.log('Calling registerOwner with:', formData);
+      console.log('Calling registerOwner for:', await signer.getAddress());
 
       const tx = await contract.registerOwner(
-        formData.name,
-        formData.idDocument,
-        formData.contactInfo,
+        hashIdDocument(formData.idDocument),
+        piiHash,
         formData.homeState,
         formData.homeDistrict
       );
@@ -609,6 +919,13 @@ export default function RegisterOwner() {
                 </div>
 
                 <IdLoginForm onAccountFound={setExpectedWalletAddress} />
+
+                <p className="text-sm text-gray-600 text-center mt-6">
+                  Lost access to that wallet?{' '}
+                  <Link href="/wallet-recovery" className="text-primary-600 hover:underline font-semibold">
+                    Recover your properties to a new wallet
+                  </Link>
+                </p>
               </div>
             </div>
           ) : checkingUser ? (
@@ -624,15 +941,26 @@ export default function RegisterOwner() {
               <div className="text-center mb-6">
                 <div className="text-5xl mb-4">👋</div>
                 <h2 className="text-2xl font-bold text-gray-800 mb-2">Welcome Back!</h2>
-                <p className="text-gray-600">We found your account. You can login or go directly to dashboard.</p>
+                <p className="text-gray-600">We found your account. You can update your profile, login or go directly to dashboard.</p>
               </div>
 
               {existingUserData && (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
                   <h3 className="font-semibold text-green-800 mb-2">Your Account Details:</h3>
                   <div className="space-y-1 text-sm text-green-700">
-                    <p><strong>Name:</strong> {existingUserData.name}</p>
-                    <p><strong>Contact:</strong> {existingUserData.contactInfo}</p>
+                    {myPii ? (
+                      <>
+                        <p><strong>Name:</strong> {myPii.name}</p>
+                        <p><strong>Contact:</strong> {myPii.contactInfo}</p>
+                      </>
+                    ) : (
+                      <p>
+                        <strong>Name and contact:</strong> 🔒 Stored in the PII vault{' '}
+                        <button type="button" onClick={handleShowPii} className="text-primary-600 hover:underline">
+                          🔓 Show name and contact details
+                        </button>
+                      </p>
+                    )}
                     <p><strong>Location:</strong> {existingUserData.homeDistrict}, {existingUserData.homeState}</p>
                     <p><strong>Status:</strong>
                       <span className={`ml-2 px-2 py-1 rounded text-xs ${existingUserData.isVerified
@@ -646,7 +974,250 @@ export default function RegisterOwner() {
                 </div>
               )}
 
-              {!showLogin ? (
+              {showEditProfile ? (
+                <div className="space-y-8">
+                  {message && (
+                    <div className={`p-4 rounded-lg ${message.includes('✅') ? 'bg-green-50 text-green-800' : message.includes('❌') ? 'bg-red-50 text-red-800' : 'bg-blue-50 text-blue-800'}`}>
+                      {message}
+                    </div>
+                  )}
+
+                  {/* Self-service contact details */}
+                  <form onSubmit={handleUpdateContact} className="space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-800">Contact Details</h3>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">
+                        New Contact Information
+                      </label>
+                      <input
+                        type="text"
+                        value={contactForm.contactInfo}
+                        onChange={(e) => setContactForm({ ...contactForm, contactInfo: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="Email or Phone Number (leave blank to keep your current details)"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Stored encrypted in the PII vault; only its hash goes on the blockchain</p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-2">
+                          Home State *
+                        </label>
+                        <select
+                          required
+                          value={contactForm.homeState}
+                          onChange={(e) => setContactForm({ ...contactForm, homeState: e.target.value, homeDistrict: '' })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        >
+                          <option value="">Select State</option>
+                          {states.map((state) => (
+                            <option key={state} value={state}>{state}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-2">
+                          Home District *
+                        </label>
+                        <select
+                          required
+                          value={contactForm.homeDistrict}
+                          onChange={(e) => setContactForm({ ...contactForm, homeDistrict: e.target.value })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                          disabled={!contactForm.homeState}
+                        >
+                          <option value="">Select District</option>
+                          {getDistrictsByState(contactForm.homeState).map((district) => (
+                            <option key={district} value={district}>{district}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="w-full py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loading ? 'Processing...' : 'Save Contact Details'}
+                    </button>
+                  </form>
+
+                  {/* Name and ID document changes need an officer */}
+                  <div className="border-t border-gray-200 pt-6">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-1">Name & ID Document</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                      Changes are applied only after a government officer for your home district checks the supporting document.
+                    </p>
+
+                    {pendingProfileChange ? (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800 space-y-1">
+                        <p className="font-semibold">⏳ Change request #{pendingProfileChange.requestId} awaiting officer approval</p>
+                        <p><strong>Name:</strong> {pendingProfileChange.newPiiHash === existingUserData?.piiHash ? 'unchanged' : '🔒 new name stored in the PII vault'}</p>
+                        <p><strong>ID document:</strong> {pendingProfileChange.newIdDocumentHash === existingUserData?.idDocumentHash ? 'unchanged' : 'new document submitted'}</p>
+                        <p><strong>Supporting document:</strong> <span className="font-mono text-xs">{pendingProfileChange.supportingDocumentHash}</span></p>
+                        <p><strong>Submitted:</strong> {new Date(pendingProfileChange.requestDate * 1000).toLocaleDateString()}</p>
+                      </div>
+                    ) : (
+                      <form onSubmit={handleRequestProfileChange} className="space-y-4">
+                        <div>
+                          <label className="block text-sm font-semibold text-gray-700 mb-2">
+                            New Full Name
+                          </label>
+                          <input
+                            type="text"
+                            value={identityForm.name}
+                            onChange={(e) => setIdentityForm({ ...identityForm, name: e.target.value })}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            placeholder="Leave blank to keep your current name"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-semibold text-gray-700 mb-2">
+                            New ID Document Number
+                          </label>
+                          <input
+                            type="text"
+                            value={identityForm.idDocument}
+                            onChange={(e) => setIdentityForm({ ...identityForm, idDocument: e.target.value })}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            placeholder="Leave blank to keep your current ID document"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-semibold text-gray-700 mb-2">
+                            Supporting Document Hash *
+                          </label>
+                          <input
+                            type="text"
+                            required
+                            value={identityForm.supportingDocumentHash}
+                            onChange={(e) => setIdentityForm({ ...identityForm, supportingDocumentHash: e.target.value })}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            placeholder="IPFS hash of the gazette notice, affidavit or new ID"
+                          />
+                        </div>
+                        <button
+                          type="submit"
+                          disabled={loading}
+                          className="w-full py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {loading ? 'Processing...' : 'Request Officer Approval'}
+                        </button>
+                      </form>
+                    )}
+                  </div>
+
+                  {/* Who may read the contact record in the PII vault */}
+                  <div className="border-t border-gray-200 pt-6">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-1">Who Can See My Contact Details</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                      Grant an officer or bank read access to your contact details. You can revoke it at any time, and every read is logged.
+                    </p>
+
+                    {piiGrants.length > 0 ? (
+                      <div className="space-y-2 mb-4">
+                        {piiGrants.map((grant) => (
+                          <div key={grant.grantee} className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                            <div>
+                              <p className="font-semibold text-gray-800">{grant.granteeLabel}</p>
+                              <p className="text-xs text-gray-500">
+                                <span className="font-mono">{grant.grantee.slice(0, 6)}...{grant.grantee.slice(-4)}</span> · since {new Date(grant.grantedDate * 1000).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => handleRevokePiiAccess(grant)}
+                              disabled={loading}
+                              className="px-3 py-1 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition disabled:opacity-50"
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500 mb-4">Nobody else can read your contact details.</p>
+                    )}
+
+                    <form onSubmit={handleGrantPiiAccess} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <input
+                        type="text"
+                        required
+                        value={grantForm.grantee}
+                        onChange={(e) => setGrantForm({ ...grantForm, grantee: e.target.value })}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="Officer employee ID or wallet address"
+                      />
+                      <input
+                        type="text"
+                        value={grantForm.granteeLabel}
+                        onChange={(e) => setGrantForm({ ...grantForm, granteeLabel: e.target.value })}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="Who is this? e.g. SBI Fort branch"
+                      />
+                      <button
+                        type="submit"
+                        disabled={loading}
+                        className="py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold disabled:opacity-50"
+                      >
+                        Grant Access
+                      </button>
+                    </form>
+
+                    <div className="mt-4">
+                      {accessLog === null ? (
+                        <button onClick={handleLoadAccessLog} className="text-sm text-primary-600 hover:underline">
+                          📜 View access log
+                        </button>
+                      ) : accessLog.length === 0 ? (
+                        <p className="text-sm text-gray-500">No one has accessed your contact details yet.</p>
+                      ) : (
+                        <div className="space-y-1 text-xs text-gray-600">
+                          {accessLog.map((entry, index) => {
+                            const grant = piiGrants.find((g) => g.grantee === entry.reader);
+                            return (
+                              <p key={index}>
+                                {entry.granted ? '✅' : '❌'} {new Date(entry.timestamp).toLocaleString()} · {entry.action} by{' '}
+                                <span className="font-mono">{entry.reader ? `${entry.reader.slice(0, 6)}...${entry.reader.slice(-4)}` : 'unknown'}</span>
+                                {entry.reader.toLowerCase() === account.toLowerCase() ? ' (you)' : grant ? ` (${grant.granteeLabel})` : ''}
+                                {entry.reason && ` · ${entry.reason}`}
+                              </p>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Previous values */}
+                  {profileHistory.length > 0 && (
+                    <div className="border-t border-gray-200 pt-6">
+                      <h3 className="text-lg font-semibold text-gray-800 mb-3">Profile History</h3>
+                      <div className="space-y-3">
+                        {[...profileHistory].reverse().map((record, index) => (
+                          <div key={index} className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-700">
+                            <p className="text-xs text-gray-500 mb-1">
+                              Replaced {new Date(record.changedDate * 1000).toLocaleDateString()}
+                              {record.approvedByEmployeeId ? ` · approved by ${record.approvedByEmployeeId}` : ' · self-service update'}
+                            </p>
+                            <p><strong>ID hash:</strong> <span className="font-mono text-xs">{record.idDocumentHash.slice(0, 10)}...{record.idDocumentHash.slice(-4)}</span></p>
+                            <p><strong>Vault record:</strong> <span className="font-mono text-xs">{record.piiHash.slice(0, 10)}...{record.piiHash.slice(-4)}</span> · {record.homeDistrict}, {record.homeState}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => {
+                      setShowEditProfile(false);
+                      setMessage('');
+                    }}
+                    className="w-full py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-semibold"
+                  >
+                    Back
+                  </button>
+                </div>
+              ) : !showLogin ? (
                 <div className="space-y-4">
                   <button
                     onClick={() => router.push('/dashboard')}
@@ -655,6 +1226,16 @@ export default function RegisterOwner() {
                     Go to Dashboard
                   </button>
 
+                  <button
+                    onClick={() => {
+                      setShowEditProfile(true);
+                      setMessage('');
+                    }}
+                    className="w-full py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold"
+                  >
+                    ✏️ Edit Profile
+                  </button>
+
                   <button
                     onClick={() => setShowLogin(true)}
                     className="w-full py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-semibold"
@@ -742,6 +1323,7 @@ export default function RegisterOwner() {
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                     placeholder="National ID or Passport Number"
                   />
+                  <p className="text-xs text-gray-500 mt-1">Only a salted hash of this number is stored on the blockchain</p>
                 </div>
 
                 <div>
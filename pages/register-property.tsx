@@ -4,13 +4,11 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { ethers } from 'ethers';
 import { getContract, getSigner } from '../utils/contract';
-import { getAllStates, getDistrictsByState } from '../data/indiaData';
+import { ADMIN_LEVELS, getAllStates, getDistrictsByState, getTehsilsByDistrict, getVillagesByTehsil } from '../data/indiaData';
 
 interface Owner {
   ownerAddress: string;
-  name: string;
-  idDocument: string;
-  contactInfo: string;
+  idDocumentHash: string;
   homeState: string;
   homeDistrict: string;
   isVerified: boolean;
@@ -37,6 +35,8 @@ export default function RegisterProperty() {
     address: '',
     district: '',
     state: '',
+    tehsilCode: '',
+    villageCode: '',
     area: '',
     propertyType: '',
     surveyNumber: '',
@@ -76,6 +76,17 @@ export default function RegisterProperty() {
     }
   }, [propertyData.state]);
 
+  useEffect(() => {
+    setPropertyData(prev => ({ ...prev, tehsilCode: '', villageCode: '' }));
+  }, [propertyData.district]);
+
+  useEffect(() => {
+    setPropertyData(prev => ({ ...prev, villageCode: '' }));
+  }, [propertyData.tehsilCode]);
+
+  const tehsils = getTehsilsByDistrict(propertyData.state, propertyData.district);
+  const villages = getVillagesByTehsil(propertyData.state, propertyData.district, Number(propertyData.tehsilCode));
+
   const checkWalletConnection = async () => {
     if (typeof window !== 'undefined' && window.ethereum) {
       try {
@@ -123,12 +134,10 @@ export default function RegisterProperty() {
 
       const ownerDetails = await contract.getOwnerDetails(account);
 
-      if (ownerDetails.name) {
+      if (ownerDetails.ownerAddress !== ethers.ZeroAddress) {
         setOwner({
           ownerAddress: ownerDetails.ownerAddress,
-          name: ownerDetails.name,
-          idDocument: ownerDetails.idDocument,
-          contactInfo: ownerDetails.contactInfo,
+          idDocumentHash: ownerDetails.idDocumentHash,
           homeState: ownerDetails.homeState,
           homeDistrict: ownerDetails.homeDistrict,
           isVerified: ownerDetails.isVerified
@@ -240,7 +249,7 @@ export default function RegisterProperty() {
       return;
     }
 
-    if (!propertyData.address || !propertyData.district || !propertyData.state || !propertyData.area || !propertyData.propertyType) {
+    if (!propertyData.address || !propertyData.district || !propertyData.state || !propertyData.villageCode || !propertyData.area || !propertyData.propertyType || !propertyData.surveyNumber.trim()) {
       setMessage('❌ Please fill in all required fields');
       return;
     }
@@ -290,10 +299,28 @@ export default function RegisterProperty() {
       const signer = await getSigner();
       const contract = getContract(signer);
 
+      // The contract derives the property's location from the village's LGD code
+      const village = await contract.getAdminUnit(ADMIN_LEVELS.VILLAGE, propertyData.villageCode);
+      if (village.lgdCode === 0n) {
+        setMessage(`❌ Village LGD code ${propertyData.villageCode} is not registered on-chain yet. Please ask the administrator to register it.`);
+        return;
+      }
+
+      // Each survey number and sub-division can be registered only once per district
+      const existingPropertyId = Number(await contract.getPropertyBySurveyNumber(
+        propertyData.state,
+        propertyData.district,
+        propertyData.surveyNumber,
+        propertyData.subDivision || ''
+      ));
+      if (existingPropertyId !== 0) {
+        setMessage(`❌ Survey number ${propertyData.surveyNumber}${propertyData.subDivision ? ` / ${propertyData.subDivision}` : ''} is already registered in ${propertyData.district} as Property #${existingPropertyId}`);
+        return;
+      }
+
       const tx = await contract.registerProperty(
         propertyData.address,
-        propertyData.district,
-        propertyData.state,
+        propertyData.villageCode,
         ethers.parseUnits(propertyData.area, 0), // Convert to BigNumber
         propertyData.propertyType,
         propertyData.surveyNumber || '',
@@ -521,8 +548,7 @@ export default function RegisterProperty() {
               <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
                 <div className="flex items-center justify-between">
                   <div>
-                    <h2 className="text-xl font-bold text-gray-800">Owner: {owner.name}</h2>
-                    <p className="text-gray-600">Contact: {owner.contactInfo}</p>
+                    <h2 className="text-xl font-bold text-gray-800">Owner: {owner.ownerAddress.slice(0, 6)}...{owner.ownerAddress.slice(-4)}</h2>
                     <p className="text-gray-600">Location: {owner.homeDistrict}, {owner.homeState}</p>
                   </div>
                   <div className="flex items-center space-x-2">
@@ -604,6 +630,47 @@ export default function RegisterProperty() {
                         <p className="text-xs text-gray-500 mt-1">Please select a state first</p>
                       )}
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">
+                        Tehsil / Taluka *
+                      </label>
+                      <select
+                        name="tehsilCode"
+                        value={propertyData.tehsilCode}
+                        onChange={handleInputChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        disabled={tehsils.length === 0}
+                        required
+                      >
+                        <option value="">Select Tehsil</option>
+                        {tehsils.map((tehsil) => (
+                          <option key={tehsil.code} value={tehsil.code}>{tehsil.name}</option>
+                        ))}
+                      </select>
+                      {propertyData.district && tehsils.length === 0 && (
+                        <p className="text-xs text-gray-500 mt-1">No tehsils are registered for this district yet</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">
+                        Village *
+                      </label>
+                      <select
+                        name="villageCode"
+                        value={propertyData.villageCode}
+                        onChange={handleInputChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        disabled={!propertyData.tehsilCode}
+                        required
+                      >
+                        <option value="">Select Village</option>
+                        {villages.map((village) => (
+                          <option key={village.code} value={village.code}>{village.name} (LGD {village.code})</option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
 
                   {/* Property Type and Details */}
@@ -628,7 +695,7 @@ export default function RegisterProperty() {
 
                     <div>
                       <label className="block text-sm font-semibold text-gray-700 mb-2">
-                        Survey Number
+                        Survey Number *
                       </label>
                       <input
                         type="text"
@@ -636,7 +703,8 @@ export default function RegisterProperty() {
                         value={propertyData.surveyNumber}
                         onChange={handleInputChange}
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                        placeholder="e.g., Survey No. 123/4"
+                        placeholder="e.g., 123/4"
+                        required
                       />
                     </div>
                   </div>
@@ -4,17 +4,33 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { ethers } from 'ethers';
 import { getContract, getSigner, getProvider } from '../utils/contract';
-import { getAllStates, getDistrictsByState } from '../data/indiaData';
+import { getAllStates, getDistrictsByState, STAMP_DUTY_BUYER_CATEGORIES } from '../data/indiaData';
 
 interface Property {
     propertyId: number;
     propertyAddress: string;
     district: string;
     state: string;
+    propertyType: string;
     isVerified: boolean;
     isTransferable: boolean;
 }
 
+interface TransferRequest {
+    requestId: number;
+    propertyId: number;
+    toOwner: string;
+    requestDate: number;
+    transferFee: bigint;
+    isApproved: boolean;
+    isCompleted: boolean;
+    isRejected: boolean;
+    isCancelled: boolean;
+    rejectionReason: string;
+    isAcceptedByBuyer: boolean;
+    isDeclinedByBuyer: boolean;
+}
+
 export default function RequestTransfer() {
     const router = useRouter();
     const [account, setAccount] = useState<string>('');
@@ -31,7 +47,14 @@ export default function RequestTransfer() {
     const [receiverAddress, setReceiverAddress] = useState('');
     const [transferDocument, setTransferDocument] = useState<File | null>(null);
     const [transferDocumentPreview, setTransferDocumentPreview] = useState<string>('');
-    const [transferFee, setTransferFee] = useState('0.002');
+    const [declaredValue, setDeclaredValue] = useState('');
+    const [buyerCategory, setBuyerCategory] = useState('');
+    const [transferQuote, setTransferQuote] = useState<bigint | null>(null);
+    const [guidanceValue, setGuidanceValue] = useState<bigint>(0n);
+
+    // Requests already submitted by this seller
+    const [myRequests, setMyRequests] = useState<TransferRequest[]>([]);
+    const [cancellingRequestId, setCancellingRequestId] = useState<number | null>(null);
 
     const states = getAllStates();
 
@@ -42,6 +65,7 @@ export default function RequestTransfer() {
     useEffect(() => {
         if (isConnected && account) {
             loadMyProperties();
+            loadMyRequests();
         }
     }, [isConnected, account]);
 
@@ -52,6 +76,14 @@ export default function RequestTransfer() {
         }
     }, [selectedPropertyId, myProperties]);
 
+    useEffect(() => {
+        loadTransferQuote();
+    }, [selectedPropertyId, declaredValue, buyerCategory]);
+
+    useEffect(() => {
+        loadGuidanceValue();
+    }, [selectedPropertyId]);
+
     const checkWalletConnection = async () => {
         if (typeof window !== 'undefined' && window.ethereum) {
             try {
@@ -89,6 +121,47 @@ export default function RequestTransfer() {
         }
     };
 
+    // Stamp duty and registration fee for the declared value under the state's schedule
+    const loadTransferQuote = async () => {
+        const value = parseFloat(declaredValue);
+        if (!selectedPropertyId || isNaN(value) || value <= 0) {
+            setTransferQuote(null);
+            return;
+        }
+
+        try {
+            const provider = getProvider();
+            const contract = getContract(provider);
+
+            const quote = await contract.quoteTransferFee(
+                selectedPropertyId,
+                ethers.parseEther(declaredValue),
+                buyerCategory
+            );
+            setTransferQuote(quote);
+        } catch (error) {
+            console.error('Error quoting transfer fee:', error);
+            setTransferQuote(null);
+        }
+    };
+
+    // Area x district circle rate; declaring less flags the transfer for the officer
+    const loadGuidanceValue = async () => {
+        if (!selectedPropertyId) {
+            setGuidanceValue(0n);
+            return;
+        }
+
+        try {
+            const provider = getProvider();
+            const contract = getContract(provider);
+            setGuidanceValue(await contract.getGuidanceValue(selectedPropertyId));
+        } catch (error) {
+            console.error('Error loading guidance value:', error);
+            setGuidanceValue(0n);
+        }
+    };
+
     const loadMyProperties = async () => {
         try {
             const provider = getProvider();
@@ -104,6 +177,7 @@ export default function RequestTransfer() {
                     propertyAddress: details.propertyAddress,
                     district: details.district,
                     state: details.state,
+                    propertyType: details.propertyType,
                     isVerified: details.isVerified,
                     isTransferable: details.isTransferable
                 });
@@ -115,6 +189,101 @@ export default function RequestTransfer() {
         }
     };
 
+    const loadMyRequests = async () => {
+        try {
+            const provider = getProvider();
+            const contract = getContract(provider);
+
+            const total = Number(await contract.getTotalTransferRequests());
+            const requests: TransferRequest[] = [];
+
+            for (let i = total; i >= 1; i--) {
+                const request = await contract.getTransferRequestDetails(i);
+                if (request.fromOwner.toLowerCase() !== account.toLowerCase()) {
+                    continue;
+                }
+
+                requests.push({
+                    requestId: i,
+                    propertyId: Number(request.propertyId),
+                    toOwner: request.toOwner,
+                    requestDate: Number(request.requestDate),
+                    transferFee: request.transferFee,
+                    isApproved: request.isApproved,
+                    isCompleted: request.isCompleted,
+                    isRejected: request.isRejected,
+                    isCancelled: request.isCancelled,
+                    rejectionReason: request.rejectionReason,
+                    isAcceptedByBuyer: request.isAcceptedByBuyer,
+                    isDeclinedByBuyer: request.isDeclinedByBuyer
+                });
+            }
+
+            setMyRequests(requests);
+        } catch (error) {
+            console.error('Error loading transfer requests:', error);
+        }
+    };
+
+    const handleCancelRequest = async (requestId: number) => {
+        setCancellingRequestId(requestId);
+        try {
+            setMessage('🔄 Requesting MetaMask approval...');
+
+            const signer = await getSigner();
+            const contract = getContract(signer);
+
+            const tx = await contract.cancelTransferRequest(requestId);
+
+            setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
+
+            await tx.wait();
+
+            setMessage(`✅ Transfer request #${requestId} cancelled. The transfer fee has been refunded to your wallet.`);
+            loadMyRequests();
+        } catch (error: any) {
+            console.error('Error cancelling transfer request:', error);
+
+            let errorMessage = 'Failed to cancel transfer request';
+
+            if (error.code === 'ACTION_REJECTED') {
+                errorMessage = 'Transaction was rejected by user';
+            } else if (error.reason) {
+                errorMessage = error.reason;
+            } else if (error.message) {
+                errorMessage = error.message;
+            }
+
+            setMessage(`❌ Error: ${errorMessage}`);
+        } finally {
+            setCancellingRequestId(null);
+        }
+    };
+
+    const getRequestStatus = (request: TransferRequest) => {
+        if (request.isCompleted) {
+            return { label: '✅ Completed', className: 'bg-green-100 text-green-800' };
+        }
+        if (request.isRejected) {
+            return { label: '❌ Rejected', className: 'bg-red-100 text-red-800' };
+        }
+        if (request.isCancelled) {
+            return { label: '🚫 Cancelled', className: 'bg-gray-100 text-gray-800' };
+        }
+        if (request.isDeclinedByBuyer) {
+            return { label: '👎 Declined by Buyer', className: 'bg-red-100 text-red-800' };
+        }
+        if (request.isApproved) {
+            return request.isAcceptedByBuyer
+                ? { label: '👍 Approved & Accepted', className: 'bg-blue-100 text-blue-800' }
+                : { label: '👍 Approved • Awaiting Buyer', className: 'bg-blue-100 text-blue-800' };
+        }
+        if (request.isAcceptedByBuyer) {
+            return { label: '🤝 Accepted by Buyer', className: 'bg-yellow-100 text-yellow-800' };
+        }
+        return { label: '⏳ Pending Approval', className: 'bg-yellow-100 text-yellow-800' };
+    };
+
     const handleDocumentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -158,6 +327,11 @@ export default function RequestTransfer() {
             return;
         }
 
+        if (transferQuote === null) {
+            setMessage('❌ Please enter the declared sale value');
+            return;
+        }
+
         setLoading(true);
         try {
             setMessage('🔄 Preparing transfer request...');
@@ -180,13 +354,14 @@ export default function RequestTransfer() {
             const signer = await getSigner();
             const contract = getContract(signer);
 
-            // Create transfer request with fee
-            const feeInWei = ethers.parseEther(transferFee);
+            // Create transfer request paying the quoted stamp duty
             const tx = await contract.createTransferRequest(
                 selectedPropertyId,
                 receiverAddress,
                 documentHash,
-                { value: feeInWei }
+                ethers.parseEther(declaredValue),
+                buyerCategory,
+                { value: transferQuote }
             );
 
             setMessage(`⏳ Transaction submitted (${tx.hash.slice(0, 10)}...). Waiting for confirmation...`);
@@ -196,7 +371,7 @@ export default function RequestTransfer() {
 
             setMessage(
                 `✅ Transfer request submitted successfully! ` +
-                `Transfer fee of ${transferFee} ETH has been paid. ` +
+                `Stamp duty and registration fee of ${ethers.formatEther(transferQuote)} ETH has been paid. ` +
                 `The request will be sent to government officers in ${selectedProperty?.district}, ${selectedProperty?.state} for approval.`
             );
 
@@ -376,7 +551,7 @@ export default function RequestTransfer() {
                                         <div className="mt-2 bg-blue-50 border border-blue-200 rounded-lg p-3">
                                             <p className="text-xs text-blue-800">
                                                 ℹ️ <strong>Note:</strong> The receiver doesn't need to be registered yet.
-                                                After government approval, they can log in with this wallet address to acknowledge and complete the transfer.
+                                                They must log in with this wallet address and accept the offer before the transfer can be completed.
                                             </p>
                                         </div>
                                     </div>
@@ -410,11 +585,59 @@ export default function RequestTransfer() {
                                         </p>
                                     </div>
 
+                                    {/* Declared Value */}
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                                Declared Sale Value (ETH) *
+                                            </label>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="any"
+                                                value={declaredValue}
+                                                onChange={(e) => setDeclaredValue(e.target.value)}
+                                                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                                                placeholder="Consideration stated in the sale deed"
+                                                required
+                                            />
+                                            {guidanceValue > 0n && (
+                                                <p className="text-xs text-gray-500 mt-1">
+                                                    Guidance value: {ethers.formatEther(guidanceValue)} ETH (area × circle rate)
+                                                </p>
+                                            )}
+                                            {guidanceValue > 0n && transferQuote !== null && ethers.parseEther(declaredValue) < guidanceValue && (
+                                                <p className="text-xs text-orange-600 mt-1">
+                                                    ⚠️ Below the guidance value. The request will be flagged for the officer&apos;s review.
+                                                </p>
+                                            )}
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                                Buyer Category
+                                            </label>
+                                            <select
+                                                value={buyerCategory}
+                                                onChange={(e) => setBuyerCategory(e.target.value)}
+                                                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                                            >
+                                                <option value="">General (no concession)</option>
+                                                {STAMP_DUTY_BUYER_CATEGORIES.map((category) => (
+                                                    <option key={category} value={category}>{category}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    </div>
+
                                     {/* Transfer Fee Info */}
                                     <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                                        <h4 className="font-semibold text-yellow-800 mb-2">💰 Transfer Fee</h4>
+                                        <h4 className="font-semibold text-yellow-800 mb-2">💰 Stamp Duty &amp; Registration Fee</h4>
                                         <p className="text-sm text-yellow-700 mb-2">
-                                            A transfer fee of <strong>{transferFee} ETH</strong> will be charged for government verification.
+                                            {transferQuote !== null ? (
+                                                <>A fee of <strong>{ethers.formatEther(transferQuote)} ETH</strong> will be charged under the {selectedProperty?.state} schedule for {selectedProperty?.propertyType} property.</>
+                                            ) : (
+                                                <>Select a property and enter the declared sale value to see the fee.</>
+                                            )}
                                         </p>
                                         <p className="text-xs text-yellow-600">
                                             This fee will be paid to the government officer who verifies and approves your transfer request.
@@ -434,7 +657,7 @@ export default function RequestTransfer() {
 
                                     <button
                                         type="submit"
-                                        disabled={loading || !selectedPropertyId || !receiverAddress || !transferDocument}
+                                        disabled={loading || !selectedPropertyId || !receiverAddress || !transferDocument || transferQuote === null}
                                         className="w-full px-6 py-4 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                                     >
                                         {loading ? (
@@ -452,6 +675,58 @@ export default function RequestTransfer() {
                                 </form>
                             )}
                         </div>
+
+                        {/* Submitted Transfer Requests */}
+                        {myRequests.length > 0 && (
+                            <div className="bg-white rounded-xl shadow-lg p-8 mt-8">
+                                <h3 className="text-xl font-bold text-gray-800 mb-4">My Transfer Requests</h3>
+                                <div className="space-y-4">
+                                    {myRequests.map((request) => {
+                                        const status = getRequestStatus(request);
+                                        const isOpen = !request.isApproved && !request.isRejected && !request.isCancelled && !request.isDeclinedByBuyer;
+
+                                        return (
+                                            <div key={request.requestId} className="border border-gray-200 rounded-lg p-4">
+                                                <div className="flex justify-between items-start mb-2">
+                                                    <div>
+                                                        <h4 className="font-semibold text-gray-800">
+                                                            Request #{request.requestId} • Property #{request.propertyId}
+                                                        </h4>
+                                                        <p className="text-xs text-gray-500">
+                                                            {new Date(request.requestDate * 1000).toLocaleString()}
+                                                        </p>
+                                                    </div>
+                                                    <span className={`px-3 py-1 rounded-full text-xs font-bold ${status.className}`}>
+                                                        {status.label}
+                                                    </span>
+                                                </div>
+                                                <p className="text-sm text-gray-600">
+                                                    <strong>To:</strong> <span className="font-mono">{request.toOwner.slice(0, 6)}...{request.toOwner.slice(-4)}</span>
+                                                </p>
+                                                <p className="text-sm text-gray-600">
+                                                    <strong>Fee:</strong> {ethers.formatEther(request.transferFee)} ETH
+                                                    {(request.isRejected || request.isCancelled || (request.isDeclinedByBuyer && !request.isApproved)) && ' (refunded)'}
+                                                </p>
+                                                {request.isRejected && request.rejectionReason && (
+                                                    <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2 mt-2">
+                                                        <strong>Rejection reason:</strong> {request.rejectionReason}
+                                                    </p>
+                                                )}
+                                                {isOpen && (
+                                                    <button
+                                                        onClick={() => handleCancelRequest(request.requestId)}
+                                                        disabled={cancellingRequestId !== null}
+                                                        className="mt-3 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                                                    >
+                                                        {cancellingRequestId === request.requestId ? 'Cancelling...' : 'Cancel Request & Refund Fee'}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </main>
             </div>
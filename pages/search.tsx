@@ -2,14 +2,16 @@ import React, { useState, useEffect } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
 import { ethers } from 'ethers';
-import { getContract, getSigner, getProvider } from '../utils/contract';
-import { getAllStates, getDistrictsByState } from '../data/indiaData';
+import { getContract, getSigner, getProvider, hashIdDocument } from '../utils/contract';
+import { ADMIN_LEVELS, getAllStates, getDistrictsByState, getTehsilsByDistrict, getVillagesByTehsil } from '../data/indiaData';
 
 interface Property {
   propertyId: number;
   propertyAddress: string;
   district: string;
   state: string;
+  tehsil: string;
+  village: string;
   area: number;
   propertyType: string;
   surveyNumber: string;
@@ -22,13 +24,24 @@ interface Property {
   registrationDate: number;
   lastTransferDate: number;
   verificationFee: number;
+  activeEncumbrances: number;
+  isUnderLegalHold: boolean;
 }
 
+// Matches LandRegistry.PropertyStatusFilter
+const STATUS_FILTERS = [
+  { value: 0, label: 'All Statuses' },
+  { value: 1, label: 'Verified' },
+  { value: 2, label: 'Pending Verification' },
+  { value: 3, label: 'Transferable' },
+  { value: 4, label: 'Retired' }
+];
+
+const PAGE_SIZE = 12;
+
 interface Owner {
   ownerAddress: string;
-  name: string;
-  idDocument: string;
-  contactInfo: string;
+  idDocumentHash: string;
   homeState: string;
   homeDistrict: string;
   isVerified: boolean;
@@ -37,7 +50,7 @@ interface Owner {
 export default function Search() {
   const [account, setAccount] = useState<string>('');
   const [isConnected, setIsConnected] = useState(false);
-  const [searchType, setSearchType] = useState<'property' | 'owner' | 'location' | 'idDocument'>('property');
+  const [searchType, setSearchType] = useState<'property' | 'owner' | 'location' | 'survey' | 'idDocument'>('property');
   const [searchQuery, setSearchQuery] = useState('');
   const [searching, setSearching] = useState(false);
   const [property, setProperty] = useState<Property | null>(null);
@@ -49,8 +62,17 @@ export default function Search() {
   // Location search
   const [selectedState, setSelectedState] = useState('');
   const [selectedDistrict, setSelectedDistrict] = useState('');
+  const [selectedTehsilCode, setSelectedTehsilCode] = useState('');
+  const [selectedVillageCode, setSelectedVillageCode] = useState('');
   const [states] = useState(getAllStates());
   const [districts, setDistricts] = useState<string[]>([]);
+  const [selectedStatus, setSelectedStatus] = useState(0);
+  const [locationPage, setLocationPage] = useState(0);
+  const [locationTotal, setLocationTotal] = useState(0);
+
+  // Survey number search (uses the state and district selections above)
+  const [surveyNumber, setSurveyNumber] = useState('');
+  const [subDivision, setSubDivision] = useState('');
 
   useEffect(() => {
     checkWalletConnection();
@@ -65,6 +87,23 @@ export default function Search() {
     }
   }, [selectedState]);
 
+  useEffect(() => {
+    setSelectedTehsilCode('');
+  }, [selectedDistrict]);
+
+  useEffect(() => {
+    setSelectedVillageCode('');
+  }, [selectedTehsilCode]);
+
+  const tehsils = getTehsilsByDistrict(selectedState, selectedDistrict);
+  const villages = getVillagesByTehsil(selectedState, selectedDistrict, Number(selectedTehsilCode));
+  const selectedLocationLabel = [
+    villages.find((village) => village.code === Number(selectedVillageCode))?.name,
+    tehsils.find((tehsil) => tehsil.code === Number(selectedTehsilCode))?.name,
+    selectedDistrict,
+    selectedState
+  ].filter(Boolean).join(', ');
+
   const checkWalletConnection = async () => {
     if (typeof window !== 'undefined' && window.ethereum) {
       try {
@@ -114,6 +153,128 @@ export default function Search() {
     }
   };
 
+  // Location results are paged on-chain; only the current page's details are fetched
+  const loadLocationPage = async (page: number) => {
+    try {
+      const provider = getProvider();
+      const contract = getContract(provider);
+
+      console.log('Searching for properties:', { state: selectedState, district: selectedDistrict, tehsil: selectedTehsilCode, village: selectedVillageCode, status: selectedStatus, page });
+
+      // Tehsils and villages are searched by LGD code; states and districts by name, which also covers parcels registered before the hierarchy
+      const [propertyIds, total] = selectedVillageCode || selectedTehsilCode
+        ? await contract.searchPropertiesByAdminUnitPaged(
+          selectedVillageCode ? ADMIN_LEVELS.VILLAGE : ADMIN_LEVELS.TEHSIL,
+          selectedVillageCode || selectedTehsilCode,
+          selectedStatus,
+          page * PAGE_SIZE,
+          PAGE_SIZE
+        )
+        : await contract.searchPropertiesByLocationPaged(
+          selectedState,
+          selectedDistrict || '',
+          selectedStatus,
+          page * PAGE_SIZE,
+          PAGE_SIZE
+        );
+
+      console.log(`Found ${total} properties, page ${page + 1}:`, propertyIds);
+
+      setLocationPage(page);
+      setLocationTotal(Number(total));
+
+      if (propertyIds.length === 0) {
+        setProperties([]);
+        setError(`No properties found in ${selectedLocationLabel}`);
+        return;
+      }
+
+      // Fetch details for each property
+      const propertyPromises = propertyIds.map(async (id: any) => {
+        try {
+          const details = await contract.getPropertyDetails(Number(id));
+          const activeEncumbrances = await contract.activeEncumbranceCount(Number(id));
+          const isUnderLegalHold = await contract.isUnderLegalHold(Number(id));
+          return {
+            propertyId: Number(id),
+            propertyAddress: details.propertyAddress,
+            district: details.district,
+            state: details.state,
+            tehsil: details.tehsil,
+            village: details.village,
+            area: Number(details.area),
+            propertyType: details.propertyType,
+            surveyNumber: details.surveyNumber,
+            subDivision: details.subDivision,
+            currentOwner: details.currentOwner,
+            documentHash: details.documentHash,
+            isRegistered: details.isRegistered,
+            isVerified: details.isVerified,
+            isTransferable: details.isTransferable,
+            registrationDate: Number(details.registrationDate),
+            lastTransferDate: Number(details.lastTransferDate),
+            verificationFee: Number(details.verificationFee),
+            activeEncumbrances: Number(activeEncumbrances),
+            isUnderLegalHold
+          };
+        } catch (err) {
+          console.error(`Error loading property ${id}:`, err);
+          return null;
+        }
+      });
+
+      const propertiesData = (await Promise.all(propertyPromises)).filter(p => p !== null);
+      console.log('Loaded properties:', propertiesData.length);
+      setProperties(propertiesData as Property[]);
+    } catch (error: any) {
+      console.error('Location search error:', error);
+      setError(`Failed to search properties: ${error.message || 'Unknown error'}`);
+    }
+  };
+
+  const goToLocationPage = async (page: number) => {
+    setSearching(true);
+    setError('');
+    await loadLocationPage(page);
+    setSearching(false);
+  };
+
+  // Load a property with its encumbrance and legal hold status into the result card
+  const loadPropertyResult = async (contract: ethers.Contract, propertyId: number): Promise<boolean> => {
+    const details = await contract.getPropertyDetails(propertyId);
+
+    if (!details.isRegistered) {
+      return false;
+    }
+
+    const activeEncumbrances = await contract.activeEncumbranceCount(propertyId);
+    const isUnderLegalHold = await contract.isUnderLegalHold(propertyId);
+
+    setProperty({
+      propertyId: propertyId,
+      propertyAddress: details.propertyAddress,
+      district: details.district,
+      state: details.state,
+      tehsil: details.tehsil,
+      village: details.village,
+      area: Number(details.area),
+      propertyType: details.propertyType,
+      surveyNumber: details.surveyNumber,
+      subDivision: details.subDivision,
+      currentOwner: details.currentOwner,
+      documentHash: details.documentHash,
+      isRegistered: details.isRegistered,
+      isVerified: details.isVerified,
+      isTransferable: details.isTransferable,
+      registrationDate: Number(details.registrationDate),
+      lastTransferDate: Number(details.lastTransferDate),
+      verificationFee: Number(details.verificationFee),
+      activeEncumbrances: Number(activeEncumbrances),
+      isUnderLegalHold
+    });
+    return true;
+  };
+
   const handleSearch = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
 
@@ -142,32 +303,11 @@ export default function Search() {
         }
 
         try {
-          const details = await contract.getPropertyDetails(propertyId);
-
-          if (!details.isRegistered) {
+          if (!(await loadPropertyResult(contract, propertyId))) {
             setError('Property not found');
             setSearching(false);
             return;
           }
-
-          setProperty({
-            propertyId: propertyId,
-            propertyAddress: details.propertyAddress,
-            district: details.district,
-            state: details.state,
-            area: Number(details.area),
-            propertyType: details.propertyType,
-            surveyNumber: details.surveyNumber,
-            subDivision: details.subDivision,
-            currentOwner: details.currentOwner,
-            documentHash: details.documentHash,
-            isRegistered: details.isRegistered,
-            isVerified: details.isVerified,
-            isTransferable: details.isTransferable,
-            registrationDate: Number(details.registrationDate),
-            lastTransferDate: Number(details.lastTransferDate),
-            verificationFee: Number(details.verificationFee)
-          });
         } catch (error) {
           setError('Property not found');
           setSearching(false);
@@ -189,7 +329,7 @@ export default function Search() {
         try {
           const ownerDetails = await contract.getOwnerDetails(searchQuery);
 
-          if (!ownerDetails.name) {
+          if (ownerDetails.ownerAddress === ethers.ZeroAddress) {
             setError('Owner not found');
             setSearching(false);
             return;
@@ -197,9 +337,7 @@ export default function Search() {
 
           setOwner({
             ownerAddress: ownerDetails.ownerAddress,
-            name: ownerDetails.name,
-            idDocument: ownerDetails.idDocument,
-            contactInfo: ownerDetails.contactInfo,
+            idDocumentHash: ownerDetails.idDocumentHash,
             homeState: ownerDetails.homeState,
             homeDistrict: ownerDetails.homeDistrict,
             isVerified: ownerDetails.isVerified
@@ -216,57 +354,33 @@ export default function Search() {
           return;
         }
 
-        try {
-          console.log('Searching for properties:', { state: selectedState, district: selectedDistrict });
+        await loadLocationPage(0);
+      } else if (searchType === 'survey') {
+        if (!selectedState || !selectedDistrict || !surveyNumber.trim()) {
+          setError('Please select a state and district and enter a survey number');
+          setSearching(false);
+          return;
+        }
 
-          // Pass empty string if district is not selected
-          const propertyIds = await contract.searchPropertiesByLocation(
+        try {
+          // Survey numbers are unique per district, so this finds at most the one live parcel
+          const propertyId = Number(await contract.getPropertyBySurveyNumber(
             selectedState,
-            selectedDistrict || ''
-          );
-
-          console.log('Found property IDs:', propertyIds);
+            selectedDistrict,
+            surveyNumber,
+            subDivision
+          ));
 
-          if (propertyIds.length === 0) {
-            setError(`No properties found in ${selectedDistrict ? `${selectedDistrict}, ` : ''}${selectedState}`);
+          if (propertyId === 0) {
+            setError(`No live parcel registered under survey number ${surveyNumber}${subDivision ? `/${subDivision}` : ''} in ${selectedDistrict}`);
             setSearching(false);
             return;
           }
 
-          // Fetch details for each property
-          const propertyPromises = propertyIds.map(async (id: any) => {
-            try {
-              const details = await contract.getPropertyDetails(Number(id));
-              return {
-                propertyId: Number(id),
-                propertyAddress: details.propertyAddress,
-                district: details.district,
-                state: details.state,
-                area: Number(details.area),
-                propertyType: details.propertyType,
-                surveyNumber: details.surveyNumber,
-                subDivision: details.subDivision,
-                currentOwner: details.currentOwner,
-                documentHash: details.documentHash,
-                isRegistered: details.isRegistered,
-                isVerified: details.isVerified,
-                isTransferable: details.isTransferable,
-                registrationDate: Number(details.registrationDate),
-                lastTransferDate: Number(details.lastTransferDate),
-                verificationFee: Number(details.verificationFee)
-              };
-            } catch (err) {
-              console.error(`Error loading property ${id}:`, err);
-              return null;
-            }
-          });
-
-          const propertiesData = (await Promise.all(propertyPromises)).filter(p => p !== null);
-          console.log('Loaded properties:', propertiesData.length);
-          setProperties(propertiesData as Property[]);
-        } catch (error: any) {
-          console.error('Location search error:', error);
-          setError(`Failed to search properties: ${error.message || 'Unknown error'}`);
+          await loadPropertyResult(contract, propertyId);
+        } catch (error) {
+          console.error('Survey number search error:', error);
+          setError('Failed to search by survey number');
           setSearching(false);
           return;
         }
@@ -278,7 +392,8 @@ export default function Search() {
         }
 
         try {
-          const result = await contract.searchPropertiesByOwnerIdDocument(searchQuery);
+          // Only the salted hash is on-chain, so the number itself never leaves the browser
+          const result = await contract.searchPropertiesByOwnerIdDocument(hashIdDocument(searchQuery));
 
           if (result[0].length === 0) {
             setError('No owners found with this ID document');
@@ -290,12 +405,10 @@ export default function Search() {
           const ownerAddress = ethers.getAddress(`0x${result[0][0].toString(16).padStart(40, '0')}`);
           const ownerDetails = await contract.getOwnerDetails(ownerAddress);
 
-          if (ownerDetails.name) {
+          if (ownerDetails.ownerAddress !== ethers.ZeroAddress) {
             setOwner({
               ownerAddress: ownerDetails.ownerAddress,
-              name: ownerDetails.name,
-              idDocument: ownerDetails.idDocument,
-              contactInfo: ownerDetails.contactInfo,
+                idDocumentHash: ownerDetails.idDocumentHash,
               homeState: ownerDetails.homeState,
               homeDistrict: ownerDetails.homeDistrict,
               isVerified: ownerDetails.isVerified
@@ -398,13 +511,13 @@ export default function Search() {
               <div className="text-5xl mb-4">🔍</div>
               <h2 className="text-2xl font-bold text-gray-800 mb-2">Search Registry</h2>
               <p className="text-gray-600">
-                Look up properties by ID or owners by address
+                Look up properties by ID or survey number, or owners by address
               </p>
             </div>
 
             {/* Search Type Toggle */}
             <div className="flex justify-center mb-6">
-              <div className="bg-gray-100 p-1 rounded-lg grid grid-cols-2 md:grid-cols-4 gap-1">
+              <div className="bg-gray-100 p-1 rounded-lg grid grid-cols-2 md:grid-cols-5 gap-1">
                 <button
                   onClick={() => {
                     setSearchType('property');
@@ -453,6 +566,22 @@ export default function Search() {
                 >
                   � By Location
                 </button>
+                <button
+                  onClick={() => {
+                    setSearchType('survey');
+                    setSearchQuery('');
+                    setProperty(null);
+                    setOwner(null);
+                    setProperties([]);
+                    setError('');
+                  }}
+                  className={`px-4 py-2 rounded-lg font-semibold transition text-sm ${searchType === 'survey'
+                      ? 'bg-white text-primary-600 shadow-md'
+                      : 'text-gray-600 hover:text-primary-600'
+                    }`}
+                >
+                  📐 Survey Number
+                </button>
                 <button
                   onClick={() => {
                     setSearchType('idDocument');
@@ -495,7 +624,7 @@ export default function Search() {
               )}
 
               {searchType === 'location' && (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
                   <div>
                     <label className="block text-sm font-semibold text-gray-700 mb-2">
                       State *
@@ -531,6 +660,114 @@ export default function Search() {
                       <p className="text-xs text-gray-500 mt-1">Please select a state first</p>
                     )}
                   </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Tehsil (Optional)
+                    </label>
+                    <select
+                      value={selectedTehsilCode}
+                      onChange={(e) => setSelectedTehsilCode(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      disabled={tehsils.length === 0}
+                    >
+                      <option value="">All Tehsils</option>
+                      {tehsils.map((tehsil) => (
+                        <option key={tehsil.code} value={tehsil.code}>{tehsil.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Village (Optional)
+                    </label>
+                    <select
+                      value={selectedVillageCode}
+                      onChange={(e) => setSelectedVillageCode(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      disabled={!selectedTehsilCode}
+                    >
+                      <option value="">All Villages</option>
+                      {villages.map((village) => (
+                        <option key={village.code} value={village.code}>{village.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Status
+                    </label>
+                    <select
+                      value={selectedStatus}
+                      onChange={(e) => setSelectedStatus(Number(e.target.value))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {STATUS_FILTERS.map((filter) => (
+                        <option key={filter.value} value={filter.value}>{filter.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              {searchType === 'survey' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      State *
+                    </label>
+                    <select
+                      value={selectedState}
+                      onChange={(e) => setSelectedState(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      required
+                    >
+                      <option value="">Select State</option>
+                      {states.map((state) => (
+                        <option key={state} value={state}>{state}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      District *
+                    </label>
+                    <select
+                      value={selectedDistrict}
+                      onChange={(e) => setSelectedDistrict(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      disabled={!selectedState}
+                      required
+                    >
+                      <option value="">Select District</option>
+                      {districts.map((district) => (
+                        <option key={district} value={district}>{district}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Survey Number *
+                    </label>
+                    <input
+                      type="text"
+                      value={surveyNumber}
+                      onChange={(e) => setSurveyNumber(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="e.g., 123"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Sub-Division (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={subDivision}
+                      onChange={(e) => setSubDivision(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="e.g., 2A"
+                    />
+                  </div>
                 </div>
               )}
 
@@ -542,7 +779,12 @@ export default function Search() {
 
               <button
                 type="submit"
-                disabled={searching || (searchType !== 'location' && !searchQuery.trim()) || (searchType === 'location' && !selectedState)}
+                disabled={
+                  searching ||
+                  ((searchType === 'property' || searchType === 'owner' || searchType === 'idDocument') && !searchQuery.trim()) ||
+                  (searchType === 'location' && !selectedState) ||
+                  (searchType === 'survey' && (!selectedState || !selectedDistrict || !surveyNumber.trim()))
+                }
                 className="w-full px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
               >
                 {searching ? (
@@ -575,6 +817,19 @@ export default function Search() {
                 </span>
               </div>
 
+              {property.isUnderLegalHold && (
+                <div className="bg-red-50 border border-red-300 text-red-800 rounded-lg p-3 mb-6 text-sm">
+                  ⚖️ <strong>Under Legal Hold:</strong> a court order has frozen this property. It cannot be transferred until the hold is lifted.
+                </div>
+              )}
+
+              {property.activeEncumbrances > 0 && (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 mb-6 text-sm">
+                  🏦 <strong>Encumbered:</strong> {property.activeEncumbrances} active mortgage/lien
+                  {property.activeEncumbrances > 1 ? 's' : ''}. Transfers need lender consent.
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <h4 className="text-lg font-semibold text-gray-800 mb-4">Property Details</h4>
@@ -586,7 +841,7 @@ export default function Search() {
                     <div>
                       <p className="text-sm text-gray-500">Location</p>
                       <p className="font-semibold">
-                        {property.district}, {property.state}
+                        {[property.village, property.tehsil, property.district, property.state].filter(Boolean).join(', ')}
                       </p>
                     </div>
                     <div>
@@ -673,11 +928,11 @@ export default function Search() {
                   <div className="space-y-3">
                     <div>
                       <p className="text-sm text-gray-500">Name</p>
-                      <p className="font-semibold">{owner.name}</p>
+                      <p className="font-semibold">🔒 Held in the PII vault with the owner&apos;s contact details</p>
                     </div>
                     <div>
                       <p className="text-sm text-gray-500">Contact Information</p>
-                      <p className="font-semibold">{owner.contactInfo}</p>
+                      <p className="font-semibold">🔒 Held in the PII vault; shared only with wallets the owner approves</p>
                     </div>
                     <div>
                       <p className="text-sm text-gray-500">Home Location</p>
@@ -698,7 +953,7 @@ export default function Search() {
                     <div>
                       <p className="text-sm text-gray-500">ID Document (Hash)</p>
                       <p className="font-mono text-sm font-semibold break-all">
-                        {owner.idDocument}
+                        {owner.idDocumentHash}
                       </p>
                     </div>
                     <div>
@@ -719,10 +974,10 @@ export default function Search() {
             <div className="bg-white rounded-xl shadow-lg p-8">
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-2xl font-bold text-gray-800">
-                  Properties Found ({properties.length})
+                  Properties Found ({locationTotal})
                 </h3>
                 <span className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-semibold">
-                  {selectedDistrict ? `${selectedDistrict}, ${selectedState}` : selectedState}
+                  {selectedLocationLabel}
                 </span>
               </div>
 
@@ -761,10 +1016,18 @@ export default function Search() {
                     </div>
 
                     <div className="flex items-center justify-between">
-                      <span className={`text-xs font-semibold ${prop.isTransferable ? 'text-green-600' : 'text-red-600'
-                        }`}>
-                        {prop.isTransferable ? 'Transferable' : 'Not Transferable'}
-                      </span>
+                      <div className="flex flex-col">
+                        <span className={`text-xs font-semibold ${prop.isTransferable ? 'text-green-600' : 'text-red-600'
+                          }`}>
+                          {prop.isTransferable ? 'Transferable' : 'Not Transferable'}
+                        </span>
+                        {prop.activeEncumbrances > 0 && (
+                          <span className="text-xs font-semibold text-amber-700">🏦 Encumbered</span>
+                        )}
+                        {prop.isUnderLegalHold && (
+                          <span className="text-xs font-semibold text-red-700">⚖️ Legal Hold</span>
+                        )}
+                      </div>
 
                       <Link
                         href={`/property/${prop.propertyId}`}
@@ -776,6 +1039,30 @@ export default function Search() {
                   </div>
                 ))}
               </div>
+
+              {locationTotal > PAGE_SIZE && (
+                <div className="flex items-center justify-between mt-6 pt-6 border-t border-gray-200">
+                  <p className="text-sm text-gray-600">
+                    Showing {locationPage * PAGE_SIZE + 1}–{locationPage * PAGE_SIZE + properties.length} of {locationTotal}
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => goToLocationPage(locationPage - 1)}
+                      disabled={searching || locationPage === 0}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      ← Previous
+                    </button>
+                    <button
+                      onClick={() => goToLocationPage(locationPage + 1)}
+                      disabled={searching || (locationPage + 1) * PAGE_SIZE >= locationTotal}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Next →
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </main>
@@ -0,0 +1,560 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { getContract, getSigner, getProvider } from '../utils/contract';
+import { getAllStates, STAMP_DUTY_BUYER_CATEGORIES } from '../data/indiaData';
+
+const PROPERTY_TYPES = [
+  'Residential',
+  'Commercial',
+  'Agricultural',
+  'Industrial'
+];
+
+interface FeeSchedule {
+  stampDutyBps: number;
+  minStampDuty: bigint;
+  maxStampDuty: bigint;
+  registrationFee: bigint;
+  isActive: boolean;
+}
+
+interface FeeQuote {
+  propertyId: number;
+  state: string;
+  propertyType: string;
+  schedule: FeeSchedule;
+  concessionBps: number;
+  totalFee: bigint;
+}
+
+export default function StampDuty() {
+  const [account, setAccount] = useState<string>('');
+  const [isContractOwner, setIsContractOwner] = useState(false);
+  const [quoting, setQuoting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [quote, setQuote] = useState<FeeQuote | null>(null);
+  const [quoteForm, setQuoteForm] = useState({
+    propertyId: '',
+    declaredValue: '',
+    buyerCategory: ''
+  });
+  const [scheduleForm, setScheduleForm] = useState({
+    state: '',
+    propertyType: '',
+    stampDutyPercent: '',
+    minStampDuty: '',
+    maxStampDuty: '',
+    registrationFee: ''
+  });
+  const [currentSchedule, setCurrentSchedule] = useState<FeeSchedule | null>(null);
+  const [concessionForm, setConcessionForm] = useState({
+    state: '',
+    buyerCategory: STAMP_DUTY_BUYER_CATEGORIES[0],
+    concessionPercent: ''
+  });
+
+  const states = getAllStates();
+
+  useEffect(() => {
+    checkWalletConnection();
+  }, []);
+
+  useEffect(() => {
+    if (account) {
+      checkContractOwner();
+    }
+  }, [account]);
+
+  useEffect(() => {
+    if (scheduleForm.state && scheduleForm.propertyType) {
+      loadCurrentSchedule();
+    } else {
+      setCurrentSchedule(null);
+    }
+  }, [scheduleForm.state, scheduleForm.propertyType]);
+
+  const checkWalletConnection = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        const accounts = await provider.listAccounts();
+
+        if (accounts.length > 0) {
+          const signer = await provider.getSigner();
+          setAccount(await signer.getAddress());
+        }
+      } catch (error) {
+        console.error('Error checking wallet connection:', error);
+      }
+    }
+  };
+
+  const checkContractOwner = async () => {
+    try {
+      const contract = getContract(getProvider());
+      const contractOwner = await contract.owner();
+      setIsContractOwner(contractOwner.toLowerCase() === account.toLowerCase());
+    } catch (error) {
+      console.error('Error checking contract owner:', error);
+    }
+  };
+
+  const toSchedule = (raw: any): FeeSchedule => ({
+    stampDutyBps: Number(raw.stampDutyBps),
+    minStampDuty: raw.minStampDuty,
+    maxStampDuty: raw.maxStampDuty,
+    registrationFee: raw.registrationFee,
+    isActive: raw.isActive
+  });
+
+  const handleQuote = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const propertyId = parseInt(quoteForm.propertyId);
+    if (isNaN(propertyId) || propertyId <= 0) {
+      alert('❌ Please enter a valid property ID');
+      return;
+    }
+    if (!(parseFloat(quoteForm.declaredValue) > 0)) {
+      alert('❌ Please enter the declared sale value');
+      return;
+    }
+
+    setQuoting(true);
+    try {
+      const contract = getContract(getProvider());
+
+      const details = await contract.getPropertyDetails(propertyId);
+      const [schedule, concession, totalFee] = await Promise.all([
+        contract.getFeeSchedule(details.state, details.propertyType),
+        quoteForm.buyerCategory
+          ? contract.getStampDutyConcession(details.state, quoteForm.buyerCategory)
+          : Promise.resolve(0n),
+        contract.quoteTransferFee(propertyId, ethers.parseEther(quoteForm.declaredValue), quoteForm.buyerCategory)
+      ]);
+
+      setQuote({
+        propertyId,
+        state: details.state,
+        propertyType: details.propertyType,
+        schedule: toSchedule(schedule),
+        concessionBps: Number(concession),
+        totalFee
+      });
+    } catch (error: any) {
+      console.error('Error quoting transfer fee:', error);
+      setQuote(null);
+      alert('❌ Failed to quote fee: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setQuoting(false);
+    }
+  };
+
+  const loadCurrentSchedule = async () => {
+    try {
+      const contract = getContract(getProvider());
+      const schedule = await contract.getFeeSchedule(scheduleForm.state, scheduleForm.propertyType);
+      setCurrentSchedule(toSchedule(schedule));
+    } catch (error) {
+      console.error('Error loading fee schedule:', error);
+      setCurrentSchedule(null);
+    }
+  };
+
+  const handleSetSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const stampDutyPercent = parseFloat(scheduleForm.stampDutyPercent);
+    if (isNaN(stampDutyPercent) || stampDutyPercent < 0 || stampDutyPercent > 100) {
+      alert('❌ Stamp duty must be between 0 and 100%');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setFeeSchedule(
+        scheduleForm.state,
+        scheduleForm.propertyType,
+        Math.round(stampDutyPercent * 100),
+        ethers.parseEther(scheduleForm.minStampDuty || '0'),
+        ethers.parseEther(scheduleForm.maxStampDuty || '0'),
+        ethers.parseEther(scheduleForm.registrationFee || '0')
+      );
+      await tx.wait();
+      alert(`✅ Fee schedule saved for ${scheduleForm.propertyType} property in ${scheduleForm.state}`);
+      await loadCurrentSchedule();
+    } catch (error: any) {
+      console.error('Error setting fee schedule:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to save fee schedule: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemoveSchedule = async () => {
+    if (!confirm(`Remove the ${scheduleForm.propertyType} schedule for ${scheduleForm.state}? Transfers will fall back to the flat transfer fee.`)) return;
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.removeFeeSchedule(scheduleForm.state, scheduleForm.propertyType);
+      await tx.wait();
+      alert('✅ Fee schedule removed');
+      await loadCurrentSchedule();
+    } catch (error: any) {
+      console.error('Error removing fee schedule:', error);
+      alert('❌ Failed to remove fee schedule: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSetConcession = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const concessionPercent = parseFloat(concessionForm.concessionPercent);
+    if (isNaN(concessionPercent) || concessionPercent < 0 || concessionPercent > 100) {
+      alert('❌ Concession must be between 0 and 100%');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.setStampDutyConcession(
+        concessionForm.state,
+        concessionForm.buyerCategory,
+        Math.round(concessionPercent * 100)
+      );
+      await tx.wait();
+      alert(concessionPercent > 0
+        ? `✅ ${concessionForm.buyerCategory} buyers in ${concessionForm.state} now pay ${concessionPercent}% less stamp duty`
+        : `✅ Concession for ${concessionForm.buyerCategory} buyers in ${concessionForm.state} removed`);
+      setConcessionForm(prev => ({ ...prev, concessionPercent: '' }));
+    } catch (error: any) {
+      console.error('Error setting concession:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to save concession: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatPercent = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+  return (
+    <>
+      <Head>
+        <title>Stamp Duty - Land Registry</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-yellow-50 to-white">
+        {/* Header */}
+        <header className="bg-white shadow-md">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex justify-between items-center">
+              <Link href="/" className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-primary-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-xl">🏠</span>
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-800">Land Registry</h1>
+                  <p className="text-xs text-gray-500">Stamp Duty &amp; Registration Fees</p>
+                </div>
+              </Link>
+
+              {account && (
+                <div className="text-right">
+                  <p className="text-xs text-gray-500">{isContractOwner ? 'Registry Administrator' : 'Connected Account'}</p>
+                  <p className="text-sm font-mono font-semibold text-gray-700">
+                    {account.slice(0, 6)}...{account.slice(-4)}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-8">
+          {/* Breadcrumb */}
+          <nav className="flex mb-8" aria-label="Breadcrumb">
+            <ol className="inline-flex items-center space-x-1 md:space-x-3">
+              <li>
+                <Link href="/" className="text-gray-500 hover:text-primary-600">Home</Link>
+              </li>
+              <li>
+                <span className="text-gray-400 mx-2">/</span>
+                <span className="text-gray-700 font-semibold">Stamp Duty</span>
+              </li>
+            </ol>
+          </nav>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Fee Calculator */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-2">💰 Fee Calculator</h2>
+              <p className="text-sm text-gray-600 mb-6">
+                Quote the stamp duty and registration fee payable when transferring a property for a declared sale value.
+              </p>
+
+              <form onSubmit={handleQuote} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Property ID *</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={quoteForm.propertyId}
+                    onChange={(e) => setQuoteForm(prev => ({ ...prev, propertyId: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="e.g. 12"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Declared Sale Value (ETH) *</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={quoteForm.declaredValue}
+                    onChange={(e) => setQuoteForm(prev => ({ ...prev, declaredValue: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="Consideration stated in the sale deed"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Buyer Category</label>
+                  <select
+                    value={quoteForm.buyerCategory}
+                    onChange={(e) => setQuoteForm(prev => ({ ...prev, buyerCategory: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="">General (no concession)</option>
+                    {STAMP_DUTY_BUYER_CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={quoting}
+                  className="w-full py-3 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {quoting ? '⏳ Calculating...' : 'Get Quote'}
+                </button>
+              </form>
+
+              {quote && (
+                <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <h3 className="font-semibold text-yellow-800 mb-2">
+                    Property #{quote.propertyId} · {quote.propertyType}, {quote.state}
+                  </h3>
+                  {quote.schedule.isActive ? (
+                    <div className="text-sm text-yellow-800 space-y-1">
+                      <p>Stamp duty rate: {formatPercent(quote.schedule.stampDutyBps)}</p>
+                      {quote.concessionBps > 0 && (
+                        <p>Concession for {quoteForm.buyerCategory} buyers: −{formatPercent(quote.concessionBps)}</p>
+                      )}
+                      <p>
+                        Minimum {ethers.formatEther(quote.schedule.minStampDuty)} ETH
+                        {quote.schedule.maxStampDuty > 0n && ` · Maximum ${ethers.formatEther(quote.schedule.maxStampDuty)} ETH`}
+                      </p>
+                      <p>Registration fee: {ethers.formatEther(quote.schedule.registrationFee)} ETH</p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-yellow-800">
+                      No schedule is set for this property type in {quote.state}; the flat transfer fee applies.
+                    </p>
+                  )}
+                  <p className="text-lg font-bold text-yellow-900 mt-3">
+                    Total payable: {ethers.formatEther(quote.totalFee)} ETH
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Schedule Management (Only for Contract Owner) */}
+            {isContractOwner && (
+              <div className="space-y-8">
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-2">📋 State Fee Schedule</h2>
+                  <p className="text-sm text-gray-600 mb-6">
+                    Set the stamp duty charged on transfers of a property type in a state.
+                  </p>
+
+                  <form onSubmit={handleSetSchedule} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <select
+                        value={scheduleForm.state}
+                        onChange={(e) => setScheduleForm(prev => ({ ...prev, state: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        required
+                      >
+                        <option value="">Select State</option>
+                        {states.map((state) => (
+                          <option key={state} value={state}>{state}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={scheduleForm.propertyType}
+                        onChange={(e) => setScheduleForm(prev => ({ ...prev, propertyType: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        required
+                      >
+                        <option value="">Select Property Type</option>
+                        {PROPERTY_TYPES.map((type) => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {currentSchedule && (
+                      <p className="text-xs text-gray-500">
+                        {currentSchedule.isActive
+                          ? `Current: ${formatPercent(currentSchedule.stampDutyBps)}, min ${ethers.formatEther(currentSchedule.minStampDuty)} ETH, ` +
+                          `max ${currentSchedule.maxStampDuty > 0n ? `${ethers.formatEther(currentSchedule.maxStampDuty)} ETH` : 'none'}, ` +
+                          `registration ${ethers.formatEther(currentSchedule.registrationFee)} ETH`
+                          : 'No schedule set; the flat transfer fee applies'}
+                      </p>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={scheduleForm.stampDutyPercent}
+                        onChange={(e) => setScheduleForm(prev => ({ ...prev, stampDutyPercent: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        placeholder="Stamp duty (%)"
+                        required
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={scheduleForm.registrationFee}
+                        onChange={(e) => setScheduleForm(prev => ({ ...prev, registrationFee: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        placeholder="Registration fee (ETH)"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={scheduleForm.minStampDuty}
+                        onChange={(e) => setScheduleForm(prev => ({ ...prev, minStampDuty: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        placeholder="Minimum stamp duty (ETH)"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={scheduleForm.maxStampDuty}
+                        onChange={(e) => setScheduleForm(prev => ({ ...prev, maxStampDuty: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        placeholder="Maximum stamp duty (ETH, blank for none)"
+                      />
+                    </div>
+
+                    <div className="flex space-x-3">
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50"
+                      >
+                        Save Schedule
+                      </button>
+                      {currentSchedule?.isActive && (
+                        <button
+                          type="button"
+                          onClick={handleRemoveSchedule}
+                          disabled={submitting}
+                          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-semibold text-sm disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  </form>
+                </div>
+
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-800 mb-2">🎟️ Stamp Duty Concessions</h2>
+                  <p className="text-sm text-gray-600 mb-6">
+                    Lower the stamp duty rate for a buyer category in a state, e.g. 1% less for women buyers. Enter 0 to remove.
+                  </p>
+
+                  <form onSubmit={handleSetConcession} className="space-y-4">
+                    <div className="grid grid-cols-3 gap-4">
+                      <select
+                        value={concessionForm.state}
+                        onChange={(e) => setConcessionForm(prev => ({ ...prev, state: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        required
+                      >
+                        <option value="">Select State</option>
+                        {states.map((state) => (
+                          <option key={state} value={state}>{state}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={concessionForm.buyerCategory}
+                        onChange={(e) => setConcessionForm(prev => ({ ...prev, buyerCategory: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        {STAMP_DUTY_BUYER_CATEGORIES.map((category) => (
+                          <option key={category} value={category}>{category}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={concessionForm.concessionPercent}
+                        onChange={(e) => setConcessionForm(prev => ({ ...prev, concessionPercent: e.target.value }))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        placeholder="Rate reduction (%)"
+                        required
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={submitting}
+                      className="w-full py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50"
+                    >
+                      Save Concession
+                    </button>
+                  </form>
+                </div>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
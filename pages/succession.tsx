@@ -0,0 +1,516 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ethers } from 'ethers';
+import { getContract, getSigner } from '../utils/contract';
+
+interface Heir {
+  address: string;
+  share: string;
+}
+
+interface SuccessionClaim {
+  successionId: number;
+  propertyId: number;
+  claimant: string;
+  deceasedOwner: string;
+  deathCertificateHash: string;
+  heirs: { address: string; share: number }[];
+  filedDate: number;
+  objectionDeadline: number;
+  objectionCount: number;
+}
+
+interface PropertyOwner {
+  ownerAddress: string;
+  sharePercentage: number;
+}
+
+export default function Succession() {
+  const router = useRouter();
+  const [account, setAccount] = useState<string>('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [claims, setClaims] = useState<SuccessionClaim[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actingId, setActingId] = useState<number | null>(null);
+  const [objectionInputs, setObjectionInputs] = useState<{ [successionId: number]: string }>({});
+  const [propertyOwners, setPropertyOwners] = useState<PropertyOwner[]>([]);
+  const [formData, setFormData] = useState({
+    propertyId: '',
+    deceasedOwner: '',
+    deathCertificateHash: ''
+  });
+  const [heirs, setHeirs] = useState<Heir[]>([{ address: '', share: '' }]);
+
+  useEffect(() => {
+    checkWalletConnection();
+  }, []);
+
+  useEffect(() => {
+    if (typeof router.query.propertyId === 'string') {
+      setFormData(prev => ({ ...prev, propertyId: router.query.propertyId as string }));
+    }
+  }, [router.query.propertyId]);
+
+  useEffect(() => {
+    if (account) {
+      loadPendingClaims();
+    }
+  }, [account]);
+
+  useEffect(() => {
+    if (account && formData.propertyId) {
+      loadPropertyOwners(parseInt(formData.propertyId));
+    } else {
+      setPropertyOwners([]);
+    }
+  }, [account, formData.propertyId]);
+
+  const checkWalletConnection = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        const accounts = await provider.listAccounts();
+
+        if (accounts.length > 0) {
+          const signer = await provider.getSigner();
+          const address = await signer.getAddress();
+          setAccount(address);
+          setIsConnected(true);
+        }
+      } catch (error) {
+        console.error('Error checking wallet connection:', error);
+      }
+    }
+  };
+
+  const connectWallet = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        await provider.send('eth_requestAccounts', []);
+        const signer = await provider.getSigner();
+        const address = await signer.getAddress();
+
+        setAccount(address);
+        setIsConnected(true);
+      } catch (error) {
+        console.error('Error connecting wallet:', error);
+        alert('Failed to connect wallet. Please make sure MetaMask is installed.');
+      }
+    } else {
+      alert('Please install MetaMask to use this application.');
+    }
+  };
+
+  // Owners of record, so the claimant can pick the deceased and see the share to divide
+  const loadPropertyOwners = async (propertyId: number) => {
+    if (isNaN(propertyId) || propertyId <= 0) {
+      setPropertyOwners([]);
+      return;
+    }
+
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const coOwners = await contract.getPropertyCoOwners(propertyId);
+      setPropertyOwners(coOwners.map((entry: any) => ({
+        ownerAddress: entry.ownerAddress,
+        sharePercentage: Number(entry.sharePercentage)
+      })));
+    } catch (error) {
+      console.error('Error loading property owners:', error);
+      setPropertyOwners([]);
+    }
+  };
+
+  // Open claims are public notices: anyone may object while the window is open
+  const loadPendingClaims = async () => {
+    setLoading(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const pendingIds = await contract.getPendingSuccessionRequests();
+      const pending: SuccessionClaim[] = [];
+      for (const id of pendingIds) {
+        const details = await contract.getSuccessionRequestDetails(Number(id));
+        const objections = await contract.getSuccessionObjections(Number(id));
+
+        pending.push({
+          successionId: Number(id),
+          propertyId: Number(details.propertyId),
+          claimant: details.claimant,
+          deceasedOwner: details.deceasedOwner,
+          deathCertificateHash: details.deathCertificateHash,
+          heirs: details.heirs.map((heir: string, index: number) => ({
+            address: heir,
+            share: Number(details.heirShares[index])
+          })),
+          filedDate: Number(details.filedDate),
+          objectionDeadline: Number(details.objectionDeadline),
+          objectionCount: objections.length
+        });
+      }
+      setClaims(pending.reverse());
+    } catch (error) {
+      console.error('Error loading succession claims:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateHeir = (index: number, field: keyof Heir, value: string) => {
+    setHeirs(prev => prev.map((heir, i) => (i === index ? { ...heir, [field]: value } : heir)));
+  };
+
+  const deceasedShare = propertyOwners.find(
+    o => o.ownerAddress.toLowerCase() === formData.deceasedOwner.toLowerCase()
+  )?.sharePercentage;
+  const heirTotal = heirs.reduce((sum, heir) => sum + (parseInt(heir.share) || 0), 0);
+
+  const handleFileClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const propertyId = parseInt(formData.propertyId);
+    if (isNaN(propertyId) || propertyId <= 0) {
+      alert('❌ Please enter a valid property ID');
+      return;
+    }
+    if (!ethers.isAddress(formData.deceasedOwner)) {
+      alert('❌ Please select the deceased owner');
+      return;
+    }
+    if (heirs.some(heir => !ethers.isAddress(heir.address) || !(parseInt(heir.share) > 0))) {
+      alert('❌ Each heir needs a valid wallet address and a share above zero');
+      return;
+    }
+    if (deceasedShare !== undefined && heirTotal !== deceasedShare) {
+      alert(`❌ Heir shares must add up to the deceased's ${deceasedShare}% share`);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.fileSuccessionClaim(
+        propertyId,
+        formData.deceasedOwner,
+        formData.deathCertificateHash,
+        heirs.map(heir => heir.address),
+        heirs.map(heir => parseInt(heir.share))
+      );
+      await tx.wait();
+      alert(`✅ Succession claim filed for Property #${propertyId}. Objections are open for 30 days, after which an officer will decide.`);
+
+      setFormData({ propertyId: '', deceasedOwner: '', deathCertificateHash: '' });
+      setHeirs([{ address: '', share: '' }]);
+      await loadPendingClaims();
+    } catch (error: any) {
+      console.error('Error filing succession claim:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to file succession claim: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleObject = async (successionId: number) => {
+    const reason = objectionInputs[successionId] || '';
+    if (!reason.trim()) {
+      alert('❌ Please state the grounds for your objection');
+      return;
+    }
+
+    setActingId(successionId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.objectToSuccession(successionId, reason);
+      await tx.wait();
+      alert('✅ Objection recorded. The officer will consider it before deciding the claim.');
+      setObjectionInputs(prev => ({ ...prev, [successionId]: '' }));
+      await loadPendingClaims();
+    } catch (error: any) {
+      console.error('Error recording objection:', error);
+      alert('❌ Failed to record objection: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleDateString();
+  };
+
+  if (!isConnected) {
+    return (
+      <>
+        <Head>
+          <title>Succession - Land Registry</title>
+        </Head>
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-white flex items-center justify-center">
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-md">
+            <div className="text-5xl mb-4">🔌</div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Connect Your Wallet</h2>
+            <p className="text-gray-600 mb-6">
+              Please connect your MetaMask wallet to file or object to a succession claim
+            </p>
+            <button
+              onClick={connectWallet}
+              className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold"
+            >
+              Connect MetaMask
+            </button>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Succession - Land Registry</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-white">
+        {/* Header */}
+        <header className="bg-white shadow-md">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex justify-between items-center">
+              <Link href="/" className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-primary-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-xl">🏠</span>
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-800">Land Registry</h1>
+                  <p className="text-xs text-gray-500">Succession &amp; Inheritance</p>
+                </div>
+              </Link>
+
+              <div className="text-right">
+                <p className="text-xs text-gray-500">Connected Account</p>
+                <p className="text-sm font-mono font-semibold text-gray-700">
+                  {account.slice(0, 6)}...{account.slice(-4)}
+                </p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-8">
+          {/* Breadcrumb */}
+          <nav className="flex mb-8" aria-label="Breadcrumb">
+            <ol className="inline-flex items-center space-x-1 md:space-x-3">
+              <li>
+                <Link href="/" className="text-gray-500 hover:text-primary-600">Home</Link>
+              </li>
+              <li>
+                <span className="text-gray-400 mx-2">/</span>
+                <span className="text-gray-700 font-semibold">Succession</span>
+              </li>
+            </ol>
+          </nav>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* File Succession Claim */}
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-2">📜 File Succession Claim</h2>
+                <p className="text-sm text-gray-600 mb-6">
+                  Claim a deceased owner&apos;s share for the legal heirs. After a 30-day objection window an officer approves the claim and the heirs become owners.
+                </p>
+
+                <form onSubmit={handleFileClaim} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Property ID *</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.propertyId}
+                      onChange={(e) => setFormData(prev => ({ ...prev, propertyId: e.target.value, deceasedOwner: '' }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="e.g. 12"
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Deceased Owner *</label>
+                    <select
+                      value={formData.deceasedOwner}
+                      onChange={(e) => setFormData(prev => ({ ...prev, deceasedOwner: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm"
+                      disabled={propertyOwners.length === 0}
+                      required
+                    >
+                      <option value="">{propertyOwners.length === 0 ? 'Enter a property ID first' : 'Select owner of record'}</option>
+                      {propertyOwners.map(owner => (
+                        <option key={owner.ownerAddress} value={owner.ownerAddress}>
+                          {owner.ownerAddress.slice(0, 10)}...{owner.ownerAddress.slice(-6)} ({owner.sharePercentage}%)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Death Certificate Hash *</label>
+                    <input
+                      type="text"
+                      value={formData.deathCertificateHash}
+                      onChange={(e) => setFormData(prev => ({ ...prev, deathCertificateHash: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="IPFS hash of the death certificate"
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="block text-sm font-semibold text-gray-700">Legal Heirs *</label>
+                      <span className={`text-xs font-semibold ${deceasedShare !== undefined && heirTotal === deceasedShare ? 'text-green-600' : 'text-gray-500'}`}>
+                        {heirTotal}%{deceasedShare !== undefined ? ` of ${deceasedShare}%` : ''}
+                      </span>
+                    </div>
+                    <div className="space-y-2">
+                      {heirs.map((heir, index) => (
+                        <div key={index} className="flex items-center space-x-2">
+                          <input
+                            type="text"
+                            value={heir.address}
+                            onChange={(e) => updateHeir(index, 'address', e.target.value)}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                            placeholder="Heir wallet (0x...)"
+                          />
+                          <input
+                            type="number"
+                            min="1"
+                            max="100"
+                            value={heir.share}
+                            onChange={(e) => updateHeir(index, 'share', e.target.value)}
+                            className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                            placeholder="%"
+                          />
+                          {heirs.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => setHeirs(prev => prev.filter((_, i) => i !== index))}
+                              className="text-red-500 hover:text-red-700 text-sm"
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setHeirs(prev => [...prev, { address: '', share: '' }])}
+                      className="mt-2 text-sm text-primary-600 hover:underline"
+                    >
+                      + Add heir
+                    </button>
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? '⏳ Filing Claim...' : 'File Succession Claim'}
+                  </button>
+                </form>
+              </div>
+            </div>
+
+            {/* Pending Claims */}
+            <div className="lg:col-span-2">
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Pending Succession Claims</h2>
+
+                {loading ? (
+                  <div className="flex justify-center items-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                    <span className="ml-2 text-gray-600">Loading claims...</span>
+                  </div>
+                ) : claims.length === 0 ? (
+                  <div className="text-center py-12">
+                    <div className="text-5xl mb-4">📄</div>
+                    <p className="text-gray-600">No succession claims are pending</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {claims.map((claim) => {
+                      const windowOpen = claim.objectionDeadline * 1000 > Date.now();
+                      return (
+                        <div key={claim.successionId} className="border border-gray-200 rounded-lg p-4">
+                          <div className="flex justify-between items-start mb-3">
+                            <div>
+                              <h3 className="font-semibold text-gray-800">
+                                Claim #{claim.successionId} on{' '}
+                                <Link href={`/property/${claim.propertyId}`} className="text-primary-600 hover:underline">
+                                  Property #{claim.propertyId}
+                                </Link>
+                              </h3>
+                              <p className="text-xs text-gray-500 font-mono">Deceased: {claim.deceasedOwner}</p>
+                              <p className="text-xs text-gray-500">
+                                Filed {formatDate(claim.filedDate)} · {claim.objectionCount} objection{claim.objectionCount === 1 ? '' : 's'}
+                              </p>
+                            </div>
+                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${windowOpen
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : 'bg-blue-100 text-blue-800'
+                              }`}>
+                              {windowOpen ? `Objections until ${formatDate(claim.objectionDeadline)}` : 'Awaiting officer'}
+                            </span>
+                          </div>
+
+                          <div className="text-sm text-gray-700 mb-3">
+                            {claim.heirs.map(heir => (
+                              <p key={heir.address}>
+                                <span className="font-mono text-xs">{heir.address.slice(0, 10)}...{heir.address.slice(-6)}</span> · {heir.share}%
+                              </p>
+                            ))}
+                          </div>
+
+                          {windowOpen && (
+                            <div className="pt-3 border-t border-gray-100 flex items-center space-x-2">
+                              <input
+                                type="text"
+                                value={objectionInputs[claim.successionId] || ''}
+                                onChange={(e) => setObjectionInputs(prev => ({ ...prev, [claim.successionId]: e.target.value }))}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                placeholder="Grounds for objection (e.g. heir omitted, later will exists)"
+                              />
+                              <button
+                                onClick={() => handleObject(claim.successionId)}
+                                disabled={actingId === claim.successionId}
+                                className="px-4 py-2 border border-red-600 text-red-700 rounded-lg hover:bg-red-50 transition font-semibold text-sm disabled:opacity-50"
+                              >
+                                {actingId === claim.successionId ? '⏳ Processing...' : 'Object'}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
@@ -26,9 +26,7 @@ export default function VerifyOwner() {
             console.log('Owner details:', result);
             setOwnerData({
                 ownerAddress: result.ownerAddress,
-                name: result.name,
-                idDocument: result.idDocument,
-                contactInfo: result.contactInfo,
+                idDocumentHash: result.idDocumentHash,
                 isVerified: result.isVerified
             });
         } catch (err: any) {
@@ -95,9 +93,9 @@ export default function VerifyOwner() {
                                     <h3 className="text-lg font-semibold text-green-800 mb-4">✅ Owner Found!</h3>
                                     <div className="space-y-2 text-sm">
                                         <div><strong>Address:</strong> {ownerData.ownerAddress}</div>
-                                        <div><strong>Name:</strong> {ownerData.name}</div>
-                                        <div><strong>ID Document:</strong> {ownerData.idDocument}</div>
-                                        <div><strong>Contact:</strong> {ownerData.contactInfo}</div>
+                                        <div><strong>Name:</strong> 🔒 Held in the PII vault; shared only with wallets the owner approves</div>
+                                        <div><strong>ID Document Hash:</strong> <span className="font-mono">{ownerData.idDocumentHash.slice(0, 10)}...{ownerData.idDocumentHash.slice(-4)}</span></div>
+                                        <div><strong>Contact:</strong> 🔒 Held in the PII vault; shared only with wallets the owner approves</div>
                                         <div><strong>Verified:</strong>
                                             <span className={`ml-1 px-2 py-1 rounded text-xs ${ownerData.isVerified ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
                                                 {ownerData.isVerified ? 'Verified' : 'Pending Verification'}
@@ -0,0 +1,414 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { getContract, getSigner } from '../utils/contract';
+
+interface RecoveryRequest {
+  requestId: number;
+  lostAddress: string;
+  newAddress: string;
+  affidavitHash: string;
+  requestDate: number;
+  isPending: boolean;
+  isApproved: boolean;
+  isCancelled: boolean;
+  isExecuted: boolean;
+  officerEmployeeId: string;
+  notes: string;
+  executableAfter: number;
+}
+
+export default function WalletRecovery() {
+  const [account, setAccount] = useState<string>('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [requests, setRequests] = useState<RecoveryRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actingId, setActingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState({
+    lostAddress: '',
+    affidavitHash: ''
+  });
+
+  useEffect(() => {
+    checkWalletConnection();
+  }, []);
+
+  useEffect(() => {
+    if (account) {
+      loadRequests();
+    }
+  }, [account]);
+
+  const checkWalletConnection = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        const accounts = await provider.listAccounts();
+
+        if (accounts.length > 0) {
+          const signer = await provider.getSigner();
+          const address = await signer.getAddress();
+          setAccount(address);
+          setIsConnected(true);
+        }
+      } catch (error) {
+        console.error('Error checking wallet connection:', error);
+      }
+    }
+  };
+
+  const connectWallet = async () => {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      try {
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        await provider.send('eth_requestAccounts', []);
+        const signer = await provider.getSigner();
+        const address = await signer.getAddress();
+
+        setAccount(address);
+        setIsConnected(true);
+      } catch (error) {
+        console.error('Error connecting wallet:', error);
+        alert('Failed to connect wallet. Please make sure MetaMask is installed.');
+      }
+    } else {
+      alert('Please install MetaMask to use this application.');
+    }
+  };
+
+  // Requests this wallet filed, and requests naming it as the lost wallet so the owner can cancel them
+  const loadRequests = async () => {
+    setLoading(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const requestIds = await contract.getWalletRecoveryRequestsOf(account);
+      const loaded: RecoveryRequest[] = [];
+      for (const id of requestIds) {
+        const details = await contract.getWalletRecoveryRequestDetails(Number(id));
+        loaded.push({
+          requestId: Number(details.requestId),
+          lostAddress: details.lostAddress,
+          newAddress: details.newAddress,
+          affidavitHash: details.affidavitHash,
+          requestDate: Number(details.requestDate),
+          isPending: details.isPending,
+          isApproved: details.isApproved,
+          isCancelled: details.isCancelled,
+          isExecuted: details.isExecuted,
+          officerEmployeeId: details.officerEmployeeId,
+          notes: details.notes,
+          executableAfter: Number(details.executableAfter)
+        });
+      }
+      setRequests(loaded.reverse());
+    } catch (error) {
+      console.error('Error loading recovery requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequestRecovery = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!ethers.isAddress(formData.lostAddress)) {
+      alert('❌ Please enter the address of the wallet you lost');
+      return;
+    }
+    if (formData.lostAddress.toLowerCase() === account.toLowerCase()) {
+      alert('❌ Connect the new wallet you want your properties moved to, not the lost one');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.requestWalletRecovery(formData.lostAddress, formData.affidavitHash);
+      await tx.wait();
+      alert('✅ Recovery request filed. An officer will check your ID document and affidavit; after approval there is a 7-day waiting period before you can complete the recovery.');
+
+      setFormData({ lostAddress: '', affidavitHash: '' });
+      await loadRequests();
+    } catch (error: any) {
+      console.error('Error requesting wallet recovery:', error);
+      if (error.code === 'ACTION_REJECTED') {
+        alert('❌ Transaction was rejected by user');
+      } else {
+        alert('❌ Failed to file recovery request: ' + (error.reason || error.message || 'Unknown error'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (requestId: number) => {
+    if (!confirm('Cancel this wallet recovery? The properties will stay with the original wallet.')) {
+      return;
+    }
+
+    setActingId(requestId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.cancelWalletRecovery(requestId);
+      await tx.wait();
+      alert('✅ Wallet recovery cancelled.');
+      await loadRequests();
+    } catch (error: any) {
+      console.error('Error cancelling wallet recovery:', error);
+      alert('❌ Failed to cancel recovery: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const handleExecute = async (requestId: number) => {
+    setActingId(requestId);
+    try {
+      const signer = await getSigner();
+      const contract = getContract(signer);
+
+      const tx = await contract.executeWalletRecovery(requestId);
+      await tx.wait();
+      alert('✅ Recovery complete. Your owner record and properties now belong to this wallet.');
+      await loadRequests();
+    } catch (error: any) {
+      console.error('Error executing wallet recovery:', error);
+      alert('❌ Failed to complete recovery: ' + (error.reason || error.message || 'Unknown error'));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleDateString();
+  };
+
+  const getStatus = (request: RecoveryRequest) => {
+    if (request.isExecuted) {
+      return { label: 'Recovered', className: 'bg-green-100 text-green-800' };
+    }
+    if (request.isCancelled) {
+      return { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' };
+    }
+    if (request.isPending) {
+      return { label: 'Awaiting officer', className: 'bg-blue-100 text-blue-800' };
+    }
+    if (!request.isApproved) {
+      return { label: 'Rejected', className: 'bg-red-100 text-red-800' };
+    }
+    if (request.executableAfter * 1000 > Date.now()) {
+      return { label: `Waiting until ${formatDate(request.executableAfter)}`, className: 'bg-yellow-100 text-yellow-800' };
+    }
+    return { label: 'Ready to complete', className: 'bg-green-100 text-green-800' };
+  };
+
+  if (!isConnected) {
+    return (
+      <>
+        <Head>
+          <title>Wallet Recovery - Land Registry</title>
+        </Head>
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-white flex items-center justify-center">
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center max-w-md">
+            <div className="text-5xl mb-4">🔌</div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Connect Your Wallet</h2>
+            <p className="text-gray-600 mb-6">
+              Connect the new wallet you want your properties moved to, or your current wallet to review recovery requests against it
+            </p>
+            <button
+              onClick={connectWallet}
+              className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold"
+            >
+              Connect MetaMask
+            </button>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Wallet Recovery - Land Registry</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-white">
+        {/* Header */}
+        <header className="bg-white shadow-md">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex justify-between items-center">
+              <Link href="/" className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-primary-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-xl">🏠</span>
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-800">Land Registry</h1>
+                  <p className="text-xs text-gray-500">Wallet Recovery</p>
+                </div>
+              </Link>
+
+              <div className="text-right">
+                <p className="text-xs text-gray-500">Connected Account</p>
+                <p className="text-sm font-mono font-semibold text-gray-700">
+                  {account.slice(0, 6)}...{account.slice(-4)}
+                </p>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-8">
+          {/* Breadcrumb */}
+          <nav className="flex mb-8" aria-label="Breadcrumb">
+            <ol className="inline-flex items-center space-x-1 md:space-x-3">
+              <li>
+                <Link href="/" className="text-gray-500 hover:text-primary-600">Home</Link>
+              </li>
+              <li>
+                <span className="text-gray-400 mx-2">/</span>
+                <span className="text-gray-700 font-semibold">Wallet Recovery</span>
+              </li>
+            </ol>
+          </nav>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Request Recovery */}
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-2">🔐 Recover a Lost Wallet</h2>
+                <p className="text-sm text-gray-600 mb-6">
+                  File this from your new wallet. Bring the ID document you registered with to an officer, who checks it and your affidavit; then after a 7-day waiting period your owner record, properties and open requests move here. The lost wallet can cancel until then.
+                </p>
+
+                <form onSubmit={handleRequestRecovery} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Lost Wallet Address *</label>
+                    <input
+                      type="text"
+                      value={formData.lostAddress}
+                      onChange={(e) => setFormData(prev => ({ ...prev, lostAddress: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm"
+                      placeholder="0x..."
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Affidavit Hash *</label>
+                    <input
+                      type="text"
+                      value={formData.affidavitHash}
+                      onChange={(e) => setFormData(prev => ({ ...prev, affidavitHash: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="IPFS hash of the notarised affidavit of key loss"
+                      required
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? '⏳ Filing Request...' : 'Request Wallet Recovery'}
+                  </button>
+                </form>
+              </div>
+            </div>
+
+            {/* Recovery Requests */}
+            <div className="lg:col-span-2">
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Recovery Requests Involving This Wallet</h2>
+
+                {loading ? (
+                  <div className="flex justify-center items-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                    <span className="ml-2 text-gray-600">Loading requests...</span>
+                  </div>
+                ) : requests.length === 0 ? (
+                  <div className="text-center py-12">
+                    <div className="text-5xl mb-4">🔐</div>
+                    <p className="text-gray-600">No recovery requests involve this wallet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {requests.map((request) => {
+                      const status = getStatus(request);
+                      const isLostWallet = request.lostAddress.toLowerCase() === account.toLowerCase();
+                      const isNewWallet = request.newAddress.toLowerCase() === account.toLowerCase();
+                      const isOpen = !request.isCancelled && !request.isExecuted && (request.isPending || request.isApproved);
+                      const canExecute = isNewWallet && isOpen && !request.isPending &&
+                        request.executableAfter * 1000 <= Date.now();
+
+                      return (
+                        <div
+                          key={request.requestId}
+                          className={`border rounded-lg p-4 ${isLostWallet && isOpen ? 'border-red-300 bg-red-50' : 'border-gray-200'}`}
+                        >
+                          <div className="flex justify-between items-start mb-3">
+                            <div>
+                              <h3 className="font-semibold text-gray-800">Recovery #{request.requestId}</h3>
+                              <p className="text-xs text-gray-500 font-mono">Lost: {request.lostAddress}</p>
+                              <p className="text-xs text-gray-500 font-mono">New: {request.newAddress}</p>
+                              <p className="text-xs text-gray-500">Filed {formatDate(request.requestDate)}</p>
+                            </div>
+                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${status.className}`}>
+                              {status.label}
+                            </span>
+                          </div>
+
+                          <p className="text-xs text-gray-600 font-mono mb-2">Affidavit: {request.affidavitHash}</p>
+                          {request.officerEmployeeId && (
+                            <p className="text-sm text-gray-700 mb-2">
+                              Officer {request.officerEmployeeId}{request.notes ? `: ${request.notes}` : ''}
+                            </p>
+                          )}
+                          {isLostWallet && isOpen && (
+                            <p className="text-sm text-red-700 mb-2">
+                              ⚠️ Someone has asked to move this wallet&apos;s properties to another wallet. If you did not file this, cancel it now.
+                            </p>
+                          )}
+
+                          {isOpen && (
+                            <div className="pt-3 border-t border-gray-100 flex space-x-2">
+                              {canExecute && (
+                                <button
+                                  onClick={() => handleExecute(request.requestId)}
+                                  disabled={actingId === request.requestId}
+                                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-semibold text-sm disabled:opacity-50"
+                                >
+                                  {actingId === request.requestId ? '⏳ Processing...' : 'Complete Recovery'}
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleCancel(request.requestId)}
+                                disabled={actingId === request.requestId}
+                                className="px-4 py-2 border border-red-600 text-red-700 rounded-lg hover:bg-red-50 transition font-semibold text-sm disabled:opacity-50"
+                              >
+                                {actingId === request.requestId ? '⏳ Processing...' : 'Cancel Recovery'}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
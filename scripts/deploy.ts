@@ -1,44 +1,110 @@
-import { ethers } from "hardhat";
+import { ethers, upgrades } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import { deployLandRegistryModules } from "./landRegistryModules";
 
 async function main() {
   console.log("Starting deployment of LandRegistry contract...");
 
+  const deploymentPath = path.join(__dirname, "..", "deployment.json");
+  const previousDeployment = fs.existsSync(deploymentPath)
+    ? JSON.parse(fs.readFileSync(deploymentPath, "utf8"))
+    : null;
+
   // Get the contract factory
   const LandRegistry = await ethers.getContractFactory("LandRegistry");
-  
-  // Deploy the contract
-  console.log("Deploying LandRegistry...");
-  const landRegistry = await LandRegistry.deploy();
-  
-  await landRegistry.waitForDeployment();
-  
-  const contractAddress = await landRegistry.getAddress();
-  console.log(`LandRegistry deployed to: ${contractAddress}`);
-  
+
   // Get deployer information
   const [deployer] = await ethers.getSigners();
+  const network = await ethers.provider.getNetwork();
+  const chainId = Number(network.chainId);
+
+  // Upgrade in place when the saved deployment is a live proxy on this chain; FRESH_DEPLOY=true forces a new proxy
+  const isSameChain = previousDeployment?.chainId === chainId;
+  const canUpgrade =
+    isSameChain &&
+    previousDeployment.proxyKind === "uups" &&
+    process.env.FRESH_DEPLOY !== "true" &&
+    (await ethers.provider.getCode(previousDeployment.contractAddress)) !== "0x";
+
+  let contractAddress: string;
+  let deploymentInfo: any;
+
+  if (canUpgrade) {
+    contractAddress = previousDeployment.contractAddress;
+    console.log(`Upgrading LandRegistry proxy at ${contractAddress}...`);
+
+    // Reverts if the new implementation reorders, removes or retypes existing state variables
+    console.log("Checking storage layout against the deployed implementation...");
+    await upgrades.validateUpgrade(contractAddress, LandRegistry, { kind: "uups" });
+    console.log("✅ Storage layout is compatible");
+
+    const landRegistry = await upgrades.upgradeProxy(contractAddress, LandRegistry, { kind: "uups" });
+    await landRegistry.waitForDeployment();
+
+    // Redeploy the modules so changed functions take effect; the routes are rewritten in the proxy's storage
+    console.log("Deploying modules and routing their functions...");
+    const modules = await deployLandRegistryModules(contractAddress);
+
+    deploymentInfo = {
+      ...previousDeployment,
+      implementationAddress: await upgrades.erc1967.getImplementationAddress(contractAddress),
+      modules,
+      upgradedAt: new Date().toISOString()
+    };
+    console.log(`LandRegistry upgraded; proxy address unchanged: ${contractAddress}`);
+  } else {
+    // Deploy the contract behind a UUPS proxy so later fixes keep its records
+    console.log("Deploying LandRegistry behind a UUPS proxy...");
+    const landRegistry = await upgrades.deployProxy(LandRegistry, [], {
+      kind: "uups",
+      initializer: "initialize"
+    });
+
+    await landRegistry.waitForDeployment();
+
+    contractAddress = await landRegistry.getAddress();
+    console.log(`LandRegistry proxy deployed to: ${contractAddress}`);
+
+    // The registry's functions live in separate modules so every contract fits the 24 KB size limit
+    console.log("Deploying modules and routing their functions...");
+    const modules = await deployLandRegistryModules(contractAddress);
+
+    deploymentInfo = {
+      contractAddress: contractAddress,
+      implementationAddress: await upgrades.erc1967.getImplementationAddress(contractAddress),
+      modules,
+      proxyKind: "uups",
+      deployedAt: new Date().toISOString(),
+      network: network.name,
+      chainId: chainId,
+      deployer: deployer.address
+    };
+
+    // Remember a non-upgradeable deployment on this chain so scripts/migrate.ts can replay its records
+    const legacyAddress = isSameChain && !previousDeployment.proxyKind
+      ? previousDeployment.contractAddress
+      : previousDeployment?.legacyContractAddress;
+    if (isSameChain && legacyAddress) {
+      deploymentInfo.legacyContractAddress = legacyAddress;
+    }
+  }
+
+  console.log(`Implementation address: ${deploymentInfo.implementationAddress}`);
+  for (const [name, address] of Object.entries(deploymentInfo.modules as Record<string, string>)) {
+    console.log(`${name}: ${address}`);
+  }
   console.log(`Deployed by: ${deployer.address}`);
   console.log(`Deployer balance: ${ethers.formatEther(await ethers.provider.getBalance(deployer.address))} ETH`);
-  
+
   // Save contract address to a file for frontend
-  const deploymentInfo = {
-    contractAddress: contractAddress,
-    deployedAt: new Date().toISOString(),
-    network: (await ethers.provider.getNetwork()).name,
-    chainId: Number((await ethers.provider.getNetwork()).chainId),
-    deployer: deployer.address
-  };
-  
-  const deploymentPath = path.join(__dirname, "..", "deployment.json");
   fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
   console.log(`Deployment info saved to: ${deploymentPath}`);
-  
+
   // Update .env file with contract address
   const envPath = path.join(__dirname, "..", ".env");
   let envContent = "";
-  
+
   if (fs.existsSync(envPath)) {
     envContent = fs.readFileSync(envPath, "utf8");
     // Update or add the contract address
@@ -61,11 +127,15 @@ async function main() {
       );
     }
   }
-  
+
   fs.writeFileSync(envPath, envContent);
   console.log("Contract address saved to .env file");
-  
-  console.log("\n✅ Deployment completed successfully!");
+
+  console.log(`\n✅ ${canUpgrade ? "Upgrade" : "Deployment"} completed successfully!`);
+  if (deploymentInfo.legacyContractAddress && !canUpgrade) {
+    console.log(`\n⚠️  Records are still in the non-upgradeable contract at ${deploymentInfo.legacyContractAddress}`);
+    console.log("Run 'npm run migrate' to replay them into the new proxy");
+  }
   console.log("\nNext steps:");
   console.log("1. Update your .env file with the contract address (already done)");
   console.log("2. Run 'npm run dev' to start the Next.js frontend");
@@ -0,0 +1,69 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { hashIdDocument } from "../utils/contract";
+
+// Owners per migrateOwnerIdDocuments transaction
+const BATCH_SIZE = 50;
+
+// OwnerRegistered as emitted before names moved into the PII vault; every owner this script handles emitted it
+const LEGACY_OWNER_EVENTS_ABI = [
+  "event OwnerRegistered(address indexed ownerAddress, string name, string state, string district, uint256 registrationDate)"
+];
+
+async function main() {
+  console.log("Replacing plaintext owner ID documents with salted hashes...");
+
+  const deploymentPath = path.join(__dirname, "..", "deployment.json");
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error("Deployment file not found. Please deploy the contract first.");
+  }
+
+  if (!process.env.NEXT_PUBLIC_ID_DOCUMENT_SALT) {
+    throw new Error("NEXT_PUBLIC_ID_DOCUMENT_SALT is not set. Use the same salt as the frontend, or owners will not be found.");
+  }
+
+  const deploymentInfo = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  const landRegistry = await ethers.getContractAt("ILandRegistry", deploymentInfo.contractAddress);
+
+  const [deployer] = await ethers.getSigners();
+  console.log(`Contract address: ${deploymentInfo.contractAddress}`);
+  console.log(`Migrating with account: ${deployer.address}`);
+
+  // Every owner registered before the upgrade emitted OwnerRegistered with their plaintext ID in storage
+  const legacyEvents = new ethers.Contract(deploymentInfo.contractAddress, LEGACY_OWNER_EVENTS_ABI, ethers.provider);
+  const ownerAddresses = new Set<string>();
+  for (const log of await legacyEvents.queryFilter(legacyEvents.filters.OwnerRegistered(), 0, "latest")) {
+    const event = legacyEvents.interface.parseLog(log);
+    if (event) ownerAddresses.add(event.args.ownerAddress);
+  }
+
+  const pending: { ownerAddress: string; idDocumentHash: string }[] = [];
+  for (const ownerAddress of ownerAddresses) {
+    const details = await landRegistry.getOwnerDetails(ownerAddress);
+    if (details.idDocument) {
+      pending.push({ ownerAddress, idDocumentHash: hashIdDocument(details.idDocument) });
+    }
+  }
+  console.log(`${pending.length} of ${ownerAddresses.size} owners still store a plaintext ID document`);
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const tx = await landRegistry.migrateOwnerIdDocuments(
+      batch.map((entry) => entry.ownerAddress),
+      batch.map((entry) => entry.idDocumentHash)
+    );
+    await tx.wait();
+    console.log(`   ✅ Hashed owners ${i + 1}-${i + batch.length}`);
+  }
+
+  console.log("\n✅ ID document migration completed successfully!");
+  console.log("ℹ️  Plaintext IDs remain in the calldata of the original registration transactions; only contract storage is cleared.");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,47 @@
+import { ethers } from "hardhat";
+import { LandRegistry } from "../typechain-types";
+
+// Contracts under contracts/modules; the LandRegistry proxy delegates their functions to them
+export const LAND_REGISTRY_MODULES = [
+  "MigrationModule",
+  "OwnersModule",
+  "AdministrationModule",
+  "PropertiesModule",
+  "TransfersModule",
+  "ParcelsModule",
+  "RightsModule",
+  "SearchModule",
+  "RecordsModule",
+  "TreasuryModule"
+];
+
+/**
+ * Deploy every module and route its functions through the proxy at proxyAddress (signed by the contract owner).
+ * Selectors the proxy implements itself, and getters an earlier module already claimed, are skipped.
+ * Returns the module addresses by contract name
+ */
+export async function deployLandRegistryModules(proxyAddress: string): Promise<Record<string, string>> {
+  const landRegistry = (await ethers.getContractAt("LandRegistry", proxyAddress)) as unknown as LandRegistry;
+  const routed = new Set<string>();
+  landRegistry.interface.forEachFunction((fragment) => routed.add(fragment.selector));
+
+  const moduleAddresses: Record<string, string> = {};
+  for (const name of LAND_REGISTRY_MODULES) {
+    const module = await ethers.deployContract(name);
+    await module.waitForDeployment();
+    moduleAddresses[name] = await module.getAddress();
+
+    const selectors: string[] = [];
+    module.interface.forEachFunction((fragment) => {
+      if (!routed.has(fragment.selector)) {
+        routed.add(fragment.selector);
+        selectors.push(fragment.selector);
+      }
+    });
+
+    const tx = await landRegistry.setModuleFunctions(moduleAddresses[name], selectors);
+    await tx.wait();
+  }
+
+  return moduleAddresses;
+}
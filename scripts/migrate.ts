@@ -0,0 +1,279 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { hashIdDocument } from "../utils/contract";
+import { storePiiRecord } from "../vault/store";
+
+// View functions and events of the original, non-upgradeable LandRegistry
+const LEGACY_ABI = [
+  "function owner() external view returns (address)",
+  "function withdrawFees() external",
+  "function registerGovernmentOfficer(string _employeeId, string _name, string _department, string _state, string _district) external",
+  "function getOwnerDetails(address _ownerAddress) external view returns (tuple(address ownerAddress, string name, string idDocument, string contactInfo, bool isVerified, string homeState, string homeDistrict))",
+  "function getGovernmentOfficerDetails(string _employeeId) external view returns (tuple(string employeeId, string name, string department, string state, string district, bool isActive, uint256 registrationDate))",
+  "function getPropertyDetails(uint256 _propertyId) external view returns (tuple(uint256 propertyId, string propertyAddress, string district, string state, uint256 area, string propertyType, string surveyNumber, string subDivision, address currentOwner, string documentHash, bool isRegistered, bool isVerified, bool isTransferable, uint256 registrationDate, uint256 lastTransferDate, uint256 verificationFee))",
+  "function getVerificationRequestDetails(uint256 _verificationId) external view returns (tuple(uint256 verificationId, uint256 propertyId, address propertyOwner, uint256 requestDate, uint256 feePaid, bool isPending, bool isApproved, string officerEmployeeId, string verificationNotes))",
+  "function getTransferRequestDetails(uint256 _requestId) external view returns (tuple(uint256 requestId, uint256 propertyId, address fromOwner, address toOwner, uint256 requestDate, bool isApproved, bool isCompleted, string transferDocumentHash, uint256 transferFee))",
+  "function getTotalProperties() external view returns (uint256)",
+  "function getTotalTransferRequests() external view returns (uint256)",
+  "function getTotalVerificationRequests() external view returns (uint256)",
+  "event OwnerRegistered(address indexed ownerAddress, string name, string state, string district, uint256 registrationDate)",
+  "event GovernmentOfficerRegistered(string indexed employeeId, string name, string department, string state, string district, uint256 registrationDate)"
+];
+
+async function main() {
+  console.log("Starting migration of LandRegistry records...");
+
+  const deploymentPath = path.join(__dirname, "..", "deployment.json");
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error("Deployment file not found. Please deploy the upgradeable contract first.");
+  }
+
+  const deploymentInfo = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  if (deploymentInfo.proxyKind !== "uups") {
+    throw new Error("deployment.json does not describe a proxy deployment. Run 'npm run deploy' first.");
+  }
+
+  const legacyAddress = process.env.LEGACY_CONTRACT_ADDRESS || deploymentInfo.legacyContractAddress;
+  if (!legacyAddress) {
+    throw new Error("No legacy contract address. Set LEGACY_CONTRACT_ADDRESS or redeploy over the old deployment.json.");
+  }
+
+  const [deployer] = await ethers.getSigners();
+  const legacy = new ethers.Contract(legacyAddress, LEGACY_ABI, deployer);
+  const landRegistry = await ethers.getContractAt("ILandRegistry", deploymentInfo.contractAddress);
+
+  console.log(`Legacy contract: ${legacyAddress}`);
+  console.log(`Upgradeable contract: ${deploymentInfo.contractAddress}`);
+  console.log(`Migrating with account: ${deployer.address}`);
+
+  if (await landRegistry.migrationFinalized()) {
+    throw new Error("Migration has already been finalized on the upgradeable contract.");
+  }
+
+  // Records are replayed in dependency order; anything already present is skipped so the script can be re-run
+  const totalProperties = Number(await legacy.getTotalProperties());
+  const totalVerifications = Number(await legacy.getTotalVerificationRequests());
+  const totalTransfers = Number(await legacy.getTotalTransferRequests());
+
+  const properties = [];
+  for (let i = 1; i <= totalProperties; i++) {
+    properties.push(await legacy.getPropertyDetails(i));
+  }
+  const transfers = [];
+  for (let i = 1; i <= totalTransfers; i++) {
+    transfers.push(await legacy.getTransferRequestDetails(i));
+  }
+
+  // 1. Owners: registration events, plus every address that owns or trades a property
+  console.log("\nMigrating owners...");
+  const ownerAddresses = new Set<string>();
+  for (const log of await legacy.queryFilter(legacy.filters.OwnerRegistered(), 0, "latest")) {
+    const event = legacy.interface.parseLog(log);
+    if (event) ownerAddresses.add(event.args.ownerAddress);
+  }
+  properties.forEach((property) => ownerAddresses.add(property.currentOwner));
+  transfers.forEach((transfer) => {
+    ownerAddresses.add(transfer.fromOwner);
+    ownerAddresses.add(transfer.toOwner);
+  });
+
+  let migratedOwners = 0;
+  for (const ownerAddress of ownerAddresses) {
+    const details = await legacy.getOwnerDetails(ownerAddress);
+    if (!details.name || (await landRegistry.getOwnerDetails(ownerAddress)).ownerAddress !== ethers.ZeroAddress) continue;
+
+    const tx = await landRegistry.migrateOwner({
+      ownerAddress: details.ownerAddress,
+      name: "",
+      // Legacy ID numbers are hashed here so the plaintext is never written to the new contract
+      idDocument: "",
+      idDocumentHash: hashIdDocument(details.idDocument),
+      // Names and contact details move into the PII vault (needs PII_VAULT_KEY); only its hash is migrated
+      contactInfo: "",
+      piiHash: storePiiRecord(details.ownerAddress, details.name, details.contactInfo),
+      isVerified: details.isVerified,
+      homeState: details.homeState,
+      homeDistrict: details.homeDistrict
+    });
+    await tx.wait();
+    migratedOwners++;
+  }
+  console.log(`✅ ${migratedOwners} owners migrated`);
+
+  // 2. Officers: employee IDs are only indexed as hashes in events, so read them from the registration calls
+  console.log("\nMigrating government officers...");
+  let migratedOfficers = 0;
+  for (const log of await legacy.queryFilter(legacy.filters.GovernmentOfficerRegistered(), 0, "latest")) {
+    const registrationTx = await ethers.provider.getTransaction(log.transactionHash);
+    const call = registrationTx && legacy.interface.parseTransaction(registrationTx);
+    if (!call) {
+      console.warn(`⚠️  Could not read the employee ID registered in ${log.transactionHash}; register it manually`);
+      continue;
+    }
+
+    const employeeId: string = call.args[0];
+    if ((await landRegistry.getGovernmentOfficerDetails(employeeId)).employeeId) continue;
+
+    const details = await legacy.getGovernmentOfficerDetails(employeeId);
+    // Legacy officers had no signer wallet; use the configured one, as scripts/register-officers.ts does
+    const signerAddress = process.env[`${employeeId}_SIGNER_ADDRESS`] || deployer.address;
+    // Nor roles: <EMPLOYEE_ID>_ROLES lists them, e.g. "SUB_REGISTRAR_ROLE,REGISTRAR_ROLE"; unset grants none
+    const roleNames = (process.env[`${employeeId}_ROLES`] || "").split(",").map((role) => role.trim()).filter(Boolean);
+
+    const tx = await landRegistry.migrateGovernmentOfficer({
+      employeeId: details.employeeId,
+      signerAddress,
+      name: details.name,
+      department: details.department,
+      state: details.state,
+      district: details.district,
+      isActive: details.isActive,
+      registrationDate: details.registrationDate
+    }, roleNames.map((role) => ethers.id(role)));
+    await tx.wait();
+    console.log(`   ${employeeId} → signer ${signerAddress}, roles ${roleNames.join(", ") || "none (grant them from the admin panel)"}`);
+    migratedOfficers++;
+  }
+  console.log(`✅ ${migratedOfficers} officers migrated`);
+
+  // 3. Properties keep their IDs, owners and dates
+  console.log("\nMigrating properties...");
+  let migratedProperties = 0;
+  for (const property of properties) {
+    if (!property.isRegistered || (await landRegistry.getPropertyDetails(property.propertyId)).isRegistered) continue;
+
+    const tx = await landRegistry.migrateProperty({
+      propertyId: property.propertyId,
+      propertyAddress: property.propertyAddress,
+      district: property.district,
+      state: property.state,
+      area: property.area,
+      propertyType: property.propertyType,
+      surveyNumber: property.surveyNumber,
+      subDivision: property.subDivision,
+      currentOwner: property.currentOwner,
+      documentHash: property.documentHash,
+      isRegistered: property.isRegistered,
+      isVerified: property.isVerified,
+      isTransferable: property.isTransferable,
+      registrationDate: property.registrationDate,
+      lastTransferDate: property.lastTransferDate,
+      verificationFee: property.verificationFee,
+      isRetired: false,
+      parentPropertyIds: [],
+      childPropertyIds: [],
+      tehsil: "",
+      village: "",
+      villageCode: 0
+    });
+    await tx.wait();
+    migratedProperties++;
+  }
+  console.log(`✅ ${migratedProperties} properties migrated`);
+
+  // 4. Verification requests
+  console.log("\nMigrating verification requests...");
+  let migratedVerifications = 0;
+  let pendingEscrow = 0n;
+  for (let i = 1; i <= totalVerifications; i++) {
+    const request = await legacy.getVerificationRequestDetails(i);
+    if (request.isPending) pendingEscrow += request.feePaid;
+    if ((await landRegistry.getVerificationRequestDetails(i)).verificationId !== 0n) continue;
+
+    const tx = await landRegistry.migrateVerificationRequest({
+      verificationId: request.verificationId,
+      propertyId: request.propertyId,
+      propertyOwner: request.propertyOwner,
+      requestDate: request.requestDate,
+      feePaid: request.feePaid,
+      isPending: request.isPending,
+      isApproved: request.isApproved,
+      officerEmployeeId: request.officerEmployeeId,
+      verificationNotes: request.verificationNotes
+    });
+    await tx.wait();
+    migratedVerifications++;
+  }
+  console.log(`✅ ${migratedVerifications} verification requests migrated`);
+
+  // 5. Transfer requests; legacy transfers had no buyer consent step, so completed ones count as accepted
+  console.log("\nMigrating transfer requests...");
+  let migratedTransfers = 0;
+  for (const request of transfers) {
+    if (!request.isApproved && !request.isCompleted) pendingEscrow += request.transferFee;
+    if ((await landRegistry.getTransferRequestDetails(request.requestId)).requestId !== 0n) continue;
+
+    const tx = await landRegistry.migrateTransferRequest({
+      requestId: request.requestId,
+      propertyId: request.propertyId,
+      fromOwner: request.fromOwner,
+      toOwner: request.toOwner,
+      requestDate: request.requestDate,
+      isApproved: request.isApproved,
+      isCompleted: request.isCompleted,
+      transferDocumentHash: request.transferDocumentHash,
+      transferFee: request.transferFee,
+      isRejected: false,
+      isCancelled: false,
+      rejectionReason: "",
+      isAcceptedByBuyer: request.isCompleted,
+      isDeclinedByBuyer: false,
+      buyerResponseDate: request.isCompleted ? request.requestDate : 0,
+      isShareTransfer: false,
+      sharePercentage: 100,
+      isSuccession: false,
+      declaredValue: 0,
+      buyerCategory: "",
+      guidanceValue: 0,
+      requiredApprovals: 1,
+      approverEmployeeIds: [],
+      feePayer: request.fromOwner
+    });
+    await tx.wait();
+    migratedTransfers++;
+  }
+  console.log(`✅ ${migratedTransfers} transfer requests migrated`);
+
+  // 6. Fees escrowed for pending requests must move with them so they can still be credited or refunded
+  const escrowAlreadyMoved = (await landRegistry.queryFilter(landRegistry.filters.MigrationEscrowReceived(), 0, "latest")).length > 0;
+  if (pendingEscrow > 0n && escrowAlreadyMoved) {
+    console.log("\nℹ️  Escrowed fees were already moved on a previous run");
+  } else if (pendingEscrow > 0n) {
+    console.log(`\nMoving ${ethers.formatEther(pendingEscrow)} ETH of escrowed fees...`);
+    const legacyOwner: string = await legacy.owner();
+    if (legacyOwner.toLowerCase() !== deployer.address.toLowerCase()) {
+      console.warn(`⚠️  ${deployer.address} does not own the legacy contract; send the escrow with receiveMigrationEscrow() manually`);
+    } else {
+      // withdrawFees() empties the legacy contract, so the deployer also receives fees it had already earned
+      const legacyBalance = await ethers.provider.getBalance(legacyAddress);
+      if (legacyBalance > 0n) {
+        await (await legacy.withdrawFees()).wait();
+      }
+      await (await landRegistry.receiveMigrationEscrow({ value: pendingEscrow })).wait();
+      console.log("✅ Escrow moved to the upgradeable contract");
+      if (legacyBalance > pendingEscrow) {
+        console.log(`ℹ️  ${ethers.formatEther(legacyBalance - pendingEscrow)} ETH of earned legacy fees stays with ${deployer.address}`);
+      } else if (legacyBalance < pendingEscrow) {
+        console.warn(`⚠️  The legacy contract held only ${ethers.formatEther(legacyBalance)} ETH; ${deployer.address} paid the other ${ethers.formatEther(pendingEscrow - legacyBalance)} ETH of escrow`);
+      }
+    }
+  }
+
+  // 7. Close the migration window unless more records still need replaying
+  if (process.env.KEEP_MIGRATION_OPEN === "true") {
+    console.log("\nℹ️  Migration left open (KEEP_MIGRATION_OPEN=true)");
+  } else {
+    await (await landRegistry.finalizeMigration()).wait();
+    console.log("\n🔒 Migration finalized");
+  }
+
+  console.log("\n✅ Migration completed successfully!");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,69 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { storePiiRecord } from "../vault/store";
+
+// Owners per migrateOwnerPii transaction
+const BATCH_SIZE = 50;
+
+// OwnerRegistered as emitted before names moved into the PII vault; every owner this script handles emitted it
+const LEGACY_OWNER_EVENTS_ABI = [
+  "event OwnerRegistered(address indexed ownerAddress, string name, string state, string district, uint256 registrationDate)"
+];
+
+async function main() {
+  console.log("Moving plaintext owner names and contact details into the PII vault...");
+
+  const deploymentPath = path.join(__dirname, "..", "deployment.json");
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error("Deployment file not found. Please deploy the contract first.");
+  }
+
+  if (!process.env.PII_VAULT_KEY) {
+    throw new Error("PII_VAULT_KEY is not set. Run this on the vault host with the vault's key.");
+  }
+
+  const deploymentInfo = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  const landRegistry = await ethers.getContractAt("ILandRegistry", deploymentInfo.contractAddress);
+
+  const [deployer] = await ethers.getSigners();
+  console.log(`Contract address: ${deploymentInfo.contractAddress}`);
+  console.log(`Migrating with account: ${deployer.address}`);
+
+  // Owners registered before the vault kept their name and contact details in contract storage
+  const legacyEvents = new ethers.Contract(deploymentInfo.contractAddress, LEGACY_OWNER_EVENTS_ABI, ethers.provider);
+  const ownerAddresses = new Set<string>();
+  for (const log of await legacyEvents.queryFilter(legacyEvents.filters.OwnerRegistered(), 0, "latest")) {
+    const event = legacyEvents.interface.parseLog(log);
+    if (event) ownerAddresses.add(event.args.ownerAddress);
+  }
+
+  const pending: { ownerAddress: string; piiHash: string }[] = [];
+  for (const ownerAddress of ownerAddresses) {
+    const details = await landRegistry.getOwnerDetails(ownerAddress);
+    if (details.name || details.contactInfo) {
+      pending.push({ ownerAddress, piiHash: storePiiRecord(ownerAddress, details.name, details.contactInfo) });
+    }
+  }
+  console.log(`${pending.length} of ${ownerAddresses.size} owners still store a name or contact details on-chain`);
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const tx = await landRegistry.migrateOwnerPii(
+      batch.map((entry) => entry.ownerAddress),
+      batch.map((entry) => entry.piiHash)
+    );
+    await tx.wait();
+    console.log(`   ✅ Moved owners ${i + 1}-${i + batch.length}`);
+  }
+
+  console.log("\n✅ Names and contact details moved to the PII vault successfully!");
+  console.log("ℹ️  Plaintext names and contact details remain in the calldata of the original registration transactions; only contract storage is cleared.");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
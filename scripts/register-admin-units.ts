@@ -0,0 +1,79 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { ADMIN_HIERARCHY, ADMIN_LEVELS, AdminUnit, LGD_STATE_CODES } from "../data/indiaData";
+
+async function main() {
+    console.log("Starting registration of LGD administrative units...");
+
+    // Read deployment info to get contract address
+    const deploymentPath = path.join(__dirname, "..", "deployment.json");
+    if (!fs.existsSync(deploymentPath)) {
+        throw new Error("Deployment file not found. Please deploy the contract first.");
+    }
+
+    const deploymentInfo = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+    const contractAddress = deploymentInfo.contractAddress;
+
+    console.log(`Contract address: ${contractAddress}`);
+
+    // Get the contract
+    const landRegistry = await ethers.getContractAt("ILandRegistry", contractAddress);
+
+    // Get the deployer (contract owner)
+    const [deployer] = await ethers.getSigners();
+    console.log(`Registering units with account: ${deployer.address}`);
+
+    // Register only the units not yet on-chain, so the script can be re-run after data/indiaData.ts grows
+    const registerMissing = async (level: number, parentCode: number, units: AdminUnit[], label: string) => {
+        const missing: AdminUnit[] = [];
+        for (const unit of units) {
+            if ((await landRegistry.getAdminUnit(level, unit.code)).lgdCode === 0n) {
+                missing.push(unit);
+            }
+        }
+        if (missing.length === 0) {
+            console.log(`ℹ️  ${label} already registered (skipping)`);
+            return;
+        }
+
+        try {
+            const tx = await landRegistry.registerAdminUnits(
+                level,
+                parentCode,
+                missing.map((unit) => unit.code),
+                missing.map((unit) => unit.name)
+            );
+            await tx.wait();
+            console.log(`✅ ${label}: registered ${missing.map((unit) => unit.name).join(", ")}`);
+        } catch (error: any) {
+            console.error(`❌ Error registering ${label}:`, error.message);
+        }
+    };
+
+    const states = Object.entries(LGD_STATE_CODES).map(([name, code]) => ({ code, name }));
+    console.log(`\nRegistering ${states.length} states...\n`);
+    await registerMissing(ADMIN_LEVELS.STATE, 0, states, "States");
+
+    for (const [state, districts] of Object.entries(ADMIN_HIERARCHY)) {
+        console.log(`\n${state}:`);
+        await registerMissing(ADMIN_LEVELS.DISTRICT, LGD_STATE_CODES[state], districts, `Districts of ${state}`);
+
+        for (const district of districts) {
+            await registerMissing(ADMIN_LEVELS.TEHSIL, district.code, district.tehsils, `Tehsils of ${district.name}`);
+
+            for (const tehsil of district.tehsils) {
+                await registerMissing(ADMIN_LEVELS.VILLAGE, tehsil.code, tehsil.villages, `Villages of ${tehsil.name}`);
+            }
+        }
+    }
+
+    console.log("\n✅ LGD administrative units registration completed!");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -17,42 +17,64 @@ async function main() {
     console.log(`Contract address: ${contractAddress}`);
 
     // Get the contract
-    const LandRegistry = await ethers.getContractFactory("LandRegistry");
-    const landRegistry = LandRegistry.attach(contractAddress);
+    const landRegistry = await ethers.getContractAt("ILandRegistry", contractAddress);
 
     // Get the deployer (contract owner)
     const [deployer] = await ethers.getSigners();
     console.log(`Registering officers with account: ${deployer.address}`);
 
+    // District officers are sub-registrars who verify; the state-level officer is the registrar who approves transfers.
+    // Grant registrars for the other states from the admin panel's Roles tab
+    const SUB_REGISTRAR_ROLE = ethers.id("SUB_REGISTRAR_ROLE");
+    const REGISTRAR_ROLE = ethers.id("REGISTRAR_ROLE");
+
     // Government officers data (matching frontend)
     const officers = [
         {
             employeeId: 'GVT001',
+            signerAddress: process.env.GVT001_SIGNER_ADDRESS || deployer.address,
             name: 'Rajesh Kumar',
             department: 'Land Revenue',
             state: 'Maharashtra',
-            district: 'Mumbai'
+            district: 'Mumbai',
+            roles: [SUB_REGISTRAR_ROLE]
         },
         {
             employeeId: 'GVT002',
+            signerAddress: process.env.GVT002_SIGNER_ADDRESS || deployer.address,
             name: 'Priya Sharma',
             department: 'Registration',
             state: 'Delhi',
-            district: 'Central Delhi'
+            district: 'Central Delhi',
+            roles: [SUB_REGISTRAR_ROLE]
         },
         {
             employeeId: 'GVT003',
+            signerAddress: process.env.GVT003_SIGNER_ADDRESS || deployer.address,
             name: 'Amit Singh',
             department: 'Revenue',
             state: 'Uttar Pradesh',
-            district: 'Lucknow'
+            district: 'Lucknow',
+            roles: [SUB_REGISTRAR_ROLE]
         },
         {
             employeeId: 'GVT004',
+            signerAddress: process.env.GVT004_SIGNER_ADDRESS || deployer.address,
             name: 'Sanjay Mukherjee',
             department: 'Land Records',
             state: 'West Bengal',
-            district: 'Kolkata'
+            district: 'Kolkata',
+            roles: [SUB_REGISTRAR_ROLE]
+        },
+        {
+            // State-level officer: an empty district covers every district in the state
+            employeeId: 'GVT005',
+            signerAddress: process.env.GVT005_SIGNER_ADDRESS || deployer.address,
+            name: 'Meera Deshpande',
+            department: 'Inspector General of Registration',
+            state: 'Maharashtra',
+            district: '',
+            roles: [REGISTRAR_ROLE]
         }
     ];
 
@@ -67,15 +89,26 @@ async function main() {
                 officer.name,
                 officer.department,
                 officer.state,
-                officer.district
+                officer.district,
+                officer.signerAddress,
+                officer.roles
             );
 
             await tx.wait();
             console.log(`✅ ${officer.employeeId} registered successfully!`);
+            console.log(`   Signer wallet: ${officer.signerAddress}`);
             console.log(`   Transaction hash: ${tx.hash}\n`);
         } catch (error: any) {
             if (error.message.includes("Officer already registered")) {
-                console.log(`ℹ️  ${officer.employeeId} is already registered (skipping)\n`);
+                // Keep the on-chain binding in sync with the configured signer wallet
+                const details = await landRegistry.getGovernmentOfficerDetails(officer.employeeId);
+                if (details.signerAddress.toLowerCase() !== officer.signerAddress.toLowerCase()) {
+                    const tx = await landRegistry.setOfficerSigner(officer.employeeId, officer.signerAddress);
+                    await tx.wait();
+                    console.log(`🔑 ${officer.employeeId} signer rotated to ${officer.signerAddress}\n`);
+                } else {
+                    console.log(`ℹ️  ${officer.employeeId} is already registered (skipping)\n`);
+                }
             } else {
                 console.error(`❌ Error registering ${officer.employeeId}:`, error.message, "\n");
             }
@@ -91,8 +124,12 @@ async function main() {
             console.log(`\n${officer.employeeId}:`);
             console.log(`  Name: ${details.name}`);
             console.log(`  Department: ${details.department}`);
-            console.log(`  Location: ${details.district}, ${details.state}`);
+            console.log(`  Location: ${details.district || 'All districts'}, ${details.state}`);
+            console.log(`  Signer Wallet: ${details.signerAddress}`);
             console.log(`  Status: ${details.isActive ? '✅ Active' : '❌ Inactive'}`);
+            const isSubRegistrar = await landRegistry.hasOfficerRole(officer.employeeId, SUB_REGISTRAR_ROLE);
+            const isRegistrar = await landRegistry.hasOfficerRole(officer.employeeId, REGISTRAR_ROLE);
+            console.log(`  Roles: ${[isSubRegistrar && 'Sub-Registrar', isRegistrar && 'Registrar'].filter(Boolean).join(', ') || 'none'}`);
         } catch (error) {
             console.log(`\n${officer.employeeId}: Not found or error retrieving details`);
         }
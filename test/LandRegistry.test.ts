@@ -1,24 +1,49 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
-import { LandRegistry } from "../typechain-types";
+import { ethers, upgrades } from "hardhat";
+import { ILandRegistry, LandRegistry } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import "@nomicfoundation/hardhat-chai-matchers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { hashIdDocument } from "../utils/contract";
+import { deployLandRegistryModules } from "../scripts/landRegistryModules";
+
+// hashIdDocument refuses to hash without a salt; use a fixed one unless .env provides it
+process.env.NEXT_PUBLIC_ID_DOCUMENT_SALT = process.env.NEXT_PUBLIC_ID_DOCUMENT_SALT || "test-salt";
 
 describe("LandRegistry", function () {
-  let landRegistry: LandRegistry;
+  let landRegistry: ILandRegistry;
   let owner: SignerWithAddress;
   let verifier: SignerWithAddress;
   let user1: SignerWithAddress;
   let user2: SignerWithAddress;
   let user3: SignerWithAddress;
 
+  // Sample LGD codes for the hierarchy seeded below; registerProperty takes the village code
+  const MAHARASHTRA = 27;
+  const MUMBAI = 519;
+  const PUNE = 521;
+  const MUMBAI_CITY = 4185;
+  const HAVELI = 4211;
+  const MUMBAI_VILLAGE = 551001;
+  const PUNE_VILLAGE = 556101;
+  // Test officers both verify and approve unless a test narrows their roles
+  const OFFICER_ROLES = [ethers.id("SUB_REGISTRAR_ROLE"), ethers.id("REGISTRAR_ROLE")];
+
   beforeEach(async function () {
     [owner, verifier, user1, user2, user3] = await ethers.getSigners();
 
     const LandRegistry = await ethers.getContractFactory("LandRegistry");
-    const LandRegistryFactory = (await ethers.getContractFactory("LandRegistry")) as unknown as { deploy: (...args: any[]) => Promise<LandRegistry> };
-    landRegistry = await LandRegistryFactory.deploy();
-    await landRegistry.waitForDeployment();
+    const proxy = await upgrades.deployProxy(LandRegistry, [], { kind: "uups" });
+    await proxy.waitForDeployment();
+    await deployLandRegistryModules(await proxy.getAddress());
+    landRegistry = (await ethers.getContractAt("ILandRegistry", await proxy.getAddress())) as unknown as ILandRegistry;
+
+    await landRegistry.registerAdminUnits(1, 0, [MAHARASHTRA], ["Maharashtra"]);
+    await landRegistry.registerAdminUnits(2, MAHARASHTRA, [MUMBAI, PUNE], ["Mumbai", "Pune"]);
+    await landRegistry.registerAdminUnits(3, MUMBAI, [MUMBAI_CITY], ["Mumbai City"]);
+    await landRegistry.registerAdminUnits(3, PUNE, [HAVELI], ["Haveli"]);
+    await landRegistry.registerAdminUnits(4, MUMBAI_CITY, [MUMBAI_VILLAGE], ["Colaba"]);
+    await landRegistry.registerAdminUnits(4, HAVELI, [PUNE_VILLAGE], ["Wagholi"]);
   });
 
   describe("Deployment", function () {
@@ -26,37 +51,67 @@ describe("LandRegistry", function () {
       expect(await landRegistry.owner()).to.equal(owner.address);
     });
 
-    it("Should make contract owner a verifier", async function () {
-      expect(await landRegistry.verifiers(owner.address)).to.be.true;
+    it("Should start with no properties or transfer requests", async function () {
+      expect(await landRegistry.getTotalProperties()).to.equal(0);
+      expect(await landRegistry.getTotalTransferRequests()).to.equal(0);
+    });
+
+    it("Should route every ILandRegistry function to the proxy or one of its modules", async function () {
+      const LandRegistry = await ethers.getContractFactory("LandRegistry");
+      const delegated: string[] = [];
+      landRegistry.interface.forEachFunction((fragment) => {
+        if (!LandRegistry.interface.hasFunction(fragment.selector)) {
+          delegated.push(fragment.format());
+        }
+      });
+
+      const unrouted: string[] = [];
+      for (const signature of delegated) {
+        if ((await landRegistry.getFunctionModule(ethers.id(signature).slice(0, 10))) === ethers.ZeroAddress) {
+          unrouted.push(signature);
+        }
+      }
+      expect(unrouted).to.deep.equal([]);
+    });
+
+    it("Should only let the owner route functions and refuse unrouted selectors", async function () {
+      const selector = landRegistry.interface.getFunction("getTotalProperties").selector;
+      await expect(
+        landRegistry.connect(user1).setModuleFunctions(user1.address, [selector])
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await expect(
+        landRegistry.setModuleFunctions(user1.address, [selector])
+      ).to.be.revertedWith("Module has no code");
+
+      await expect(landRegistry.setModuleFunctions(ethers.ZeroAddress, [selector]))
+        .to.emit(landRegistry, "ModuleFunctionsSet");
+      await expect(landRegistry.getTotalProperties()).to.be.revertedWith("Function does not exist");
     });
   });
 
   describe("Owner Registration", function () {
     it("Should register a new owner", async function () {
       await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
 
       const ownerDetails = await landRegistry.getOwnerDetails(user1.address);
-      expect(ownerDetails.name).to.equal("John Doe");
       expect(ownerDetails.ownerAddress).to.equal(user1.address);
+      // The name is kept in the PII vault, behind piiHash
+      expect(ownerDetails.name).to.equal("");
+      expect(ownerDetails.piiHash).to.equal(ethers.id("john@example.com"));
+      expect(ownerDetails.idDocumentHash).to.equal(hashIdDocument("ID123456"));
       expect(ownerDetails.isVerified).to.be.false;
     });
 
     it("Should not allow duplicate owner registration", async function () {
       await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
 
       await expect(
         landRegistry.connect(user1).registerOwner(
-          "John Doe",
-          "ID123456",
-          "john@example.com"
+          hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
         )
       ).to.be.revertedWith("Owner already registered");
     });
@@ -64,60 +119,27 @@ describe("LandRegistry", function () {
     it("Should emit OwnerRegistered event", async function () {
       await expect(
         landRegistry.connect(user1).registerOwner(
-          "John Doe",
-          "ID123456",
-          "john@example.com"
+          hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
         )
-      ).to.emit(landRegistry, "OwnerRegistered");
-    });
-  });
-
-  describe("Owner Verification", function () {
-    beforeEach(async function () {
-      await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
-      );
-    });
-
-    it("Should allow verifier to verify owner", async function () {
-      await landRegistry.connect(owner).verifyOwner(user1.address);
-      const ownerDetails = await landRegistry.getOwnerDetails(user1.address);
-      expect(ownerDetails.isVerified).to.be.true;
-    });
-
-    it("Should not allow non-verifier to verify owner", async function () {
-      await expect(
-        landRegistry.connect(user2).verifyOwner(user1.address)
-      ).to.be.revertedWith("Not authorized verifier");
+      ).to.emit(landRegistry, "OwnerRegistered")
+        .withArgs(user1.address, "Maharashtra", "Mumbai", anyValue);
     });
   });
 
   describe("Property Registration", function () {
     beforeEach(async function () {
       await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
     });
 
     it("Should register a new property", async function () {
-      const tx = await landRegistry.connect(user1).registerProperty(
-        "123 Main St",
-        "Downtown",
-        "New York",
-        "NY",
-        1000,
-        "QmHash123"
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
       );
 
-      const receipt = await tx.wait();
-      expect(receipt).to.not.be.null;
-
       const propertyDetails = await landRegistry.getPropertyDetails(1);
-      expect(propertyDetails.propertyAddress).to.equal("123 Main St");
+      expect(propertyDetails.propertyAddress).to.equal("123 Marine Drive");
       expect(propertyDetails.currentOwner).to.equal(user1.address);
       expect(propertyDetails.isRegistered).to.be.true;
       expect(propertyDetails.isVerified).to.be.false;
@@ -126,12 +148,7 @@ describe("LandRegistry", function () {
     it("Should not allow unregistered user to register property", async function () {
       await expect(
         landRegistry.connect(user2).registerProperty(
-          "456 Oak Ave",
-          "Uptown",
-          "Boston",
-          "MA",
-          1500,
-          "QmHash456"
+          "456 Linking Road", MUMBAI_VILLAGE, 1500, "Residential", "456", "", "QmHash456"
         )
       ).to.be.revertedWith("Owner must be registered first");
     });
@@ -139,126 +156,125 @@ describe("LandRegistry", function () {
     it("Should emit PropertyRegistered event", async function () {
       await expect(
         landRegistry.connect(user1).registerProperty(
-          "123 Main St",
-          "Downtown",
-          "New York",
-          "NY",
-          1000,
-          "QmHash123"
+          "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
         )
-      ).to.emit(landRegistry, "PropertyRegistered");
+      ).to.emit(landRegistry, "PropertyRegistered")
+        .withArgs(1, user1.address, "123 Marine Drive", "Maharashtra", "Mumbai", anyValue);
     });
 
     it("Should add property to owner's property list", async function () {
       await landRegistry.connect(user1).registerProperty(
-        "123 Main St",
-        "Downtown",
-        "New York",
-        "NY",
-        1000,
-        "QmHash123"
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
       );
 
-      const ownerProperties = await landRegistry.getOwnerProperties(user1.address);
-      expect(ownerProperties.length).to.equal(1);
-      expect(ownerProperties[0]).to.equal(1);
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([1n]);
     });
   });
 
   describe("Property Verification", function () {
     beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
       await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
       await landRegistry.connect(user1).registerProperty(
-        "123 Main St",
-        "Downtown",
-        "New York",
-        "NY",
-        1000,
-        "QmHash123"
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
       );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
     });
 
-    it("Should allow verifier to verify property", async function () {
-      await landRegistry.connect(owner).verifyProperty(1);
+    it("Should allow an officer to verify the property and its owner", async function () {
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+
       const propertyDetails = await landRegistry.getPropertyDetails(1);
       expect(propertyDetails.isVerified).to.be.true;
+      expect(propertyDetails.isTransferable).to.be.true;
+      expect((await landRegistry.getOwnerDetails(user1.address)).isVerified).to.be.true;
     });
 
-    it("Should not allow non-verifier to verify property", async function () {
+    it("Should not allow a wallet without an officer ID to verify property", async function () {
       await expect(
-        landRegistry.connect(user2).verifyProperty(1)
-      ).to.be.revertedWith("Not authorized verifier");
+        landRegistry.connect(user2).verifyProperty(1, "GVT999", true, "OK")
+      ).to.be.revertedWith("Not an active government officer");
     });
 
     it("Should emit PropertyVerified event", async function () {
       await expect(
-        landRegistry.connect(owner).verifyProperty(1)
-      ).to.emit(landRegistry, "PropertyVerified");
+        landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK")
+      ).to.emit(landRegistry, "PropertyVerified")
+        .withArgs(1, 1, "GVT001", anyValue);
     });
   });
 
-  describe("Verifier Management", function () {
-    it("Should allow owner to add verifier", async function () {
-      await landRegistry.connect(owner).addVerifier(verifier.address);
-      expect(await landRegistry.verifiers(verifier.address)).to.be.true;
+  describe("Officer Management", function () {
+    it("Should allow owner to register an officer", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      const officer = await landRegistry.getGovernmentOfficerDetails("GVT001");
+      expect(officer.isActive).to.be.true;
+      expect(officer.signerAddress).to.equal(verifier.address);
     });
 
-    it("Should not allow non-owner to add verifier", async function () {
+    it("Should not allow others to register an officer", async function () {
       await expect(
-        landRegistry.connect(user1).addVerifier(verifier.address)
-      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount")
-        .withArgs(user1.address);
+        landRegistry.connect(user1).registerGovernmentOfficer(
+          "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", user1.address, OFFICER_ROLES
+        )
+      ).to.be.revertedWith("Not an admin for this state");
     });
 
-    it("Should allow owner to remove verifier", async function () {
-      await landRegistry.connect(owner).addVerifier(verifier.address);
-      await landRegistry.connect(owner).removeVerifier(verifier.address);
-      expect(await landRegistry.verifiers(verifier.address)).to.be.false;
-    });
+    it("Should stop a deactivated officer from acting", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
 
-    it("Should not allow removing contract owner as verifier", async function () {
+      await landRegistry.connect(owner).setOfficerStatus("GVT001", false);
       await expect(
-        landRegistry.connect(owner).removeVerifier(owner.address)
-      ).to.be.revertedWith("Cannot remove contract owner");
+        landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK")
+      ).to.be.revertedWith("Not an active government officer");
     });
   });
 
   describe("Property Transfer", function () {
+    const transferFee = ethers.parseEther("0.002");
+
     beforeEach(async function () {
-      // Register two users
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
       await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
       await landRegistry.connect(user2).registerOwner(
-        "Jane Smith",
-        "ID789012",
-        "jane@example.com"
+        hashIdDocument("ID789012"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
       );
-
-      // Register and verify property
       await landRegistry.connect(user1).registerProperty(
-        "123 Main St",
-        "Downtown",
-        "New York",
-        "NY",
-        1000,
-        "QmHash123"
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
       );
-      await landRegistry.connect(owner).verifyProperty(1);
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
     });
 
     it("Should create transfer request", async function () {
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
-      );
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
 
       const transferRequest = await landRegistry.getTransferRequestDetails(1);
       expect(transferRequest.propertyId).to.equal(1);
@@ -270,189 +286,2788 @@ describe("LandRegistry", function () {
 
     it("Should not allow transfer of unverified property", async function () {
       await landRegistry.connect(user1).registerProperty(
-        "456 Oak Ave",
-        "Uptown",
-        "Boston",
-        "MA",
-        1500,
-        "QmHash456"
+        "456 Linking Road", MUMBAI_VILLAGE, 1500, "Residential", "456", "", "QmHash456"
       );
 
       await expect(
-        landRegistry.connect(user1).createTransferRequest(
-          2,
-          user2.address,
-          "QmTransferDoc456"
-        )
-      ).to.be.revertedWith("Property must be verified");
+        landRegistry.connect(user1).createTransferRequest(2, user2.address, "QmTransferDoc456", ethers.parseEther("1"), "", {
+          value: transferFee
+        })
+      ).to.be.revertedWith("Property must be verified first");
     });
 
     it("Should not allow non-owner to create transfer request", async function () {
       await expect(
-        landRegistry.connect(user2).createTransferRequest(
-          1,
-          user3.address,
-          "QmTransferDoc123"
-        )
-      ).to.be.revertedWith("Not the property owner");
+        landRegistry.connect(user2).createTransferRequest(1, user3.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+          value: transferFee
+        })
+      ).to.be.revertedWith("Not a co-owner of the property");
     });
 
-    it("Should approve transfer request", async function () {
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
-      );
+    it("Should complete an approved and accepted transfer", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user2).acceptTransferRequest(1);
 
-      await landRegistry.connect(owner).approveTransferRequest(1);
-      const transferRequest = await landRegistry.getTransferRequestDetails(1);
-      expect(transferRequest.isApproved).to.be.true;
+      await expect(landRegistry.connect(user1).completeTransfer(1))
+        .to.emit(landRegistry, "PropertyTransferred")
+        .withArgs(1, user1.address, user2.address, anyValue);
+
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user2.address);
+      expect((await landRegistry.getTransferRequestDetails(1)).isCompleted).to.be.true;
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([]);
+      expect(await landRegistry.getOwnerProperties(user2.address)).to.deep.equal([1n]);
+      expect(await landRegistry.getPropertyTransferHistory(1)).to.deep.equal([1n]);
+    });
+
+    it("Should not complete unapproved transfer", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+
+      await expect(
+        landRegistry.connect(user1).completeTransfer(1)
+      ).to.be.revertedWith("Transfer not approved");
     });
+  });
 
-    it("Should complete approved transfer", async function () {
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
+  describe("Document Update", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
-      await landRegistry.connect(owner).approveTransferRequest(1);
-      await landRegistry.connect(user1).completeTransfer(1);
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+    });
 
+    it("Should allow owner to update property document", async function () {
+      await landRegistry.connect(user1).updatePropertyDocument(1, "QmNewHash456");
       const propertyDetails = await landRegistry.getPropertyDetails(1);
-      expect(propertyDetails.currentOwner).to.equal(user2.address);
+      expect(propertyDetails.documentHash).to.equal("QmNewHash456");
+    });
 
-      const transferRequest = await landRegistry.getTransferRequestDetails(1);
-      expect(transferRequest.isCompleted).to.be.true;
+    it("Should not allow non-owner to update property document", async function () {
+      await expect(
+        landRegistry.connect(user2).updatePropertyDocument(1, "QmNewHash456")
+      ).to.be.revertedWith("Not the property owner");
     });
+  });
 
-    it("Should update property lists after transfer", async function () {
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
+  describe("Government Officer Signer Binding", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001",
+        "Rajesh Kumar",
+        "Land Revenue",
+        "Maharashtra",
+        "Mumbai",
+        verifier.address, OFFICER_ROLES
       );
-      await landRegistry.connect(owner).approveTransferRequest(1);
-      await landRegistry.connect(user1).completeTransfer(1);
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"),
+        ethers.id("john@example.com"),
+        "Maharashtra",
+        "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive",
+        MUMBAI_VILLAGE,
+        1000,
+        "Residential",
+        "123",
+        "",
+        "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+    });
 
-      const user1Properties = await landRegistry.getOwnerProperties(user1.address);
-      const user2Properties = await landRegistry.getOwnerProperties(user2.address);
+    it("Should store the signer address for the officer", async function () {
+      const officer = await landRegistry.getGovernmentOfficerDetails("GVT001");
+      expect(officer.signerAddress).to.equal(verifier.address);
+    });
 
-      expect(user1Properties.length).to.equal(0);
-      expect(user2Properties.length).to.equal(1);
-      expect(user2Properties[0]).to.equal(1);
+    it("Should allow the bound signer to verify property", async function () {
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      const propertyDetails = await landRegistry.getPropertyDetails(1);
+      expect(propertyDetails.isVerified).to.be.true;
     });
 
-    it("Should not complete unapproved transfer", async function () {
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
-      );
+    it("Should not allow another wallet to act with the employee ID", async function () {
+      await expect(
+        landRegistry.connect(user2).verifyProperty(1, "GVT001", true, "OK")
+      ).to.be.revertedWith("Caller is not the officer's authorized signer");
+    });
 
+    it("Should allow contract owner to rotate the signer", async function () {
       await expect(
-        landRegistry.connect(user1).completeTransfer(1)
-      ).to.be.revertedWith("Transfer not approved");
+        landRegistry.connect(owner).setOfficerSigner("GVT001", user3.address)
+      ).to.emit(landRegistry, "GovernmentOfficerSignerChanged")
+        .withArgs("GVT001", verifier.address, user3.address, anyValue);
+
+      await expect(
+        landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK")
+      ).to.be.revertedWith("Caller is not the officer's authorized signer");
+      await landRegistry.connect(user3).verifyProperty(1, "GVT001", true, "OK");
+    });
+
+    it("Should not allow non-owner to rotate the signer", async function () {
+      await expect(
+        landRegistry.connect(user1).setOfficerSigner("GVT001", user1.address)
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount")
+        .withArgs(user1.address);
     });
+  });
 
-    it("Should emit PropertyTransferred event", async function () {
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
+  describe("Officer Jurisdiction", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT004", "Sanjay Mukherjee", "Land Records", "West Bengal", "Kolkata", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT005", "Meera Deshpande", "Inspector General of Registration", "Maharashtra", "", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Pune"
       );
-      await landRegistry.connect(owner).approveTransferRequest(1);
+      await landRegistry.connect(user1).registerProperty(
+        "12 FC Road", PUNE_VILLAGE, 1000, "Residential", "45", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+    });
 
+    it("Should not allow a district officer to verify outside their district", async function () {
       await expect(
-        landRegistry.connect(user1).completeTransfer(1)
-      ).to.emit(landRegistry, "PropertyTransferred");
+        landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK")
+      ).to.be.revertedWith("Property outside officer's jurisdiction");
+    });
+
+    it("Should not allow an officer to verify outside their state", async function () {
+      await expect(
+        landRegistry.connect(verifier).verifyProperty(1, "GVT004", true, "OK")
+      ).to.be.revertedWith("Property outside officer's jurisdiction");
+    });
+
+    it("Should allow a state-level officer to verify anywhere in their state", async function () {
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT005", true, "OK");
+      const propertyDetails = await landRegistry.getPropertyDetails(1);
+      expect(propertyDetails.isVerified).to.be.true;
+    });
+
+    it("Should enforce jurisdiction on transfer approval", async function () {
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT005", true, "OK");
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: ethers.parseEther("0.002")
+      });
+
+      await expect(
+        landRegistry.connect(verifier).approveTransferRequest(1, "GVT001")
+      ).to.be.revertedWith("Property outside officer's jurisdiction");
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT005");
+      expect((await landRegistry.getTransferRequestDetails(1)).isApproved).to.be.true;
+    });
+
+    it("Should report jurisdiction through the view function", async function () {
+      expect(await landRegistry.isPropertyWithinJurisdiction("GVT001", 1)).to.be.false;
+      expect(await landRegistry.isPropertyWithinJurisdiction("GVT005", 1)).to.be.true;
     });
   });
 
-  describe("View Functions", function () {
+  describe("Transfer Rejection and Cancellation", function () {
+    const transferFee = ethers.parseEther("0.002");
+
     beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
       await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
       await landRegistry.connect(user1).registerProperty(
-        "123 Main St",
-        "Downtown",
-        "New York",
-        "NY",
-        1000,
-        "QmHash123"
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
       );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
     });
 
-    it("Should return total properties", async function () {
-      expect(await landRegistry.getTotalProperties()).to.equal(1);
+    it("Should let an officer reject with a reason and refund the seller", async function () {
+      const tx = landRegistry.connect(verifier).rejectTransferRequest(1, "GVT001", "Sale deed unsigned");
+      await expect(tx).to.emit(landRegistry, "TransferRequestRejected")
+        .withArgs(1, "GVT001", "Sale deed unsigned", transferFee, anyValue);
+      await expect(tx).to.changeEtherBalances([landRegistry, user1], [-transferFee, transferFee]);
+
+      const request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.isRejected).to.be.true;
+      expect(request.rejectionReason).to.equal("Sale deed unsigned");
+      expect(await landRegistry.getPendingTransferRequests()).to.deep.equal([]);
     });
 
-    it("Should return total transfer requests", async function () {
-      await landRegistry.connect(user2).registerOwner(
-        "Jane Smith",
-        "ID789012",
-        "jane@example.com"
+    it("Should require a rejection reason", async function () {
+      await expect(
+        landRegistry.connect(verifier).rejectTransferRequest(1, "GVT001", "")
+      ).to.be.revertedWith("Rejection reason required");
+    });
+
+    it("Should let the seller cancel before approval and refund the fee", async function () {
+      const tx = landRegistry.connect(user1).cancelTransferRequest(1);
+      await expect(tx).to.emit(landRegistry, "TransferRequestCancelled")
+        .withArgs(1, user1.address, transferFee, anyValue);
+      await expect(tx).to.changeEtherBalances([landRegistry, user1], [-transferFee, transferFee]);
+
+      expect((await landRegistry.getTransferRequestDetails(1)).isCancelled).to.be.true;
+      expect(await landRegistry.getPendingTransferRequests()).to.deep.equal([]);
+    });
+
+    it("Should not let anyone but the seller cancel", async function () {
+      await expect(
+        landRegistry.connect(user2).cancelTransferRequest(1)
+      ).to.be.revertedWith("Only the seller can cancel the request");
+    });
+
+    it("Should not allow cancelling or rejecting an approved request", async function () {
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+
+      await expect(
+        landRegistry.connect(user1).cancelTransferRequest(1)
+      ).to.be.revertedWith("Request already approved");
+      await expect(
+        landRegistry.connect(verifier).rejectTransferRequest(1, "GVT001", "Too late")
+      ).to.be.revertedWith("Request already approved");
+    });
+
+    it("Should not allow approving a cancelled request", async function () {
+      await landRegistry.connect(user1).cancelTransferRequest(1);
+
+      await expect(
+        landRegistry.connect(verifier).approveTransferRequest(1, "GVT001")
+      ).to.be.revertedWith("Request already cancelled");
+    });
+  });
+
+  describe("Buyer Acceptance", function () {
+    const transferFee = ethers.parseEther("0.002");
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
-      await landRegistry.connect(owner).verifyProperty(1);
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
       );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+    });
+
+    it("Should block completion until the buyer accepts", async function () {
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+
+      await expect(
+        landRegistry.connect(user1).completeTransfer(1)
+      ).to.be.revertedWith("Buyer has not accepted the transfer");
+
+      await expect(landRegistry.connect(user2).acceptTransferRequest(1))
+        .to.emit(landRegistry, "TransferRequestAccepted")
+        .withArgs(1, user2.address, anyValue);
+      await landRegistry.connect(user1).completeTransfer(1);
+
+      const propertyDetails = await landRegistry.getPropertyDetails(1);
+      expect(propertyDetails.currentOwner).to.equal(user2.address);
+    });
+
+    it("Should record the acceptance timestamp", async function () {
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      const request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.isAcceptedByBuyer).to.be.true;
+      expect(request.buyerResponseDate).to.be.greaterThan(0);
+    });
+
+    it("Should only let the named buyer respond", async function () {
+      await expect(
+        landRegistry.connect(user3).acceptTransferRequest(1)
+      ).to.be.revertedWith("Only the buyer can respond");
+      await expect(
+        landRegistry.connect(user1).declineTransferRequest(1)
+      ).to.be.revertedWith("Only the buyer can respond");
+    });
+
+    it("Should refund the seller and close the request when declined", async function () {
+      const tx = landRegistry.connect(user2).declineTransferRequest(1);
+      await expect(tx).to.emit(landRegistry, "TransferRequestDeclined")
+        .withArgs(1, user2.address, transferFee, anyValue);
+      await expect(tx).to.changeEtherBalances([landRegistry, user1], [-transferFee, transferFee]);
+
+      expect(await landRegistry.getPendingTransferRequests()).to.deep.equal([]);
+      await expect(
+        landRegistry.connect(verifier).approveTransferRequest(1, "GVT001")
+      ).to.be.revertedWith("Request declined by buyer");
+    });
 
-      expect(await landRegistry.getTotalTransferRequests()).to.equal(1);
+    it("Should not allow responding twice", async function () {
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      await expect(
+        landRegistry.connect(user2).declineTransferRequest(1)
+      ).to.be.revertedWith("Buyer already responded");
     });
+  });
+
+  describe("Joint Ownership", function () {
+    const transferFee = ethers.parseEther("0.002");
 
-    it("Should return property transfer history", async function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
       await landRegistry.connect(user2).registerOwner(
-        "Jane Smith",
-        "ID789012",
-        "jane@example.com"
+        hashIdDocument("ID654321"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
       );
-      await landRegistry.connect(owner).verifyProperty(1);
-      await landRegistry.connect(user1).createTransferRequest(
-        1,
-        user2.address,
-        "QmTransferDoc123"
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
       );
-      await landRegistry.connect(owner).approveTransferRequest(1);
-      await landRegistry.connect(user1).completeTransfer(1);
+    });
 
-      const history = await landRegistry.getPropertyTransferHistory(1);
-      expect(history.length).to.equal(1);
-      expect(history[0]).to.equal(1);
+    async function verifyProperty() {
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+    }
+
+    async function approveAndComplete(requestId: number, buyer: any) {
+      await landRegistry.connect(verifier).approveTransferRequest(requestId, "GVT001");
+      await landRegistry.connect(buyer).acceptTransferRequest(requestId);
+      await landRegistry.connect(buyer).completeTransfer(requestId);
+    }
+
+    it("Should register a new property with its owner holding 100%", async function () {
+      const coOwners = await landRegistry.getPropertyCoOwners(1);
+      expect(coOwners.length).to.equal(1);
+      expect(coOwners[0].ownerAddress).to.equal(user1.address);
+      expect(coOwners[0].sharePercentage).to.equal(100);
+    });
+
+    it("Should declare co-owners and index the property for each of them", async function () {
+      await expect(
+        landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [60, 40])
+      ).to.emit(landRegistry, "CoOwnersUpdated");
+
+      const coOwners = await landRegistry.getPropertyCoOwners(1);
+      expect(coOwners.map((c: any) => c.sharePercentage)).to.deep.equal([60n, 40n]);
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([1n]);
+      expect(await landRegistry.getOwnerProperties(user2.address)).to.deep.equal([1n]);
+
+      await landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address], [100]);
+      expect(await landRegistry.getOwnerProperties(user2.address)).to.deep.equal([]);
+    });
+
+    it("Should reject invalid co-owner declarations", async function () {
+      await expect(
+        landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [60, 30])
+      ).to.be.revertedWith("Shares must total 100 percent");
+      await expect(
+        landRegistry.connect(user1).setPropertyCoOwners(1, [user2.address, user1.address], [50, 50])
+      ).to.be.revertedWith("Primary owner must be listed first");
+      await expect(
+        landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user1.address], [50, 50])
+      ).to.be.revertedWith("Duplicate co-owner");
+      await expect(
+        landRegistry.connect(user2).setPropertyCoOwners(1, [user2.address], [100])
+      ).to.be.revertedWith("Not the property owner");
+
+      await verifyProperty();
+      await expect(
+        landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [50, 50])
+      ).to.be.revertedWith("Co-owners must be declared before verification");
+    });
+
+    it("Should verify every registered co-owner with the property", async function () {
+      await landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [50, 50]);
+      await verifyProperty();
+      expect((await landRegistry.getOwnerDetails(user2.address)).isVerified).to.be.true;
+    });
+
+    it("Should require every co-owner's consent for a whole-property transfer", async function () {
+      await landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [50, 50]);
+      await verifyProperty();
+
+      await landRegistry.connect(user2).createTransferRequest(1, user3.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      expect(await landRegistry.transferConsents(1, user2.address)).to.be.true;
+
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user3).acceptTransferRequest(1);
+      await expect(
+        landRegistry.connect(user3).completeTransfer(1)
+      ).to.be.revertedWith("All co-owners must consent to the transfer");
+
+      await expect(landRegistry.connect(user1).consentToTransfer(1))
+        .to.emit(landRegistry, "TransferConsentGiven")
+        .withArgs(1, user1.address, anyValue);
+      await landRegistry.connect(user3).completeTransfer(1);
+
+      const coOwners = await landRegistry.getPropertyCoOwners(1);
+      expect(coOwners.length).to.equal(1);
+      expect(coOwners[0].ownerAddress).to.equal(user3.address);
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user3.address);
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([]);
+      expect(await landRegistry.getOwnerProperties(user2.address)).to.deep.equal([]);
+    });
+
+    it("Should only accept consent from co-owners on whole-property transfers", async function () {
+      await landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [50, 50]);
+      await verifyProperty();
+      await landRegistry.connect(user1).createTransferRequest(1, user3.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+
+      await expect(
+        landRegistry.connect(user3).consentToTransfer(1)
+      ).to.be.revertedWith("Not a co-owner of the property");
+      await expect(
+        landRegistry.connect(user1).consentToTransfer(1)
+      ).to.be.revertedWith("Consent already given");
+    });
+
+    it("Should move only the seller's share on a share transfer", async function () {
+      await landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [70, 30]);
+      await verifyProperty();
+
+      await landRegistry.connect(user2).createShareTransferRequest(1, user3.address, "QmShareDoc", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      const request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.isShareTransfer).to.be.true;
+      expect(request.sharePercentage).to.equal(30);
+
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user3).acceptTransferRequest(1);
+      await expect(landRegistry.connect(user3).completeTransfer(1))
+        .to.emit(landRegistry, "ShareTransferred")
+        .withArgs(1, user2.address, user3.address, 30, anyValue);
+
+      const coOwners = await landRegistry.getPropertyCoOwners(1);
+      expect(coOwners.map((c: any) => c.ownerAddress)).to.deep.equal([user1.address, user3.address]);
+      expect(coOwners.map((c: any) => c.sharePercentage)).to.deep.equal([70n, 30n]);
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user1.address);
+      expect(await landRegistry.getOwnerProperties(user2.address)).to.deep.equal([]);
+      expect(await landRegistry.getOwnerProperties(user3.address)).to.deep.equal([1n]);
+    });
+
+    it("Should hand primary ownership to the next co-owner when the primary sells out", async function () {
+      await landRegistry.connect(user1).setPropertyCoOwners(1, [user1.address, user2.address], [50, 50]);
+      await verifyProperty();
+
+      await landRegistry.connect(user1).createShareTransferRequest(1, user2.address, "QmShareDoc", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await approveAndComplete(1, user2);
+
+      const coOwners = await landRegistry.getPropertyCoOwners(1);
+      expect(coOwners.length).to.equal(1);
+      expect(coOwners[0].ownerAddress).to.equal(user2.address);
+      expect(coOwners[0].sharePercentage).to.equal(100);
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user2.address);
+    });
+
+    it("Should not allow share transfers on solely owned properties", async function () {
+      await verifyProperty();
+      await expect(
+        landRegistry.connect(user1).createShareTransferRequest(1, user2.address, "QmShareDoc", ethers.parseEther("1"), "", {
+          value: transferFee
+        })
+      ).to.be.revertedWith("Property is not jointly owned");
     });
   });
 
-  describe("Document Update", function () {
+  describe("Property Partition", function () {
     beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
       await landRegistry.connect(user1).registerOwner(
-        "John Doe",
-        "ID123456",
-        "john@example.com"
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
       );
       await landRegistry.connect(user1).registerProperty(
-        "123 Main St",
-        "Downtown",
-        "New York",
-        "NY",
-        1000,
-        "QmHash123"
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Agricultural", "123", "", "QmHash123"
       );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
     });
 
-    it("Should allow owner to update property document", async function () {
-      await landRegistry.connect(user1).updatePropertyDocument(1, "QmNewHash456");
-      const propertyDetails = await landRegistry.getPropertyDetails(1);
-      expect(propertyDetails.documentHash).to.equal("QmNewHash456");
+    it("Should mint child parcels and retire the parent on approval", async function () {
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch")
+      ).to.emit(landRegistry, "PartitionRequested").withArgs(1, 1, user1.address, anyValue);
+      expect(await landRegistry.getPendingPartitionRequests()).to.deep.equal([1n]);
+
+      await expect(landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "Site inspected"))
+        .to.emit(landRegistry, "PropertyPartitioned")
+        .withArgs(1, [2n, 3n], anyValue);
+
+      const parent = await landRegistry.getPropertyDetails(1);
+      expect(parent.isRetired).to.be.true;
+      expect(parent.isTransferable).to.be.false;
+      expect(parent.childPropertyIds).to.deep.equal([2n, 3n]);
+
+      const child = await landRegistry.getPropertyDetails(2);
+      expect(child.area).to.equal(600);
+      expect(child.subDivision).to.equal("123/1");
+      expect(child.surveyNumber).to.equal("123");
+      expect(child.currentOwner).to.equal(user1.address);
+      expect(child.isVerified).to.be.true;
+      expect(child.parentPropertyIds).to.deep.equal([1n]);
+
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([2n, 3n]);
+      expect(await landRegistry.searchPropertiesByLocation("Maharashtra", "Mumbai")).to.deep.equal([1n, 2n, 3n]);
     });
 
-    it("Should not allow non-owner to update property document", async function () {
+    it("Should carry co-owner shares over to every child parcel", async function () {
+      await landRegistry.connect(user1).registerProperty(
+        "456 Link Road", MUMBAI_VILLAGE, 500, "Residential", "456", "", "QmHash456"
+      );
+      await landRegistry.connect(user1).setPropertyCoOwners(2, [user1.address, user2.address], [50, 50]);
+      await landRegistry.connect(user1).requestPropertyVerification(2, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(2, "GVT001", true, "OK");
+
+      await landRegistry.connect(user1).requestPartition(2, [250, 250], ["456/1", "456/2"], "QmSketch");
+      await landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "OK");
+
+      const coOwners = await landRegistry.getPropertyCoOwners(4);
+      expect(coOwners.map((c: any) => c.ownerAddress)).to.deep.equal([user1.address, user2.address]);
+      expect(await landRegistry.getOwnerProperties(user2.address)).to.deep.equal([3n, 4n]);
+    });
+
+    it("Should reject partitions whose areas do not match the parent", async function () {
       await expect(
-        landRegistry.connect(user2).updatePropertyDocument(1, "QmNewHash456")
+        landRegistry.connect(user1).requestPartition(1, [600, 300], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Child areas must sum to the parent area");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [1000], ["123/1"], "QmSketch")
+      ).to.be.revertedWith("Invalid number of child parcels");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", ""], "QmSketch")
+      ).to.be.revertedWith("Sub-division required for each parcel");
+      await expect(
+        landRegistry.connect(user2).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Not the property owner");
+    });
+
+    it("Should leave the parent untouched when an officer rejects the partition", async function () {
+      await landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [500, 500], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Partition already pending");
+
+      await landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", false, "Boundary dispute");
+
+      const parent = await landRegistry.getPropertyDetails(1);
+      expect(parent.isRetired).to.be.false;
+      expect(await landRegistry.getTotalProperties()).to.equal(1);
+      const request = await landRegistry.getPartitionRequestDetails(1);
+      expect(request.isPending).to.be.false;
+      expect(request.isApproved).to.be.false;
+      expect(request.notes).to.equal("Boundary dispute");
+    });
+
+    it("Should wait for transfers on the parent to settle and block transfers once it is retired", async function () {
+      await landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch");
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: ethers.parseEther("0.002")
+      });
+      await expect(
+        landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "OK")
+      ).to.be.revertedWith("Property has an unsettled transfer request");
+      await landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", false, "Sale in progress");
+
+      // An approved transfer still holds the parcel until it completes or the buyer declines
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Property has an unsettled transfer request");
+      await landRegistry.connect(user2).declineTransferRequest(1);
+
+      await landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch");
+      await landRegistry.connect(verifier).processPartitionRequest(2, "GVT001", true, "OK");
+      await expect(
+        landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+          value: ethers.parseEther("0.002")
+        })
+      ).to.be.revertedWith("Property is not transferable");
+    });
+
+    it("Should refuse to partition a parcel under a lease that has not ended", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const year = 365 * 24 * 60 * 60;
+      await landRegistry.connect(user1).fileLease(1, user2.address, now, now + year, 35000, "QmLeaseDeed");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Property has a lease in force");
+
+      await landRegistry.connect(verifier).processLease(1, "GVT001", true, "Deed stamped");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Property has a lease in force");
+
+      await ethers.provider.send("evm_increaseTime", [year]);
+      await ethers.provider.send("evm_mine", []);
+      await landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch");
+    });
+  });
+
+  describe("Property Merge", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "Plot A, Marine Drive", MUMBAI_VILLAGE, 600, "Residential", "123", "", "QmHashA"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "Plot B, Marine Drive", MUMBAI_VILLAGE, 400, "Residential", "124", "", "QmHashB"
+      );
+      for (const id of [1, 2]) {
+        await landRegistry.connect(user1).requestPropertyVerification(id, {
+          value: ethers.parseEther("0.001")
+        });
+        await landRegistry.connect(verifier).verifyProperty(id, "GVT001", true, "OK");
+      }
+    });
+
+    it("Should create a merged property and supersede the sources on approval", async function () {
+      await expect(
+        landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmAmalgamation")
+      ).to.emit(landRegistry, "MergeRequested").withArgs(1, user1.address, [1n, 2n], anyValue);
+      expect(await landRegistry.pendingMergeOf(2)).to.equal(1);
+
+      await expect(landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "Adjacent plots"))
+        .to.emit(landRegistry, "PropertiesMerged")
+        .withArgs(3, [1n, 2n], anyValue);
+
+      const merged = await landRegistry.getPropertyDetails(3);
+      expect(merged.area).to.equal(1000);
+      expect(merged.surveyNumber).to.equal("123-124");
+      expect(merged.currentOwner).to.equal(user1.address);
+      expect(merged.isVerified).to.be.true;
+      expect(merged.parentPropertyIds).to.deep.equal([1n, 2n]);
+
+      const source = await landRegistry.getPropertyDetails(1);
+      expect(source.isRetired).to.be.true;
+      expect(source.childPropertyIds).to.deep.equal([3n]);
+
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([3n]);
+      expect(await landRegistry.getPropertyMergeHistory(2)).to.deep.equal([1n]);
+      expect(await landRegistry.getPropertyMergeHistory(3)).to.deep.equal([1n]);
+      expect((await landRegistry.getMergeRequestDetails(1)).mergedPropertyId).to.equal(3);
+    });
+
+    it("Should keep the source transfer history after a merge", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: ethers.parseEther("0.002")
+      });
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      await landRegistry.connect(user2).completeTransfer(1);
+
+      await landRegistry.connect(user2).registerOwner(
+        hashIdDocument("ID654321"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user2).registerProperty(
+        "Plot C, Marine Drive", MUMBAI_VILLAGE, 300, "Residential", "125", "", "QmHashC"
+      );
+      await landRegistry.connect(user2).requestPropertyVerification(3, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(3, "GVT001", true, "OK");
+
+      await landRegistry.connect(user2).requestMerge([1, 3], "123-125", "QmAmalgamation");
+      await landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "OK");
+
+      expect(await landRegistry.getPropertyTransferHistory(1)).to.deep.equal([1n]);
+      expect((await landRegistry.getPropertyDetails(4)).area).to.equal(900);
+    });
+
+    it("Should reject merges of parcels in different districts or owned by others", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT002", "Priya Sharma", "Land Revenue", "Maharashtra", "Pune", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "Plot D, FC Road", PUNE_VILLAGE, 200, "Residential", "99", "", "QmHashD"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(3, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(3, "GVT002", true, "OK");
+
+      await expect(
+        landRegistry.connect(user1).requestMerge([1, 3], "123-99", "QmAmalgamation")
+      ).to.be.revertedWith("Parcels must be in the same state and district");
+      await expect(
+        landRegistry.connect(user2).requestMerge([1, 2], "123-124", "QmAmalgamation")
       ).to.be.revertedWith("Not the property owner");
+      await expect(
+        landRegistry.connect(user1).requestMerge([1, 1], "123", "QmAmalgamation")
+      ).to.be.revertedWith("Duplicate property");
+      await expect(
+        landRegistry.connect(user1).requestMerge([1], "123", "QmAmalgamation")
+      ).to.be.revertedWith("Invalid number of parcels to merge");
+    });
+
+    it("Should refuse to merge a parcel with an unsettled transfer or a lease in force", async function () {
+      await landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmAmalgamation");
+      await landRegistry.connect(user1).createTransferRequest(2, user2.address, "QmTransferDoc124", ethers.parseEther("1"), "", {
+        value: ethers.parseEther("0.002")
+      });
+      await expect(
+        landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "Adjacent plots")
+      ).to.be.revertedWith("Property has an unsettled transfer request");
+      await landRegistry.connect(verifier).processMergeRequest(1, "GVT001", false, "Sale in progress");
+
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await expect(
+        landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmAmalgamation")
+      ).to.be.revertedWith("Property has an unsettled transfer request");
+      await landRegistry.connect(user2).declineTransferRequest(1);
+
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      await landRegistry.connect(user1).fileLease(1, user3.address, now, now + 365 * 24 * 60 * 60, 35000, "QmLeaseDeed");
+      await expect(
+        landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmAmalgamation")
+      ).to.be.revertedWith("Property has a lease in force");
+      await landRegistry.connect(verifier).processLease(1, "GVT001", false, "Deed unsigned");
+
+      await landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmAmalgamation");
+      await landRegistry.connect(verifier).processMergeRequest(2, "GVT001", true, "Adjacent plots");
+      expect((await landRegistry.getPropertyDetails(3)).area).to.equal(1000);
+    });
+
+    it("Should release the parcels when an officer rejects the merge", async function () {
+      await landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmAmalgamation");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [300, 300], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Merge already pending");
+
+      await landRegistry.connect(verifier).processMergeRequest(1, "GVT001", false, "Not adjacent");
+
+      expect(await landRegistry.pendingMergeOf(1)).to.equal(0);
+      expect((await landRegistry.getPropertyDetails(1)).isRetired).to.be.false;
+      expect(await landRegistry.getTotalProperties()).to.equal(2);
+      expect(await landRegistry.getPendingMergeRequests()).to.deep.equal([]);
+    });
+  });
+
+  describe("Encumbrances", function () {
+    const transferFee = ethers.parseEther("0.002");
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+    });
+
+    it("Should keep a mortgage pending until the owner consents, then block new transfer requests", async function () {
+      // user3 acts as the lending bank
+      await expect(landRegistry.connect(user3).registerEncumbrance(1, "Mortgage", 2500000, "QmLoanDeed"))
+        .to.emit(landRegistry, "EncumbranceRegistered")
+        .withArgs(1, 1, user3.address, "Mortgage", 2500000, anyValue);
+      expect(await landRegistry.activeEncumbranceCount(1)).to.equal(0);
+      expect(await landRegistry.getPropertyEncumbrances(1)).to.deep.equal([1n]);
+      expect((await landRegistry.getEncumbranceDetails(1)).isPending).to.be.true;
+
+      await expect(landRegistry.connect(user1).consentToEncumbrance(1))
+        .to.emit(landRegistry, "EncumbranceConsented")
+        .withArgs(1, user1.address, anyValue);
+      expect(await landRegistry.activeEncumbranceCount(1)).to.equal(1);
+      expect((await landRegistry.getEncumbranceDetails(1)).isActive).to.be.true;
+
+      await expect(
+        landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+          value: transferFee
+        })
+      ).to.be.revertedWith("Active encumbrance requires lender consent");
+    });
+
+    it("Should allow a transfer to the buyer the lender consented to", async function () {
+      await landRegistry.connect(user3).registerEncumbrance(1, "Mortgage", 2500000, "QmLoanDeed");
+      await landRegistry.connect(user1).consentToEncumbrance(1);
+      await landRegistry.connect(user3).consentToEncumberedTransfer(1, user2.address);
+
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      await landRegistry.connect(user2).completeTransfer(1);
+
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user2.address);
+      // The mortgage follows the land
+      expect((await landRegistry.getEncumbranceDetails(1)).isActive).to.be.true;
+    });
+
+    it("Should block completion when an encumbrance is added after the request", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      await landRegistry.connect(user3).registerEncumbrance(1, "Lien", 50000, "QmLienOrder");
+      await landRegistry.connect(verifier).coSignEncumbrance(1, "GVT001");
+
+      await expect(
+        landRegistry.connect(user2).completeTransfer(1)
+      ).to.be.revertedWith("Active encumbrance requires lender consent");
+
+      await expect(landRegistry.connect(user3).releaseEncumbrance(1))
+        .to.emit(landRegistry, "EncumbranceReleased")
+        .withArgs(1, 1, user3.address, anyValue);
+      await landRegistry.connect(user2).completeTransfer(1);
+      expect(await landRegistry.activeEncumbranceCount(1)).to.equal(0);
+    });
+
+    it("Should only let the lender release or consent", async function () {
+      await landRegistry.connect(user3).registerEncumbrance(1, "Mortgage", 2500000, "QmLoanDeed");
+      await landRegistry.connect(user1).consentToEncumbrance(1);
+      await expect(
+        landRegistry.connect(user1).releaseEncumbrance(1)
+      ).to.be.revertedWith("Only the lender can act on the encumbrance");
+      await expect(
+        landRegistry.connect(user1).consentToEncumberedTransfer(1, user2.address)
+      ).to.be.revertedWith("Only the lender can act on the encumbrance");
+      await expect(
+        landRegistry.connect(user1).registerEncumbrance(1, "Mortgage", 100, "QmLoanDeed")
+      ).to.be.revertedWith("Owners cannot encumber their own property");
+    });
+
+    it("Should let an officer in jurisdiction co-sign once, activating a pending entry", async function () {
+      await landRegistry.connect(user3).registerEncumbrance(1, "Mortgage", 2500000, "QmLoanDeed");
+
+      await expect(landRegistry.connect(verifier).coSignEncumbrance(1, "GVT001"))
+        .to.emit(landRegistry, "EncumbranceCoSigned")
+        .withArgs(1, "GVT001", anyValue);
+      expect((await landRegistry.getEncumbranceDetails(1)).coSigningOfficerId).to.equal("GVT001");
+      expect(await landRegistry.activeEncumbranceCount(1)).to.equal(1);
+      await expect(landRegistry.connect(user1).consentToEncumbrance(1)).to.be.revertedWith("Encumbrance not pending");
+      await expect(
+        landRegistry.connect(verifier).coSignEncumbrance(1, "GVT001")
+      ).to.be.revertedWith("Encumbrance already co-signed");
+    });
+
+    it("Should block partition of an encumbered property", async function () {
+      await landRegistry.connect(user3).registerEncumbrance(1, "Mortgage", 2500000, "QmLoanDeed");
+      await landRegistry.connect(user1).consentToEncumbrance(1);
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [500, 500], ["123/1", "123/2"], "QmSketch")
+      ).to.be.revertedWith("Property has an active encumbrance");
+    });
+
+    it("Should not let a stranger's unconsented lien freeze the property", async function () {
+      await landRegistry.connect(user3).registerEncumbrance(1, "Lien", 50000, "QmLienOrder");
+      await expect(landRegistry.connect(user2).consentToEncumbrance(1)).to.be.revertedWith("Not the property owner");
+
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await landRegistry.connect(user1).cancelTransferRequest(1);
+      await landRegistry.connect(user1).requestPartition(1, [500, 500], ["123/1", "123/2"], "QmSketch");
+
+      // The lender can withdraw it; nothing was counted as active
+      await landRegistry.connect(user3).releaseEncumbrance(1);
+      const details = await landRegistry.getEncumbranceDetails(1);
+      expect(details.isPending).to.be.false;
+      expect(details.isActive).to.be.false;
+      expect(await landRegistry.activeEncumbranceCount(1)).to.equal(0);
+    });
+
+    it("Should refuse to approve a partition or merge once a charge becomes active after the request", async function () {
+      await landRegistry.connect(user1).requestPartition(1, [500, 500], ["123/1", "123/2"], "QmSketch");
+      await landRegistry.connect(user3).registerEncumbrance(1, "Charge", 50000, "QmChargeDeed");
+      await landRegistry.connect(verifier).coSignEncumbrance(1, "GVT001");
+
+      await expect(
+        landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "Approved")
+      ).to.be.revertedWith("Property has an active encumbrance");
+
+      await landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", false, "Charge registered");
+      await landRegistry.connect(user1).registerProperty(
+        "124 Marine Drive", MUMBAI_VILLAGE, 500, "Residential", "124", "", "QmHash124"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(2, { value: ethers.parseEther("0.001") });
+      await landRegistry.connect(verifier).verifyProperty(2, "GVT001", true, "OK");
+      await landRegistry.connect(user3).releaseEncumbrance(1);
+      await landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmMergeSketch");
+      await landRegistry.connect(user3).registerEncumbrance(2, "Mortgage", 2500000, "QmLoanDeed");
+      await landRegistry.connect(user1).consentToEncumbrance(2);
+
+      await expect(
+        landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "Approved")
+      ).to.be.revertedWith("Property has an active encumbrance");
+    });
+  });
+
+  describe("Legal Holds", function () {
+    const transferFee = ethers.parseEther("0.002");
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      // user3 acts as the civil court
+      await landRegistry.connect(owner).setCourtAuthority(user3.address, true);
+    });
+
+    it("Should only let court authorities place a hold", async function () {
+      await expect(
+        landRegistry.connect(user2).placeLegalHold(1, "OS 123/2024", "QmCourtOrder", 0)
+      ).to.be.revertedWith("Not a court authority");
+
+      await expect(landRegistry.connect(user3).placeLegalHold(1, "OS 123/2024", "QmCourtOrder", 0))
+        .to.emit(landRegistry, "LegalHoldPlaced")
+        .withArgs(1, 1, user3.address, "OS 123/2024", 0, anyValue);
+
+      expect(await landRegistry.isUnderLegalHold(1)).to.be.true;
+      expect(await landRegistry.isPropertyTransferable(1)).to.be.false;
+      await expect(
+        landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+          value: transferFee
+        })
+      ).to.be.revertedWith("Property is not transferable");
+    });
+
+    it("Should block approval of a partition or merge requested before the hold", async function () {
+      await landRegistry.connect(user1).requestPartition(1, [500, 500], ["123/1", "123/2"], "QmSketch");
+      await landRegistry.connect(user3).placeLegalHold(1, "OS 123/2024", "QmCourtOrder", 0);
+
+      await expect(
+        landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "Approved")
+      ).to.be.revertedWith("Property is under legal hold");
+      expect((await landRegistry.getPropertyDetails(1)).isRetired).to.be.false;
+
+      await landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", false, "Under litigation");
+      await landRegistry.connect(user3).liftLegalHold(1);
+      await landRegistry.connect(user1).registerProperty(
+        "124 Marine Drive", MUMBAI_VILLAGE, 500, "Residential", "124", "", "QmHash124"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(2, { value: ethers.parseEther("0.001") });
+      await landRegistry.connect(verifier).verifyProperty(2, "GVT001", true, "OK");
+      await landRegistry.connect(user1).requestMerge([1, 2], "123-124", "QmMergeSketch");
+      await landRegistry.connect(user3).placeLegalHold(2, "OS 456/2024", "QmCourtOrder", 0);
+
+      await expect(
+        landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "Approved")
+      ).to.be.revertedWith("Property is under legal hold");
+      expect(await landRegistry.getTotalProperties()).to.equal(2);
+    });
+
+    it("Should block approval and completion of pending transfers", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmTransferDoc123", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await landRegistry.connect(user3).placeLegalHold(1, "OS 123/2024", "QmCourtOrder", 0);
+
+      await expect(
+        landRegistry.connect(verifier).approveTransferRequest(1, "GVT001")
+      ).to.be.revertedWith("Property is under legal hold");
+
+      await landRegistry.connect(user3).liftLegalHold(1);
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      await landRegistry.connect(user3).placeLegalHold(1, "OS 124/2024", "QmCourtOrder2", 0);
+
+      await expect(
+        landRegistry.connect(user2).completeTransfer(1)
+      ).to.be.revertedWith("Property is under legal hold");
+    });
+
+    it("Should only let the placing authority lift the hold early", async function () {
+      await landRegistry.connect(owner).setCourtAuthority(user2.address, true);
+      await landRegistry.connect(user3).placeLegalHold(1, "OS 123/2024", "QmCourtOrder", 0);
+
+      await expect(
+        landRegistry.connect(user2).liftLegalHold(1)
+      ).to.be.revertedWith("Only the placing authority can lift the hold");
+
+      await expect(landRegistry.connect(user3).liftLegalHold(1))
+        .to.emit(landRegistry, "LegalHoldLifted")
+        .withArgs(1, 1, user3.address, anyValue);
+
+      expect(await landRegistry.isUnderLegalHold(1)).to.be.false;
+      expect(await landRegistry.isPropertyTransferable(1)).to.be.true;
+    });
+
+    it("Should keep the property frozen while another hold is active", async function () {
+      await landRegistry.connect(user3).placeLegalHold(1, "OS 123/2024", "QmCourtOrder", 0);
+      await landRegistry.connect(user3).placeLegalHold(1, "OS 124/2024", "QmCourtOrder2", 0);
+      await landRegistry.connect(user3).liftLegalHold(1);
+
+      expect(await landRegistry.isUnderLegalHold(1)).to.be.true;
+      expect(await landRegistry.isPropertyTransferable(1)).to.be.false;
+      expect(await landRegistry.getPropertyLegalHolds(1)).to.deep.equal([1n, 2n]);
+    });
+
+    it("Should let anyone clear a hold once it has expired", async function () {
+      const latest = await ethers.provider.getBlock("latest");
+      const expiry = latest!.timestamp + 3600;
+      await landRegistry.connect(user3).placeLegalHold(1, "OS 123/2024", "QmCourtOrder", expiry);
+
+      await expect(
+        landRegistry.connect(user1).liftLegalHold(1)
+      ).to.be.revertedWith("Only the placing authority can lift the hold");
+
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+
+      expect(await landRegistry.isUnderLegalHold(1)).to.be.false;
+      await landRegistry.connect(user1).liftLegalHold(1);
+      expect(await landRegistry.isPropertyTransferable(1)).to.be.true;
+    });
+  });
+
+  describe("Succession", function () {
+    const objectionPeriod = 30 * 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      // user2 is the deceased owner's child and files the claim
+      await landRegistry.connect(user2).registerOwner(
+        hashIdDocument("ID654321"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+    });
+
+    it("Should file a claim and open the objection window", async function () {
+      await expect(
+        landRegistry.connect(user2).fileSuccessionClaim(
+          1, user1.address, "QmDeathCert", [user2.address, user3.address], [60, 30]
+        )
+      ).to.be.revertedWith("Heir shares must equal the deceased's share");
+
+      await expect(
+        landRegistry.connect(user2).fileSuccessionClaim(
+          1, user1.address, "QmDeathCert", [user2.address, user3.address], [60, 40]
+        )
+      ).to.emit(landRegistry, "SuccessionFiled")
+        .withArgs(1, 1, user2.address, user1.address, anyValue, anyValue);
+
+      expect(await landRegistry.getPendingSuccessionRequests()).to.deep.equal([1n]);
+      await expect(
+        landRegistry.connect(user2).fileSuccessionClaim(
+          1, user1.address, "QmDeathCert", [user2.address], [100]
+        )
+      ).to.be.revertedWith("Succession already pending");
+    });
+
+    it("Should record objections only during the window", async function () {
+      await landRegistry.connect(user2).fileSuccessionClaim(
+        1, user1.address, "QmDeathCert", [user2.address], [100]
+      );
+
+      await expect(landRegistry.connect(user3).objectToSuccession(1, "Second child omitted"))
+        .to.emit(landRegistry, "SuccessionObjected")
+        .withArgs(1, user3.address, "Second child omitted", anyValue);
+      expect((await landRegistry.getSuccessionObjections(1)).length).to.equal(1);
+
+      await ethers.provider.send("evm_increaseTime", [objectionPeriod]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        landRegistry.connect(user3).objectToSuccession(1, "Too late")
+      ).to.be.revertedWith("Objection window has closed");
+    });
+
+    it("Should not approve before the objection window closes", async function () {
+      await landRegistry.connect(user2).fileSuccessionClaim(
+        1, user1.address, "QmDeathCert", [user2.address], [100]
+      );
+
+      await expect(
+        landRegistry.connect(verifier).processSuccessionRequest(1, "GVT001", true, "OK")
+      ).to.be.revertedWith("Objection window still open");
+    });
+
+    it("Should pass the property to the heirs as joint owners on approval", async function () {
+      await landRegistry.connect(user2).fileSuccessionClaim(
+        1, user1.address, "QmDeathCert", [user2.address, user3.address], [60, 40]
+      );
+      await ethers.provider.send("evm_increaseTime", [objectionPeriod]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(landRegistry.connect(verifier).processSuccessionRequest(1, "GVT001", true, "Heirs verified"))
+        .to.emit(landRegistry, "SuccessionProcessed")
+        .withArgs(1, 1, "GVT001", true, anyValue);
+
+      const coOwners = await landRegistry.getPropertyCoOwners(1);
+      expect(coOwners.map((c) => [c.ownerAddress, c.sharePercentage])).to.deep.equal([
+        [user2.address, 60n],
+        [user3.address, 40n]
+      ]);
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user2.address);
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([]);
+
+      const history = await landRegistry.getPropertyTransferHistory(1);
+      expect(history.length).to.equal(2);
+      const entry = await landRegistry.getTransferRequestDetails(history[0]);
+      expect(entry.isSuccession).to.be.true;
+      expect(entry.isCompleted).to.be.true;
+      expect(entry.fromOwner).to.equal(user1.address);
+      expect(entry.transferDocumentHash).to.equal("QmDeathCert");
+    });
+
+    it("Should leave ownership untouched when the claim is rejected", async function () {
+      await landRegistry.connect(user2).fileSuccessionClaim(
+        1, user1.address, "QmDeathCert", [user2.address], [100]
+      );
+      await landRegistry.connect(verifier).processSuccessionRequest(1, "GVT001", false, "Owner is alive");
+
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user1.address);
+      expect(await landRegistry.pendingSuccessionOf(1)).to.equal(0);
+      expect(await landRegistry.getPropertyTransferHistory(1)).to.deep.equal([]);
+    });
+  });
+
+  describe("Power of Attorney", function () {
+    const transferFee = ethers.parseEther("0.002");
+    let expiry: number;
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      const latest = await ethers.provider.getBlock("latest");
+      expiry = latest!.timestamp + 365 * 24 * 60 * 60;
+      // user3 holds the power of attorney for user1
+      await landRegistry.connect(user1).grantPowerOfAttorney(
+        user3.address, [1], true, true, false, expiry, "QmPoaDeed"
+      );
+    });
+
+    it("Should not allow the attorney to act before an officer countersigns", async function () {
+      await expect(
+        landRegistry.connect(user3).requestPropertyVerificationAsAttorney(1, 1, {
+          value: ethers.parseEther("0.001")
+        })
+      ).to.be.revertedWith("Power of attorney not countersigned");
+
+      await expect(landRegistry.connect(verifier).countersignPowerOfAttorney(1, "GVT001"))
+        .to.emit(landRegistry, "PowerOfAttorneyCountersigned")
+        .withArgs(1, "GVT001", anyValue);
+    });
+
+    it("Should request verification on the owner's behalf and record the action", async function () {
+      await landRegistry.connect(verifier).countersignPowerOfAttorney(1, "GVT001");
+
+      await expect(
+        landRegistry.connect(user3).requestPropertyVerificationAsAttorney(1, 1, {
+          value: ethers.parseEther("0.001")
+        })
+      ).to.emit(landRegistry, "ActedUnderPowerOfAttorney")
+        .withArgs(1, 1, user3.address, user1.address, "Request Verification", 1, anyValue);
+
+      expect((await landRegistry.getVerificationRequestDetails(1)).propertyOwner).to.equal(user1.address);
+      const actions = await landRegistry.getPropertyAttorneyActions(1);
+      expect(actions.length).to.equal(1);
+      expect(actions[0].attorney).to.equal(user3.address);
+      expect(actions[0].principal).to.equal(user1.address);
+    });
+
+    it("Should create a transfer in the owner's name", async function () {
+      await landRegistry.connect(verifier).countersignPowerOfAttorney(1, "GVT001");
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+
+      await landRegistry.connect(user3).createTransferRequestAsAttorney(1, 1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+
+      const request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.fromOwner).to.equal(user1.address);
+      expect(await landRegistry.transferConsents(1, user1.address)).to.be.true;
+
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      await landRegistry.connect(user2).completeTransfer(1);
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user2.address);
+    });
+
+    it("Should refund the attorney who paid the fee when the transfer is rejected", async function () {
+      await landRegistry.connect(verifier).countersignPowerOfAttorney(1, "GVT001");
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(user3).createTransferRequestAsAttorney(1, 1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      expect((await landRegistry.getTransferRequestDetails(1)).feePayer).to.equal(user3.address);
+
+      const tx = landRegistry.connect(verifier).rejectTransferRequest(1, "GVT001", "Sale deed unsigned");
+      await expect(tx).to.changeEtherBalances([landRegistry, user3, user1], [-transferFee, transferFee, 0]);
+    });
+
+    it("Should check a general power of attorney against the principal's home district", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT002", "Anita Desai", "Land Revenue", "Maharashtra", "Pune", user2.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).grantPowerOfAttorney(
+        user3.address, [], true, false, false, expiry, "QmGeneralPoaDeed"
+      );
+
+      await expect(
+        landRegistry.connect(user2).countersignPowerOfAttorney(2, "GVT002")
+      ).to.be.revertedWith("Principal outside officer's jurisdiction");
+      await expect(landRegistry.connect(verifier).countersignPowerOfAttorney(2, "GVT001"))
+        .to.emit(landRegistry, "PowerOfAttorneyCountersigned");
+    });
+
+    it("Should reject actions outside the grant's scope", async function () {
+      await landRegistry.connect(verifier).countersignPowerOfAttorney(1, "GVT001");
+
+      await expect(
+        landRegistry.connect(user3).updatePropertyDocumentAsAttorney(1, 1, "QmNewDocs")
+      ).to.be.revertedWith("Action not permitted by the power of attorney");
+
+      await landRegistry.connect(user1).registerProperty(
+        "456 Linking Road", MUMBAI_VILLAGE, 500, "Residential", "456", "", "QmHash456"
+      );
+      await expect(
+        landRegistry.connect(user3).requestPropertyVerificationAsAttorney(1, 2, {
+          value: ethers.parseEther("0.001")
+        })
+      ).to.be.revertedWith("Property not covered by the power of attorney");
+
+      await expect(
+        landRegistry.connect(user2).requestPropertyVerificationAsAttorney(1, 1, {
+          value: ethers.parseEther("0.001")
+        })
+      ).to.be.revertedWith("Not the attorney for this grant");
+    });
+
+    it("Should stop the attorney once the principal revokes", async function () {
+      await landRegistry.connect(verifier).countersignPowerOfAttorney(1, "GVT001");
+      await expect(landRegistry.connect(user1).revokePowerOfAttorney(1))
+        .to.emit(landRegistry, "PowerOfAttorneyRevoked");
+
+      await expect(
+        landRegistry.connect(user3).requestPropertyVerificationAsAttorney(1, 1, {
+          value: ethers.parseEther("0.001")
+        })
+      ).to.be.revertedWith("Power of attorney revoked");
+    });
+  });
+
+  describe("Leases", function () {
+    const day = 24 * 60 * 60;
+    let now: number;
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    });
+
+    it("Should file a lease and index it by property and lessee", async function () {
+      await expect(
+        landRegistry.connect(user2).fileLease(1, user3.address, now, now + 365 * day, 35000, "QmLeaseDeed")
+      ).to.be.revertedWith("Not the property owner");
+
+      await expect(landRegistry.connect(user1).fileLease(1, user2.address, now, now + 365 * day, 35000, "QmLeaseDeed"))
+        .to.emit(landRegistry, "LeaseFiled")
+        .withArgs(1, 1, user2.address, now, now + 365 * day, anyValue);
+
+      expect(await landRegistry.getPropertyLeases(1)).to.deep.equal([1n]);
+      expect(await landRegistry.getLesseeLeases(user2.address)).to.deep.equal([1n]);
+      // Not active until an officer registers it
+      expect(await landRegistry.isLeaseActive(1)).to.be.false;
+    });
+
+    it("Should activate a lease once an officer registers it", async function () {
+      await landRegistry.connect(user1).fileLease(1, user2.address, now, now + 365 * day, 35000, "QmLeaseDeed");
+
+      await expect(landRegistry.connect(verifier).processLease(1, "GVT001", true, "Stamp duty paid"))
+        .to.emit(landRegistry, "LeaseProcessed")
+        .withArgs(1, 1, "GVT001", true, anyValue);
+
+      expect(await landRegistry.isLeaseActive(1)).to.be.true;
+      expect(await landRegistry.getActivePropertyLeases(1)).to.deep.equal([1n]);
+      await expect(
+        landRegistry.connect(verifier).processLease(1, "GVT001", true, "Again")
+      ).to.be.revertedWith("Lease not pending");
+    });
+
+    it("Should flag a registered lease as expired after its end date", async function () {
+      await landRegistry.connect(user1).fileLease(1, user2.address, now, now + 30 * day, 35000, "QmLeaseDeed");
+      await landRegistry.connect(verifier).processLease(1, "GVT001", true, "OK");
+
+      await ethers.provider.send("evm_increaseTime", [31 * day]);
+      await ethers.provider.send("evm_mine", []);
+
+      expect(await landRegistry.isLeaseExpired(1)).to.be.true;
+      expect(await landRegistry.isLeaseActive(1)).to.be.false;
+      expect(await landRegistry.getActivePropertyLeases(1)).to.deep.equal([]);
+    });
+
+    it("Should not activate a rejected lease", async function () {
+      await landRegistry.connect(user1).fileLease(1, user2.address, now, now + 365 * day, 35000, "QmLeaseDeed");
+      await landRegistry.connect(verifier).processLease(1, "GVT001", false, "Deed not stamped");
+
+      expect(await landRegistry.isLeaseActive(1)).to.be.false;
+      expect(await landRegistry.isLeaseExpired(1)).to.be.false;
+    });
+  });
+
+  describe("Stamp Duty Schedule", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+    });
+
+    it("Should fall back to the flat transfer fee without a schedule", async function () {
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("10"), "")).to.equal(
+        await landRegistry.TRANSFER_FEE()
+      );
+    });
+
+    it("Should let only the contract owner set a fee schedule", async function () {
+      await expect(
+        landRegistry.connect(user1).setFeeSchedule(
+          "Maharashtra", "Residential", 500, ethers.parseEther("0.01"), ethers.parseEther("0.5"), ethers.parseEther("0.001")
+        )
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount")
+        .withArgs(user1.address);
+
+      await expect(
+        landRegistry.connect(owner).setFeeSchedule(
+          "Maharashtra", "Residential", 500, ethers.parseEther("0.5"), ethers.parseEther("0.01"), 0
+        )
+      ).to.be.revertedWith("Maximum stamp duty below minimum");
+
+      await expect(
+        landRegistry.connect(owner).setFeeSchedule(
+          "Maharashtra", "Residential", 500, ethers.parseEther("0.01"), ethers.parseEther("0.5"), ethers.parseEther("0.001")
+        )
+      ).to.emit(landRegistry, "FeeScheduleUpdated")
+        .withArgs(
+          "Maharashtra", "Residential", 500, ethers.parseEther("0.01"), ethers.parseEther("0.5"),
+          ethers.parseEther("0.001"), true, anyValue
+        );
+    });
+
+    it("Should quote stamp duty within the minimum and maximum caps", async function () {
+      await landRegistry.connect(owner).setFeeSchedule(
+        "Maharashtra", "Residential", 500, ethers.parseEther("0.01"), ethers.parseEther("0.5"), ethers.parseEther("0.001")
+      );
+
+      // 5% of 1 ETH plus the registration fee
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("1"), "")).to.equal(ethers.parseEther("0.051"));
+      // Raised to the minimum
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("0.1"), "")).to.equal(ethers.parseEther("0.011"));
+      // Capped at the maximum
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("100"), "")).to.equal(ethers.parseEther("0.501"));
+    });
+
+    it("Should apply buyer category concessions to the stamp duty rate", async function () {
+      await landRegistry.connect(owner).setFeeSchedule("Maharashtra", "Residential", 600, 0, 0, 0);
+      await expect(landRegistry.connect(owner).setStampDutyConcession("Maharashtra", "Women", 100))
+        .to.emit(landRegistry, "StampDutyConcessionUpdated")
+        .withArgs("Maharashtra", "Women", 100, anyValue);
+
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("1"), "Women")).to.equal(ethers.parseEther("0.05"));
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("1"), "")).to.equal(ethers.parseEther("0.06"));
+      // Categories without a concession pay the full rate
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("1"), "Senior Citizen")).to.equal(ethers.parseEther("0.06"));
+    });
+
+    it("Should enforce the quoted fee when creating a transfer request", async function () {
+      await landRegistry.connect(owner).setFeeSchedule("Maharashtra", "Residential", 500, 0, 0, 0);
+      const declaredValue = ethers.parseEther("2");
+      const quote = await landRegistry.quoteTransferFee(1, declaredValue, "");
+
+      await expect(
+        landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", 0, "", { value: quote })
+      ).to.be.revertedWith("Declared value required");
+      await expect(
+        landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", declaredValue, "", {
+          value: quote - 1n
+        })
+      ).to.be.revertedWith("Insufficient transfer fee");
+
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", declaredValue, "", {
+        value: quote
+      });
+      const request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.transferFee).to.equal(ethers.parseEther("0.1"));
+      expect(request.declaredValue).to.equal(declaredValue);
+    });
+
+    it("Should refund anything paid over the quoted fee", async function () {
+      await landRegistry.connect(owner).setFeeSchedule("Maharashtra", "Residential", 500, 0, 0, 0);
+      const declaredValue = ethers.parseEther("2");
+      const quote = await landRegistry.quoteTransferFee(1, declaredValue, "");
+
+      const tx = landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", declaredValue, "", {
+        value: quote + ethers.parseEther("0.05")
+      });
+      await expect(tx).to.changeEtherBalances([landRegistry, user1], [quote, -quote]);
+      expect((await landRegistry.getTransferRequestDetails(1)).transferFee).to.equal(quote);
+    });
+
+    it("Should fall back to the flat fee once a schedule is removed", async function () {
+      await landRegistry.connect(owner).setFeeSchedule("Maharashtra", "Residential", 500, 0, 0, 0);
+      await landRegistry.connect(owner).removeFeeSchedule("Maharashtra", "Residential");
+
+      expect(await landRegistry.quoteTransferFee(1, ethers.parseEther("10"), "")).to.equal(ethers.parseEther("0.002"));
+      await expect(
+        landRegistry.connect(owner).removeFeeSchedule("Maharashtra", "Residential")
+      ).to.be.revertedWith("No fee schedule for this property type");
+    });
+  });
+
+  describe("Circle Rates", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+    });
+
+    it("Should let an officer set circle rates only in their jurisdiction", async function () {
+      await expect(
+        landRegistry.connect(verifier).setCircleRate("Maharashtra", "Pune", "Residential", "GVT001", 1000)
+      ).to.be.revertedWith("District outside officer's jurisdiction");
+      await expect(
+        landRegistry.connect(user1).setCircleRate("Maharashtra", "Mumbai", "Residential", "GVT001", 1000)
+      ).to.be.revertedWith("Caller is not the officer's authorized signer");
+
+      await expect(
+        landRegistry.connect(verifier).setCircleRate("Maharashtra", "Mumbai", "Residential", "GVT001", ethers.parseEther("0.001"))
+      ).to.emit(landRegistry, "CircleRateUpdated")
+        .withArgs("Maharashtra", "Mumbai", "Residential", ethers.parseEther("0.001"), "GVT001", anyValue);
+
+      const rate = await landRegistry.getCircleRate("Maharashtra", "Mumbai", "Residential");
+      expect(rate.ratePerSqm).to.equal(ethers.parseEther("0.001"));
+      expect(rate.setByEmployeeId).to.equal("GVT001");
+      // 1000 sq m at 0.001 ETH per sq m
+      expect(await landRegistry.getGuidanceValue(1)).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should flag transfers declared below the guidance value", async function () {
+      await landRegistry.connect(verifier).setCircleRate("Maharashtra", "Mumbai", "Residential", "GVT001", ethers.parseEther("0.001"));
+
+      await expect(
+        landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("0.6"), "", {
+          value: ethers.parseEther("0.002")
+        })
+      ).to.emit(landRegistry, "TransferUndervaluationFlagged")
+        .withArgs(1, 1, ethers.parseEther("0.6"), ethers.parseEther("1"));
+
+      const request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.guidanceValue).to.equal(ethers.parseEther("1"));
+      expect(await landRegistry.isTransferUndervalued(1)).to.be.true;
+    });
+
+    it("Should not flag transfers at or above the guidance value", async function () {
+      await landRegistry.connect(verifier).setCircleRate("Maharashtra", "Mumbai", "Residential", "GVT001", ethers.parseEther("0.001"));
+
+      await expect(
+        landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+          value: ethers.parseEther("0.002")
+        })
+      ).to.not.emit(landRegistry, "TransferUndervaluationFlagged");
+      expect(await landRegistry.isTransferUndervalued(1)).to.be.false;
+    });
+
+    it("Should not flag transfers where no circle rate is set", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", 1, "", {
+        value: ethers.parseEther("0.002")
+      });
+
+      expect(await landRegistry.getGuidanceValue(1)).to.equal(0);
+      expect(await landRegistry.isTransferUndervalued(1)).to.be.false;
+    });
+  });
+
+  describe("Treasury", function () {
+    const verificationFee = ethers.parseEther("0.001");
+    const transferFee = ethers.parseEther("0.002");
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, { value: verificationFee });
+    });
+
+    it("Should credit fees to the state treasury instead of the officer's wallet", async function () {
+      await expect(landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK"))
+        .to.emit(landRegistry, "TreasuryCredited")
+        .withArgs("Maharashtra", "Verification", 1, verificationFee, anyValue);
+
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      const tx = landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await expect(tx).to.emit(landRegistry, "TreasuryCredited")
+        .withArgs("Maharashtra", "Transfer", 1, transferFee, anyValue);
+      await expect(tx).to.changeEtherBalances([landRegistry, verifier], [0, 0]);
+
+      const account = await landRegistry.getStateTreasury("Maharashtra");
+      expect(account.balance).to.equal(verificationFee + transferFee);
+      expect(account.totalCredited).to.equal(verificationFee + transferFee);
+    });
+
+    it("Should split fees with the officer and let the officer withdraw their incentive", async function () {
+      await expect(landRegistry.connect(user1).setOfficerIncentiveShare(2000))
+        .to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await landRegistry.connect(owner).setOfficerIncentiveShare(2000);
+
+      await expect(landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK"))
+        .to.emit(landRegistry, "OfficerIncentiveCredited")
+        .withArgs("GVT001", "Verification", 1, ethers.parseEther("0.0002"), anyValue);
+
+      expect((await landRegistry.getStateTreasury("Maharashtra")).balance).to.equal(ethers.parseEther("0.0008"));
+      expect(await landRegistry.officerIncentiveBalances("GVT001")).to.equal(ethers.parseEther("0.0002"));
+
+      const tx = landRegistry.connect(verifier).withdrawOfficerIncentive("GVT001");
+      await expect(tx).to.emit(landRegistry, "OfficerIncentiveWithdrawn")
+        .withArgs("GVT001", verifier.address, ethers.parseEther("0.0002"), anyValue);
+      await expect(tx).to.changeEtherBalances(
+        [landRegistry, verifier],
+        [-ethers.parseEther("0.0002"), ethers.parseEther("0.0002")]
+      );
+      await expect(
+        landRegistry.connect(verifier).withdrawOfficerIncentive("GVT001")
+      ).to.be.revertedWith("No incentive to withdraw");
+    });
+
+    it("Should let only the state's treasurers withdraw and record the withdrawal", async function () {
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+
+      await expect(
+        landRegistry.connect(user3).withdrawFromStateTreasury("Maharashtra", user3.address, verificationFee)
+      ).to.be.revertedWith("Not a treasurer for this state");
+
+      await expect(landRegistry.connect(owner).setStateTreasurer("Maharashtra", user3.address, true))
+        .to.emit(landRegistry, "StateTreasurerUpdated")
+        .withArgs("Maharashtra", user3.address, true, anyValue);
+      await landRegistry.connect(owner).setStateTreasurer("Delhi", user2.address, true);
+
+      await expect(
+        landRegistry.connect(user2).withdrawFromStateTreasury("Maharashtra", user2.address, verificationFee)
+      ).to.be.revertedWith("Not a treasurer for this state");
+      await expect(
+        landRegistry.connect(user3).withdrawFromStateTreasury("Maharashtra", user3.address, verificationFee + 1n)
+      ).to.be.revertedWith("Insufficient treasury balance");
+
+      const tx = landRegistry.connect(user3).withdrawFromStateTreasury("Maharashtra", user1.address, verificationFee);
+      await expect(tx).to.emit(landRegistry, "TreasuryWithdrawn")
+        .withArgs(1, "Maharashtra", user3.address, user1.address, verificationFee, anyValue);
+      await expect(tx).to.changeEtherBalances([landRegistry, user1], [-verificationFee, verificationFee]);
+
+      const account = await landRegistry.getStateTreasury("Maharashtra");
+      expect(account.balance).to.equal(0);
+      expect(account.totalWithdrawn).to.equal(verificationFee);
+      expect(await landRegistry.getStateTreasuryWithdrawals("Maharashtra")).to.deep.equal([1n]);
+      expect((await landRegistry.getTreasuryWithdrawal(1)).treasurer).to.equal(user3.address);
+    });
+
+    it("Should keep refunded transfer fees out of the treasury", async function () {
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      await landRegistry.connect(verifier).rejectTransferRequest(1, "GVT001", "Deed unsigned");
+
+      expect((await landRegistry.getStateTreasury("Maharashtra")).balance).to.equal(verificationFee);
+    });
+  });
+
+  describe("Approval Quorum", function () {
+    const transferFee = ethers.parseEther("0.002");
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT002", "Priya Sharma", "Land Revenue", "Maharashtra", "", user3.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(owner).setApprovalQuorum("Maharashtra", 2, ethers.parseEther("10"));
+    });
+
+    it("Should only let the contract owner configure the quorum", async function () {
+      await expect(
+        landRegistry.connect(user1).setApprovalQuorum("Maharashtra", 3, 0)
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await expect(
+        landRegistry.connect(owner).setApprovalQuorum("Maharashtra", 0, 0)
+      ).to.be.revertedWith("At least one approval required");
+
+      const quorum = await landRegistry.getApprovalQuorum("Maharashtra");
+      expect(quorum.requiredApprovals).to.equal(2);
+      expect(quorum.valueThreshold).to.equal(ethers.parseEther("10"));
+    });
+
+    it("Should need a single approval below the value threshold", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      expect((await landRegistry.getTransferRequestDetails(1)).requiredApprovals).to.equal(1);
+
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      const request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.isApproved).to.be.true;
+      expect(request.approverEmployeeIds).to.deep.equal(["GVT001"]);
+    });
+
+    it("Should collect approvals from distinct officers for high-value transfers", async function () {
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("10"), "", {
+        value: transferFee
+      });
+
+      await expect(landRegistry.connect(verifier).approveTransferRequest(1, "GVT001"))
+        .to.emit(landRegistry, "TransferApprovalRecorded")
+        .withArgs(1, "GVT001", 1, 2, anyValue)
+        .and.to.not.emit(landRegistry, "TransferRequestApproved");
+
+      let request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.isApproved).to.be.false;
+      expect(request.approverEmployeeIds).to.deep.equal(["GVT001"]);
+      expect((await landRegistry.getStateTreasury("Maharashtra")).balance).to.equal(ethers.parseEther("0.001"));
+
+      await expect(
+        landRegistry.connect(verifier).approveTransferRequest(1, "GVT001")
+      ).to.be.revertedWith("Officer has already approved");
+
+      await expect(landRegistry.connect(user3).approveTransferRequest(1, "GVT002"))
+        .to.emit(landRegistry, "TransferRequestApproved")
+        .withArgs(1, "GVT002", anyValue);
+
+      request = await landRegistry.getTransferRequestDetails(1);
+      expect(request.isApproved).to.be.true;
+      expect(request.approverEmployeeIds).to.deep.equal(["GVT001", "GVT002"]);
+      expect((await landRegistry.getStateTreasury("Maharashtra")).balance).to.equal(ethers.parseEther("0.001") + transferFee);
+    });
+
+    it("Should not count a second employee ID bound to the same signer", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT003", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("10"), "", {
+        value: transferFee
+      });
+
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await expect(
+        landRegistry.connect(verifier).approveTransferRequest(1, "GVT003")
+      ).to.be.revertedWith("Officer has already approved");
+    });
+
+    it("Should require the quorum for flagged property types and undervalued transfers", async function () {
+      await expect(landRegistry.connect(owner).setQuorumPropertyType("Maharashtra", "Residential", true))
+        .to.emit(landRegistry, "QuorumPropertyTypeUpdated")
+        .withArgs("Maharashtra", "Residential", true, anyValue);
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+        value: transferFee
+      });
+      expect((await landRegistry.getTransferRequestDetails(1)).requiredApprovals).to.equal(2);
+      await landRegistry.connect(user1).cancelTransferRequest(1);
+
+      await landRegistry.connect(owner).setQuorumPropertyType("Maharashtra", "Residential", false);
+      await landRegistry.connect(verifier).setCircleRate("Maharashtra", "Mumbai", "Residential", "GVT001", ethers.parseEther("0.001"));
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("0.5"), "", {
+        value: transferFee
+      });
+      expect(await landRegistry.isTransferUndervalued(2)).to.be.true;
+      expect((await landRegistry.getTransferRequestDetails(2)).requiredApprovals).to.equal(2);
+    });
+  });
+
+  describe("Roles", function () {
+    let SUB_REGISTRAR_ROLE: string;
+    let REGISTRAR_ROLE: string;
+
+    beforeEach(async function () {
+      SUB_REGISTRAR_ROLE = await landRegistry.SUB_REGISTRAR_ROLE();
+      REGISTRAR_ROLE = await landRegistry.REGISTRAR_ROLE();
+      await landRegistry.connect(owner).setStateAdmin("Maharashtra", user3.address, true);
+    });
+
+    it("Should let a state admin register and deactivate officers only in their state", async function () {
+      await expect(
+        landRegistry.connect(user3).registerGovernmentOfficer(
+          "GVT002", "Priya Sharma", "Registration", "Delhi", "Central Delhi", user2.address, OFFICER_ROLES
+        )
+      ).to.be.revertedWith("Not an admin for this state");
+
+      await expect(
+        landRegistry.connect(user3).registerGovernmentOfficer(
+          "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+        )
+      ).to.emit(landRegistry, "OfficerRoleUpdated")
+        .withArgs("GVT001", REGISTRAR_ROLE, true, user3.address, anyValue);
+      expect(await landRegistry.hasOfficerRole("GVT001", SUB_REGISTRAR_ROLE)).to.be.true;
+
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT002", "Priya Sharma", "Registration", "Delhi", "Central Delhi", user2.address, OFFICER_ROLES
+      );
+      await expect(
+        landRegistry.connect(user3).setOfficerStatus("GVT002", false)
+      ).to.be.revertedWith("Not an admin for this state");
+
+      await landRegistry.connect(user3).setOfficerStatus("GVT001", false);
+      expect(await landRegistry.activeOfficers("GVT001")).to.be.false;
+    });
+
+    it("Should grant an officer only the roles given at registration", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, [SUB_REGISTRAR_ROLE]
+      );
+      expect(await landRegistry.hasOfficerRole("GVT001", SUB_REGISTRAR_ROLE)).to.be.true;
+      expect(await landRegistry.hasOfficerRole("GVT001", REGISTRAR_ROLE)).to.be.false;
+
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT002", "Priya Sharma", "Registration", "Maharashtra", "Pune", user2.address, []
+      );
+      expect(await landRegistry.hasOfficerRole("GVT002", SUB_REGISTRAR_ROLE)).to.be.false;
+      expect(await landRegistry.hasOfficerRole("GVT002", REGISTRAR_ROLE)).to.be.false;
+
+      await expect(
+        landRegistry.connect(owner).registerGovernmentOfficer(
+          "GVT003", "Amit Singh", "Revenue", "Maharashtra", "Pune", user1.address, [ethers.id("TREASURER_ROLE")]
+        )
+      ).to.be.revertedWith("Unknown officer role");
+      await expect(
+        landRegistry.connect(owner).setOfficerRole("GVT002", ethers.id("TREASURER_ROLE"), true)
+      ).to.be.revertedWith("Unknown officer role");
+    });
+
+    it("Should only let the contract owner appoint state admins and auditors", async function () {
+      await expect(
+        landRegistry.connect(user3).setStateAdmin("Maharashtra", user1.address, true)
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await expect(
+        landRegistry.connect(user3).setAuditor(user1.address, true)
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+
+      await expect(landRegistry.connect(owner).setStateAdmin("Maharashtra", user3.address, false))
+        .to.emit(landRegistry, "StateAdminUpdated")
+        .withArgs("Maharashtra", user3.address, false, anyValue);
+      await expect(landRegistry.connect(owner).setAuditor(user1.address, true))
+        .to.emit(landRegistry, "AuditorUpdated")
+        .withArgs(user1.address, true, anyValue);
+      expect(await landRegistry.auditors(user1.address)).to.be.true;
+    });
+
+    it("Should require the sub-registrar role to verify and the registrar role to approve transfers", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+
+      await expect(landRegistry.connect(user3).setOfficerRole("GVT001", SUB_REGISTRAR_ROLE, false))
+        .to.emit(landRegistry, "OfficerRoleUpdated")
+        .withArgs("GVT001", SUB_REGISTRAR_ROLE, false, user3.address, anyValue);
+      await expect(
+        landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK")
+      ).to.be.revertedWith("Officer does not hold the required role");
+
+      await landRegistry.connect(user3).setOfficerRole("GVT001", SUB_REGISTRAR_ROLE, true);
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+
+      await landRegistry.connect(user1).createTransferRequest(1, user2.address, "QmSaleDeed", ethers.parseEther("1"), "", {
+        value: ethers.parseEther("0.002")
+      });
+      await landRegistry.connect(user3).setOfficerRole("GVT001", REGISTRAR_ROLE, false);
+      await expect(
+        landRegistry.connect(verifier).approveTransferRequest(1, "GVT001")
+      ).to.be.revertedWith("Officer does not hold the required role");
+      await expect(
+        landRegistry.connect(verifier).rejectTransferRequest(1, "GVT001", "Incomplete deed")
+      ).to.be.revertedWith("Officer does not hold the required role");
+    });
+
+    it("Should refuse record changes from an officer whose role was revoked", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      const missingRole = "Officer does not hold the required role";
+
+      await landRegistry.connect(user3).setOfficerRole("GVT001", SUB_REGISTRAR_ROLE, false);
+      await expect(
+        landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "OK")
+      ).to.be.revertedWith(missingRole);
+      await expect(
+        landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "OK")
+      ).to.be.revertedWith(missingRole);
+      await expect(
+        landRegistry.connect(verifier).processLease(1, "GVT001", true, "OK")
+      ).to.be.revertedWith(missingRole);
+      await expect(
+        landRegistry.connect(verifier).countersignPowerOfAttorney(1, "GVT001")
+      ).to.be.revertedWith(missingRole);
+      await expect(
+        landRegistry.connect(verifier).coSignEncumbrance(1, "GVT001")
+      ).to.be.revertedWith(missingRole);
+
+      await landRegistry.connect(user3).setOfficerRole("GVT001", SUB_REGISTRAR_ROLE, true);
+      await landRegistry.connect(user3).setOfficerRole("GVT001", REGISTRAR_ROLE, false);
+      await expect(
+        landRegistry.connect(verifier).processSuccessionRequest(1, "GVT001", true, "OK")
+      ).to.be.revertedWith(missingRole);
+      await expect(
+        landRegistry.connect(verifier).setCircleRate("Maharashtra", "Mumbai", "Residential", "GVT001", 1000)
+      ).to.be.revertedWith(missingRole);
+    });
+
+    it("Should restrict the state officer roster to owner, auditors and state admins", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+
+      await expect(
+        landRegistry.connect(user1).getStateOfficers("Maharashtra")
+      ).to.be.revertedWith("Not authorized to audit this state");
+
+      await landRegistry.connect(owner).setAuditor(user1.address, true);
+      const officers = await landRegistry.connect(user1).getStateOfficers("Maharashtra");
+      expect(officers.length).to.equal(1);
+      expect(officers[0].employeeId).to.equal("GVT001");
+      expect((await landRegistry.connect(user3).getStateOfficers("Maharashtra")).length).to.equal(1);
+      await expect(
+        landRegistry.connect(user3).getStateOfficers("Delhi")
+      ).to.be.revertedWith("Not authorized to audit this state");
+    });
+  });
+
+  describe("Upgrades and Migration", function () {
+    it("Should keep records when upgraded in place and only let the owner upgrade", async function () {
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      const proxyAddress = await landRegistry.getAddress();
+
+      await expect(
+        landRegistry.connect(user1).upgradeToAndCall(ethers.ZeroAddress, "0x")
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await expect(landRegistry.initialize()).to.be.revertedWithCustomError(landRegistry, "InvalidInitialization");
+
+      const LandRegistry = await ethers.getContractFactory("LandRegistry");
+      await upgrades.validateUpgrade(proxyAddress, LandRegistry, { kind: "uups" });
+      const upgraded = (await upgrades.upgradeProxy(proxyAddress, LandRegistry, { kind: "uups" })) as unknown as LandRegistry;
+
+      // Module routes live in the proxy's storage, so they survive the upgrade
+      expect(await upgraded.getAddress()).to.equal(proxyAddress);
+      expect(await upgraded.owner()).to.equal(owner.address);
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user1.address);
+      expect(await landRegistry.getTotalProperties()).to.equal(1);
+    });
+
+    it("Should replay legacy records under their original IDs and dates", async function () {
+      const registrationDate = 1700000000;
+      await expect(
+        landRegistry.connect(owner).migrateOwner({
+          ownerAddress: user1.address, name: "John Doe", idDocument: "", idDocumentHash: hashIdDocument("ID123456"), contactInfo: "", piiHash: ethers.id("john@example.com"),
+          isVerified: true, homeState: "Maharashtra", homeDistrict: "Mumbai"
+        })
+      ).to.be.revertedWith("Move the name and contact info to the PII vault before migrating");
+      await landRegistry.connect(owner).migrateOwner({
+        ownerAddress: user1.address, name: "", idDocument: "", idDocumentHash: hashIdDocument("ID123456"), contactInfo: "", piiHash: ethers.id("john@example.com"),
+        isVerified: true, homeState: "Maharashtra", homeDistrict: "Mumbai"
+      });
+      await expect(
+        landRegistry.connect(owner).migrateProperty({
+          propertyId: 7, propertyAddress: "123 Marine Drive", district: "Mumbai", state: "Maharashtra", area: 1000,
+          propertyType: "Residential", surveyNumber: "123", subDivision: "", currentOwner: user1.address,
+          documentHash: "QmHash123", isRegistered: true, isVerified: true, isTransferable: true,
+          registrationDate, lastTransferDate: registrationDate, verificationFee: ethers.parseEther("0.001"),
+          isRetired: false, parentPropertyIds: [], childPropertyIds: [],
+          tehsil: "", village: "", villageCode: 0
+        })
+      ).to.emit(landRegistry, "RecordMigrated").withArgs("Property", "7", anyValue);
+
+      const property = await landRegistry.getPropertyDetails(7);
+      expect(property.registrationDate).to.equal(registrationDate);
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.deep.equal([7n]);
+      expect(await landRegistry.getTotalProperties()).to.equal(7);
+
+      // New registrations continue after the highest migrated ID
+      await landRegistry.connect(user1).registerProperty(
+        "124 Marine Drive", MUMBAI_VILLAGE, 500, "Residential", "124", "", "QmHash124"
+      );
+      expect((await landRegistry.getPropertyDetails(8)).currentOwner).to.equal(user1.address);
+    });
+
+    it("Should close the migration window once finalized", async function () {
+      await expect(
+        landRegistry.connect(user1).finalizeMigration()
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+
+      await expect(landRegistry.connect(owner).finalizeMigration())
+        .to.emit(landRegistry, "MigrationFinalized");
+      await expect(
+        landRegistry.connect(owner).migrateOwner({
+          ownerAddress: user1.address, name: "", idDocument: "", idDocumentHash: hashIdDocument("ID123456"), contactInfo: "", piiHash: ethers.id("john@example.com"),
+          isVerified: false, homeState: "Maharashtra", homeDistrict: "Mumbai"
+        })
+      ).to.be.revertedWith("Migration finalized");
+    });
+  });
+
+  describe("Pagination", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      const villages = [MUMBAI_VILLAGE, PUNE_VILLAGE, MUMBAI_VILLAGE, MUMBAI_VILLAGE];
+      for (let i = 0; i < villages.length; i++) {
+        await landRegistry.connect(user1).registerProperty(
+          `${i + 1} Main Road`, villages[i], 1000, "Residential", `${i + 1}`, "", `QmHash${i + 1}`
+        );
+        await landRegistry.connect(user1).requestPropertyVerification(i + 1, { value: ethers.parseEther("0.001") });
+      }
+    });
+
+    it("Should page through properties by location and status", async function () {
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+
+      const [firstPage, total] = await landRegistry.searchPropertiesByLocationPaged("Maharashtra", "Mumbai", 0, 0, 2);
+      expect(firstPage).to.deep.equal([1n, 3n]);
+      expect(total).to.equal(3);
+      const [secondPage] = await landRegistry.searchPropertiesByLocationPaged("Maharashtra", "Mumbai", 0, 2, 2);
+      expect(secondPage).to.deep.equal([4n]);
+
+      // Status filter: 1 = Verified, 2 = Unverified
+      const [verified, verifiedTotal] = await landRegistry.searchPropertiesByLocationPaged("Maharashtra", "", 1, 0, 10);
+      expect(verified).to.deep.equal([1n]);
+      expect(verifiedTotal).to.equal(1);
+      const [unverified, unverifiedTotal] = await landRegistry.searchPropertiesByLocationPaged("Maharashtra", "", 2, 1, 10);
+      expect(unverified).to.deep.equal([3n, 4n]);
+      expect(unverifiedTotal).to.equal(3);
+
+      await expect(
+        landRegistry.searchPropertiesByLocationPaged("Maharashtra", "", 0, 0, 101)
+      ).to.be.revertedWith("Invalid page size");
+    });
+
+    it("Should keep the open verification index in step with decisions", async function () {
+      expect(await landRegistry.getTotalPendingVerificationRequests()).to.equal(4);
+
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      expect(await landRegistry.getTotalPendingVerificationRequests()).to.equal(3);
+      // The last open request takes the closed one's slot
+      expect(await landRegistry.getPendingVerificationRequests()).to.deep.equal([4n, 2n, 3n]);
+
+      const [mumbai, mumbaiTotal] = await landRegistry.getPendingVerificationRequestsPaged("Maharashtra", "Mumbai", 0, 1);
+      expect(mumbai).to.deep.equal([4n]);
+      expect(mumbaiTotal).to.equal(2);
+      const [pune, puneTotal] = await landRegistry.getPendingVerificationRequestsPaged("Maharashtra", "Pune", 0, 10);
+      expect(pune).to.deep.equal([2n]);
+      expect(puneTotal).to.equal(1);
+
+      // Each state and district keeps its own index, with the same swap on removal
+      const [maharashtra, maharashtraTotal] = await landRegistry.getPendingVerificationRequestsPaged("Maharashtra", "", 0, 10);
+      expect(maharashtra).to.deep.equal([4n, 2n, 3n]);
+      expect(maharashtraTotal).to.equal(3);
+      const [elsewhere, elsewhereTotal] = await landRegistry.getPendingVerificationRequestsPaged("Delhi", "", 0, 10);
+      expect(elsewhere).to.deep.equal([]);
+      expect(elsewhereTotal).to.equal(0);
+      // A district without its state is still answered, by scanning every open request
+      const [puneOnly] = await landRegistry.getPendingVerificationRequestsPaged("", "Pune", 0, 10);
+      expect(puneOnly).to.deep.equal([2n]);
+    });
+
+    it("Should drop transfer requests from the open index once decided", async function () {
+      for (const verificationId of [1, 3, 4]) {
+        await landRegistry.connect(verifier).verifyProperty(verificationId, "GVT001", true, "OK");
+      }
+      for (const propertyId of [1, 3, 4]) {
+        await landRegistry.connect(user1).createTransferRequest(
+          propertyId, user2.address, `QmTransfer${propertyId}`, ethers.parseEther("1"), "",
+          { value: ethers.parseEther("0.002") }
+        );
+      }
+      expect(await landRegistry.getTotalPendingTransferRequests()).to.equal(3);
+
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      await landRegistry.connect(user1).cancelTransferRequest(2);
+      expect(await landRegistry.getPendingTransferRequests()).to.deep.equal([3n]);
+
+      const [page, total] = await landRegistry.getPendingTransferRequestsPaged("Maharashtra", "Mumbai", 0, 10);
+      expect(page).to.deep.equal([3n]);
+      expect(total).to.equal(1);
+
+      await landRegistry.connect(user2).declineTransferRequest(3);
+      expect(await landRegistry.getTotalPendingTransferRequests()).to.equal(0);
+    });
+  });
+
+  describe("Owner Profile Updates", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+    });
+
+    it("Should let owners update their own contact details and keep the old values", async function () {
+      await expect(
+        landRegistry.connect(user1).updateOwnerContactInfo(ethers.id("+91 98765 43210"), "Maharashtra", "Pune")
+      ).to.emit(landRegistry, "OwnerProfileUpdated").withArgs(user1.address, "Contact", "", anyValue);
+
+      const details = await landRegistry.getOwnerDetails(user1.address);
+      expect(details.piiHash).to.equal(ethers.id("+91 98765 43210"));
+      expect(details.homeDistrict).to.equal("Pune");
+
+      const history = await landRegistry.getOwnerProfileHistory(user1.address);
+      expect(history.length).to.equal(1);
+      expect(history[0].piiHash).to.equal(ethers.id("john@example.com"));
+      expect(history[0].homeDistrict).to.equal("Mumbai");
+
+      await expect(
+        landRegistry.connect(user2).updateOwnerContactInfo(ethers.id("x@example.com"), "Maharashtra", "Mumbai")
+      ).to.be.revertedWith("Owner not registered");
+    });
+
+    it("Should apply name and ID document changes only after officer approval", async function () {
+      // The new name is stored in the PII vault; the request carries the hash of that record
+      const renamedPii = ethers.id("John Doe, john@example.com");
+      await expect(
+        landRegistry.connect(user1).requestProfileChange(ethers.id("john@example.com"), hashIdDocument("ID123456"), "QmAffidavit")
+      ).to.be.revertedWith("No profile changes requested");
+      await expect(
+        landRegistry.connect(user1).requestProfileChange(renamedPii, hashIdDocument("ID654321"), "")
+      ).to.be.revertedWith("Supporting document required");
+
+      await expect(
+        landRegistry.connect(user1).requestProfileChange(renamedPii, hashIdDocument("ID654321"), "QmAffidavit")
+      ).to.emit(landRegistry, "ProfileChangeRequested").withArgs(1, user1.address, "QmAffidavit", anyValue);
+      await expect(
+        landRegistry.connect(user1).requestProfileChange(ethers.id("Johnny Doe"), hashIdDocument("ID654321"), "QmAffidavit2")
+      ).to.be.revertedWith("Profile change already pending");
+
+      // Nothing changes until an officer signs off
+      expect((await landRegistry.getOwnerDetails(user1.address)).piiHash).to.equal(ethers.id("john@example.com"));
+      expect(await landRegistry.getPendingProfileChangeRequests()).to.deep.equal([1n]);
+
+      await expect(
+        landRegistry.connect(verifier).processProfileChange(1, "GVT001", true, "Affidavit checked")
+      ).to.emit(landRegistry, "OwnerProfileUpdated").withArgs(user1.address, "Identity", "GVT001", anyValue);
+
+      const details = await landRegistry.getOwnerDetails(user1.address);
+      expect(details.piiHash).to.equal(renamedPii);
+      expect(details.idDocumentHash).to.equal(hashIdDocument("ID654321"));
+      expect(await landRegistry.getPendingProfileChangeRequests()).to.deep.equal([]);
+      expect(await landRegistry.pendingProfileChanges(user1.address)).to.equal(0);
+
+      const history = await landRegistry.getOwnerProfileHistory(user1.address);
+      expect(history[0].piiHash).to.equal(ethers.id("john@example.com"));
+      expect(history[0].idDocumentHash).to.equal(hashIdDocument("ID123456"));
+      expect(history[0].approvedByEmployeeId).to.equal("GVT001");
+
+      // The ID document search index follows the change
+      expect((await landRegistry.searchPropertiesByOwnerIdDocument(hashIdDocument("ID123456")))[0]).to.deep.equal([]);
+      expect((await landRegistry.searchPropertiesByOwnerIdDocument(hashIdDocument("ID654321")))[0]).to.deep.equal([BigInt(user1.address)]);
+    });
+
+    it("Should keep the profile unchanged when the officer rejects and enforce jurisdiction", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT002", "Priya Singh", "Land Revenue", "Maharashtra", "Pune", user3.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).requestProfileChange(ethers.id("John Doe"), hashIdDocument("ID123456"), "QmAffidavit");
+
+      await expect(
+        landRegistry.connect(user3).processProfileChange(1, "GVT002", true, "")
+      ).to.be.revertedWith("Owner outside officer's jurisdiction");
+
+      await expect(
+        landRegistry.connect(verifier).processProfileChange(1, "GVT001", false, "Affidavit not notarised")
+      ).to.emit(landRegistry, "ProfileChangeProcessed").withArgs(1, user1.address, "GVT001", false, anyValue);
+
+      expect((await landRegistry.getOwnerDetails(user1.address)).piiHash).to.equal(ethers.id("john@example.com"));
+      expect((await landRegistry.getOwnerProfileHistory(user1.address)).length).to.equal(0);
+      expect((await landRegistry.getProfileChangeRequestDetails(1)).notes).to.equal("Affidavit not notarised");
+
+      // A new request can be filed once the previous one is closed
+      await landRegistry.connect(user1).requestProfileChange(ethers.id("John Doe"), hashIdDocument("ID123456"), "QmAffidavit2");
+      expect(await landRegistry.pendingProfileChanges(user1.address)).to.equal(2);
+    });
+  });
+
+  describe("ID Document Hashing", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+    });
+
+    it("Should store only the salted hash of the ID document", async function () {
+      const details = await landRegistry.getOwnerDetails(user1.address);
+      expect(details.idDocument).to.equal("");
+      expect(details.idDocumentHash).to.equal(hashIdDocument("ID123456"));
+
+      // Spacing, dashes and case do not change the hash, so owners can be found however they type it
+      const [ownerIds, properties] = await landRegistry.searchPropertiesByOwnerIdDocument(hashIdDocument("id-123 456"));
+      expect(ownerIds).to.deep.equal([BigInt(user1.address)]);
+      expect(properties[0]).to.deep.equal([1n]);
+      const [unknownOwners] = await landRegistry.searchPropertiesByOwnerIdDocument(hashIdDocument("ID654321"));
+      expect(unknownOwners).to.have.length(0);
+    });
+
+    it("Should reject registration without an ID document hash", async function () {
+      await expect(
+        landRegistry.connect(user2).registerOwner(
+          ethers.ZeroHash, ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
+        )
+      ).to.be.revertedWith("ID document hash required");
+    });
+
+    it("Should only let the contract owner migrate plaintext ID documents", async function () {
+      await expect(
+        landRegistry.connect(user1).migrateOwnerIdDocuments([user1.address], [hashIdDocument("ID123456")])
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await expect(
+        landRegistry.connect(owner).migrateOwnerIdDocuments([user1.address], [])
+      ).to.be.revertedWith("Owner and hash counts differ");
+
+      // Owners registered with a hash have no plaintext left to migrate
+      await expect(
+        landRegistry.connect(owner).migrateOwnerIdDocuments([user1.address], [hashIdDocument("ID654321")])
+      ).to.not.emit(landRegistry, "OwnerIdDocumentHashed");
+      expect((await landRegistry.getOwnerDetails(user1.address)).idDocumentHash).to.equal(hashIdDocument("ID123456"));
+    });
+  });
+
+  describe("PII Access Grants", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+    });
+
+    it("Should keep contact details off-chain and require a PII hash", async function () {
+      const details = await landRegistry.getOwnerDetails(user1.address);
+      expect(details.contactInfo).to.equal("");
+      expect(details.piiHash).to.equal(ethers.id("john@example.com"));
+
+      await expect(
+        landRegistry.connect(user2).registerOwner(
+          hashIdDocument("ID654321"), ethers.ZeroHash, "Maharashtra", "Mumbai"
+        )
+      ).to.be.revertedWith("PII hash required");
+    });
+
+    it("Should let owners grant and revoke read access", async function () {
+      expect(await landRegistry.hasPiiAccess(user1.address, user1.address)).to.be.true;
+      expect(await landRegistry.hasPiiAccess(user1.address, verifier.address)).to.be.false;
+
+      await expect(landRegistry.connect(user1).grantPiiAccess(verifier.address, "GVT001 - Rajesh Kumar"))
+        .to.emit(landRegistry, "PiiAccessGranted")
+        .withArgs(user1.address, verifier.address, "GVT001 - Rajesh Kumar", anyValue);
+      await landRegistry.connect(user1).grantPiiAccess(user3.address, "State Bank of India");
+      await expect(
+        landRegistry.connect(user1).grantPiiAccess(verifier.address, "GVT001 - Rajesh Kumar")
+      ).to.be.revertedWith("Access already granted");
+      await expect(
+        landRegistry.connect(user2).grantPiiAccess(verifier.address, "GVT001")
+      ).to.be.revertedWith("Owner not registered");
+
+      await expect(landRegistry.connect(user1).revokePiiAccess(verifier.address))
+        .to.emit(landRegistry, "PiiAccessRevoked")
+        .withArgs(user1.address, verifier.address, anyValue);
+      expect(await landRegistry.hasPiiAccess(user1.address, verifier.address)).to.be.false;
+      expect(await landRegistry.hasPiiAccess(user1.address, user3.address)).to.be.true;
+
+      const grants = await landRegistry.getPiiAccessGrants(user1.address);
+      expect(grants.map((grant) => grant.grantee)).to.deep.equal([user3.address]);
+      await expect(
+        landRegistry.connect(user1).revokePiiAccess(verifier.address)
+      ).to.be.revertedWith("Access not granted");
+    });
+
+    it("Should only let the contract owner move plaintext names and contact info to the vault", async function () {
+      await expect(
+        landRegistry.connect(user1).migrateOwnerPii([user1.address], [ethers.id("john@example.com")])
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await expect(
+        landRegistry.connect(owner).migrateOwnerPii([user1.address], [])
+      ).to.be.revertedWith("Owner and hash counts differ");
+
+      // Owners registered through the vault have no plaintext left to move
+      await expect(
+        landRegistry.connect(owner).migrateOwnerPii([user1.address], [ethers.id("other")])
+      ).to.not.emit(landRegistry, "OwnerPiiMoved");
+      expect((await landRegistry.getOwnerDetails(user1.address)).piiHash).to.equal(ethers.id("john@example.com"));
+    });
+  });
+
+  describe("Wallet Recovery", function () {
+    const waitingPeriod = 7 * 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "456 Linking Road", MUMBAI_VILLAGE, 800, "Residential", "456", "", "QmHash456"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(2, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(user1).grantPiiAccess(verifier.address, "GVT001 - Rajesh Kumar");
+    });
+
+    it("Should move the owner record, properties and open requests after the waiting period", async function () {
+      // user3 is the owner's new wallet
+      await expect(
+        landRegistry.connect(user3).requestWalletRecovery(user1.address, "QmAffidavit")
+      ).to.emit(landRegistry, "WalletRecoveryRequested")
+        .withArgs(1, user1.address, user3.address, "QmAffidavit", anyValue);
+      expect(await landRegistry.getPendingWalletRecoveryRequests()).to.deep.equal([1n]);
+
+      await expect(landRegistry.connect(verifier).processWalletRecovery(1, "GVT001", true, "Affidavit verified"))
+        .to.emit(landRegistry, "WalletRecoveryProcessed")
+        .withArgs(1, "GVT001", true, anyValue, anyValue);
+      expect(await landRegistry.getPendingWalletRecoveryRequests()).to.have.length(0);
+      await expect(
+        landRegistry.connect(user3).executeWalletRecovery(1)
+      ).to.be.revertedWith("Waiting period not over");
+
+      await ethers.provider.send("evm_increaseTime", [waitingPeriod]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        landRegistry.connect(user2).executeWalletRecovery(1)
+      ).to.be.revertedWith("Only the new wallet can execute");
+      await expect(landRegistry.connect(user3).executeWalletRecovery(1))
+        .to.emit(landRegistry, "WalletRecovered")
+        .withArgs(1, user1.address, user3.address, 2, anyValue);
+
+      const recovered = await landRegistry.getOwnerDetails(user3.address);
+      expect(recovered.piiHash).to.equal(ethers.id("john@example.com"));
+      expect(recovered.ownerAddress).to.equal(user3.address);
+      expect((await landRegistry.getOwnerDetails(user1.address)).ownerAddress).to.equal(ethers.ZeroAddress);
+      expect(await landRegistry.recoveredFromAddress(user3.address)).to.equal(user1.address);
+
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user3.address);
+      expect(await landRegistry.getOwnerProperties(user3.address)).to.deep.equal([1n, 2n]);
+      expect(await landRegistry.getOwnerProperties(user1.address)).to.have.length(0);
+      expect((await landRegistry.getVerificationRequestDetails(1)).propertyOwner).to.equal(user3.address);
+      expect(await landRegistry.hasPiiAccess(user3.address, verifier.address)).to.be.true;
+      expect(await landRegistry.hasPiiAccess(user1.address, verifier.address)).to.be.false;
+
+      const [ownerIds] = await landRegistry.searchPropertiesByOwnerIdDocument(hashIdDocument("ID123456"));
+      expect(ownerIds).to.deep.equal([BigInt(user3.address)]);
+    });
+
+    it("Should repoint approved transfers still awaiting completion", async function () {
+      await landRegistry.connect(user2).registerOwner(
+        hashIdDocument("ID654321"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
+      );
+      // Sell property 2, whose verification the beforeEach filed
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(user1).createTransferRequest(2, user2.address, "QmTransferDoc456", ethers.parseEther("1"), "", {
+        value: ethers.parseEther("0.002")
+      });
+      await landRegistry.connect(user2).acceptTransferRequest(1);
+      await landRegistry.connect(verifier).approveTransferRequest(1, "GVT001");
+      expect(await landRegistry.getPendingTransferRequests()).to.have.length(0);
+
+      await landRegistry.connect(user3).requestWalletRecovery(user1.address, "QmAffidavit");
+      await landRegistry.connect(verifier).processWalletRecovery(1, "GVT001", true, "Affidavit verified");
+      await ethers.provider.send("evm_increaseTime", [waitingPeriod]);
+      await ethers.provider.send("evm_mine", []);
+      await landRegistry.connect(user3).executeWalletRecovery(1);
+
+      expect((await landRegistry.getTransferRequestDetails(1)).fromOwner).to.equal(user3.address);
+      await expect(
+        landRegistry.connect(user1).completeTransfer(1)
+      ).to.be.revertedWith("Not authorized to complete transfer");
+      await expect(landRegistry.connect(user3).completeTransfer(1))
+        .to.emit(landRegistry, "PropertyTransferred")
+        .withArgs(2, user3.address, user2.address, anyValue);
+      expect((await landRegistry.getPropertyDetails(2)).currentOwner).to.equal(user2.address);
+      expect(await landRegistry.getOwnerProperties(user3.address)).to.deep.equal([1n]);
+    });
+
+    it("Should carry pending successions, leases and powers of attorney over to the new wallet", async function () {
+      await landRegistry.connect(user2).registerOwner(
+        hashIdDocument("ID654321"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user2).registerProperty(
+        "789 Carter Road", MUMBAI_VILLAGE, 600, "Residential", "789", "", "QmHash789"
+      );
+      await landRegistry.connect(user2).requestPropertyVerification(3, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(verifier).verifyProperty(2, "GVT001", true, "OK");
+
+      // The owner claims property 3 as sole heir, leases out property 2, rents property 3 and holds powers of attorney both ways
+      await landRegistry.connect(user1).fileSuccessionClaim(3, user2.address, "QmDeathCert", [user1.address], [100]);
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const year = 365 * 24 * 60 * 60;
+      await landRegistry.connect(user1).fileLease(2, user2.address, now, now + year, 35000, "QmLeaseDeed");
+      await landRegistry.connect(user2).fileLease(3, user1.address, now, now + year, 20000, "QmLeaseDeed2");
+      await landRegistry.connect(user1).grantPowerOfAttorney(user2.address, [], true, false, false, now + year, "QmPoaDeed");
+      await landRegistry.connect(user2).grantPowerOfAttorney(user1.address, [3], true, false, false, now + year, "QmPoaDeed2");
+
+      await landRegistry.connect(user3).requestWalletRecovery(user1.address, "QmAffidavit");
+      await landRegistry.connect(verifier).processWalletRecovery(1, "GVT001", true, "Affidavit verified");
+      await ethers.provider.send("evm_increaseTime", [waitingPeriod]);
+      await ethers.provider.send("evm_mine", []);
+      await landRegistry.connect(user3).executeWalletRecovery(1);
+
+      const succession = await landRegistry.getSuccessionRequestDetails(1);
+      expect(succession.claimant).to.equal(user3.address);
+      expect(succession.heirs).to.deep.equal([user3.address]);
+
+      expect((await landRegistry.getLeaseDetails(1)).lessor).to.equal(user3.address);
+      expect((await landRegistry.getLeaseDetails(2)).lessee).to.equal(user3.address);
+      expect(await landRegistry.getLesseeLeases(user3.address)).to.deep.equal([2n]);
+      expect(await landRegistry.getLesseeLeases(user1.address)).to.have.length(0);
+
+      expect((await landRegistry.getPowerOfAttorneyDetails(1)).principal).to.equal(user3.address);
+      expect((await landRegistry.getPowerOfAttorneyDetails(2)).attorney).to.equal(user3.address);
+      expect(await landRegistry.getPrincipalPowersOfAttorney(user3.address)).to.deep.equal([1n]);
+      expect(await landRegistry.getAttorneyPowersOfAttorney(user3.address)).to.deep.equal([2n]);
+      expect(await landRegistry.getPrincipalPowersOfAttorney(user1.address)).to.have.length(0);
+      expect(await landRegistry.getAttorneyPowersOfAttorney(user1.address)).to.have.length(0);
+      await expect(
+        landRegistry.connect(user1).revokePowerOfAttorney(1)
+      ).to.be.revertedWith("Only the principal can revoke");
+
+      // The inherited share goes to the new wallet once the claim is approved
+      await ethers.provider.send("evm_increaseTime", [Number(await landRegistry.SUCCESSION_OBJECTION_PERIOD())]);
+      await ethers.provider.send("evm_mine", []);
+      await landRegistry.connect(verifier).processSuccessionRequest(1, "GVT001", true, "OK");
+      expect((await landRegistry.getPropertyDetails(3)).currentOwner).to.equal(user3.address);
+      expect(await landRegistry.getOwnerProperties(user3.address)).to.deep.equal([1n, 2n, 3n]);
+    });
+
+    it("Should let the old wallet cancel during the waiting period", async function () {
+      await landRegistry.connect(user3).requestWalletRecovery(user1.address, "QmAffidavit");
+      await expect(
+        landRegistry.connect(user2).requestWalletRecovery(user1.address, "QmAffidavit")
+      ).to.be.revertedWith("Recovery already pending");
+      await landRegistry.connect(verifier).processWalletRecovery(1, "GVT001", true, "Affidavit verified");
+
+      await expect(
+        landRegistry.connect(user2).cancelWalletRecovery(1)
+      ).to.be.revertedWith("Only the lost or new wallet can cancel");
+      await expect(landRegistry.connect(user1).cancelWalletRecovery(1))
+        .to.emit(landRegistry, "WalletRecoveryCancelled")
+        .withArgs(1, user1.address, anyValue);
+
+      await ethers.provider.send("evm_increaseTime", [waitingPeriod]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        landRegistry.connect(user3).executeWalletRecovery(1)
+      ).to.be.revertedWith("Recovery not approved");
+      expect((await landRegistry.getPropertyDetails(1)).currentOwner).to.equal(user1.address);
+      expect(await landRegistry.pendingWalletRecoveries(user1.address)).to.equal(0);
+      expect(await landRegistry.getWalletRecoveryRequestsOf(user1.address)).to.deep.equal([1n]);
+    });
+
+    it("Should require an unused new wallet and an officer covering the owner", async function () {
+      await landRegistry.connect(user2).registerOwner(
+        hashIdDocument("ID654321"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
+      );
+      await expect(
+        landRegistry.connect(user2).requestWalletRecovery(user1.address, "QmAffidavit")
+      ).to.be.revertedWith("New wallet must be unused");
+
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT002", "Priya Sharma", "Land Revenue", "Maharashtra", "Pune", user2.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user3).requestWalletRecovery(user1.address, "QmAffidavit");
+      await expect(
+        landRegistry.connect(user2).processWalletRecovery(1, "GVT002", true, "OK")
+      ).to.be.revertedWith("Owner outside officer's jurisdiction");
+
+      // A rejected request frees the owner for a fresh one
+      await landRegistry.connect(verifier).processWalletRecovery(1, "GVT001", false, "Affidavit not notarised");
+      expect(await landRegistry.pendingWalletRecoveries(user1.address)).to.equal(0);
+      await expect(
+        landRegistry.connect(user3).executeWalletRecovery(1)
+      ).to.be.revertedWith("Recovery not approved");
+    });
+  });
+
+  describe("Survey Number Uniqueness", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user2).registerOwner(
+        hashIdDocument("ID654321"), ethers.id("jane@example.com"), "Maharashtra", "Mumbai"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Agricultural", "12 A", "", "QmHash123"
+      );
+    });
+
+    it("Should reject a survey number already registered in the district", async function () {
+      await expect(
+        landRegistry.connect(user2).registerProperty(
+          "Fake Deed", MUMBAI_VILLAGE, 1000, "Agricultural", "12a", "", "QmFake"
+        )
+      ).to.be.revertedWith("Survey number already registered in this district");
+      await expect(
+        landRegistry.connect(user2).registerProperty(
+          "No Survey", MUMBAI_VILLAGE, 1000, "Agricultural", "", "", "QmFake"
+        )
+      ).to.be.revertedWith("Survey number required");
+
+      // Other sub-divisions and other districts are separate parcels
+      await landRegistry.connect(user2).registerProperty(
+        "12A/1 Marine Drive", MUMBAI_VILLAGE, 500, "Agricultural", "12A", "1", "QmHash124"
+      );
+      await landRegistry.connect(user2).registerProperty(
+        "12A Pune Road", PUNE_VILLAGE, 500, "Agricultural", "12A", "", "QmHash125"
+      );
+
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", " 12A ", "")).to.equal(1);
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "12A", "1")).to.equal(2);
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Pune", "12A", "")).to.equal(3);
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "99", "")).to.equal(0);
+    });
+
+    it("Should hand survey numbers from retired parcels to their successors", async function () {
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(user2).registerProperty(
+        "12A/3 Marine Drive", MUMBAI_VILLAGE, 200, "Agricultural", "12A", "3", "QmHash124"
+      );
+
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [600, 400], ["1", "3"], "QmSketch")
+      ).to.be.revertedWith("Survey number already registered in this district");
+      await expect(
+        landRegistry.connect(user1).requestPartition(1, [600, 400], ["1", " 1"], "QmSketch")
+      ).to.be.revertedWith("Duplicate sub-division");
+
+      await landRegistry.connect(user1).requestPartition(1, [600, 400], ["1", "2"], "QmSketch");
+      await landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "Site inspected");
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "12A", "")).to.equal(0);
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "12A", "1")).to.equal(3);
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "12A", "2")).to.equal(4);
+
+      // Merging the children back may reclaim the parent's number
+      await landRegistry.connect(user1).requestMerge([3, 4], "12A", "QmOrder");
+      await landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "Boundaries checked");
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "12A", "")).to.equal(5);
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "12A", "1")).to.equal(0);
+    });
+
+    it("Should flag legacy duplicates instead of indexing them", async function () {
+      const registrationDate = 1700000000;
+      await expect(
+        landRegistry.connect(owner).migrateProperty({
+          propertyId: 7, propertyAddress: "Duplicate Deed", district: "Mumbai", state: "Maharashtra", area: 1000,
+          propertyType: "Agricultural", surveyNumber: "12A", subDivision: "", currentOwner: user2.address,
+          documentHash: "QmHash7", isRegistered: true, isVerified: false, isTransferable: false,
+          registrationDate, lastTransferDate: registrationDate, verificationFee: 0,
+          isRetired: false, parentPropertyIds: [], childPropertyIds: [],
+          tehsil: "", village: "", villageCode: 0
+        })
+      ).to.emit(landRegistry, "SurveyNumberConflict").withArgs(7, 1, anyValue);
+      expect(await landRegistry.getPropertyBySurveyNumber("Maharashtra", "Mumbai", "12A", "")).to.equal(1);
+
+      await expect(
+        landRegistry.connect(user1).indexSurveyNumbers(1, 7)
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      // Re-indexing is harmless for parcels already indexed and reports the conflict again
+      await expect(landRegistry.connect(owner).indexSurveyNumbers(1, 7))
+        .to.emit(landRegistry, "SurveyNumberConflict").withArgs(7, 1, anyValue);
+    });
+  });
+
+  describe("Administrative Hierarchy", function () {
+    beforeEach(async function () {
+      await landRegistry.connect(user1).registerOwner(
+        hashIdDocument("ID123456"), ethers.id("john@example.com"), "Maharashtra", "Mumbai"
+      );
+    });
+
+    it("Should register properties by village code and derive the location names", async function () {
+      await expect(
+        landRegistry.connect(user1).registerProperty(
+          "Unknown Village", 999999, 1000, "Residential", "1", "", "QmFake"
+        )
+      ).to.be.revertedWith("Village not registered");
+
+      await landRegistry.connect(user1).registerProperty(
+        "Plot 4, Wagholi", PUNE_VILLAGE, 1000, "Agricultural", "4", "", "QmHash4"
+      );
+      const property = await landRegistry.getPropertyDetails(1);
+      expect(property.state).to.equal("Maharashtra");
+      expect(property.district).to.equal("Pune");
+      expect(property.tehsil).to.equal("Haveli");
+      expect(property.village).to.equal("Wagholi");
+      expect(property.villageCode).to.equal(PUNE_VILLAGE);
+
+      // Name-based indexes keep working alongside the LGD codes
+      expect(await landRegistry.searchPropertiesByLocation("Maharashtra", "Pune")).to.deep.equal([1n]);
+    });
+
+    it("Should search properties at every level and backfill legacy parcels", async function () {
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "Plot 4, Wagholi", PUNE_VILLAGE, 1000, "Agricultural", "4", "", "QmHash4"
+      );
+      const registrationDate = 1700000000;
+      await landRegistry.connect(owner).migrateProperty({
+        propertyId: 7, propertyAddress: "Old Deed", district: "Pune", state: "Maharashtra", area: 500,
+        propertyType: "Agricultural", surveyNumber: "9", subDivision: "", currentOwner: user1.address,
+        documentHash: "QmHash7", isRegistered: true, isVerified: false, isTransferable: false,
+        registrationDate, lastTransferDate: registrationDate, verificationFee: 0,
+        isRetired: false, parentPropertyIds: [], childPropertyIds: [],
+        tehsil: "", village: "", villageCode: 0
+      });
+
+      const [statePage, stateTotal] = await landRegistry.searchPropertiesByAdminUnitPaged(1, MAHARASHTRA, 0, 0, 10);
+      expect(statePage).to.deep.equal([1n, 2n]);
+      expect(stateTotal).to.equal(2);
+      expect((await landRegistry.searchPropertiesByAdminUnitPaged(2, MUMBAI, 0, 0, 10))[0]).to.deep.equal([1n]);
+      expect((await landRegistry.searchPropertiesByAdminUnitPaged(3, HAVELI, 0, 0, 10))[0]).to.deep.equal([2n]);
+      expect((await landRegistry.searchPropertiesByAdminUnitPaged(4, PUNE_VILLAGE, 1, 0, 10))[1]).to.equal(0);
+
+      await expect(
+        landRegistry.connect(owner).assignPropertyVillageCodes([7], [MUMBAI_VILLAGE])
+      ).to.be.revertedWith("Village outside the property's district");
+      await landRegistry.connect(owner).assignPropertyVillageCodes([7], [PUNE_VILLAGE]);
+      expect((await landRegistry.getPropertyDetails(7)).tehsil).to.equal("Haveli");
+      expect((await landRegistry.searchPropertiesByAdminUnitPaged(4, PUNE_VILLAGE, 0, 0, 10))[0]).to.deep.equal([2n, 7n]);
+    });
+
+    it("Should place partitioned parcels in their parent's village", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.connect(user1).registerProperty(
+        "123 Marine Drive", MUMBAI_VILLAGE, 1000, "Residential", "123", "", "QmHash123"
+      );
+      await landRegistry.connect(user1).requestPropertyVerification(1, {
+        value: ethers.parseEther("0.001")
+      });
+      await landRegistry.connect(verifier).verifyProperty(1, "GVT001", true, "OK");
+      await landRegistry.connect(user1).requestPartition(1, [600, 400], ["123/1", "123/2"], "QmSketch");
+      await landRegistry.connect(verifier).processPartitionRequest(1, "GVT001", true, "Site inspected");
+
+      for (const childId of [2, 3]) {
+        const child = await landRegistry.getPropertyDetails(childId);
+        expect(child.villageCode).to.equal(MUMBAI_VILLAGE);
+        expect(child.village).to.equal("Colaba");
+        expect(child.tehsil).to.equal("Mumbai City");
+      }
+
+      // The retired parent stays indexed alongside its children; the status filter tells them apart
+      const [villagePage, villageTotal] = await landRegistry.searchPropertiesByAdminUnitPaged(4, MUMBAI_VILLAGE, 0, 0, 10);
+      expect(villagePage).to.deep.equal([1n, 2n, 3n]);
+      expect(villageTotal).to.equal(3);
+      expect((await landRegistry.searchPropertiesByAdminUnitPaged(3, MUMBAI_CITY, 1, 0, 10))[0]).to.deep.equal([2n, 3n]);
+      expect((await landRegistry.searchPropertiesByAdminUnitPaged(1, MAHARASHTRA, 4, 0, 10))[0]).to.deep.equal([1n]);
+    });
+
+    it("Should only merge parcels from the same village", async function () {
+      await landRegistry.connect(owner).registerGovernmentOfficer(
+        "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, OFFICER_ROLES
+      );
+      await landRegistry.registerAdminUnits(4, MUMBAI_CITY, [551002], ["Fort"]);
+      const villages = [MUMBAI_VILLAGE, 551002, MUMBAI_VILLAGE];
+      for (let i = 0; i < villages.length; i++) {
+        await landRegistry.connect(user1).registerProperty(
+          `${i + 1} Main Road`, villages[i], 500, "Residential", `${i + 1}`, "", `QmHash${i + 1}`
+        );
+        await landRegistry.connect(user1).requestPropertyVerification(i + 1, { value: ethers.parseEther("0.001") });
+        await landRegistry.connect(verifier).verifyProperty(i + 1, "GVT001", true, "OK");
+      }
+
+      // Same district, different villages
+      await expect(
+        landRegistry.connect(user1).requestMerge([1, 2], "1-2", "QmAmalgamation")
+      ).to.be.revertedWith("Parcels must be in the same village");
+
+      await landRegistry.connect(user1).requestMerge([1, 3], "1-3", "QmAmalgamation");
+      await landRegistry.connect(verifier).processMergeRequest(1, "GVT001", true, "Site inspected");
+      const merged = await landRegistry.getPropertyDetails(4);
+      expect(merged.villageCode).to.equal(MUMBAI_VILLAGE);
+      expect(merged.village).to.equal("Colaba");
+    });
+
+    it("Should let state admins extend their own state's hierarchy only", async function () {
+      await landRegistry.connect(owner).setStateAdmin("Maharashtra", user2.address, true);
+
+      await expect(
+        landRegistry.connect(user2).registerAdminUnits(1, 0, [29], ["Karnataka"])
+      ).to.be.revertedWithCustomError(landRegistry, "OwnableUnauthorizedAccount");
+      await landRegistry.connect(owner).registerAdminUnits(1, 0, [29], ["Karnataka"]);
+      await landRegistry.connect(owner).registerAdminUnits(2, 29, [572], ["Bengaluru Urban"]);
+      await expect(
+        landRegistry.connect(user2).registerAdminUnits(3, 572, [5501], ["Anekal"])
+      ).to.be.revertedWith("Not an admin for this state");
+      await expect(
+        landRegistry.connect(user2).registerAdminUnits(3, 9999, [5501], ["Anekal"])
+      ).to.be.revertedWith("Parent unit not registered");
+      await expect(
+        landRegistry.connect(user2).registerAdminUnits(3, PUNE, [HAVELI], ["Haveli"])
+      ).to.be.revertedWith("LGD code already registered");
+
+      await expect(landRegistry.connect(user2).registerAdminUnits(3, PUNE, [4212], ["Mulshi"]))
+        .to.emit(landRegistry, "AdminUnitRegistered").withArgs(3, 4212, PUNE, "Mulshi", anyValue);
+      expect(await landRegistry.getAdminUnitChildren(2, PUNE)).to.deep.equal([BigInt(HAVELI), 4212n]);
+      expect(await landRegistry.getAdminUnitChildren(0, 0)).to.deep.equal([BigInt(MAHARASHTRA), 29n]);
+      expect((await landRegistry.getAdminUnit(3, 4212)).name).to.equal("Mulshi");
     });
   });
 });
@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { ethers, upgrades } from "hardhat";
+import { ILandRegistry } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { CONTRACT_ABI, hashIdDocument } from "../utils/contract";
+import { buildVaultMessage, VaultAction, VAULT_SIGNATURE_TTL_MS } from "../utils/piiVault";
+import { getAccessLog, readPiiRecord, storePiiRecord } from "../vault/store";
+import { createVaultServer } from "../vault/server";
+import { deployLandRegistryModules } from "../scripts/landRegistryModules";
+
+// hashIdDocument refuses to hash without a salt; use a fixed one unless .env provides it
+process.env.NEXT_PUBLIC_ID_DOCUMENT_SALT = process.env.NEXT_PUBLIC_ID_DOCUMENT_SALT || "test-salt";
+
+describe("PiiVault", function () {
+  let landRegistry: ILandRegistry;
+  let server: http.Server;
+  let vaultUrl: string;
+  let owner: SignerWithAddress;
+  let verifier: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let vaultDir: string;
+  const savedEnv = { dir: process.env.PII_VAULT_DIR, key: process.env.PII_VAULT_KEY };
+
+  const recordsPath = () => path.join(vaultDir, "pii-records.json");
+
+  // Sign and send a vault request the way utils/piiVault.ts does, with room to forge each part
+  const callVault = async (
+    signer: SignerWithAddress,
+    action: VaultAction,
+    ownerAddress: string,
+    body: object = {},
+    timestamp = Date.now()
+  ) => {
+    const signature = await signer.signMessage(buildVaultMessage(action, ownerAddress, timestamp));
+    const response = await fetch(`${vaultUrl}/${action}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ownerAddress, timestamp, signature, ...body })
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  before(function () {
+    vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), "pii-vault-"));
+    process.env.PII_VAULT_DIR = vaultDir;
+    process.env.PII_VAULT_KEY = crypto.randomBytes(32).toString("hex");
+  });
+
+  after(function () {
+    fs.rmSync(vaultDir, { recursive: true, force: true });
+    process.env.PII_VAULT_DIR = savedEnv.dir;
+    process.env.PII_VAULT_KEY = savedEnv.key;
+  });
+
+  beforeEach(async function () {
+    [owner, verifier, user1, user2] = await ethers.getSigners();
+
+    const LandRegistry = await ethers.getContractFactory("LandRegistry");
+    const proxy = await upgrades.deployProxy(LandRegistry, [], { kind: "uups" });
+    await proxy.waitForDeployment();
+    await deployLandRegistryModules(await proxy.getAddress());
+    landRegistry = (await ethers.getContractAt("ILandRegistry", await proxy.getAddress())) as unknown as ILandRegistry;
+
+    server = createVaultServer(new ethers.Contract(await proxy.getAddress(), CONTRACT_ABI, ethers.provider));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    vaultUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    await landRegistry.connect(owner).registerGovernmentOfficer(
+      "GVT001", "Rajesh Kumar", "Land Revenue", "Maharashtra", "Mumbai", verifier.address, [ethers.id("SUB_REGISTRAR_ROLE")]
+    );
+    await landRegistry.connect(user1).registerOwner(
+      hashIdDocument("ID123456"), storePiiRecord(user1.address, "John Doe", "john@example.com"), "Maharashtra", "Mumbai"
+    );
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe("Store", function () {
+    it("Should return the version a hash commits to", async function () {
+      const piiHash = (await landRegistry.getOwnerDetails(user1.address)).piiHash;
+      const record = readPiiRecord(user1.address, piiHash);
+      expect(record!.name).to.equal("John Doe");
+      expect(record!.contactInfo).to.equal("john@example.com");
+
+      // Older versions are kept, and nothing is returned for hashes the vault never issued
+      const newHash = storePiiRecord(user1.address, "John Doe", "+91 98765 43210");
+      expect(readPiiRecord(user1.address, piiHash)!.contactInfo).to.equal("john@example.com");
+      expect(readPiiRecord(user1.address, newHash)!.contactInfo).to.equal("+91 98765 43210");
+      expect(readPiiRecord(user2.address, piiHash)).to.be.null;
+      expect(readPiiRecord(user1.address, ethers.id("unknown"))).to.be.null;
+    });
+
+    it("Should detect a tampered ciphertext", async function () {
+      const piiHash = (await landRegistry.getOwnerDetails(user1.address)).piiHash;
+      const vault = JSON.parse(fs.readFileSync(recordsPath(), "utf8"));
+      const record = vault.records[user1.address.toLowerCase()][piiHash];
+      record.ciphertext = `${record.ciphertext[0] === "0" ? "1" : "0"}${record.ciphertext.slice(1)}`;
+      fs.writeFileSync(recordsPath(), JSON.stringify(vault));
+
+      expect(() => readPiiRecord(user1.address, piiHash)).to.throw();
+    });
+
+    it("Should refuse a record filed under another version's hash", async function () {
+      const piiHash = (await landRegistry.getOwnerDetails(user1.address)).piiHash;
+      const otherHash = storePiiRecord(user1.address, "Jon Doe", "jon@example.com");
+
+      // Swap the two encrypted versions; each still decrypts but no longer matches its hash
+      const vault = JSON.parse(fs.readFileSync(recordsPath(), "utf8"));
+      const records = vault.records[user1.address.toLowerCase()];
+      [records[piiHash], records[otherHash]] = [records[otherHash], records[piiHash]];
+      fs.writeFileSync(recordsPath(), JSON.stringify(vault));
+
+      expect(() => readPiiRecord(user1.address, piiHash)).to.throw("Vault record does not match its hash");
+    });
+  });
+
+  describe("Server", function () {
+    it("Should let owners store and read their own record", async function () {
+      const stored = await callVault(user2, "store", user2.address, { name: "Jane Smith", contactInfo: "jane@example.com" });
+      expect(stored.status).to.equal(200);
+      await landRegistry.connect(user2).registerOwner(
+        hashIdDocument("ID654321"), stored.body.piiHash, "Maharashtra", "Mumbai"
+      );
+
+      const read = await callVault(user2, "read", user2.address);
+      expect(read.status).to.equal(200);
+      expect(read.body.name).to.equal("Jane Smith");
+      expect(read.body.contactInfo).to.equal("jane@example.com");
+
+      const missingName = await callVault(user2, "store", user2.address, { name: " ", contactInfo: "jane@example.com" });
+      expect(missingName.status).to.equal(400);
+      expect(missingName.body.error).to.equal("Name required");
+    });
+
+    it("Should reject requests that fail authentication and log them", async function () {
+      const forged = await fetch(`${vaultUrl}/read`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ownerAddress: user1.address, timestamp: Date.now(), signature: "0x1234" })
+      });
+      expect(forged.status).to.equal(401);
+      expect((await forged.json()).error).to.equal("Invalid signature");
+
+      const expired = await callVault(user1, "read", user1.address, {}, Date.now() - VAULT_SIGNATURE_TTL_MS - 1000);
+      expect(expired.status).to.equal(401);
+      expect(expired.body.error).to.equal("Signature expired; please sign the request again");
+
+      // A valid signature only speaks for its signer
+      const impostor = await callVault(user2, "store", user1.address, { name: "John Doe", contactInfo: "evil@example.com" });
+      expect(impostor.status).to.equal(403);
+
+      const log = getAccessLog(user1.address);
+      expect(log.filter((entry) => !entry.granted)).to.have.length(3);
+      expect(log[0].reader).to.equal(user2.address);
+    });
+
+    it("Should stop serving a reader once the owner revokes the grant", async function () {
+      expect((await callVault(verifier, "read", user1.address)).status).to.equal(403);
+
+      await landRegistry.connect(user1).grantPiiAccess(verifier.address, "GVT001 - Rajesh Kumar");
+      const granted = await callVault(verifier, "read", user1.address);
+      expect(granted.status).to.equal(200);
+      expect(granted.body.name).to.equal("John Doe");
+
+      await landRegistry.connect(user1).revokePiiAccess(verifier.address);
+      const revoked = await callVault(verifier, "read", user1.address);
+      expect(revoked.status).to.equal(403);
+      expect(revoked.body.error).to.equal("The owner has not granted you access to their name and contact details");
+    });
+
+    it("Should let a granted officer read the record a pending name change points to", async function () {
+      const renamed = storePiiRecord(user1.address, "Johnathan Doe", "john@example.com");
+      await landRegistry.connect(user1).requestProfileChange(renamed, hashIdDocument("ID123456"), "QmGazette");
+      await landRegistry.connect(user1).grantPiiAccess(verifier.address, "GVT001 - Rajesh Kumar");
+
+      const pending = await callVault(verifier, "read", user1.address, { profileChangeId: 1 });
+      expect(pending.status).to.equal(200);
+      expect(pending.body.name).to.equal("Johnathan Doe");
+      expect((await callVault(verifier, "read", user1.address)).body.name).to.equal("John Doe");
+
+      await landRegistry.connect(verifier).processProfileChange(1, "GVT001", true, "Gazette checked");
+      expect((await callVault(verifier, "read", user1.address, { profileChangeId: 1 })).status).to.equal(404);
+      expect((await callVault(verifier, "read", user1.address)).body.name).to.equal("Johnathan Doe");
+    });
+  });
+});
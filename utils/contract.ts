@@ -7,61 +7,299 @@ const GANACHE_URL = process.env.NEXT_PUBLIC_GANACHE_URL || 'http://127.0.0.1:854
 // Import this from artifacts after compiling contracts
 export const CONTRACT_ABI = [
   // Owner functions
-  "function registerOwner(string memory _name, string memory _idDocument, string memory _contactInfo, string memory _homeState, string memory _homeDistrict) external",
-  "function getOwnerDetails(address _ownerAddress) external view returns (tuple(address ownerAddress, string name, string idDocument, string contactInfo, bool isVerified, string homeState, string homeDistrict))",
+  "function registerOwner(bytes32 _idDocumentHash, bytes32 _piiHash, string memory _homeState, string memory _homeDistrict) external",
+  "function getOwnerDetails(address _ownerAddress) external view returns (tuple(address ownerAddress, string name, string idDocument, string contactInfo, bool isVerified, string homeState, string homeDistrict, bytes32 idDocumentHash, bytes32 piiHash))",
+  "function updateOwnerContactInfo(bytes32 _piiHash, string memory _homeState, string memory _homeDistrict) external",
+  "function requestProfileChange(bytes32 _newPiiHash, bytes32 _newIdDocumentHash, string memory _supportingDocumentHash) external returns (uint256)",
+  "function processProfileChange(uint256 _requestId, string memory _employeeId, bool _approve, string memory _notes) external",
+  "function getOwnerProfileHistory(address _ownerAddress) external view returns (tuple(bytes32 idDocumentHash, bytes32 piiHash, string homeState, string homeDistrict, uint256 changedDate, string approvedByEmployeeId)[])",
+  "function getProfileChangeRequestDetails(uint256 _requestId) external view returns (tuple(uint256 requestId, address ownerAddress, bytes32 newPiiHash, bytes32 newIdDocumentHash, string supportingDocumentHash, uint256 requestDate, bool isPending, bool isApproved, string officerEmployeeId, string notes))",
+  "function getPendingProfileChangeRequests() external view returns (uint256[] memory)",
+  "function pendingProfileChanges(address _ownerAddress) external view returns (uint256)",
+  "function getTotalProfileChangeRequests() external view returns (uint256)",
+  "function grantPiiAccess(address _grantee, string memory _granteeLabel) external",
+  "function revokePiiAccess(address _grantee) external",
+  "function hasPiiAccess(address _ownerAddress, address _reader) external view returns (bool)",
+  "function getPiiAccessGrants(address _ownerAddress) external view returns (tuple(address grantee, string granteeLabel, uint256 grantedDate)[])",
+  "function requestWalletRecovery(address _lostAddress, string memory _affidavitHash) external returns (uint256)",
+  "function processWalletRecovery(uint256 _requestId, string memory _employeeId, bool _approve, string memory _notes) external",
+  "function cancelWalletRecovery(uint256 _requestId) external",
+  "function executeWalletRecovery(uint256 _requestId) external",
+  "function getWalletRecoveryRequestDetails(uint256 _requestId) external view returns (tuple(uint256 requestId, address lostAddress, address newAddress, string affidavitHash, uint256 requestDate, bool isPending, bool isApproved, bool isCancelled, bool isExecuted, string officerEmployeeId, string notes, uint256 executableAfter))",
+  "function getPendingWalletRecoveryRequests() external view returns (uint256[] memory)",
+  "function getWalletRecoveryRequestsOf(address _wallet) external view returns (uint256[] memory)",
+  "function getTotalWalletRecoveryRequests() external view returns (uint256)",
+  "function pendingWalletRecoveries(address _lostAddress) external view returns (uint256)",
+  "function recoveredFromAddress(address _newAddress) external view returns (address)",
   
   // Government officer functions
-  "function registerGovernmentOfficer(string memory _employeeId, string memory _name, string memory _department, string memory _state, string memory _district) external",
+  "function registerGovernmentOfficer(string memory _employeeId, string memory _name, string memory _department, string memory _state, string memory _district, address _signerAddress, bytes32[] memory _roles) external",
   "function setOfficerStatus(string memory _employeeId, bool _isActive) external",
-  "function getGovernmentOfficerDetails(string memory _employeeId) external view returns (tuple(string employeeId, string name, string department, string state, string district, bool isActive, uint256 registrationDate))",
+  "function setOfficerSigner(string memory _employeeId, address _newSigner) external",
+  "function getGovernmentOfficerDetails(string memory _employeeId) external view returns (tuple(string employeeId, address signerAddress, string name, string department, string state, string district, bool isActive, uint256 registrationDate))",
+
+  // Role functions
+  "function setOfficerRole(string memory _employeeId, bytes32 _role, bool _isGranted) external",
+  "function hasOfficerRole(string memory _employeeId, bytes32 _role) external view returns (bool)",
+  "function setStateAdmin(string memory _state, address _admin, bool _isAuthorized) external",
+  "function registerAdminUnits(uint8 _level, uint256 _parentCode, uint256[] memory _codes, string[] memory _names) external",
+  "function stateAdmins(string memory _state, address _admin) external view returns (bool)",
+  "function setAuditor(address _auditor, bool _isAuthorized) external",
+  "function auditors(address _auditor) external view returns (bool)",
+  "function getStateOfficers(string memory _state) external view returns (tuple(string employeeId, address signerAddress, string name, string department, string state, string district, bool isActive, uint256 registrationDate)[])",
   
   // Property functions
-  "function registerProperty(string memory _propertyAddress, string memory _district, string memory _state, uint256 _area, string memory _propertyType, string memory _surveyNumber, string memory _subDivision, string memory _documentHash) external returns (uint256)",
-  "function getPropertyDetails(uint256 _propertyId) external view returns (tuple(uint256 propertyId, string propertyAddress, string district, string state, uint256 area, string propertyType, string surveyNumber, string subDivision, address currentOwner, string documentHash, bool isRegistered, bool isVerified, bool isTransferable, uint256 registrationDate, uint256 lastTransferDate, uint256 verificationFee))",
+  "function registerProperty(string memory _propertyAddress, uint256 _villageCode, uint256 _area, string memory _propertyType, string memory _surveyNumber, string memory _subDivision, string memory _documentHash) external returns (uint256)",
+  "function getPropertyDetails(uint256 _propertyId) external view returns (tuple(uint256 propertyId, string propertyAddress, string district, string state, uint256 area, string propertyType, string surveyNumber, string subDivision, address currentOwner, string documentHash, bool isRegistered, bool isVerified, bool isTransferable, uint256 registrationDate, uint256 lastTransferDate, uint256 verificationFee, bool isRetired, uint256[] parentPropertyIds, uint256[] childPropertyIds, string tehsil, string village, uint256 villageCode))",
   "function getOwnerProperties(address _owner) external view returns (uint256[] memory)",
   "function isPropertyTransferable(uint256 _propertyId) external view returns (bool)",
+  "function setPropertyCoOwners(uint256 _propertyId, address[] memory _coOwners, uint256[] memory _sharePercentages) external",
+  "function getPropertyCoOwners(uint256 _propertyId) external view returns (tuple(address ownerAddress, uint256 sharePercentage)[])",
+  "function isPropertyWithinJurisdiction(string memory _employeeId, uint256 _propertyId) external view returns (bool)",
   
   // Verification functions
   "function requestPropertyVerification(uint256 _propertyId) external payable returns (uint256)",
   "function verifyProperty(uint256 _verificationId, string memory _employeeId, bool _approve, string memory _notes) external",
   "function getVerificationRequestDetails(uint256 _verificationId) external view returns (tuple(uint256 verificationId, uint256 propertyId, address propertyOwner, uint256 requestDate, uint256 feePaid, bool isPending, bool isApproved, string officerEmployeeId, string verificationNotes))",
   "function getPendingVerificationRequests() external view returns (uint256[] memory)",
+  "function getPendingVerificationRequestsPaged(string memory _state, string memory _district, uint256 _offset, uint256 _limit) external view returns (uint256[] memory page, uint256 total)",
+
+  // Partition functions
+  "function requestPartition(uint256 _propertyId, uint256[] memory _childAreas, string[] memory _childSubDivisions, string memory _documentHash) external returns (uint256)",
+  "function processPartitionRequest(uint256 _partitionId, string memory _employeeId, bool _approve, string memory _notes) external",
+  "function getPartitionRequestDetails(uint256 _partitionId) external view returns (tuple(uint256 partitionId, uint256 propertyId, address requestedBy, uint256[] childAreas, string[] childSubDivisions, string documentHash, uint256 requestDate, bool isPending, bool isApproved, string officerEmployeeId, string notes, uint256[] childPropertyIds))",
+  "function getPendingPartitionRequests() external view returns (uint256[] memory)",
+  "function getTotalPartitionRequests() external view returns (uint256)",
+  "function pendingPartitionOf(uint256 _propertyId) external view returns (uint256)",
+
+  // Merge functions
+  "function requestMerge(uint256[] memory _propertyIds, string memory _surveyNumber, string memory _documentHash) external returns (uint256)",
+  "function processMergeRequest(uint256 _mergeId, string memory _employeeId, bool _approve, string memory _notes) external",
+  "function getMergeRequestDetails(uint256 _mergeId) external view returns (tuple(uint256 mergeId, uint256[] propertyIds, address requestedBy, string surveyNumber, string documentHash, uint256 requestDate, bool isPending, bool isApproved, string officerEmployeeId, string notes, uint256 mergedPropertyId))",
+  "function getPendingMergeRequests() external view returns (uint256[] memory)",
+  "function getTotalMergeRequests() external view returns (uint256)",
+  "function getPropertyMergeHistory(uint256 _propertyId) external view returns (uint256[] memory)",
+  "function pendingMergeOf(uint256 _propertyId) external view returns (uint256)",
+  
+  // Encumbrance functions
+  "function registerEncumbrance(uint256 _propertyId, string memory _encumbranceType, uint256 _amount, string memory _documentHash) external returns (uint256)",
+  "function consentToEncumbrance(uint256 _encumbranceId) external",
+  "function coSignEncumbrance(uint256 _encumbranceId, string memory _employeeId) external",
+  "function releaseEncumbrance(uint256 _encumbranceId) external",
+  "function consentToEncumberedTransfer(uint256 _encumbranceId, address _transferee) external",
+  "function getEncumbranceDetails(uint256 _encumbranceId) external view returns (tuple(uint256 encumbranceId, uint256 propertyId, address lender, string encumbranceType, uint256 amount, string documentHash, uint256 createdDate, bool isActive, uint256 releasedDate, string coSigningOfficerId, address approvedTransferee, bool isPending))",
+  "function getPropertyEncumbrances(uint256 _propertyId) external view returns (uint256[] memory)",
+  "function activeEncumbranceCount(uint256 _propertyId) external view returns (uint256)",
+  "function getTotalEncumbrances() external view returns (uint256)",
   
+  // Succession functions
+  "function fileSuccessionClaim(uint256 _propertyId, address _deceasedOwner, string memory _deathCertificateHash, address[] memory _heirs, uint256[] memory _heirShares) external returns (uint256)",
+  "function objectToSuccession(uint256 _successionId, string memory _reason) external",
+  "function processSuccessionRequest(uint256 _successionId, string memory _employeeId, bool _approve, string memory _notes) external",
+  "function getPendingSuccessionRequests() external view returns (uint256[] memory)",
+  "function getTotalSuccessionRequests() external view returns (uint256)",
+  "function getSuccessionRequestDetails(uint256 _successionId) external view returns (tuple(uint256 successionId, uint256 propertyId, address claimant, address deceasedOwner, string deathCertificateHash, address[] heirs, uint256[] heirShares, uint256 filedDate, uint256 objectionDeadline, bool isPending, bool isApproved, string officerEmployeeId, string notes))",
+  "function getSuccessionObjections(uint256 _successionId) external view returns (tuple(address objector, string reason, uint256 objectionDate)[])",
+  "function pendingSuccessionOf(uint256 _propertyId) external view returns (uint256)",
+  
+  // Lease functions
+  "function fileLease(uint256 _propertyId, address _lessee, uint256 _startDate, uint256 _endDate, uint256 _monthlyRent, string memory _deedHash) external returns (uint256)",
+  "function processLease(uint256 _leaseId, string memory _employeeId, bool _approve, string memory _notes) external",
+  "function getLeaseDetails(uint256 _leaseId) external view returns (tuple(uint256 leaseId, uint256 propertyId, address lessor, address lessee, uint256 startDate, uint256 endDate, uint256 monthlyRent, string deedHash, uint256 filedDate, bool isPending, bool isApproved, string officerEmployeeId, string notes))",
+  "function getPropertyLeases(uint256 _propertyId) external view returns (uint256[] memory)",
+  "function getLesseeLeases(address _lessee) external view returns (uint256[] memory)",
+  "function getActivePropertyLeases(uint256 _propertyId) external view returns (uint256[] memory)",
+  "function isLeaseActive(uint256 _leaseId) external view returns (bool)",
+  "function isLeaseExpired(uint256 _leaseId) external view returns (bool)",
+  "function getTotalLeases() external view returns (uint256)",
+  
+  // Power of attorney functions
+  "function grantPowerOfAttorney(address _attorney, uint256[] memory _propertyIds, bool _canRequestVerification, bool _canCreateTransfer, bool _canUpdateDocuments, uint256 _expiryDate, string memory _documentHash) external returns (uint256)",
+  "function countersignPowerOfAttorney(uint256 _poaId, string memory _employeeId) external",
+  "function revokePowerOfAttorney(uint256 _poaId) external",
+  "function requestPropertyVerificationAsAttorney(uint256 _poaId, uint256 _propertyId) external payable returns (uint256)",
+  "function createTransferRequestAsAttorney(uint256 _poaId, uint256 _propertyId, address _toOwner, string memory _transferDocumentHash, uint256 _declaredValue, string memory _buyerCategory) external payable returns (uint256)",
+  "function updatePropertyDocumentAsAttorney(uint256 _poaId, uint256 _propertyId, string memory _newDocumentHash) external",
+  "function getPowerOfAttorneyDetails(uint256 _poaId) external view returns (tuple(uint256 poaId, address principal, address attorney, uint256[] propertyIds, bool canRequestVerification, bool canCreateTransfer, bool canUpdateDocuments, uint256 expiryDate, string documentHash, uint256 grantedDate, string countersigningOfficerId, bool isRevoked))",
+  "function getPrincipalPowersOfAttorney(address _principal) external view returns (uint256[] memory)",
+  "function getAttorneyPowersOfAttorney(address _attorney) external view returns (uint256[] memory)",
+  "function getPropertyAttorneyActions(uint256 _propertyId) external view returns (tuple(uint256 poaId, address principal, address attorney, string action, uint256 referenceId, uint256 actionDate)[])",
+  "function getTotalPowersOfAttorney() external view returns (uint256)",
+  
+  // Legal hold functions
+  "function setCourtAuthority(address _authority, bool _isAuthorized) external",
+  "function courtAuthorities(address _authority) external view returns (bool)",
+  "function placeLegalHold(uint256 _propertyId, string memory _caseReference, string memory _documentHash, uint256 _expiryDate) external returns (uint256)",
+  "function liftLegalHold(uint256 _holdId) external",
+  "function getLegalHoldDetails(uint256 _holdId) external view returns (tuple(uint256 holdId, uint256 propertyId, address authority, string caseReference, string documentHash, uint256 placedDate, uint256 expiryDate, bool isActive, uint256 liftedDate))",
+  "function getPropertyLegalHolds(uint256 _propertyId) external view returns (uint256[] memory)",
+  "function isUnderLegalHold(uint256 _propertyId) external view returns (bool)",
+  "function getTotalLegalHolds() external view returns (uint256)",
+
+  // Fee schedule functions
+  "function setFeeSchedule(string memory _state, string memory _propertyType, uint256 _stampDutyBps, uint256 _minStampDuty, uint256 _maxStampDuty, uint256 _registrationFee) external",
+  "function removeFeeSchedule(string memory _state, string memory _propertyType) external",
+  "function setStampDutyConcession(string memory _state, string memory _buyerCategory, uint256 _concessionBps) external",
+  "function getFeeSchedule(string memory _state, string memory _propertyType) external view returns (tuple(uint256 stampDutyBps, uint256 minStampDuty, uint256 maxStampDuty, uint256 registrationFee, bool isActive))",
+  "function getStampDutyConcession(string memory _state, string memory _buyerCategory) external view returns (uint256)",
+  "function quoteTransferFee(uint256 _propertyId, uint256 _declaredValue, string memory _buyerCategory) external view returns (uint256)",
+
+  // Treasury functions
+  "function setOfficerIncentiveShare(uint256 _incentiveBps) external",
+  "function officerIncentiveBps() external view returns (uint256)",
+  "function setStateTreasurer(string memory _state, address _treasurer, bool _isAuthorized) external",
+  "function stateTreasurers(string memory _state, address _treasurer) external view returns (bool)",
+  "function withdrawFromStateTreasury(string memory _state, address _recipient, uint256 _amount) external returns (uint256)",
+  "function withdrawOfficerIncentive(string memory _employeeId) external",
+  "function officerIncentiveBalances(string memory _employeeId) external view returns (uint256)",
+  "function getStateTreasury(string memory _state) external view returns (tuple(uint256 balance, uint256 totalCredited, uint256 totalWithdrawn))",
+  "function getTreasuryWithdrawal(uint256 _withdrawalId) external view returns (tuple(uint256 withdrawalId, string state, address treasurer, address recipient, uint256 amount, uint256 withdrawalDate))",
+  "function getStateTreasuryWithdrawals(string memory _state) external view returns (uint256[] memory)",
+  "function getTotalTreasuryWithdrawals() external view returns (uint256)",
+
+  // Circle rate functions
+  "function setCircleRate(string memory _state, string memory _district, string memory _propertyType, string memory _employeeId, uint256 _ratePerSqm) external",
+  "function getCircleRate(string memory _state, string memory _district, string memory _propertyType) external view returns (tuple(uint256 ratePerSqm, string setByEmployeeId, uint256 updatedDate))",
+  "function getGuidanceValue(uint256 _propertyId) external view returns (uint256)",
+  "function isTransferUndervalued(uint256 _requestId) external view returns (bool)",
+
+  // Approval quorum functions
+  "function setApprovalQuorum(string memory _state, uint256 _requiredApprovals, uint256 _valueThreshold) external",
+  "function setQuorumPropertyType(string memory _state, string memory _propertyType, bool _requiresQuorum) external",
+  "function getApprovalQuorum(string memory _state) external view returns (tuple(uint256 requiredApprovals, uint256 valueThreshold))",
+  "function isQuorumPropertyType(string memory _state, string memory _propertyType) external view returns (bool)",
+
   // Transfer functions
-  "function createTransferRequest(uint256 _propertyId, address _toOwner, string memory _transferDocumentHash) external payable returns (uint256)",
+  "function createTransferRequest(uint256 _propertyId, address _toOwner, string memory _transferDocumentHash, uint256 _declaredValue, string memory _buyerCategory) external payable returns (uint256)",
+  "function createShareTransferRequest(uint256 _propertyId, address _toOwner, string memory _transferDocumentHash, uint256 _declaredValue, string memory _buyerCategory) external payable returns (uint256)",
+  "function consentToTransfer(uint256 _requestId) external",
+  "function transferConsents(uint256 _requestId, address _coOwner) external view returns (bool)",
   "function approveTransferRequest(uint256 _requestId, string memory _employeeId) external",
+  "function rejectTransferRequest(uint256 _requestId, string memory _employeeId, string memory _reason) external",
+  "function cancelTransferRequest(uint256 _requestId) external",
+  "function acceptTransferRequest(uint256 _requestId) external",
+  "function declineTransferRequest(uint256 _requestId) external",
   "function completeTransfer(uint256 _requestId) external",
-  "function getTransferRequestDetails(uint256 _requestId) external view returns (tuple(uint256 requestId, uint256 propertyId, address fromOwner, address toOwner, uint256 requestDate, bool isApproved, bool isCompleted, string transferDocumentHash, uint256 transferFee))",
+  "function getTransferRequestDetails(uint256 _requestId) external view returns (tuple(uint256 requestId, uint256 propertyId, address fromOwner, address toOwner, uint256 requestDate, bool isApproved, bool isCompleted, string transferDocumentHash, uint256 transferFee, bool isRejected, bool isCancelled, string rejectionReason, bool isAcceptedByBuyer, bool isDeclinedByBuyer, uint256 buyerResponseDate, bool isShareTransfer, uint256 sharePercentage, bool isSuccession, uint256 declaredValue, string buyerCategory, uint256 guidanceValue, uint256 requiredApprovals, string[] approverEmployeeIds, address feePayer))",
   "function getPendingTransferRequests() external view returns (uint256[] memory)",
+  "function getPendingTransferRequestsPaged(string memory _state, string memory _district, uint256 _offset, uint256 _limit) external view returns (uint256[] memory page, uint256 total)",
   "function getPropertyTransferHistory(uint256 _propertyId) external view returns (uint256[] memory)",
   
   // Search functions
   "function searchPropertiesByLocation(string memory _state, string memory _district) external view returns (uint256[] memory)",
-  "function searchPropertiesByOwnerIdDocument(string memory _idDocument) external view returns (uint256[] memory, uint256[][] memory)",
+  "function getPropertyBySurveyNumber(string memory _state, string memory _district, string memory _surveyNumber, string memory _subDivision) external view returns (uint256)",
+  "function searchPropertiesByLocationPaged(string memory _state, string memory _district, uint8 _status, uint256 _offset, uint256 _limit) external view returns (uint256[] memory page, uint256 total)",
+  "function searchPropertiesByAdminUnitPaged(uint8 _level, uint256 _lgdCode, uint8 _status, uint256 _offset, uint256 _limit) external view returns (uint256[] memory page, uint256 total)",
+  "function getAdminUnit(uint8 _level, uint256 _lgdCode) external view returns (tuple(uint256 lgdCode, string name, uint8 level, uint256 parentCode))",
+  "function getAdminUnitChildren(uint8 _level, uint256 _lgdCode) external view returns (uint256[] memory)",
+  "function searchPropertiesByOwnerIdDocument(bytes32 _idDocumentHash) external view returns (uint256[] memory, uint256[][] memory)",
   
   // General functions
   "function getTotalProperties() external view returns (uint256)",
   "function getTotalTransferRequests() external view returns (uint256)",
   "function getTotalVerificationRequests() external view returns (uint256)",
-  "function withdrawFees() external",
+  "function getTotalPendingVerificationRequests() external view returns (uint256)",
+  "function getTotalPendingTransferRequests() external view returns (uint256)",
   "function owner() external view returns (address)",
   
   // Constants
   "function VERIFICATION_FEE() external view returns (uint256)",
   "function TRANSFER_FEE() external view returns (uint256)",
+  "function BASIS_POINTS() external view returns (uint256)",
+  "function MAX_CO_OWNERS() external view returns (uint256)",
+  "function MAX_PARTITION_PARCELS() external view returns (uint256)",
+  "function MAX_MERGE_PARCELS() external view returns (uint256)",
+  "function MAX_PAGE_SIZE() external view returns (uint256)",
+  "function SUCCESSION_OBJECTION_PERIOD() external view returns (uint256)",
+  "function WALLET_RECOVERY_WAITING_PERIOD() external view returns (uint256)",
+  "function SUB_REGISTRAR_ROLE() external view returns (bytes32)",
+  "function REGISTRAR_ROLE() external view returns (bytes32)",
   
   // Events
+  "event OwnerProfileUpdated(address indexed ownerAddress, string changeType, string approvedByEmployeeId, uint256 updateDate)",
+  "event ProfileChangeRequested(uint256 indexed requestId, address indexed ownerAddress, string supportingDocumentHash, uint256 requestDate)",
+  "event ProfileChangeProcessed(uint256 indexed requestId, address indexed ownerAddress, string officerEmployeeId, bool approved, uint256 processedDate)",
   "event PropertyRegistered(uint256 indexed propertyId, address indexed owner, string propertyAddress, string state, string district, uint256 registrationDate)",
   "event VerificationRequested(uint256 indexed verificationId, uint256 indexed propertyId, address indexed owner, uint256 feePaid, uint256 requestDate)",
   "event PropertyVerified(uint256 indexed propertyId, uint256 indexed verificationId, string officerEmployeeId, uint256 verificationDate)",
   "event TransferRequestCreated(uint256 indexed requestId, uint256 indexed propertyId, address indexed fromOwner, address toOwner, uint256 requestDate)",
   "event TransferRequestApproved(uint256 indexed requestId, string officerEmployeeId, uint256 approvalDate)",
+  "event TransferRequestRejected(uint256 indexed requestId, string officerEmployeeId, string reason, uint256 refundAmount, uint256 rejectionDate)",
+  "event TransferRequestCancelled(uint256 indexed requestId, address indexed fromOwner, uint256 refundAmount, uint256 cancellationDate)",
+  "event TransferRequestAccepted(uint256 indexed requestId, address indexed toOwner, uint256 acceptanceDate)",
+  "event TransferRequestDeclined(uint256 indexed requestId, address indexed toOwner, uint256 refundAmount, uint256 declineDate)",
   "event PropertyTransferred(uint256 indexed propertyId, address indexed fromOwner, address indexed toOwner, uint256 transferDate)",
-  "event OwnerRegistered(address indexed ownerAddress, string name, string state, string district, uint256 registrationDate)",
+  "event PartitionRequested(uint256 indexed partitionId, uint256 indexed propertyId, address indexed requestedBy, uint256 requestDate)",
+  "event PartitionProcessed(uint256 indexed partitionId, uint256 indexed propertyId, string officerEmployeeId, bool approved, uint256 processDate)",
+  "event PropertyPartitioned(uint256 indexed parentPropertyId, uint256[] childPropertyIds, uint256 partitionDate)",
+  "event MergeRequested(uint256 indexed mergeId, address indexed requestedBy, uint256[] propertyIds, uint256 requestDate)",
+  "event MergeProcessed(uint256 indexed mergeId, string officerEmployeeId, bool approved, uint256 processDate)",
+  "event PropertiesMerged(uint256 indexed mergedPropertyId, uint256[] sourcePropertyIds, uint256 mergeDate)",
+  "event EncumbranceRegistered(uint256 indexed encumbranceId, uint256 indexed propertyId, address indexed lender, string encumbranceType, uint256 amount, uint256 createdDate)",
+  "event EncumbranceConsented(uint256 indexed encumbranceId, address indexed owner, uint256 consentDate)",
+  "event EncumbranceCoSigned(uint256 indexed encumbranceId, string officerEmployeeId, uint256 coSignDate)",
+  "event EncumbranceReleased(uint256 indexed encumbranceId, uint256 indexed propertyId, address indexed lender, uint256 releasedDate)",
+  "event EncumbranceTransferConsent(uint256 indexed encumbranceId, address indexed transferee, uint256 consentDate)",
+  "event SuccessionFiled(uint256 indexed successionId, uint256 indexed propertyId, address indexed claimant, address deceasedOwner, uint256 objectionDeadline, uint256 filedDate)",
+  "event SuccessionObjected(uint256 indexed successionId, address indexed objector, string reason, uint256 objectionDate)",
+  "event SuccessionProcessed(uint256 indexed successionId, uint256 indexed propertyId, string officerEmployeeId, bool approved, uint256 processDate)",
+  "event LeaseFiled(uint256 indexed leaseId, uint256 indexed propertyId, address indexed lessee, uint256 startDate, uint256 endDate, uint256 filedDate)",
+  "event LeaseProcessed(uint256 indexed leaseId, uint256 indexed propertyId, string officerEmployeeId, bool approved, uint256 processDate)",
+  "event PowerOfAttorneyGranted(uint256 indexed poaId, address indexed principal, address indexed attorney, uint256 expiryDate, uint256 grantDate)",
+  "event PowerOfAttorneyCountersigned(uint256 indexed poaId, string officerEmployeeId, uint256 countersignDate)",
+  "event PowerOfAttorneyRevoked(uint256 indexed poaId, uint256 revokeDate)",
+  "event ActedUnderPowerOfAttorney(uint256 indexed poaId, uint256 indexed propertyId, address indexed attorney, address principal, string action, uint256 referenceId, uint256 actionDate)",
+  "event StateAdminUpdated(string state, address indexed admin, bool isAuthorized, uint256 changeDate)",
+  "event AuditorUpdated(address indexed auditor, bool isAuthorized, uint256 changeDate)",
+  "event OfficerRoleUpdated(string employeeId, bytes32 indexed role, bool isGranted, address indexed updatedBy, uint256 changeDate)",
+  "event CourtAuthorityUpdated(address indexed authority, bool isAuthorized, uint256 changeDate)",
+  "event LegalHoldPlaced(uint256 indexed holdId, uint256 indexed propertyId, address indexed authority, string caseReference, uint256 expiryDate, uint256 placedDate)",
+  "event LegalHoldLifted(uint256 indexed holdId, uint256 indexed propertyId, address indexed liftedBy, uint256 liftedDate)",
+  "event ShareTransferred(uint256 indexed propertyId, address indexed fromOwner, address indexed toOwner, uint256 sharePercentage, uint256 transferDate)",
+  "event CoOwnersUpdated(uint256 indexed propertyId, address[] coOwners, uint256[] sharePercentages, uint256 updateDate)",
+  "event TransferConsentGiven(uint256 indexed requestId, address indexed coOwner, uint256 consentDate)",
+  "event FeeScheduleUpdated(string state, string propertyType, uint256 stampDutyBps, uint256 minStampDuty, uint256 maxStampDuty, uint256 registrationFee, bool isActive, uint256 updateDate)",
+  "event StampDutyConcessionUpdated(string state, string buyerCategory, uint256 concessionBps, uint256 updateDate)",
+  "event OfficerIncentiveShareUpdated(uint256 incentiveBps, uint256 updateDate)",
+  "event StateTreasurerUpdated(string state, address indexed treasurer, bool isAuthorized, uint256 updateDate)",
+  "event TreasuryCredited(string state, string feeType, uint256 indexed referenceId, uint256 amount, uint256 creditDate)",
+  "event OfficerIncentiveCredited(string employeeId, string feeType, uint256 indexed referenceId, uint256 amount, uint256 creditDate)",
+  "event TreasuryWithdrawn(uint256 indexed withdrawalId, string state, address indexed treasurer, address indexed recipient, uint256 amount, uint256 withdrawalDate)",
+  "event OfficerIncentiveWithdrawn(string employeeId, address indexed recipient, uint256 amount, uint256 withdrawalDate)",
+  "event CircleRateUpdated(string state, string district, string propertyType, uint256 ratePerSqm, string employeeId, uint256 updateDate)",
+  "event TransferUndervaluationFlagged(uint256 indexed requestId, uint256 indexed propertyId, uint256 declaredValue, uint256 guidanceValue)",
+  "event ApprovalQuorumUpdated(string state, uint256 requiredApprovals, uint256 valueThreshold, uint256 updateDate)",
+  "event QuorumPropertyTypeUpdated(string state, string propertyType, bool requiresQuorum, uint256 updateDate)",
+  "event TransferApprovalRecorded(uint256 indexed requestId, string officerEmployeeId, uint256 approvalCount, uint256 requiredApprovals, uint256 approvalDate)",
+  "event OwnerIdDocumentHashed(address indexed ownerAddress, uint256 migrationDate)",
+  "event OwnerPiiMoved(address indexed ownerAddress, bytes32 piiHash, uint256 migrationDate)",
+  "event PiiAccessGranted(address indexed ownerAddress, address indexed grantee, string granteeLabel, uint256 grantDate)",
+  "event PiiAccessRevoked(address indexed ownerAddress, address indexed grantee, uint256 revokeDate)",
+  "event SurveyNumberConflict(uint256 indexed propertyId, uint256 indexed existingPropertyId, uint256 detectionDate)",
+  "event AdminUnitRegistered(uint8 level, uint256 indexed lgdCode, uint256 indexed parentCode, string name, uint256 registrationDate)",
+  "event WalletRecoveryRequested(uint256 indexed requestId, address indexed lostAddress, address indexed newAddress, string affidavitHash, uint256 requestDate)",
+  "event WalletRecoveryProcessed(uint256 indexed requestId, string officerEmployeeId, bool approved, uint256 executableAfter, uint256 processDate)",
+  "event WalletRecoveryCancelled(uint256 indexed requestId, address indexed cancelledBy, uint256 cancelDate)",
+  "event WalletRecovered(uint256 indexed requestId, address indexed lostAddress, address indexed newAddress, uint256 propertiesMoved, uint256 recoveryDate)",
+  "event OwnerRegistered(address indexed ownerAddress, string state, string district, uint256 registrationDate)",
   "event GovernmentOfficerRegistered(string indexed employeeId, string name, string department, string state, string district, uint256 registrationDate)",
-  "event GovernmentOfficerStatusChanged(string indexed employeeId, bool isActive, uint256 changeDate)"
+  "event GovernmentOfficerStatusChanged(string indexed employeeId, bool isActive, uint256 changeDate)",
+  "event GovernmentOfficerSignerChanged(string indexed employeeId, address indexed previousSigner, address indexed newSigner, uint256 changeDate)"
 ];
 
+// Aadhaar/PAN/passport numbers only reach the chain as this salted hash; spacing, dashes and case are ignored.
+// This is obfuscation, not protection: the salt ships in the frontend bundle and ID numbers follow short, known
+// formats, so anyone can recompute the hash of a guessed ID. It only keeps plaintext IDs off-chain
+export const hashIdDocument = (idDocument: string): string => {
+  // Read on each call and never defaulted: hashes made without the deployment's salt would not match any owner
+  const salt = process.env.NEXT_PUBLIC_ID_DOCUMENT_SALT;
+  if (!salt) {
+    throw new Error('NEXT_PUBLIC_ID_DOCUMENT_SALT is not set; ID documents cannot be hashed');
+  }
+  const normalized = idDocument.replace(/[\s-]/g, '').toUpperCase();
+  return ethers.solidityPackedKeccak256(['string', 'string'], [salt, normalized]);
+};
+
 export const getContract = (providerOrSigner: ethers.Provider | ethers.Signer) => {
   return new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, providerOrSigner);
 };
@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+
+const PII_VAULT_URL = process.env.NEXT_PUBLIC_PII_VAULT_URL || 'http://127.0.0.1:4001';
+
+// Signed requests older than this are refused, so a captured signature cannot be replayed later
+export const VAULT_SIGNATURE_TTL_MS = 5 * 60 * 1000;
+
+export type VaultAction = 'store' | 'read' | 'access-log';
+
+export interface VaultAccessLogEntry {
+  ownerAddress: string;
+  reader: string;
+  action: VaultAction;
+  granted: boolean;
+  reason: string;
+  timestamp: number;
+}
+
+// Message every vault request is signed over; the vault recovers the caller's wallet from it
+export const buildVaultMessage = (action: VaultAction, ownerAddress: string, timestamp: number): string =>
+  `LandRegistry PII vault\nAction: ${action}\nOwner: ${ethers.getAddress(ownerAddress)}\nTimestamp: ${timestamp}`;
+
+const callVault = async (signer: ethers.Signer, action: VaultAction, ownerAddress: string, body: object = {}) => {
+  const timestamp = Date.now();
+  const signature = await signer.signMessage(buildVaultMessage(action, ownerAddress, timestamp));
+
+  const response = await fetch(`${PII_VAULT_URL}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, ownerAddress, timestamp, signature })
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'PII vault request failed');
+  }
+  return result;
+};
+
+export interface OwnerPii {
+  name: string;
+  contactInfo: string;
+}
+
+// Store the connected owner's name and contact details; returns the piiHash to submit on-chain
+export const storeOwnerPii = async (signer: ethers.Signer, pii: OwnerPii): Promise<string> => {
+  const result = await callVault(signer, 'store', await signer.getAddress(), pii);
+  return result.piiHash;
+};
+
+// Read an owner's current name and contact details, or those of their pending profile change when
+// profileChangeId is given; the owner must have granted the signer access
+export const readOwnerPii = async (
+  signer: ethers.Signer,
+  ownerAddress: string,
+  profileChangeId?: number
+): Promise<OwnerPii> => {
+  const result = await callVault(signer, 'read', ownerAddress, profileChangeId === undefined ? {} : { profileChangeId });
+  return { name: result.name, contactInfo: result.contactInfo };
+};
+
+// Who has stored, read or tried to read the connected owner's record
+export const getVaultAccessLog = async (signer: ethers.Signer): Promise<VaultAccessLogEntry[]> => {
+  const result = await callVault(signer, 'access-log', await signer.getAddress());
+  return result.entries;
+};
@@ -0,0 +1,176 @@
+import "dotenv/config";
+import * as http from "http";
+import { ethers } from "ethers";
+import { getContract } from "../utils/contract";
+import { buildVaultMessage, VaultAction, VAULT_SIGNATURE_TTL_MS } from "../utils/piiVault";
+import { getAccessLog, logAccess, readPiiRecord, storePiiRecord } from "./store";
+
+const PORT = Number(process.env.PII_VAULT_PORT || 4001);
+const ALLOWED_ORIGIN = process.env.PII_VAULT_ALLOWED_ORIGIN || "http://localhost:3000";
+const GANACHE_URL = process.env.NEXT_PUBLIC_GANACHE_URL || "http://127.0.0.1:8545";
+
+class VaultError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Recover the wallet that signed a vault request, refusing stale or malformed signatures
+ */
+const recoverCaller = (action: VaultAction, body: any): string => {
+  const { ownerAddress, timestamp, signature } = body;
+  if (!ethers.isAddress(ownerAddress) || typeof timestamp !== "number" || typeof signature !== "string") {
+    throw new VaultError(400, "ownerAddress, timestamp and signature are required");
+  }
+  if (Math.abs(Date.now() - timestamp) > VAULT_SIGNATURE_TTL_MS) {
+    throw new VaultError(401, "Signature expired; please sign the request again");
+  }
+
+  try {
+    return ethers.verifyMessage(buildVaultMessage(action, ownerAddress, timestamp), signature);
+  } catch (error) {
+    throw new VaultError(401, "Invalid signature");
+  }
+};
+
+// Grants and piiHash commitments are read from the chain; the vault itself holds no permissions
+const createHandlers = (
+  landRegistry: ethers.Contract
+): Record<VaultAction, (caller: string, body: any) => Promise<object>> => ({
+  // Owners can only store their own record
+  store: async (caller, body) => {
+    if (caller !== ethers.getAddress(body.ownerAddress)) {
+      throw new VaultError(403, "Only the owner can store their name and contact details");
+    }
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      throw new VaultError(400, "Name required");
+    }
+    if (typeof body.contactInfo !== "string" || !body.contactInfo.trim()) {
+      throw new VaultError(400, "Contact info required");
+    }
+    return { piiHash: storePiiRecord(caller, body.name.trim(), body.contactInfo.trim()) };
+  },
+
+  // The owner, or a wallet they granted access to on-chain, reads the version the chain commits to.
+  // With profileChangeId, the version a pending name change would switch to is read instead
+  read: async (caller, body) => {
+    if (!(await landRegistry.hasPiiAccess(body.ownerAddress, caller))) {
+      throw new VaultError(403, "The owner has not granted you access to their name and contact details");
+    }
+    let piiHash: string = (await landRegistry.getOwnerDetails(body.ownerAddress)).piiHash;
+    if (body.profileChangeId !== undefined) {
+      if (!Number.isInteger(body.profileChangeId)) {
+        throw new VaultError(400, "profileChangeId must be a request ID");
+      }
+      const request = await landRegistry.getProfileChangeRequestDetails(body.profileChangeId);
+      if (!request.isPending || request.ownerAddress !== ethers.getAddress(body.ownerAddress)) {
+        throw new VaultError(404, "Owner has no such pending profile change");
+      }
+      piiHash = request.newPiiHash;
+    }
+    if (piiHash === ethers.ZeroHash) {
+      throw new VaultError(404, "Owner has no record in the vault");
+    }
+    // A recovered wallet keeps the piiHash committed by the wallet it replaced, so follow the recovery chain
+    let recordOwner: string = ethers.getAddress(body.ownerAddress);
+    let record = readPiiRecord(recordOwner, piiHash);
+    const visited = new Set([recordOwner]);
+    while (!record) {
+      recordOwner = await landRegistry.recoveredFromAddress(recordOwner);
+      if (recordOwner === ethers.ZeroAddress || visited.has(recordOwner)) {
+        break;
+      }
+      visited.add(recordOwner);
+      record = readPiiRecord(recordOwner, piiHash);
+    }
+    if (!record) {
+      throw new VaultError(404, "Vault has no record matching the owner's on-chain hash");
+    }
+    return { name: record.name, contactInfo: record.contactInfo, storedAt: record.storedAt, piiHash };
+  },
+
+  // Owners can see every request made against their record
+  "access-log": async (caller, body) => {
+    if (caller !== ethers.getAddress(body.ownerAddress)) {
+      throw new VaultError(403, "Only the owner can view their access log");
+    }
+    return { entries: getAccessLog(caller) };
+  }
+});
+
+const readBody = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+      if (data.length > 64 * 1024) {
+        reject(new VaultError(413, "Request too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(new VaultError(400, "Invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+/**
+ * Create the vault's HTTP server; landRegistry is the proxy it reads grants and piiHash commitments from
+ */
+export const createVaultServer = (landRegistry: ethers.Contract): http.Server => {
+  const handlers = createHandlers(landRegistry);
+
+  return http.createServer(async (req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", ALLOWED_ORIGIN);
+    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Content-Type", "application/json");
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const action = (req.url || "").replace(/^\//, "") as VaultAction;
+    if (req.method !== "POST" || !Object.prototype.hasOwnProperty.call(handlers, action)) {
+      res.writeHead(404).end(JSON.stringify({ error: "Not found" }));
+      return;
+    }
+
+    let caller = "";
+    let ownerAddress = "";
+    try {
+      const body = await readBody(req);
+      if (ethers.isAddress(body.ownerAddress)) {
+        ownerAddress = ethers.getAddress(body.ownerAddress);
+      }
+      caller = recoverCaller(action, body);
+
+      const result = await handlers[action](caller, body);
+      logAccess({ ownerAddress, reader: caller, action, granted: true, reason: "", timestamp: Date.now() });
+      res.writeHead(200).end(JSON.stringify(result));
+    } catch (error: any) {
+      const status = error instanceof VaultError ? error.status : 500;
+      // Refused requests are logged too, as long as we know whose record they targeted
+      if (ownerAddress) {
+        logAccess({ ownerAddress, reader: caller, action, granted: false, reason: error.message, timestamp: Date.now() });
+      }
+      if (status === 500) {
+        console.error(`❌ ${action} failed:`, error);
+      }
+      res.writeHead(status).end(JSON.stringify({ error: status === 500 ? "Vault error" : error.message }));
+    }
+  });
+};
+
+if (require.main === module) {
+  createVaultServer(getContract(new ethers.JsonRpcProvider(GANACHE_URL))).listen(PORT, () => {
+    console.log(`🔒 PII vault listening on http://127.0.0.1:${PORT}`);
+    console.log(`   Contract: ${process.env.NEXT_PUBLIC_LAND_REGISTRY_ADDRESS || "(NEXT_PUBLIC_LAND_REGISTRY_ADDRESS not set)"}`);
+  });
+}
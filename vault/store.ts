@@ -0,0 +1,142 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { VaultAccessLogEntry } from "../utils/piiVault";
+
+// Owner names and contact details, encrypted at rest with AES-256-GCM. Only piiHash goes on-chain.
+
+export interface PiiRecord {
+  name: string;
+  contactInfo: string;
+  storedAt: number;
+}
+
+interface EncryptedRecord {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+  storedAt: number;
+}
+
+interface VaultFile {
+  // owner address (lowercase) => piiHash => record; older versions stay so a failed update tx loses nothing
+  records: Record<string, Record<string, EncryptedRecord>>;
+}
+
+// Resolved on each call, like the key, so PII_VAULT_DIR can be set after this module loads
+const getVaultDir = (): string => process.env.PII_VAULT_DIR || path.join(__dirname, "..", ".vault");
+const getRecordsPath = (): string => path.join(getVaultDir(), "pii-records.json");
+const getAccessLogPath = (): string => path.join(getVaultDir(), "access-log.jsonl");
+
+const getKey = (): Buffer => {
+  const key = process.env.PII_VAULT_KEY || "";
+  if (!/^[0-9a-fA-F]{64}$/.test(key)) {
+    throw new Error("PII_VAULT_KEY must be 32 bytes of hex (64 characters)");
+  }
+  return Buffer.from(key, "hex");
+};
+
+const readVault = (): VaultFile => {
+  const recordsPath = getRecordsPath();
+  if (!fs.existsSync(recordsPath)) {
+    return { records: {} };
+  }
+  return JSON.parse(fs.readFileSync(recordsPath, "utf8"));
+};
+
+const writeVault = (vault: VaultFile) => {
+  fs.mkdirSync(getVaultDir(), { recursive: true, mode: 0o700 });
+  // Write then rename so a crash never leaves a half-written vault
+  const recordsPath = getRecordsPath();
+  const tmpPath = `${recordsPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(vault, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, recordsPath);
+};
+
+// The random nonce keeps the on-chain hash from being matched against guessed names, phone numbers or emails
+export const computePiiHash = (nonce: string, name: string, contactInfo: string): string =>
+  ethers.solidityPackedKeccak256(["bytes32", "string", "string"], [nonce, name, contactInfo]);
+
+/**
+ * Encrypt and store a new version of an owner's name and contact details; returns the hash to put on-chain
+ */
+export const storePiiRecord = (ownerAddress: string, name: string, contactInfo: string): string => {
+  const nonce = ethers.hexlify(crypto.randomBytes(32));
+  const piiHash = computePiiHash(nonce, name, contactInfo);
+  const storedAt = Date.now();
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify({ nonce, name, contactInfo }), "utf8"),
+    cipher.final()
+  ]);
+
+  const vault = readVault();
+  const owner = ownerAddress.toLowerCase();
+  vault.records[owner] = {
+    ...vault.records[owner],
+    [piiHash]: {
+      iv: iv.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+      storedAt
+    }
+  };
+  writeVault(vault);
+
+  return piiHash;
+};
+
+/**
+ * Decrypt the version of an owner's record committed to by piiHash, or null if the vault has none
+ */
+export const readPiiRecord = (ownerAddress: string, piiHash: string): PiiRecord | null => {
+  const record = readVault().records[ownerAddress.toLowerCase()]?.[piiHash];
+  if (!record) {
+    return null;
+  }
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getKey(), Buffer.from(record.iv, "hex"));
+  decipher.setAuthTag(Buffer.from(record.tag, "hex"));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(record.ciphertext, "hex")),
+    decipher.final()
+  ]).toString("utf8");
+  const { nonce, name, contactInfo } = JSON.parse(plaintext);
+
+  // Refuse records that no longer match the hash they were filed under
+  if (computePiiHash(nonce, name, contactInfo) !== piiHash) {
+    throw new Error("Vault record does not match its hash");
+  }
+
+  return { name, contactInfo, storedAt: record.storedAt };
+};
+
+/**
+ * Append an entry to the access log; every store, read and log request is recorded, allowed or not
+ */
+export const logAccess = (entry: VaultAccessLogEntry) => {
+  fs.mkdirSync(getVaultDir(), { recursive: true, mode: 0o700 });
+  fs.appendFileSync(getAccessLogPath(), `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+};
+
+/**
+ * Get the access log entries for one owner's record, newest first
+ */
+export const getAccessLog = (ownerAddress: string): VaultAccessLogEntry[] => {
+  const accessLogPath = getAccessLogPath();
+  if (!fs.existsSync(accessLogPath)) {
+    return [];
+  }
+
+  const owner = ownerAddress.toLowerCase();
+  return fs
+    .readFileSync(accessLogPath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as VaultAccessLogEntry)
+    .filter((entry) => entry.ownerAddress.toLowerCase() === owner)
+    .reverse();
+};